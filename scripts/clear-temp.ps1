@@ -162,6 +162,16 @@ if ($errors.Count -gt 0) {
 
 Write-Output ""
 Write-Output "Completed at: $(Get-Date -Format 'MM-dd-yyyy hh:mm:ss tt')"
+
+# Summary card for the app (Write-FakResult is provided by First Aid Kit Lite)
+if (Get-Command Write-FakResult -ErrorAction SilentlyContinue) {
+    $freedGB = [math]::Round($totalSpaceFreed / 1GB, 2)
+    @{
+        'Files deleted' = $totalFilesDeleted
+        'Space freed (MB)' = [math]::Round($totalSpaceFreed / 1MB, 2)
+        'Errors' = $errors.Count
+    } | Write-FakResult -Summary -Title 'Temp cleanup' -Text "Freed $freedGB GB in $($totalFilesDeleted.ToString('N0')) files"
+}
 Write-Output "Status: SUCCESS"
 
 # Return success
@@ -1435,6 +1435,9 @@ function Show-WpfBackupDialog {
                     $script:DialogState.UI.ItemProgress.Value = 0
                     $script:DialogState.UI.CurrentFileLabel.Text = "Starting..."
 
+                    # Report progress to the app (shown in the execution panel)
+                    Write-Progress -Activity "Copying $($item.Name)" -Status "Item $($idx + 1) of $($script:DialogState.TotalItems)" -PercentComplete ([Math]::Round(($idx / [Math]::Max(1, $script:DialogState.TotalItems)) * 100))
+
                     # Update status label
                     foreach ($child in $script:DialogState.UI.StatusPanel.Children) {
                         if ($child.Tag -eq $item.Name) {
@@ -1598,6 +1601,11 @@ function Show-WpfBackupDialog {
                             $metadataPath = Join-Path $script:BackupPath "BackupMetadata.json"
                             $metadata | ConvertTo-Json -Depth 10 | Set-Content -Path $metadataPath -Encoding UTF8
                             Write-Log "Metadata saved: $metadataPath" -Level Success
+
+                            # Keep a copy with the run so it shows in Run History
+                            if ($env:FAK_ARTIFACTS_DIR -and (Test-Path $env:FAK_ARTIFACTS_DIR)) {
+                                Copy-Item -Path $metadataPath -Destination $env:FAK_ARTIFACTS_DIR -ErrorAction SilentlyContinue
+                            }
                         } catch {
                             Write-Log "Failed to save metadata: $_" -Level Error
                         }
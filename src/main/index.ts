@@ -562,6 +562,20 @@ const executeScriptFromProtocol = async (scriptId: string, parameters: Record<st
     return;
   }
 
+  const compatibility = await getRequirementEvaluatorService().evaluate(scriptDef);
+  if (!compatibility.compatible) {
+    mainLogger.warn('Tool not available on this PC for protocol execution:', {
+      scriptId,
+      reasons: compatibility.reasons
+    });
+    showWindowsToast(
+      'Tool Not Available',
+      `${scriptDef.name} can't run on this PC: ${compatibility.reasons.join('; ')}`,
+      getAssetPath('fakl.png')
+    );
+    return;
+  }
+
   // Log script definition details including expected parameters
   debugLog('EXECUTE', 'Script definition loaded', {
     id: scriptDef.id,
@@ -660,73 +674,28 @@ const executeScriptFromProtocol = async (scriptId: string, parameters: Record<st
     debugLog('EXECUTE', 'Execution started', { executionId });
     mainLogger.info('Protocol script execution started:', { executionId, scriptId });
 
-    // Send initial execution started event to UI (same as normal execution)
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('script:execution:update', {
-        executionId,
-        scriptId,
-        scriptName: scriptDef.name,
-        status: 'running',
-        progress: 0
-      });
+    // Send initial execution started event to UI (queued runs are announced by the executor)
+    const target = { executionId, scriptId, scriptName: scriptDef.name };
+    if (mainWindow && !mainWindow.isDestroyed() && psExecutor.getExecutionStatus(executionId) === 'running') {
+      mainWindow.webContents.send('script:execution:update', buildStartedUpdate(target));
     }
 
-    // Set up polling to check execution status and send UI updates
-    const updateInterval = setInterval(() => {
-      if (!mainWindow || mainWindow.isDestroyed()) {
-        clearInterval(updateInterval);
-        return;
-      }
-
-      const execution = (psExecutor as any).activeExecutions?.get(executionId);
-      if (!execution) {
-        clearInterval(updateInterval);
-        return;
-      }
-
-      // Send progress update
-      const elapsed = Date.now() - execution.startTime;
-      const estimated = scriptDef.estimatedDuration || 5000;
-      const progress = Math.min(Math.floor((elapsed / estimated) * 90), 90);
-
-      mainWindow.webContents.send('script:execution:update', {
-        executionId,
-        scriptId,
-        scriptName: scriptDef.name,
-        status: 'running',
-        progress
-      });
-    }, 500);
-
-    // Set up real-time callbacks for script completion
+    // Set up real-time callbacks for output, progress and script completion
     psExecutor.setExecutionCallbacks(executionId, {
       onProgress: (output: string) => {
         if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('script:execution:update', {
-            executionId,
-            scriptId,
-            scriptName: scriptDef.name,
-            status: 'running',
-            output
-          });
+          mainWindow.webContents.send('script:execution:update', buildOutputUpdate(target, output));
+        }
+      },
+      onProgressUpdate: (progress: ScriptProgress) => {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('script:execution:update', buildProgressUpdate(target, progress));
         }
       },
       onComplete: (result) => {
-        clearInterval(updateInterval);
-
         // Send completion to UI
         if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('script:execution:update', {
-            executionId,
-            scriptId,
-            scriptName: scriptDef.name,
-            status: result.success ? 'success' : 'error',
-            progress: 100,
-            output: result.output || `Script "${scriptDef.name}" completed`,
-            error: result.error,
-            duration: result.duration,
-            exitCode: result.exitCode
-          });
+          mainWindow.webContents.send('script:execution:update', buildCompletionUpdate(target, result));
         }
 
         // Show Windows toast notification for completion
@@ -886,6 +855,39 @@ import { getPowerShellExecutorService } from './services/powershell-executor';
 import ScriptValidatorService from './services/script-validator';
 import { getSystemInfoService } from './services/system-info';
 import { initializeSignatureVerifier } from './services/signature-verifier';
+import { getSchedulerService } from './services/scheduler';
+import { getRunbookRunnerService } from './services/runbook-runner';
+import { getArtifactStoreService } from './services/artifact-store';
+import { getPreconditionEvaluatorService } from './services/precondition-evaluator';
+import { getRequirementEvaluatorService } from './services/requirement-evaluator';
+import { getSecretVaultService } from './services/secret-vault';
+import { getOutputRedactionService } from './services/output-redaction';
+import { getTranscriptStoreService } from './services/transcript-store';
+import { buildCompletionUpdate, buildOutputUpdate, buildProgressUpdate, buildStartedUpdate } from './services/execution-updates';
+import { getCatalogSyncService } from './services/catalog-sync';
+import { getScriptPackageService } from './services/script-package';
+import type {
+  CreateScheduleRequest,
+  UpdateScheduleRequest,
+  PromptResponseRequest,
+  ReorderQueueRequest,
+  StartRunbookRequest,
+  ArtifactActionRequest,
+  SetSecretRequest,
+  DeleteSecretRequest,
+  ReadTranscriptRequest,
+  RollbackCatalogScriptRequest,
+  PinCatalogScriptRequest,
+  ScriptPackageImportRequest,
+  ExportScriptPackageRequest
+} from '../shared/validation/schemas';
+import type { ScriptProgress } from '../shared/execution/progress';
+import {
+  diffParameterDefinitions,
+  getRerunParameters,
+  type RerunInfo
+} from '../shared/execution/rerun';
+import { countRedactions } from '../shared/execution/redaction';
 
 const mainLogger = createServiceLogger('main-process');
 
@@ -935,10 +937,17 @@ const initializeServices = async (): Promise<void> => {
     // Initialize script registry service
     const scriptRegistry = getScriptRegistryService();
     await scriptRegistry.waitForInitialization();
+    scriptRegistry.startWatching();
     mainLogger.info('Script registry service initialized successfully');
 
-    // Initialize PowerShell executor service
-    getPowerShellExecutorService();
+    // Remove expired artifacts and transcripts before any run starts
+    getArtifactStoreService().pruneArtifacts();
+    getTranscriptStoreService().pruneTranscripts();
+
+    // Initialize PowerShell executor service and pick up runs queued before the last exit,
+    // except steps of runbooks the exit interrupted
+    getRunbookRunnerService().recoverInterruptedRunbooks();
+    await getPowerShellExecutorService().restoreQueue();
     mainLogger.info('PowerShell executor service initialized successfully');
 
     // Initialize session management
@@ -949,6 +958,13 @@ const initializeServices = async (): Promise<void> => {
     setupIpcHandlers();
     mainLogger.info('IPC handlers setup completed');
 
+    // Start scheduler last so catch-up runs have the registry and executor available
+    getSchedulerService().start();
+    mainLogger.info('Scheduler service initialized');
+
+    // Catalog sync runs in the background; scripts it promotes reach the registry via rescan
+    getCatalogSyncService().start();
+
     mainLogger.info('All core services initialized successfully');
     
   } catch (error) {
@@ -1042,7 +1058,26 @@ const setupIpcHandlers = (): void => {
     const scriptRegistry = getScriptRegistryService();
     const scripts = scriptRegistry.getAllScripts();
     mainLogger.debug('All scripts retrieved', { count: scripts.length });
-    return scripts;
+
+    // Tools this PC can't run are listed disabled, with the reason
+    const compatibility = await getRequirementEvaluatorService().evaluateAll(scripts);
+    return scripts.map(script => ({ ...script, compatibility: compatibility.get(script.id) }));
+  });
+
+  createValidatedIpcHandler('script:rescan', async () => {
+    // Re-detect installed modules and the like along with the scripts
+    getRequirementEvaluatorService().clearFacts();
+    const changes = await getScriptRegistryService().rescan();
+    mainLogger.info('Script registry rescanned', {
+      added: changes.added.length,
+      updated: changes.updated.length,
+      removed: changes.removed.length
+    });
+    return changes;
+  });
+
+  createValidatedIpcHandler('script:get-load-report', async () => {
+    return getScriptRegistryService().getLoadReport();
   });
 
   createValidatedIpcHandler('script:get-details', async (data: { scriptId: string }) => {
@@ -1067,7 +1102,35 @@ const setupIpcHandlers = (): void => {
     };
   });
 
-  createValidatedIpcHandler('script:execute', async (data: { scriptId: string; parameters?: Record<string, any> }) => {
+  createValidatedIpcHandler('script:check-concurrency', async (data: { scriptId: string }) => {
+    const scriptDef = getScriptRegistryService().getScript(data.scriptId);
+    if (!scriptDef) {
+      throw new Error(`Script not found: ${data.scriptId}`);
+    }
+
+    // null when the script could start right away
+    return getPowerShellExecutorService().checkConcurrency(scriptDef);
+  });
+
+  createValidatedIpcHandler('script:check-preconditions', async (data: { scriptId: string }) => {
+    const scriptDef = getScriptRegistryService().getScript(data.scriptId);
+    if (!scriptDef) {
+      throw new Error(`Script not found: ${data.scriptId}`);
+    }
+
+    // null when the script declares no preconditions
+    if (!scriptDef.preconditions?.length) {
+      return null;
+    }
+    return getPreconditionEvaluatorService().evaluate(scriptDef.preconditions);
+  });
+
+  createValidatedIpcHandler('script:execute', async (data: {
+    scriptId: string;
+    parameters?: Record<string, any>;
+    dryRun?: boolean;
+    waitForPreconditions?: boolean;
+  }) => {
     const scriptRegistry = getScriptRegistryService();
     const psExecutor = getPowerShellExecutorService();
 
@@ -1087,84 +1150,45 @@ const setupIpcHandlers = (): void => {
       parameters: data.parameters,
       validationResult,
       requestId: '', // Will be generated by executor
-      source: 'manual' as const
+      source: 'manual' as const,
+      dryRun: data.dryRun,
+      waitForPreconditions: data.waitForPreconditions
     };
 
     // Execute script and get the execution ID immediately
     const executionId = await psExecutor.executeScript(executionRequest);
 
-    // Send initial execution started event
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.webContents.send('script:execution:update', {
-        executionId,
-        scriptId: data.scriptId,
-        status: 'running',
-        progress: 0
-      });
+    // Send initial execution started event (queued runs are announced by the executor)
+    const target = { executionId, scriptId: data.scriptId, scriptName: scriptDef.name };
+    if (mainWindow && !mainWindow.isDestroyed() && psExecutor.getExecutionStatus(executionId) === 'running') {
+      mainWindow.webContents.send('script:execution:update', buildStartedUpdate(target));
     }
 
     mainLogger.info('Script execution initiated', {
       scriptId: data.scriptId,
       executionId,
-      hasParameters: !!data.parameters
+      hasParameters: !!data.parameters,
+      dryRun: !!data.dryRun
     });
 
-    // Set up polling to check execution status and send updates
-    const updateInterval = setInterval(() => {
-      if (!mainWindow || mainWindow.isDestroyed()) {
-        clearInterval(updateInterval);
-        return;
-      }
-
-      const execution = (psExecutor as any).activeExecutions?.get(executionId);
-      if (!execution) {
-        // Execution completed or not found, stop polling
-        clearInterval(updateInterval);
-        return;
-      }
-
-      // Send progress update (we'll estimate progress based on elapsed time)
-      const elapsed = Date.now() - execution.startTime;
-      const estimated = scriptDef.estimatedDuration || 5000;
-      const progress = Math.min(Math.floor((elapsed / estimated) * 90), 90); // Cap at 90% until complete
-
-      mainWindow.webContents.send('script:execution:update', {
-        executionId,
-        scriptId: data.scriptId,
-        status: 'running',
-        progress
-      });
-    }, 500);
-
-    // Set up real-time callbacks for script completion with actual output
+    // Set up real-time callbacks for output, reported progress and completion
     psExecutor.setExecutionCallbacks(executionId, {
       onProgress: (output: string) => {
         // Stream output to renderer in real-time
         if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('script:execution:update', {
-            executionId,
-            scriptId: data.scriptId,
-            status: 'running',
-            output: output
-          });
+          mainWindow.webContents.send('script:execution:update', buildOutputUpdate(target, output));
+        }
+      },
+      onProgressUpdate: (progress: ScriptProgress) => {
+        // Forward progress the script reported via Write-Progress or the stdout marker
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('script:execution:update', buildProgressUpdate(target, progress));
         }
       },
       onComplete: (result) => {
-        // Stop polling
-        clearInterval(updateInterval);
-
         // Send actual completion result with real output
         if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('script:execution:update', {
-            executionId,
-            scriptId: data.scriptId,
-            status: result.success ? 'success' : 'error',
-            progress: 100,
-            output: result.output || `Script "${scriptDef.name}" completed`,
-            error: result.error,
-            duration: result.duration,
-            exitCode: result.exitCode
-          });
+          mainWindow.webContents.send('script:execution:update', buildCompletionUpdate(target, result));
         }
 
         mainLogger.info('Script execution completed with real output', {
@@ -1191,6 +1215,42 @@ const setupIpcHandlers = (): void => {
     return { success };
   });
 
+  createValidatedIpcHandler('script:prompt-response', async (data: PromptResponseRequest) => {
+    const psExecutor = getPowerShellExecutorService();
+    const { executionId, ...response } = data;
+    const success = psExecutor.respondToPrompt(executionId, response);
+
+    if (!success) {
+      throw new Error('The tool is no longer waiting for this answer');
+    }
+
+    return { success };
+  });
+
+  // Execution queue management
+  createValidatedIpcHandler('queue:list', async () => {
+    return getPowerShellExecutorService().getQueue();
+  });
+
+  createValidatedIpcHandler('queue:reorder', async (data: ReorderQueueRequest) => {
+    const psExecutor = getPowerShellExecutorService();
+    if (!psExecutor.moveQueuedExecution(data.executionId, data.position)) {
+      throw new Error('Execution is no longer queued');
+    }
+    return psExecutor.getQueue();
+  });
+
+  createValidatedIpcHandler('queue:cancel', async (data: { executionId: string }) => {
+    const psExecutor = getPowerShellExecutorService();
+    if (psExecutor.getExecutionStatus(data.executionId) !== 'pending') {
+      throw new Error('Execution is no longer queued');
+    }
+
+    const success = psExecutor.cancelExecution(data.executionId, 'user_request');
+    mainLogger.info('Queued execution cancellation requested', { executionId: data.executionId, success });
+    return { success };
+  });
+
   createValidatedIpcHandler('log:get', async (filters?: any) => {
     if (!isDatabaseAvailable()) {
       mainLogger.warn('Logs requested but database unavailable');
@@ -1213,7 +1273,8 @@ const setupIpcHandlers = (): void => {
       return { total: 0, successful: 0, failed: 0, available: false };
     }
     const db = getDatabaseService();
-    const logs = db.getExecutionLogs(10000, 0); // Get all logs for stats
+    // Get all logs for stats; previews don't count as successes or failures
+    const logs = db.getExecutionLogs(10000, 0).filter(l => !l.is_preview);
 
     const stats = {
       total: logs.length,
@@ -1226,6 +1287,45 @@ const setupIpcHandlers = (): void => {
     return stats;
   });
 
+  createValidatedIpcHandler('log:rerun-info', async (data: { executionId: string }): Promise<RerunInfo> => {
+    if (!isDatabaseAvailable()) {
+      throw new Error('Run history is not available');
+    }
+    const log = getDatabaseService().getExecutionLog(data.executionId);
+    if (!log) {
+      throw new Error(`Run not found: ${data.executionId}`);
+    }
+
+    const scriptDef = getScriptRegistryService().getScript(log.script_id);
+    if (!scriptDef) {
+      throw new Error(`"${log.script_name}" is no longer available`);
+    }
+
+    let parameters: Record<string, any> = {};
+    try {
+      parameters = log.parameters ? JSON.parse(log.parameters) : {};
+    } catch {
+      mainLogger.warn('Stored run parameters are not valid JSON', { executionId: log.id });
+    }
+
+    // Runs from before snapshots were recorded can't be compared
+    const hasSnapshot = log.parameter_definitions != null;
+    const parameterChanges = hasSnapshot
+      ? diffParameterDefinitions(JSON.parse(log.parameter_definitions!), scriptDef.parameters ?? [])
+      : [];
+
+    mainLogger.debug('Rerun info retrieved', { executionId: log.id, changes: parameterChanges.length });
+
+    return {
+      executionId: log.id,
+      scriptId: scriptDef.id,
+      scriptName: scriptDef.name,
+      parameters: getRerunParameters(parameters, parameterChanges),
+      scriptChanged: hasSnapshot && log.script_hash ? log.script_hash !== scriptDef.hash : null,
+      parameterChanges
+    };
+  });
+
   createValidatedIpcHandler('log:clear', async () => {
     if (!isDatabaseAvailable()) {
       mainLogger.warn('Clear logs requested but database unavailable');
@@ -1233,6 +1333,9 @@ const setupIpcHandlers = (): void => {
     }
     const db = getDatabaseService();
     const cleared = db.clearCompletedLogs();
+    const activeExecutionIds = getPowerShellExecutorService().getActiveExecutions().map(execution => execution.id);
+    getArtifactStoreService().pruneArtifacts(activeExecutionIds);
+    getTranscriptStoreService().pruneTranscripts(activeExecutionIds);
 
     mainLogger.info('Cleared completed execution logs', { cleared });
     return { success: true, cleared };
@@ -1262,6 +1365,10 @@ const setupIpcHandlers = (): void => {
         mainLogger.info('Database directory deleted', { path: dbPath });
       }
 
+      getArtifactStoreService().clearAll();
+      getTranscriptStoreService().clearAll();
+      mainLogger.info('Execution artifacts and transcripts deleted');
+
       // Reinitialize database (this will recreate the directory and tables)
       const db = getDatabaseService();
       db.reinitialize();
@@ -1280,13 +1387,23 @@ const setupIpcHandlers = (): void => {
       return data.format === 'json' ? '[]' : 'No data available - database unavailable';
     }
     const db = getDatabaseService();
-    const logs = db.getExecutionLogs(1000, 0); // Get more logs for export
+    // Redacted again on the way out - runs stored before redaction was enabled, or with different rules
+    const registry = getScriptRegistryService();
+    const redactionService = getOutputRedactionService();
+    const logs = db.getExecutionLogs(1000, 0).map(log => { // Get more logs for export
+      const redactor = redactionService.getRedactor(registry.getScript(log.script_id) ?? undefined);
+      return {
+        ...log,
+        output: log.output ? redactor.redact(log.output).text : log.output,
+        error: log.error ? redactor.redact(log.error).text : log.error
+      };
+    });
     
     let exportData: string;
     
     if (data.format === 'csv') {
       // Convert to CSV format
-      const headers = ['ID', 'Timestamp', 'Script ID', 'Script Name', 'Status', 'Duration', 'Exit Code', 'Output', 'Error'];
+      const headers = ['ID', 'Timestamp', 'Script ID', 'Script Name', 'Status', 'Duration', 'Exit Code', 'Peak Memory (MB)', 'Avg CPU (%)', 'Redactions', 'Output', 'Error'];
       const csvRows = [headers.join(',')];
       
       for (const log of logs) {
@@ -1298,6 +1415,9 @@ const setupIpcHandlers = (): void => {
           log.status,
           log.duration || '',
           log.exit_code || '',
+          log.max_memory_mb ?? '',
+          log.avg_cpu_percent ?? '',
+          log.redaction_counts ? countRedactions(JSON.parse(log.redaction_counts)) : '',
           `"${(log.output || '').replace(/"/g, '""').substring(0, 100)}"`,
           `"${(log.error || '').replace(/"/g, '""').substring(0, 100)}"`
         ];
@@ -1406,6 +1526,162 @@ const setupIpcHandlers = (): void => {
     db.setSetting('favorites', favorites);
     return { success: true, isFavorite, favorites };
   });
+
+  // Schedule handlers
+  createValidatedIpcHandler('schedule:list', async () => {
+    if (!isDatabaseAvailable()) {
+      mainLogger.warn('Schedules requested but database unavailable');
+      return [];
+    }
+    return getSchedulerService().listSchedules();
+  });
+
+  createValidatedIpcHandler('schedule:create', async (data: CreateScheduleRequest) => {
+    if (!isDatabaseAvailable()) {
+      throw new Error('Schedules require the database, which is unavailable');
+    }
+    return getSchedulerService().createSchedule(data);
+  });
+
+  createValidatedIpcHandler('schedule:update', async (data: UpdateScheduleRequest) => {
+    if (!isDatabaseAvailable()) {
+      throw new Error('Schedules require the database, which is unavailable');
+    }
+    return getSchedulerService().updateSchedule(data);
+  });
+
+  createValidatedIpcHandler('schedule:delete', async (data: { id: string }) => {
+    if (!isDatabaseAvailable()) {
+      mainLogger.warn('Schedule delete requested but database unavailable');
+      return { success: false };
+    }
+    const success = getSchedulerService().deleteSchedule(data.id);
+    return { success };
+  });
+
+  // Runbook handlers
+  createValidatedIpcHandler('runbook:list', async () => {
+    const scriptRegistry = getScriptRegistryService();
+    return scriptRegistry.getAllRunbooks().map(({ filePath, ...runbook }) => ({
+      ...runbook,
+      steps: runbook.steps.map(step => ({
+        ...step,
+        name: step.name || scriptRegistry.getScript(step.scriptId)?.name || step.scriptId
+      }))
+    }));
+  });
+
+  createValidatedIpcHandler('runbook:executions', async () => {
+    return getRunbookRunnerService().getRunbookExecutions();
+  });
+
+  createValidatedIpcHandler('runbook:start', async (data: StartRunbookRequest) => {
+    const executionId = await getRunbookRunnerService().startRunbook(data.runbookId, 'manual');
+    mainLogger.info('Runbook execution initiated', { runbookId: data.runbookId, executionId });
+    return { executionId };
+  });
+
+  createValidatedIpcHandler('runbook:cancel', async (data: { executionId: string }) => {
+    const success = getRunbookRunnerService().cancelRunbook(data.executionId);
+    mainLogger.info('Runbook cancellation requested', { executionId: data.executionId, success });
+    return { success };
+  });
+
+  // Execution artifact handlers
+  createValidatedIpcHandler('artifact:list', async (data: { executionId: string }) => {
+    if (!isDatabaseAvailable()) {
+      return [];
+    }
+    return getArtifactStoreService().getArtifacts(data.executionId);
+  });
+
+  createValidatedIpcHandler('artifact:open', async (data: ArtifactActionRequest) => {
+    await getArtifactStoreService().openArtifact(data.artifactId);
+    mainLogger.info('Artifact opened', { artifactId: data.artifactId });
+    return { success: true };
+  });
+
+  createValidatedIpcHandler('artifact:save', async (data: ArtifactActionRequest) => {
+    const saved = await getArtifactStoreService().saveArtifactAs(data.artifactId);
+    return { success: saved };
+  });
+
+  createValidatedIpcHandler('artifact:reveal', async (data: ArtifactActionRequest) => {
+    getArtifactStoreService().revealArtifact(data.artifactId);
+    return { success: true };
+  });
+
+  // Execution transcript handlers - full output, read a page at a time
+  createValidatedIpcHandler('transcript:read', async (data: ReadTranscriptRequest) => {
+    if (!isDatabaseAvailable()) {
+      return null;
+    }
+    const { executionId, ...query } = data;
+    return getTranscriptStoreService().read(executionId, query);
+  });
+
+  createValidatedIpcHandler('transcript:save', async (data: { executionId: string }) => {
+    const saved = await getTranscriptStoreService().saveAs(data.executionId);
+    return { success: saved };
+  });
+
+  // Script catalog administration
+  createValidatedIpcHandler('catalog:status', async () => {
+    return getCatalogSyncService().getStatus();
+  });
+
+  createValidatedIpcHandler('catalog:sync', async () => {
+    const result = await getCatalogSyncService().sync();
+    mainLogger.info('Catalog sync requested', { changed: result.steps.length, failed: result.failures.length });
+    return result;
+  });
+
+  createValidatedIpcHandler('catalog:rollback', async (data: RollbackCatalogScriptRequest) => {
+    await getCatalogSyncService().rollback(data.scriptId, data.version);
+    return { success: true };
+  });
+
+  createValidatedIpcHandler('catalog:pin', async (data: PinCatalogScriptRequest) => {
+    getCatalogSyncService().setPinned(data.scriptId, data.pinned);
+    return { success: true };
+  });
+
+  // Script packages (.fakpkg) - import is checked first, then installed on confirmation
+  createValidatedIpcHandler('package:inspect', async () => {
+    return getScriptPackageService().inspectPackage();
+  });
+
+  createValidatedIpcHandler('package:install', async (data: ScriptPackageImportRequest) => {
+    return getScriptPackageService().installPackage(data.importId);
+  });
+
+  createValidatedIpcHandler('package:cancel', async (data: ScriptPackageImportRequest) => {
+    getScriptPackageService().cancelImport(data.importId);
+    return { success: true };
+  });
+
+  createValidatedIpcHandler('package:export', async (data: ExportScriptPackageRequest) => {
+    const saved = await getScriptPackageService().exportPackage(data.scriptId);
+    return { success: saved };
+  });
+
+  // Secret vault administration - values go in but never come back out
+  createValidatedIpcHandler('secret:list', async () => {
+    const vault = getSecretVaultService();
+    return { available: vault.isAvailable(), secrets: vault.list() };
+  });
+
+  createValidatedIpcHandler('secret:set', async (data: SetSecretRequest) => {
+    getSecretVaultService().set(data.name, data.value, data.description);
+    mainLogger.info('Vault entry saved', { name: data.name });
+    return { success: true };
+  });
+
+  createValidatedIpcHandler('secret:delete', async (data: DeleteSecretRequest) => {
+    const success = getSecretVaultService().delete(data.name);
+    mainLogger.info('Vault entry deleted', { name: data.name, success });
+    return { success };
+  });
 };
 
 console.log('First Aid Kit main process initialized');
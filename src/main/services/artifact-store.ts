@@ -0,0 +1,248 @@
+import { app, BrowserWindow, dialog, shell } from 'electron';
+import { join, relative, resolve, sep, basename } from 'path';
+import { copyFileSync, existsSync, lstatSync, mkdirSync, readdirSync, realpathSync, rmSync } from 'fs';
+import { createServiceLogger, securityLogger } from './logger';
+import { getDatabaseService } from './database';
+import type { ArtifactRecord } from './database';
+import {
+  MAX_ARTIFACTS_PER_EXECUTION,
+  canOpenArtifact,
+  type ExecutionArtifact
+} from '../../shared/execution/artifacts';
+
+const logger = createServiceLogger('artifact-store');
+
+// Used when logRetentionDays hasn't been set
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Per-run artifacts directories under userData/artifacts/<executionId>, and the index of
+ * files found in them when each run ends.
+ */
+class ArtifactStoreService {
+  private artifactsRoot: string;
+
+  constructor() {
+    this.artifactsRoot = join(app.getPath('userData'), 'artifacts');
+  }
+
+  public getDirectory(executionId: string): string {
+    return join(this.artifactsRoot, executionId);
+  }
+
+  /**
+   * Create the artifacts directory for a run about to start.
+   */
+  public createDirectory(executionId: string): string {
+    const directory = this.getDirectory(executionId);
+    mkdirSync(directory, { recursive: true });
+    return directory;
+  }
+
+  /**
+   * Index the files a finished run left in its artifacts directory. Empty directories are removed.
+   */
+  public collect(executionId: string): number {
+    const directory = this.getDirectory(executionId);
+    if (!existsSync(directory)) return 0;
+
+    const records: ArtifactRecord[] = [];
+    try {
+      this.scan(directory, directory, executionId, records);
+    } catch (error) {
+      logger.warn('Failed to scan artifacts directory', {
+        executionId,
+        error: (error as Error).message
+      });
+    }
+
+    if (records.length === 0) {
+      this.removeDirectory(executionId);
+      return 0;
+    }
+
+    try {
+      getDatabaseService().insertArtifacts(records);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping artifact index', { executionId });
+    }
+
+    logger.info('Collected execution artifacts', { executionId, count: records.length });
+    return records.length;
+  }
+
+  public getArtifacts(executionId: string): ExecutionArtifact[] {
+    return getDatabaseService().getArtifacts(executionId).map(toExecutionArtifact);
+  }
+
+  public async openArtifact(artifactId: number): Promise<void> {
+    const { record, filePath } = this.resolveArtifact(artifactId);
+    if (!canOpenArtifact(record.relative_path)) {
+      securityLogger.warn('Blocked opening artifact of a type that is not known to be safe', {
+        executionId: record.execution_id,
+        relativePath: record.relative_path
+      });
+      throw new Error('This file type cannot be opened from the app. Use Save As or Show in Folder.');
+    }
+
+    const error = await shell.openPath(filePath);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  /**
+   * Copy an artifact to a location chosen by the user. Returns false if the dialog was cancelled.
+   */
+  public async saveArtifactAs(artifactId: number): Promise<boolean> {
+    const { filePath } = this.resolveArtifact(artifactId);
+    const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+    const options = { defaultPath: join(app.getPath('downloads'), basename(filePath)) };
+
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return false;
+    }
+
+    copyFileSync(filePath, result.filePath);
+    logger.info('Artifact saved', { artifactId, destination: result.filePath });
+    return true;
+  }
+
+  public revealArtifact(artifactId: number): void {
+    const { filePath } = this.resolveArtifact(artifactId);
+    shell.showItemInFolder(filePath);
+  }
+
+  /**
+   * Delete artifacts older than the log retention setting, and directories of runs whose
+   * logs were cleared. Directories of runs in keepExecutionIds (still running) are kept.
+   */
+  public pruneArtifacts(keepExecutionIds: string[] = []): void {
+    if (!existsSync(this.artifactsRoot)) return;
+
+    let indexed: Set<string>;
+    try {
+      const db = getDatabaseService();
+      const retentionDays = db.getSetting<number>('logRetentionDays', DEFAULT_RETENTION_DAYS) ?? DEFAULT_RETENTION_DAYS;
+      indexed = new Set(db.pruneArtifacts(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping artifact cleanup');
+      return;
+    }
+
+    const keep = new Set(keepExecutionIds);
+    let removed = 0;
+    for (const executionId of readdirSync(this.artifactsRoot)) {
+      if (!indexed.has(executionId) && !keep.has(executionId)) {
+        this.removeDirectory(executionId);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('Removed expired artifact directories', { removed });
+    }
+  }
+
+  /**
+   * Remove every artifact directory (used when all app data is cleared).
+   */
+  public clearAll(): void {
+    rmSync(this.artifactsRoot, { recursive: true, force: true });
+  }
+
+  private scan(root: string, directory: string, executionId: string, records: ArtifactRecord[]): void {
+    for (const name of readdirSync(directory)) {
+      if (records.length >= MAX_ARTIFACTS_PER_EXECUTION) {
+        logger.warn('Artifact limit reached - remaining files not indexed', {
+          executionId,
+          limit: MAX_ARTIFACTS_PER_EXECUTION
+        });
+        return;
+      }
+
+      const fullPath = join(directory, name);
+      const stat = lstatSync(fullPath);
+
+      // Links could point anywhere on disk; only real files and folders are indexed
+      if (stat.isSymbolicLink()) continue;
+
+      if (stat.isDirectory()) {
+        this.scan(root, fullPath, executionId, records);
+      } else if (stat.isFile()) {
+        records.push({
+          execution_id: executionId,
+          relative_path: relative(root, fullPath).split(sep).join('/'),
+          size_bytes: stat.size,
+          modified_at: stat.mtime.getTime(),
+        });
+      }
+    }
+  }
+
+  private resolveArtifact(artifactId: number): { record: ArtifactRecord; filePath: string } {
+    const record = getDatabaseService().getArtifact(artifactId);
+    if (!record) {
+      throw new Error('Artifact not found');
+    }
+
+    const directory = this.getDirectory(record.execution_id);
+    const filePath = resolve(directory, ...record.relative_path.split('/'));
+    if (!filePath.startsWith(directory + sep)) {
+      throw new Error('Invalid artifact path');
+    }
+    if (!existsSync(filePath)) {
+      throw new Error('Artifact file no longer exists');
+    }
+
+    // A process the script left behind may have swapped the file, or a folder above it, for a
+    // link since it was indexed - so check what is on disk now, not just the path
+    const realDirectory = realpathSync(directory);
+    if (!lstatSync(filePath).isFile() || !realpathSync(filePath).startsWith(realDirectory + sep)) {
+      securityLogger.warn('Artifact is no longer a file inside its run folder', {
+        artifactId,
+        executionId: record.execution_id,
+        relativePath: record.relative_path
+      });
+      throw new Error('Invalid artifact path');
+    }
+
+    return { record, filePath };
+  }
+
+  private removeDirectory(executionId: string): void {
+    try {
+      rmSync(this.getDirectory(executionId), { recursive: true, force: true });
+    } catch (error) {
+      logger.warn('Failed to remove artifacts directory', {
+        executionId,
+        error: (error as Error).message
+      });
+    }
+  }
+}
+
+function toExecutionArtifact(record: ArtifactRecord): ExecutionArtifact {
+  return {
+    id: record.id!,
+    executionId: record.execution_id,
+    relativePath: record.relative_path,
+    sizeBytes: record.size_bytes,
+    modifiedAt: record.modified_at,
+  };
+}
+
+// Create and export singleton instance
+let artifactStoreService: ArtifactStoreService | null = null;
+
+export const getArtifactStoreService = (): ArtifactStoreService => {
+  if (!artifactStoreService) {
+    artifactStoreService = new ArtifactStoreService();
+  }
+  return artifactStoreService;
+};
+
+export default getArtifactStoreService;
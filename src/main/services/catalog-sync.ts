@@ -0,0 +1,523 @@
+import { app, net } from 'electron';
+import { join, extname, basename } from 'path';
+import { cpSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { createHash, createPublicKey, randomUUID, verify } from 'crypto';
+import { createServiceLogger, securityLogger } from './logger';
+import { getDatabaseService } from './database';
+import type { CatalogScriptRecord } from './database';
+import { getScriptRegistryService } from './script-registry';
+import {
+  CatalogManifestSchema,
+  validateAndSanitize,
+  type CatalogEntry,
+  type CatalogFile
+} from '../../shared/validation/schemas';
+import { RUNTIME_EXTENSIONS } from '../../shared/execution/runtime';
+import { isCleanupScriptFile } from '../../shared/execution/cancellation';
+import {
+  CATALOG_MANIFEST_FILE,
+  CATALOG_SIGNATURE_FILE,
+  CATALOG_SYNC_INTERVAL_MS,
+  DEFAULT_CATALOG_KEEP_VERSIONS,
+  checkManifestFreshness,
+  isCatalogUrl,
+  planCatalogSync,
+  selectVersionsToPrune,
+  type CatalogAction,
+  type CatalogChange,
+  type CatalogManifestMark,
+  type CatalogScriptInfo,
+  type CatalogStatus,
+  type CatalogSyncResult,
+  type CatalogSyncStep
+} from '../../shared/catalog/catalog';
+
+const logger = createServiceLogger('catalog-sync');
+
+// Same limit the script registry applies to script files
+const MAX_CATALOG_FILE_SIZE = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 30000;
+const CHANGE_LOG_LIMIT = 50;
+const LAST_MANIFEST_SETTING = 'catalogLastManifest';
+
+/**
+ * Syncs scripts from the central catalog (see shared/catalog/catalog.ts): checks the manifest
+ * signature, downloads and verifies new versions, promotes them into the scripts directory and
+ * keeps the last few versions of each script for rollback. Every change goes to the audit log
+ * as a catalog_change event.
+ */
+class CatalogSyncService {
+  private catalogRoot: string;
+  private versionsRoot: string;
+  private stagingRoot: string;
+  private installRoot: string;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private currentSync: Promise<CatalogSyncResult> | null = null;
+  private lastSyncAt: number | null = null;
+  private lastSyncError: string | null = null;
+
+  constructor() {
+    this.catalogRoot = join(app.getPath('userData'), 'catalog');
+    this.versionsRoot = join(this.catalogRoot, 'versions');
+    this.stagingRoot = join(this.catalogRoot, 'staging');
+    // Inside the registry's scripts directory, so promoted versions are picked up by its watcher
+    this.installRoot = join(getScriptRegistryService().getScriptsDirectory(), 'catalog');
+  }
+
+  /**
+   * Sync now and then every hour, while a catalog is configured.
+   */
+  public start(): void {
+    if (this.syncTimer) return;
+
+    const syncIfConfigured = () => {
+      if (!this.getConfiguration()) return;
+      this.sync().catch(() => {
+        // Logged and kept in lastSyncError by sync()
+      });
+    };
+
+    this.syncTimer = setInterval(syncIfConfigured, CATALOG_SYNC_INTERVAL_MS);
+    syncIfConfigured();
+    logger.info('Catalog sync started', { intervalMs: CATALOG_SYNC_INTERVAL_MS });
+  }
+
+  public stop(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  public getStatus(): CatalogStatus {
+    const db = getDatabaseService();
+    const versions = db.getCatalogVersions();
+
+    const scripts: CatalogScriptInfo[] = db.getCatalogScripts().map(record => ({
+      scriptId: record.script_id,
+      activeVersion: record.active_version,
+      pinnedVersion: record.pinned_version,
+      versions: versions
+        .filter(version => version.script_id === record.script_id)
+        .map(version => ({ version: version.version, installedAt: version.installed_at })),
+      updatedAt: record.updated_at
+    }));
+
+    const changes: CatalogChange[] = db.getAuditLogsByType('catalog_change', CHANGE_LOG_LIMIT).map(entry => {
+      const details = entry.details ? JSON.parse(entry.details) : {};
+      return {
+        timestamp: entry.timestamp,
+        scriptId: entry.resource,
+        action: entry.user_action as CatalogAction,
+        fromVersion: details.fromVersion,
+        toVersion: details.toVersion,
+        error: details.error
+      };
+    });
+
+    return {
+      source: db.getSetting<string>('catalogSource') || null,
+      configured: this.getConfiguration() !== null,
+      syncing: this.currentSync !== null,
+      lastSyncAt: this.lastSyncAt,
+      lastSyncError: this.lastSyncError,
+      scripts,
+      changes
+    };
+  }
+
+  /**
+   * Bring installed scripts in line with the catalog. A sync already in progress is joined
+   * rather than started twice.
+   */
+  public sync(): Promise<CatalogSyncResult> {
+    if (!this.currentSync) {
+      this.currentSync = this.runSync()
+        .then((result) => {
+          this.lastSyncError = result.failures.length > 0
+            ? `${result.failures.length} script(s) could not be updated`
+            : null;
+          return result;
+        })
+        .catch((error) => {
+          this.lastSyncError = (error as Error).message;
+          logger.error('Catalog sync failed', { error: (error as Error).message });
+          throw error;
+        })
+        .finally(() => {
+          this.lastSyncAt = Date.now();
+          this.currentSync = null;
+        });
+    }
+    return this.currentSync;
+  }
+
+  /**
+   * Make a kept version active again and pin the script to it, so syncs don't undo the
+   * rollback until the script is unpinned.
+   */
+  public async rollback(scriptId: string, version: string): Promise<void> {
+    const db = getDatabaseService();
+    const current = this.getInstalledScript(scriptId);
+    const kept = db.getCatalogVersions().find(record => record.script_id === scriptId && record.version === version);
+    if (!kept) {
+      throw new Error(`Version ${version} of ${scriptId} is not kept on this PC`);
+    }
+
+    const versionDir = this.getVersionDirectory(scriptId, version);
+    if (!this.hasVerifiedFiles(versionDir, JSON.parse(kept.files))) {
+      throw new Error(`The kept files of ${scriptId} ${version} have changed since they were downloaded`);
+    }
+
+    this.promote(scriptId, version);
+    db.upsertCatalogScript({
+      script_id: scriptId,
+      active_version: version,
+      pinned_version: version,
+      updated_at: Date.now()
+    });
+    this.logChange('rollback', scriptId, { fromVersion: current?.active_version ?? undefined, toVersion: version });
+
+    await getScriptRegistryService().rescan();
+  }
+
+  /**
+   * Pin a script to its active version, or let the catalog update it again.
+   */
+  public setPinned(scriptId: string, pinned: boolean): void {
+    const current = this.getInstalledScript(scriptId);
+    if (!current?.active_version) {
+      throw new Error(`${scriptId} is not installed from the catalog`);
+    }
+
+    getDatabaseService().upsertCatalogScript({
+      ...current,
+      pinned_version: pinned ? current.active_version : null,
+      updated_at: Date.now()
+    });
+    this.logChange(pinned ? 'pin' : 'unpin', scriptId, { toVersion: current.active_version });
+  }
+
+  private async runSync(): Promise<CatalogSyncResult> {
+    const configuration = this.getConfiguration();
+    if (!configuration) {
+      throw new Error('No catalog location and signing key configured');
+    }
+    const { source, publicKey } = configuration;
+
+    const [manifestData, signature] = await Promise.all([
+      this.readSourceFile(source, [CATALOG_MANIFEST_FILE]),
+      this.readSourceFile(source, [CATALOG_SIGNATURE_FILE])
+    ]);
+
+    if (!isSignatureValid(manifestData, signature, publicKey)) {
+      this.logChange('rejected', 'catalog', { error: 'Manifest signature is not valid', source });
+      throw new Error('The catalog manifest signature is not valid');
+    }
+
+    let manifestJson: unknown;
+    try {
+      manifestJson = JSON.parse(manifestData.toString('utf8'));
+    } catch {
+      throw new Error('The catalog manifest is not valid JSON');
+    }
+    const validation = validateAndSanitize(CatalogManifestSchema, manifestJson);
+    if (!validation.success) {
+      throw new Error(`The catalog manifest is invalid: ${validation.error}`);
+    }
+    const manifest = validation.data;
+
+    const db = getDatabaseService();
+    const replayError = checkManifestFreshness(source, manifest.publishedAt, db.getSetting<CatalogManifestMark>(LAST_MANIFEST_SETTING));
+    if (replayError) {
+      this.logChange('rejected', 'catalog', { error: replayError, source });
+      throw new Error(replayError);
+    }
+    db.setSetting<CatalogManifestMark>(LAST_MANIFEST_SETTING, { source, publishedAt: manifest.publishedAt });
+
+    const installed = db.getCatalogScripts();
+    const steps = planCatalogSync(manifest, installed.map(record => ({
+      scriptId: record.script_id,
+      activeVersion: record.active_version,
+      pinnedVersion: record.pinned_version
+    })));
+
+    const result: CatalogSyncResult = { steps: [], failures: [] };
+    for (const step of steps) {
+      try {
+        if (step.action === 'remove') {
+          this.removeInstalled(step);
+        } else {
+          const entry = manifest.scripts.find(script => script.id === step.scriptId)!;
+          await this.download(source, entry);
+          this.promote(entry.id, entry.version);
+          db.upsertCatalogScript({
+            script_id: entry.id,
+            active_version: entry.version,
+            pinned_version: null,
+            updated_at: Date.now()
+          });
+          this.logChange(step.action, step.scriptId, { fromVersion: step.fromVersion, toVersion: step.toVersion });
+        }
+        result.steps.push(step);
+      } catch (error) {
+        const message = (error as Error).message;
+        result.failures.push({ scriptId: step.scriptId, error: message });
+        this.logChange('failed', step.scriptId, { fromVersion: step.fromVersion, toVersion: step.toVersion, error: message });
+      }
+      this.pruneVersions(step.scriptId);
+    }
+
+    if (result.steps.length > 0) {
+      await getScriptRegistryService().rescan();
+    }
+
+    logger.info('Catalog synced', {
+      source,
+      scripts: manifest.scripts.length,
+      changed: result.steps.length,
+      failed: result.failures.length
+    });
+    return result;
+  }
+
+  /**
+   * Download a version into staging, check it, and move it to the kept versions. A version
+   * that is already kept and unchanged isn't downloaded again.
+   */
+  private async download(source: string, entry: CatalogEntry): Promise<void> {
+    const versionDir = this.getVersionDirectory(entry.id, entry.version);
+    if (!this.hasVerifiedFiles(versionDir, entry.files)) {
+      const stagingDir = join(this.stagingRoot, `${entry.id}-${randomUUID()}`);
+      mkdirSync(stagingDir, { recursive: true });
+
+      try {
+        for (const file of entry.files) {
+          const data = await this.readSourceFile(source, [entry.id, entry.version, file.name]);
+          if (sha256(data) !== file.sha256.toLowerCase()) {
+            throw new Error(`${file.name} does not match the hash in the catalog`);
+          }
+          writeFileSync(join(stagingDir, file.name), data);
+        }
+        this.checkScriptFiles(entry, stagingDir);
+
+        rmSync(versionDir, { recursive: true, force: true });
+        mkdirSync(join(this.versionsRoot, entry.id), { recursive: true });
+        renameSync(stagingDir, versionDir);
+      } finally {
+        rmSync(stagingDir, { recursive: true, force: true });
+      }
+    }
+
+    getDatabaseService().insertCatalogVersion({
+      script_id: entry.id,
+      version: entry.version,
+      files: JSON.stringify(entry.files),
+      installed_at: Date.now()
+    });
+  }
+
+  /**
+   * A version has to be a tool the registry will load under the catalog's ID: a script
+   * file and its JSON metadata naming the same ID.
+   */
+  private checkScriptFiles(entry: CatalogEntry, directory: string): void {
+    const scripts = entry.files.filter(file =>
+      RUNTIME_EXTENSIONS[extname(file.name).toLowerCase()] && !isCleanupScriptFile(file.name)
+    );
+    if (scripts.length !== 1) {
+      throw new Error(`${entry.id} ${entry.version} must contain exactly one script`);
+    }
+
+    const metadataName = basename(scripts[0].name, extname(scripts[0].name)) + '.json';
+    const metadataPath = join(directory, metadataName);
+    if (!existsSync(metadataPath)) {
+      throw new Error(`${entry.id} ${entry.version} has no ${metadataName}`);
+    }
+
+    let metadata: { id?: unknown };
+    try {
+      metadata = JSON.parse(readFileSync(metadataPath, 'utf8'));
+    } catch {
+      throw new Error(`${metadataName} is not valid JSON`);
+    }
+    if (metadata.id !== entry.id) {
+      throw new Error(`${metadataName} must have "id": "${entry.id}"`);
+    }
+  }
+
+  /**
+   * Swap a kept version in as the installed copy. It is copied next to the install directory
+   * first, so the swap is two renames; if the second fails the previous copy is put back.
+   */
+  private promote(scriptId: string, version: string): void {
+    const installDir = join(this.installRoot, scriptId);
+    const stagedDir = join(this.stagingRoot, `${scriptId}-${randomUUID()}`);
+    const retiredDir = join(this.stagingRoot, `${scriptId}-retired-${randomUUID()}`);
+
+    mkdirSync(this.stagingRoot, { recursive: true });
+    mkdirSync(this.installRoot, { recursive: true });
+    cpSync(this.getVersionDirectory(scriptId, version), stagedDir, { recursive: true });
+
+    const hadPrevious = existsSync(installDir);
+    if (hadPrevious) {
+      renameSync(installDir, retiredDir);
+    }
+
+    try {
+      renameSync(stagedDir, installDir);
+    } catch (error) {
+      if (hadPrevious) {
+        renameSync(retiredDir, installDir);
+      }
+      rmSync(stagedDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    rmSync(retiredDir, { recursive: true, force: true });
+  }
+
+  // Kept versions stay, so a script removed by mistake can be rolled back
+  private removeInstalled(step: CatalogSyncStep): void {
+    rmSync(join(this.installRoot, step.scriptId), { recursive: true, force: true });
+
+    const current = this.getInstalledScript(step.scriptId);
+    getDatabaseService().upsertCatalogScript({
+      script_id: step.scriptId,
+      active_version: null,
+      pinned_version: current?.pinned_version ?? null,
+      updated_at: Date.now()
+    });
+    this.logChange('remove', step.scriptId, { fromVersion: step.fromVersion });
+  }
+
+  private pruneVersions(scriptId: string): void {
+    try {
+      const db = getDatabaseService();
+      const keep = db.getSetting<number>('catalogKeepVersions', DEFAULT_CATALOG_KEEP_VERSIONS) ?? DEFAULT_CATALOG_KEEP_VERSIONS;
+      const current = this.getInstalledScript(scriptId);
+      const versions = db.getCatalogVersions()
+        .filter(record => record.script_id === scriptId)
+        .map(record => ({ version: record.version, installedAt: record.installed_at }));
+
+      for (const version of selectVersionsToPrune(versions, keep, [current?.active_version ?? null, current?.pinned_version ?? null])) {
+        rmSync(this.getVersionDirectory(scriptId, version), { recursive: true, force: true });
+        db.deleteCatalogVersion(scriptId, version);
+        logger.info('Removed old catalog version', { scriptId, version });
+      }
+    } catch (error) {
+      logger.warn('Failed to prune catalog versions', { scriptId, error: (error as Error).message });
+    }
+  }
+
+  private async readSourceFile(source: string, segments: string[]): Promise<Buffer> {
+    let data: Buffer;
+
+    if (isCatalogUrl(source)) {
+      const base = source.endsWith('/') ? source : `${source}/`;
+      const url = new URL(segments.map(encodeURIComponent).join('/'), base);
+      const response = await net.fetch(url.toString(), { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Could not download ${segments.join('/')}: HTTP ${response.status}`);
+      }
+      data = Buffer.from(await response.arrayBuffer());
+    } else {
+      data = await readFile(join(source, ...segments));
+    }
+
+    if (data.length > MAX_CATALOG_FILE_SIZE) {
+      throw new Error(`${segments.join('/')} is too large`);
+    }
+    return data;
+  }
+
+  private hasVerifiedFiles(directory: string, files: CatalogFile[]): boolean {
+    try {
+      return files.every(file => sha256(readFileSync(join(directory, file.name))) === file.sha256.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  private getConfiguration(): { source: string; publicKey: string } | null {
+    try {
+      const db = getDatabaseService();
+      const source = db.getSetting<string>('catalogSource');
+      const publicKey = db.getSetting<string>('catalogPublicKey');
+      return source && publicKey ? { source, publicKey } : null;
+    } catch (dbError) {
+      logger.warn('Database unavailable - catalog sync disabled');
+      return null;
+    }
+  }
+
+  private getInstalledScript(scriptId: string): CatalogScriptRecord | null {
+    return getDatabaseService().getCatalogScripts().find(record => record.script_id === scriptId) ?? null;
+  }
+
+  private getVersionDirectory(scriptId: string, version: string): string {
+    return join(this.versionsRoot, scriptId, version);
+  }
+
+  private logChange(
+    action: CatalogAction,
+    scriptId: string,
+    details: { fromVersion?: string; toVersion?: string; error?: string; source?: string }
+  ): void {
+    const failed = action === 'failed' || action === 'rejected';
+    if (failed) {
+      securityLogger.warn(`Catalog ${action}`, { scriptId, ...details });
+    } else {
+      securityLogger.info(`Catalog ${action}`, { scriptId, ...details });
+    }
+
+    try {
+      const now = Date.now();
+      getDatabaseService().insertAuditLog({
+        id: randomUUID(),
+        timestamp: now,
+        event_type: 'catalog_change',
+        user_action: action,
+        resource: scriptId,
+        details: JSON.stringify(details).substring(0, 2000),
+        risk_level: action === 'rejected' ? 'high' : 'medium',
+        created_at: now
+      });
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping catalog audit log', { scriptId, action });
+    }
+  }
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Check a base64 signature made with the organisation's signing key. Also used for signed
+ * script packages.
+ */
+export function isSignatureValid(data: Buffer, signature: Buffer, publicKeyPem: string): boolean {
+  try {
+    const key = createPublicKey(publicKeyPem);
+    // Ed25519/Ed448 sign the data itself; RSA and ECDSA keys sign its SHA-256 digest
+    const algorithm = key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+    return verify(algorithm, data, key, Buffer.from(signature.toString('utf8').trim(), 'base64'));
+  } catch (error) {
+    logger.warn('Signature check failed', { error: (error as Error).message });
+    return false;
+  }
+}
+
+// Create and export singleton instance
+let catalogSyncService: CatalogSyncService | null = null;
+
+export const getCatalogSyncService = (): CatalogSyncService => {
+  if (!catalogSyncService) {
+    catalogSyncService = new CatalogSyncService();
+  }
+  return catalogSyncService;
+};
+
+export default getCatalogSyncService;
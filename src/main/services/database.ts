@@ -4,6 +4,9 @@ import { app } from 'electron';
 import { join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 import { createServiceLogger } from './logger';
+import type { ResourceUsage } from '../../shared/execution/resource-usage';
+import type { ScriptResult } from '../../shared/execution/result';
+import type { RedactionCounts } from '../../shared/execution/redaction';
 
 const logger = createServiceLogger('database');
 
@@ -24,6 +27,25 @@ export interface ExecutionLogRecord {
   parameters?: string; // JSON string
   created_at: number;
   updated_at: number;
+  // Resource figures, joined from execution_resource_usage when recorded
+  max_memory_mb?: number | null;
+  avg_memory_mb?: number | null;
+  avg_cpu_percent?: number | null;
+  max_cpu_percent?: number | null;
+  disk_read_mb?: number | null;
+  disk_write_mb?: number | null;
+  // Structured results (JSON array), joined from execution_results when reported
+  results?: string | null;
+  // Set on automatic retries, joined from execution_attempts
+  parent_execution_id?: string | null;
+  attempt?: number | null;
+  // 1 for dry runs (previews), joined from execution_previews
+  is_preview?: number;
+  // Redactions made per field before the output was stored (JSON object), joined from execution_redactions
+  redaction_counts?: string | null;
+  // Script as it was when the run started, joined from execution_script_snapshots (getExecutionLog only)
+  script_hash?: string | null;
+  parameter_definitions?: string | null; // JSON array
 }
 
 export interface SettingRecord {
@@ -46,6 +68,90 @@ export interface AuditLogRecord {
   created_at: number;
 }
 
+export interface QueuedExecutionRecord {
+  id: string; // execution ID, assigned at enqueue time
+  script_id: string;
+  script_name: string;
+  source: string;
+  priority: number;
+  position: number;
+  parameters?: string; // JSON string
+  enqueued_at: number;
+  created_at?: number;
+  // 1 for dry runs, joined from execution_previews
+  is_preview?: number;
+}
+
+export interface RunbookStepRecord {
+  id?: number;
+  runbook_execution_id: string; // parent row in execution_logs
+  step_index: number;
+  step_id: string;
+  script_id: string;
+  execution_id?: string | null; // child row in execution_logs, null if the step never started
+  status: 'running' | 'success' | 'error' | 'cancelled';
+  exit_code?: number | null;
+  started_at: number;
+  completed_at?: number | null;
+}
+
+export interface ArtifactRecord {
+  id?: number;
+  execution_id: string;
+  relative_path: string; // path inside the execution's artifacts directory, '/'-separated
+  size_bytes: number;
+  modified_at: number;
+  created_at?: number;
+}
+
+export interface TranscriptRecord {
+  execution_id: string;
+  file_path: string;
+  size_bytes: number;
+  line_count: number;
+  stdout_lines: number;
+  stderr_lines: number;
+  completed_at: number | null; // null while the run is writing, or if it never finished
+  created_at?: number;
+}
+
+export interface SecretRecord {
+  name: string;
+  encrypted_value: Buffer; // safeStorage ciphertext, only decrypted when a run needs it
+  description?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface CatalogScriptRecord {
+  script_id: string;
+  active_version: string | null; // null once the script was removed from the catalog
+  pinned_version: string | null; // set while syncs must leave the script alone
+  updated_at: number;
+}
+
+export interface CatalogVersionRecord {
+  script_id: string;
+  version: string;
+  files: string; // JSON array of {name, sha256} from the manifest
+  installed_at: number;
+}
+
+export interface ScheduleRecord {
+  id: string;
+  script_id: string;
+  name: string;
+  rule: string; // JSON string (ScheduleRule)
+  parameters?: string; // JSON string
+  enabled: number; // 0 | 1
+  next_run_at?: number | null;
+  last_run_at?: number | null;
+  last_execution_id?: string | null;
+  last_status?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
 class DatabaseService {
   private db: Database | null = null;
   private initialized = false;
@@ -147,6 +253,174 @@ class DatabaseService {
       )
     `);
 
+    // Create schedules table for the script scheduler
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY NOT NULL,
+        script_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        rule TEXT NOT NULL, -- JSON string
+        parameters TEXT, -- JSON string
+        enabled INTEGER NOT NULL DEFAULT 1 CHECK(enabled IN (0, 1)),
+        next_run_at INTEGER,
+        last_run_at INTEGER,
+        last_execution_id TEXT,
+        last_status TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create execution_queue table so queued runs survive a restart
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_queue (
+        id TEXT PRIMARY KEY NOT NULL,
+        script_id TEXT NOT NULL,
+        script_name TEXT NOT NULL,
+        source TEXT NOT NULL CHECK(source IN ('manual', 'protocol', 'scheduled')),
+        priority INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        parameters TEXT, -- JSON string
+        enqueued_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create runbook_steps table - one row per step run, linked to the runbook's execution log
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS runbook_steps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        runbook_execution_id TEXT NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        step_index INTEGER NOT NULL,
+        step_id TEXT NOT NULL,
+        script_id TEXT NOT NULL,
+        execution_id TEXT,
+        status TEXT NOT NULL CHECK(status IN ('running', 'success', 'error', 'cancelled')),
+        exit_code INTEGER,
+        started_at INTEGER NOT NULL,
+        completed_at INTEGER
+      )
+    `);
+
+    // Create execution_resource_usage table - peak/average figures sampled while a run was active
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_resource_usage (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        max_memory_mb REAL NOT NULL,
+        avg_memory_mb REAL NOT NULL,
+        avg_cpu_percent REAL NOT NULL,
+        max_cpu_percent REAL NOT NULL,
+        disk_read_mb REAL NOT NULL,
+        disk_write_mb REAL NOT NULL,
+        network_bytes_sent INTEGER NOT NULL DEFAULT 0,
+        network_bytes_received INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create execution_results table - structured results (summary cards, tables) a run reported
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_results (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        results TEXT NOT NULL, -- JSON array
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create execution_attempts table - links automatic retries to the run they retry
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_attempts (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        parent_execution_id TEXT NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        attempt INTEGER NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create execution_previews table - marks dry runs, which are left out of stats
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_previews (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create execution_script_snapshots table - script hash and parameter definitions a run
+    // started with, so "Run again" can tell whether the script changed since
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_script_snapshots (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        script_hash TEXT,
+        parameter_definitions TEXT NOT NULL -- JSON array
+      )
+    `);
+
+    // Create execution_artifacts table - files a run left in its artifacts directory
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_artifacts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        execution_id TEXT NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        relative_path TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        modified_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000),
+        UNIQUE(execution_id, relative_path)
+      )
+    `);
+
+    // Create execution_transcripts table - where a run's full output is on disk, and how much there is
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_transcripts (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        file_path TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL DEFAULT 0,
+        line_count INTEGER NOT NULL DEFAULT 0,
+        stdout_lines INTEGER NOT NULL DEFAULT 0,
+        stderr_lines INTEGER NOT NULL DEFAULT 0,
+        completed_at INTEGER,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch('subsec') * 1000)
+      )
+    `);
+
+    // Create execution_redactions table - how much of a run's output was redacted, per field
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_redactions (
+        execution_id TEXT PRIMARY KEY NOT NULL REFERENCES execution_logs(id) ON DELETE CASCADE,
+        counts TEXT NOT NULL -- JSON object, e.g. {"output":3,"error":0}
+      )
+    `);
+
+    // Create secrets table - vault entries that secret parameters refer to by name
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS secrets (
+        name TEXT PRIMARY KEY,
+        encrypted_value BLOB NOT NULL,
+        description TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create catalog tables - scripts synced from the central catalog and the versions kept for rollback
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS catalog_scripts (
+        script_id TEXT PRIMARY KEY NOT NULL,
+        active_version TEXT,
+        pinned_version TEXT,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS catalog_versions (
+        script_id TEXT NOT NULL,
+        version TEXT NOT NULL,
+        files TEXT NOT NULL, -- JSON array
+        installed_at INTEGER NOT NULL,
+        PRIMARY KEY (script_id, version)
+      )
+    `);
+
     // Create indexes for better query performance
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_execution_logs_timestamp ON execution_logs(timestamp);
@@ -155,6 +429,11 @@ class DatabaseService {
       CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
       CREATE INDEX IF NOT EXISTS idx_audit_logs_event_type ON audit_logs(event_type);
       CREATE INDEX IF NOT EXISTS idx_audit_logs_risk_level ON audit_logs(risk_level);
+      CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at);
+      CREATE INDEX IF NOT EXISTS idx_execution_queue_position ON execution_queue(position);
+      CREATE INDEX IF NOT EXISTS idx_runbook_steps_execution ON runbook_steps(runbook_execution_id);
+      CREATE INDEX IF NOT EXISTS idx_execution_artifacts_execution ON execution_artifacts(execution_id);
+      CREATE INDEX IF NOT EXISTS idx_execution_attempts_parent ON execution_attempts(parent_execution_id);
     `);
 
     // Create triggers to automatically update the updated_at timestamp
@@ -172,6 +451,13 @@ class DatabaseService {
       BEGIN
         UPDATE settings SET updated_at = (unixepoch('subsec') * 1000) WHERE key = NEW.key;
       END;
+
+      CREATE TRIGGER IF NOT EXISTS update_schedules_timestamp 
+      AFTER UPDATE ON schedules
+      FOR EACH ROW
+      BEGIN
+        UPDATE schedules SET updated_at = (unixepoch('subsec') * 1000) WHERE id = NEW.id;
+      END;
     `);
 
     logger.info('Database schema initialized successfully');
@@ -194,11 +480,78 @@ class DatabaseService {
     `);
 
     this.selectExecutionLogsStmt = this.db.prepare(`
-      SELECT * FROM execution_logs 
-      ORDER BY timestamp DESC
+      SELECT execution_logs.*,
+        usage.max_memory_mb, usage.avg_memory_mb, usage.avg_cpu_percent,
+        usage.max_cpu_percent, usage.disk_read_mb, usage.disk_write_mb,
+        execution_results.results,
+        execution_attempts.parent_execution_id, execution_attempts.attempt,
+        execution_previews.execution_id IS NOT NULL AS is_preview,
+        execution_redactions.counts AS redaction_counts
+      FROM execution_logs
+      LEFT JOIN execution_resource_usage usage ON usage.execution_id = execution_logs.id
+      LEFT JOIN execution_results ON execution_results.execution_id = execution_logs.id
+      LEFT JOIN execution_attempts ON execution_attempts.execution_id = execution_logs.id
+      LEFT JOIN execution_previews ON execution_previews.execution_id = execution_logs.id
+      LEFT JOIN execution_redactions ON execution_redactions.execution_id = execution_logs.id
+      ORDER BY execution_logs.timestamp DESC
       LIMIT ? OFFSET ?
     `);
 
+    this.upsertResourceUsageStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO execution_resource_usage (
+        execution_id, max_memory_mb, avg_memory_mb, avg_cpu_percent, max_cpu_percent,
+        disk_read_mb, disk_write_mb, network_bytes_sent, network_bytes_received
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.upsertExecutionResultsStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO execution_results (execution_id, results)
+      VALUES (?, ?)
+    `);
+
+    this.insertTranscriptStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO execution_transcripts (execution_id, file_path)
+      VALUES (?, ?)
+    `);
+
+    this.completeTranscriptStmt = this.db.prepare(`
+      UPDATE execution_transcripts
+      SET size_bytes = ?, line_count = ?, stdout_lines = ?, stderr_lines = ?, completed_at = ?
+      WHERE execution_id = ?
+    `);
+
+    this.selectTranscriptStmt = this.db.prepare(`
+      SELECT * FROM execution_transcripts WHERE execution_id = ?
+    `);
+
+    this.upsertRedactionCountsStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO execution_redactions (execution_id, counts)
+      VALUES (?, ?)
+    `);
+
+    this.insertExecutionAttemptStmt = this.db.prepare(`
+      INSERT INTO execution_attempts (execution_id, parent_execution_id, attempt)
+      VALUES (?, ?, ?)
+    `);
+
+    this.insertExecutionPreviewStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO execution_previews (execution_id)
+      VALUES (?)
+    `);
+
+    this.insertScriptSnapshotStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO execution_script_snapshots (execution_id, script_hash, parameter_definitions)
+      VALUES (?, ?, ?)
+    `);
+
+    this.selectExecutionLogStmt = this.db.prepare(`
+      SELECT execution_logs.*, snapshot.script_hash, snapshot.parameter_definitions
+      FROM execution_logs
+      LEFT JOIN execution_script_snapshots snapshot ON snapshot.execution_id = execution_logs.id
+      WHERE execution_logs.id = ?
+    `);
+
     // Settings statements
     this.insertOrUpdateSettingStmt = this.db.prepare(`
       INSERT OR REPLACE INTO settings (key, value)
@@ -225,6 +578,145 @@ class DatabaseService {
       LIMIT ? OFFSET ?
     `);
 
+    // Schedule statements
+    this.insertScheduleStmt = this.db.prepare(`
+      INSERT INTO schedules (id, script_id, name, rule, parameters, enabled, next_run_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.updateScheduleStmt = this.db.prepare(`
+      UPDATE schedules 
+      SET name = ?, rule = ?, parameters = ?, enabled = ?, next_run_at = ?
+      WHERE id = ?
+    `);
+
+    this.updateScheduleRunStmt = this.db.prepare(`
+      UPDATE schedules 
+      SET last_run_at = ?, last_execution_id = ?, last_status = ?, next_run_at = ?
+      WHERE id = ?
+    `);
+
+    this.updateScheduleStatusStmt = this.db.prepare(`
+      UPDATE schedules SET last_status = ? WHERE id = ? AND last_execution_id = ?
+    `);
+
+    this.deleteScheduleStmt = this.db.prepare(`
+      DELETE FROM schedules WHERE id = ?
+    `);
+
+    this.selectSchedulesStmt = this.db.prepare(`
+      SELECT * FROM schedules ORDER BY created_at ASC
+    `);
+
+    this.selectScheduleStmt = this.db.prepare(`
+      SELECT * FROM schedules WHERE id = ?
+    `);
+
+    // Execution queue statements
+    this.insertQueuedExecutionStmt = this.db.prepare(`
+      INSERT INTO execution_queue (id, script_id, script_name, source, priority, position, parameters, enqueued_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.updateQueuePositionStmt = this.db.prepare(`
+      UPDATE execution_queue SET position = ? WHERE id = ?
+    `);
+
+    this.deleteQueuedExecutionStmt = this.db.prepare(`
+      DELETE FROM execution_queue WHERE id = ?
+    `);
+
+    this.selectQueuedExecutionsStmt = this.db.prepare(`
+      SELECT execution_queue.*, execution_previews.execution_id IS NOT NULL AS is_preview
+      FROM execution_queue
+      LEFT JOIN execution_previews ON execution_previews.execution_id = execution_queue.id
+      ORDER BY position ASC, enqueued_at ASC
+    `);
+
+    // Runbook step statements
+    this.insertRunbookStepStmt = this.db.prepare(`
+      INSERT INTO runbook_steps (runbook_execution_id, step_index, step_id, script_id, execution_id, status, started_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.updateRunbookStepStmt = this.db.prepare(`
+      UPDATE runbook_steps SET execution_id = ?, status = ?, exit_code = ?, completed_at = ?
+      WHERE id = ?
+    `);
+
+    this.selectRunbookStepsStmt = this.db.prepare(`
+      SELECT * FROM runbook_steps WHERE runbook_execution_id = ? ORDER BY id ASC
+    `);
+
+    this.selectUnfinishedRunbooksStmt = this.db.prepare(`
+      SELECT DISTINCT s.runbook_execution_id FROM runbook_steps s
+      JOIN execution_logs l ON l.id = s.runbook_execution_id
+      WHERE l.status IN ('pending', 'running')
+    `);
+
+    // Artifact statements
+    this.insertArtifactStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO execution_artifacts (execution_id, relative_path, size_bytes, modified_at)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    this.selectArtifactsStmt = this.db.prepare(`
+      SELECT * FROM execution_artifacts WHERE execution_id = ? ORDER BY relative_path ASC
+    `);
+
+    this.selectArtifactStmt = this.db.prepare(`
+      SELECT * FROM execution_artifacts WHERE id = ?
+    `);
+
+    // Secret statements
+    this.upsertSecretStmt = this.db.prepare(`
+      INSERT INTO secrets (name, encrypted_value, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        encrypted_value = excluded.encrypted_value,
+        description = excluded.description,
+        updated_at = excluded.updated_at
+    `);
+
+    this.selectSecretStmt = this.db.prepare(`
+      SELECT * FROM secrets WHERE name = ?
+    `);
+
+    this.selectSecretsStmt = this.db.prepare(`
+      SELECT name, description, created_at, updated_at FROM secrets ORDER BY name ASC
+    `);
+
+    this.deleteSecretStmt = this.db.prepare(`
+      DELETE FROM secrets WHERE name = ?
+    `);
+
+    // Catalog statements
+    this.upsertCatalogScriptStmt = this.db.prepare(`
+      INSERT INTO catalog_scripts (script_id, active_version, pinned_version, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(script_id) DO UPDATE SET
+        active_version = excluded.active_version,
+        pinned_version = excluded.pinned_version,
+        updated_at = excluded.updated_at
+    `);
+
+    this.selectCatalogScriptsStmt = this.db.prepare(`
+      SELECT * FROM catalog_scripts ORDER BY script_id ASC
+    `);
+
+    this.insertCatalogVersionStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO catalog_versions (script_id, version, files, installed_at)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    this.selectCatalogVersionsStmt = this.db.prepare(`
+      SELECT * FROM catalog_versions ORDER BY installed_at DESC
+    `);
+
+    this.deleteCatalogVersionStmt = this.db.prepare(`
+      DELETE FROM catalog_versions WHERE script_id = ? AND version = ?
+    `);
+
     logger.info('Prepared statements initialized successfully');
   }
 
@@ -232,11 +724,48 @@ class DatabaseService {
   private insertExecutionLogStmt: DatabaseStatement | null = null;
   private updateExecutionLogStmt: DatabaseStatement | null = null;
   private selectExecutionLogsStmt: DatabaseStatement | null = null;
+  private upsertResourceUsageStmt: DatabaseStatement | null = null;
+  private upsertExecutionResultsStmt: DatabaseStatement | null = null;
+  private upsertRedactionCountsStmt: DatabaseStatement | null = null;
+  private insertTranscriptStmt: DatabaseStatement | null = null;
+  private completeTranscriptStmt: DatabaseStatement | null = null;
+  private selectTranscriptStmt: DatabaseStatement | null = null;
+  private insertExecutionAttemptStmt: DatabaseStatement | null = null;
+  private insertExecutionPreviewStmt: DatabaseStatement | null = null;
+  private insertScriptSnapshotStmt: DatabaseStatement | null = null;
+  private selectExecutionLogStmt: DatabaseStatement | null = null;
   private insertOrUpdateSettingStmt: DatabaseStatement | null = null;
   private selectSettingStmt: DatabaseStatement | null = null;
   private selectAllSettingsStmt: DatabaseStatement | null = null;
   private insertAuditLogStmt: DatabaseStatement | null = null;
   private selectAuditLogsStmt: DatabaseStatement | null = null;
+  private insertScheduleStmt: DatabaseStatement | null = null;
+  private updateScheduleStmt: DatabaseStatement | null = null;
+  private updateScheduleRunStmt: DatabaseStatement | null = null;
+  private updateScheduleStatusStmt: DatabaseStatement | null = null;
+  private deleteScheduleStmt: DatabaseStatement | null = null;
+  private selectSchedulesStmt: DatabaseStatement | null = null;
+  private selectScheduleStmt: DatabaseStatement | null = null;
+  private insertQueuedExecutionStmt: DatabaseStatement | null = null;
+  private updateQueuePositionStmt: DatabaseStatement | null = null;
+  private deleteQueuedExecutionStmt: DatabaseStatement | null = null;
+  private selectQueuedExecutionsStmt: DatabaseStatement | null = null;
+  private insertRunbookStepStmt: DatabaseStatement | null = null;
+  private updateRunbookStepStmt: DatabaseStatement | null = null;
+  private selectRunbookStepsStmt: DatabaseStatement | null = null;
+  private selectUnfinishedRunbooksStmt: DatabaseStatement | null = null;
+  private insertArtifactStmt: DatabaseStatement | null = null;
+  private selectArtifactsStmt: DatabaseStatement | null = null;
+  private selectArtifactStmt: DatabaseStatement | null = null;
+  private upsertSecretStmt: DatabaseStatement | null = null;
+  private selectSecretStmt: DatabaseStatement | null = null;
+  private selectSecretsStmt: DatabaseStatement | null = null;
+  private deleteSecretStmt: DatabaseStatement | null = null;
+  private upsertCatalogScriptStmt: DatabaseStatement | null = null;
+  private selectCatalogScriptsStmt: DatabaseStatement | null = null;
+  private insertCatalogVersionStmt: DatabaseStatement | null = null;
+  private selectCatalogVersionsStmt: DatabaseStatement | null = null;
+  private deleteCatalogVersionStmt: DatabaseStatement | null = null;
 
   // Execution log methods
   public insertExecutionLog(log: ExecutionLogRecord): void {
@@ -312,79 +841,216 @@ class DatabaseService {
     }
   }
 
-  // Settings methods
-  public setSetting<T>(key: string, value: T): void {
-    if (!this.initialized || !this.insertOrUpdateSettingStmt) {
+  /**
+   * A single execution log, with the script snapshot taken when it started.
+   */
+  public getExecutionLog(id: string): ExecutionLogRecord | null {
+    if (!this.initialized || !this.selectExecutionLogStmt) {
       throw new Error('Database not initialized');
     }
 
     try {
-      const jsonValue = JSON.stringify(value);
-      this.insertOrUpdateSettingStmt.run(key, jsonValue);
-      
-      logger.debug('Setting saved', { key });
+      return (this.selectExecutionLogStmt.get(id) as ExecutionLogRecord | undefined) ?? null;
     } catch (error) {
-      logger.error('Failed to save setting', { 
-        error: (error as Error).message,
-        key 
-      });
+      logger.error('Failed to retrieve execution log', { error: (error as Error).message, id });
       throw error;
     }
   }
 
-  public getSetting<T>(key: string, defaultValue?: T): T | null {
-    if (!this.initialized || !this.selectSettingStmt) {
+  /**
+   * Record the script hash and parameter definitions an execution started with.
+   */
+  public saveScriptSnapshot(executionId: string, scriptHash: string | undefined, parameterDefinitions: unknown[]): void {
+    if (!this.initialized || !this.insertScriptSnapshotStmt) {
       throw new Error('Database not initialized');
     }
 
     try {
-      const row = this.selectSettingStmt.get(key) as { value: string } | undefined;
-      
-      if (!row) {
-        return defaultValue || null;
-      }
-
-      const parsedValue = JSON.parse(row.value) as T;
-      logger.debug('Setting retrieved', { key });
-      return parsedValue;
+      this.insertScriptSnapshotStmt.run(executionId, scriptHash ?? null, JSON.stringify(parameterDefinitions));
     } catch (error) {
-      logger.error('Failed to retrieve setting', { 
+      logger.error('Failed to save script snapshot', {
         error: (error as Error).message,
-        key 
+        execution_id: executionId
       });
-      return defaultValue || null;
+      throw error;
     }
   }
 
-  public getAllSettings(): Record<string, any> {
-    if (!this.initialized || !this.selectAllSettingsStmt) {
+  /**
+   * Record the resource figures sampled for an execution.
+   */
+  public saveResourceUsage(executionId: string, usage: ResourceUsage): void {
+    if (!this.initialized || !this.upsertResourceUsageStmt) {
       throw new Error('Database not initialized');
     }
 
     try {
-      const rows = this.selectAllSettingsStmt.all() as Array<{ key: string; value: string }>;
-      const settings: Record<string, any> = {};
+      this.upsertResourceUsageStmt.run(
+        executionId,
+        usage.maxMemoryMB,
+        usage.avgMemoryMB,
+        usage.avgCpuPercent,
+        usage.maxCpuPercent,
+        usage.diskReadMB,
+        usage.diskWriteMB,
+        usage.networkBytesSent,
+        usage.networkBytesReceived
+      );
+    } catch (error) {
+      logger.error('Failed to save resource usage', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
 
-      for (const row of rows) {
-        try {
-          settings[row.key] = JSON.parse(row.value);
-        } catch (parseError) {
-          logger.warn('Failed to parse setting value', { key: row.key });
-          settings[row.key] = row.value;
-        }
-      }
+  /**
+   * Record the structured results an execution reported.
+   */
+  public saveExecutionResults(executionId: string, results: ScriptResult[]): void {
+    if (!this.initialized || !this.upsertExecutionResultsStmt) {
+      throw new Error('Database not initialized');
+    }
 
-      logger.debug('Retrieved all settings', { count: rows.length });
-      return settings;
+    try {
+      this.upsertExecutionResultsStmt.run(executionId, JSON.stringify(results));
     } catch (error) {
-      logger.error('Failed to retrieve all settings', { error: (error as Error).message });
+      logger.error('Failed to save execution results', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
       throw error;
     }
   }
 
-  // Audit log methods
-  public insertAuditLog(auditLog: AuditLogRecord): void {
-    if (!this.initialized || !this.insertAuditLogStmt) {
+  public saveRedactionCounts(executionId: string, counts: RedactionCounts): void {
+    if (!this.initialized || !this.upsertRedactionCountsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.upsertRedactionCountsStmt.run(executionId, JSON.stringify(counts));
+    } catch (error) {
+      logger.error('Failed to save redaction counts', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Link an automatic retry to the run it retries. attempt is 1-based (the first retry is 2).
+   */
+  public insertExecutionAttempt(executionId: string, parentExecutionId: string, attempt: number): void {
+    if (!this.initialized || !this.insertExecutionAttemptStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.insertExecutionAttemptStmt.run(executionId, parentExecutionId, attempt);
+    } catch (error) {
+      logger.error('Failed to save execution attempt', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Tag an execution as a dry run.
+   */
+  public markExecutionPreview(executionId: string): void {
+    if (!this.initialized || !this.insertExecutionPreviewStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.insertExecutionPreviewStmt.run(executionId);
+    } catch (error) {
+      logger.error('Failed to tag execution preview', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  // Settings methods
+  public setSetting<T>(key: string, value: T): void {
+    if (!this.initialized || !this.insertOrUpdateSettingStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const jsonValue = JSON.stringify(value);
+      this.insertOrUpdateSettingStmt.run(key, jsonValue);
+      
+      logger.debug('Setting saved', { key });
+    } catch (error) {
+      logger.error('Failed to save setting', { 
+        error: (error as Error).message,
+        key 
+      });
+      throw error;
+    }
+  }
+
+  public getSetting<T>(key: string, defaultValue?: T): T | null {
+    if (!this.initialized || !this.selectSettingStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const row = this.selectSettingStmt.get(key) as { value: string } | undefined;
+      
+      if (!row) {
+        return defaultValue || null;
+      }
+
+      const parsedValue = JSON.parse(row.value) as T;
+      logger.debug('Setting retrieved', { key });
+      return parsedValue;
+    } catch (error) {
+      logger.error('Failed to retrieve setting', { 
+        error: (error as Error).message,
+        key 
+      });
+      return defaultValue || null;
+    }
+  }
+
+  public getAllSettings(): Record<string, any> {
+    if (!this.initialized || !this.selectAllSettingsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const rows = this.selectAllSettingsStmt.all() as Array<{ key: string; value: string }>;
+      const settings: Record<string, any> = {};
+
+      for (const row of rows) {
+        try {
+          settings[row.key] = JSON.parse(row.value);
+        } catch (parseError) {
+          logger.warn('Failed to parse setting value', { key: row.key });
+          settings[row.key] = row.value;
+        }
+      }
+
+      logger.debug('Retrieved all settings', { count: rows.length });
+      return settings;
+    } catch (error) {
+      logger.error('Failed to retrieve all settings', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  // Audit log methods
+  public insertAuditLog(auditLog: AuditLogRecord): void {
+    if (!this.initialized || !this.insertAuditLogStmt) {
       throw new Error('Database not initialized');
     }
 
@@ -430,6 +1096,640 @@ class DatabaseService {
     }
   }
 
+  // Schedule methods
+  public insertSchedule(schedule: ScheduleRecord): void {
+    if (!this.initialized || !this.insertScheduleStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.insertScheduleStmt.run(
+        schedule.id,
+        schedule.script_id,
+        schedule.name,
+        schedule.rule,
+        schedule.parameters,
+        schedule.enabled,
+        schedule.next_run_at
+      );
+
+      logger.debug('Schedule inserted', { id: schedule.id, script_id: schedule.script_id });
+    } catch (error) {
+      logger.error('Failed to insert schedule', {
+        error: (error as Error).message,
+        schedule_id: schedule.id
+      });
+      throw error;
+    }
+  }
+
+  public updateSchedule(
+    id: string,
+    name: string,
+    rule: string,
+    parameters: string | undefined,
+    enabled: number,
+    nextRunAt: number | null
+  ): boolean {
+    if (!this.initialized || !this.updateScheduleStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const result = this.updateScheduleStmt.run(name, rule, parameters, enabled, nextRunAt, id);
+      logger.debug('Schedule updated', { id, changes: result.changes });
+      return result.changes > 0;
+    } catch (error) {
+      logger.error('Failed to update schedule', {
+        error: (error as Error).message,
+        schedule_id: id
+      });
+      throw error;
+    }
+  }
+
+  public recordScheduleRun(
+    id: string,
+    lastRunAt: number,
+    executionId: string | null,
+    status: string,
+    nextRunAt: number | null
+  ): void {
+    if (!this.initialized || !this.updateScheduleRunStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.updateScheduleRunStmt.run(lastRunAt, executionId, status, nextRunAt, id);
+      logger.debug('Schedule run recorded', { id, executionId, status });
+    } catch (error) {
+      logger.error('Failed to record schedule run', {
+        error: (error as Error).message,
+        schedule_id: id
+      });
+      throw error;
+    }
+  }
+
+  public updateScheduleStatus(id: string, executionId: string, status: string): void {
+    if (!this.initialized || !this.updateScheduleStatusStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.updateScheduleStatusStmt.run(status, id, executionId);
+    } catch (error) {
+      logger.error('Failed to update schedule status', {
+        error: (error as Error).message,
+        schedule_id: id
+      });
+      throw error;
+    }
+  }
+
+  public deleteSchedule(id: string): boolean {
+    if (!this.initialized || !this.deleteScheduleStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const result = this.deleteScheduleStmt.run(id);
+      logger.debug('Schedule deleted', { id, changes: result.changes });
+      return result.changes > 0;
+    } catch (error) {
+      logger.error('Failed to delete schedule', {
+        error: (error as Error).message,
+        schedule_id: id
+      });
+      throw error;
+    }
+  }
+
+  public getSchedules(): ScheduleRecord[] {
+    if (!this.initialized || !this.selectSchedulesStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectSchedulesStmt.all() as ScheduleRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve schedules', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  public getSchedule(id: string): ScheduleRecord | null {
+    if (!this.initialized || !this.selectScheduleStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return (this.selectScheduleStmt.get(id) as ScheduleRecord | undefined) || null;
+    } catch (error) {
+      logger.error('Failed to retrieve schedule', {
+        error: (error as Error).message,
+        schedule_id: id
+      });
+      throw error;
+    }
+  }
+
+  // Execution queue methods
+  public insertQueuedExecution(record: QueuedExecutionRecord): void {
+    if (!this.initialized || !this.insertQueuedExecutionStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.insertQueuedExecutionStmt.run(
+        record.id,
+        record.script_id,
+        record.script_name,
+        record.source,
+        record.priority,
+        record.position,
+        record.parameters,
+        record.enqueued_at
+      );
+      logger.debug('Queued execution inserted', { id: record.id, script_id: record.script_id });
+    } catch (error) {
+      logger.error('Failed to insert queued execution', {
+        error: (error as Error).message,
+        execution_id: record.id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rewrite queue positions to match the given order of execution IDs.
+   */
+  public setQueueOrder(executionIds: string[]): void {
+    if (!this.initialized || !this.db || !this.updateQueuePositionStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    const updatePosition = this.updateQueuePositionStmt;
+
+    try {
+      this.db.transaction((ids: string[]) => {
+        ids.forEach((id, index) => updatePosition.run(index, id));
+      })(executionIds);
+    } catch (error) {
+      logger.error('Failed to update queue order', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  public deleteQueuedExecution(id: string): void {
+    if (!this.initialized || !this.deleteQueuedExecutionStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.deleteQueuedExecutionStmt.run(id);
+    } catch (error) {
+      logger.error('Failed to delete queued execution', {
+        error: (error as Error).message,
+        execution_id: id
+      });
+      throw error;
+    }
+  }
+
+  public getQueuedExecutions(): QueuedExecutionRecord[] {
+    if (!this.initialized || !this.selectQueuedExecutionsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectQueuedExecutionsStmt.all() as QueuedExecutionRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve queued executions', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  // Runbook step methods
+  /**
+   * Record the start of a runbook step. Returns the step record ID.
+   */
+  public insertRunbookStep(record: RunbookStepRecord): number {
+    if (!this.initialized || !this.insertRunbookStepStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const result = this.insertRunbookStepStmt.run(
+        record.runbook_execution_id,
+        record.step_index,
+        record.step_id,
+        record.script_id,
+        record.execution_id ?? null,
+        record.status,
+        record.started_at
+      );
+      return Number(result.lastInsertRowid);
+    } catch (error) {
+      logger.error('Failed to insert runbook step', {
+        error: (error as Error).message,
+        runbook_execution_id: record.runbook_execution_id,
+        step_id: record.step_id
+      });
+      throw error;
+    }
+  }
+
+  public updateRunbookStep(
+    id: number,
+    executionId: string | null,
+    status: RunbookStepRecord['status'],
+    exitCode: number | null,
+    completedAt: number | null
+  ): void {
+    if (!this.initialized || !this.updateRunbookStepStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.updateRunbookStepStmt.run(executionId, status, exitCode, completedAt, id);
+    } catch (error) {
+      logger.error('Failed to update runbook step', {
+        error: (error as Error).message,
+        id
+      });
+      throw error;
+    }
+  }
+
+  public getRunbookSteps(runbookExecutionId: string): RunbookStepRecord[] {
+    if (!this.initialized || !this.selectRunbookStepsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectRunbookStepsStmt.all(runbookExecutionId) as RunbookStepRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve runbook steps', {
+        error: (error as Error).message,
+        runbook_execution_id: runbookExecutionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Execution IDs of runbooks whose execution log still says they are running.
+   */
+  public getUnfinishedRunbookExecutionIds(): string[] {
+    if (!this.initialized || !this.selectUnfinishedRunbooksStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const rows = this.selectUnfinishedRunbooksStmt.all() as { runbook_execution_id: string }[];
+      return rows.map(row => row.runbook_execution_id);
+    } catch (error) {
+      logger.error('Failed to retrieve unfinished runbooks', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  // Artifact methods
+  public insertArtifacts(records: ArtifactRecord[]): void {
+    if (!this.initialized || !this.db || !this.insertArtifactStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    const insertArtifact = this.insertArtifactStmt;
+
+    try {
+      this.db.transaction((rows: ArtifactRecord[]) => {
+        for (const row of rows) {
+          insertArtifact.run(row.execution_id, row.relative_path, row.size_bytes, row.modified_at);
+        }
+      })(records);
+    } catch (error) {
+      logger.error('Failed to insert artifacts', {
+        error: (error as Error).message,
+        execution_id: records[0]?.execution_id
+      });
+      throw error;
+    }
+  }
+
+  public getArtifacts(executionId: string): ArtifactRecord[] {
+    if (!this.initialized || !this.selectArtifactsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectArtifactsStmt.all(executionId) as ArtifactRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve artifacts', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  public getArtifact(id: number): ArtifactRecord | null {
+    if (!this.initialized || !this.selectArtifactStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return (this.selectArtifactStmt.get(id) as ArtifactRecord | undefined) ?? null;
+    } catch (error) {
+      logger.error('Failed to retrieve artifact', { error: (error as Error).message, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete artifact records indexed before the cutoff. Returns the execution IDs that still have artifacts.
+   */
+  public pruneArtifacts(cutoffTime: number): string[] {
+    if (!this.initialized || !this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const result = this.db.prepare(`
+        DELETE FROM execution_artifacts WHERE created_at < ?
+      `).run(cutoffTime);
+
+      logger.info('Pruned old artifact records', { deleted_count: result.changes });
+
+      const rows = this.db.prepare(`
+        SELECT DISTINCT execution_id FROM execution_artifacts
+      `).all() as Array<{ execution_id: string }>;
+      return rows.map(row => row.execution_id);
+    } catch (error) {
+      logger.error('Failed to prune artifacts', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  // Transcript methods - the output itself is on disk, these rows point to it
+  public insertTranscript(executionId: string, filePath: string): void {
+    if (!this.initialized || !this.insertTranscriptStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.insertTranscriptStmt.run(executionId, filePath);
+    } catch (error) {
+      logger.error('Failed to insert transcript', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  public completeTranscript(
+    executionId: string,
+    summary: Pick<TranscriptRecord, 'size_bytes' | 'line_count' | 'stdout_lines' | 'stderr_lines'>
+  ): void {
+    if (!this.initialized || !this.completeTranscriptStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.completeTranscriptStmt.run(
+        summary.size_bytes,
+        summary.line_count,
+        summary.stdout_lines,
+        summary.stderr_lines,
+        Date.now(),
+        executionId
+      );
+    } catch (error) {
+      logger.error('Failed to complete transcript', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  public getTranscript(executionId: string): TranscriptRecord | null {
+    if (!this.initialized || !this.selectTranscriptStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return (this.selectTranscriptStmt.get(executionId) as TranscriptRecord | undefined) ?? null;
+    } catch (error) {
+      logger.error('Failed to retrieve transcript', {
+        error: (error as Error).message,
+        execution_id: executionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete transcript records created before the cutoff. Returns the execution IDs that still have transcripts.
+   */
+  public pruneTranscripts(cutoffTime: number): string[] {
+    if (!this.initialized || !this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const result = this.db.prepare(`
+        DELETE FROM execution_transcripts WHERE created_at < ?
+      `).run(cutoffTime);
+
+      logger.info('Pruned old transcript records', { deleted_count: result.changes });
+
+      const rows = this.db.prepare(`
+        SELECT execution_id FROM execution_transcripts
+      `).all() as Array<{ execution_id: string }>;
+      return rows.map(row => row.execution_id);
+    } catch (error) {
+      logger.error('Failed to prune transcripts', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  // Secret methods - values stay encrypted and are never logged
+  public upsertSecret(record: SecretRecord): void {
+    if (!this.initialized || !this.upsertSecretStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.upsertSecretStmt.run(
+        record.name,
+        record.encrypted_value,
+        record.description ?? null,
+        record.created_at,
+        record.updated_at
+      );
+      logger.debug('Secret saved', { name: record.name });
+    } catch (error) {
+      logger.error('Failed to save secret', {
+        error: (error as Error).message,
+        name: record.name
+      });
+      throw error;
+    }
+  }
+
+  public getSecret(name: string): SecretRecord | null {
+    if (!this.initialized || !this.selectSecretStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return (this.selectSecretStmt.get(name) as SecretRecord | undefined) ?? null;
+    } catch (error) {
+      logger.error('Failed to retrieve secret', { error: (error as Error).message, name });
+      throw error;
+    }
+  }
+
+  /**
+   * Every vault entry without its value.
+   */
+  public getSecrets(): Omit<SecretRecord, 'encrypted_value'>[] {
+    if (!this.initialized || !this.selectSecretsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectSecretsStmt.all() as Omit<SecretRecord, 'encrypted_value'>[];
+    } catch (error) {
+      logger.error('Failed to retrieve secrets', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  public deleteSecret(name: string): boolean {
+    if (!this.initialized || !this.deleteSecretStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      const result = this.deleteSecretStmt.run(name);
+      logger.debug('Secret deleted', { name, changes: result.changes });
+      return result.changes > 0;
+    } catch (error) {
+      logger.error('Failed to delete secret', {
+        error: (error as Error).message,
+        name
+      });
+      throw error;
+    }
+  }
+
+  // Catalog methods
+  public upsertCatalogScript(record: CatalogScriptRecord): void {
+    if (!this.initialized || !this.upsertCatalogScriptStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.upsertCatalogScriptStmt.run(
+        record.script_id,
+        record.active_version,
+        record.pinned_version,
+        record.updated_at
+      );
+    } catch (error) {
+      logger.error('Failed to save catalog script', {
+        error: (error as Error).message,
+        script_id: record.script_id
+      });
+      throw error;
+    }
+  }
+
+  public getCatalogScripts(): CatalogScriptRecord[] {
+    if (!this.initialized || !this.selectCatalogScriptsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectCatalogScriptsStmt.all() as CatalogScriptRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve catalog scripts', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  public insertCatalogVersion(record: CatalogVersionRecord): void {
+    if (!this.initialized || !this.insertCatalogVersionStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.insertCatalogVersionStmt.run(record.script_id, record.version, record.files, record.installed_at);
+    } catch (error) {
+      logger.error('Failed to save catalog version', {
+        error: (error as Error).message,
+        script_id: record.script_id,
+        version: record.version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Kept versions of every catalog script, newest first.
+   */
+  public getCatalogVersions(): CatalogVersionRecord[] {
+    if (!this.initialized || !this.selectCatalogVersionsStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.selectCatalogVersionsStmt.all() as CatalogVersionRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve catalog versions', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  public deleteCatalogVersion(scriptId: string, version: string): void {
+    if (!this.initialized || !this.deleteCatalogVersionStmt) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      this.deleteCatalogVersionStmt.run(scriptId, version);
+    } catch (error) {
+      logger.error('Failed to delete catalog version', {
+        error: (error as Error).message,
+        script_id: scriptId,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The most recent audit log entries of one type, newest first.
+   */
+  public getAuditLogsByType(eventType: string, limit: number = 100): AuditLogRecord[] {
+    if (!this.initialized || !this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      return this.db.prepare(`
+        SELECT * FROM audit_logs WHERE event_type = ? ORDER BY timestamp DESC LIMIT ?
+      `).all(eventType, limit) as AuditLogRecord[];
+    } catch (error) {
+      logger.error('Failed to retrieve audit logs', { error: (error as Error).message, event_type: eventType });
+      throw error;
+    }
+  }
+
   // Cleanup methods
   public cleanupOldLogs(retentionDays: number = 30): number {
     if (!this.initialized || !this.db) {
@@ -0,0 +1,113 @@
+import { BrowserWindow } from 'electron';
+import type { ScriptProgress } from '../../shared/execution/progress';
+import type { ResourceUsage } from '../../shared/execution/resource-usage';
+import type { ScriptResult } from '../../shared/execution/result';
+import type { ExecutionResult } from './powershell-executor';
+
+/** The run an update is about */
+export interface ExecutionUpdateTarget {
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
+}
+
+interface ExecutionUpdateBase extends ExecutionUpdateTarget {
+  /** Reported percentage, 0-100 */
+  progress?: number;
+  progressPhase?: string;
+  progressStatus?: string;
+  /** Set for scripts with a retry policy: current attempt and the most there will be */
+  attempt?: number;
+  maxAttempts?: number;
+}
+
+/** Waiting in the queue or for its preconditions */
+export interface PendingExecutionUpdate extends ExecutionUpdateBase {
+  status: 'pending';
+  /** 1-based position while the run waits in the queue */
+  queuePosition?: number;
+}
+
+/** Started, or new output while it runs */
+export interface RunningExecutionUpdate extends ExecutionUpdateBase {
+  status: 'running';
+  output?: string;
+}
+
+/** The final update of a run; refusals before the start carry only the error */
+export interface FinishedExecutionUpdate extends ExecutionUpdateBase {
+  status: 'success' | 'error';
+  output?: string;
+  error?: string;
+  duration?: number;
+  exitCode?: number;
+  resourceUsage?: ResourceUsage;
+  results?: ScriptResult[];
+  /** Set on the final update of a Preview run */
+  dryRun?: boolean;
+}
+
+export interface CancelledExecutionUpdate extends ExecutionUpdateBase {
+  status: 'cancelled';
+  error?: string;
+}
+
+/** Payload of 'script:execution:update', see ExecutionUpdate in the preload API */
+export type ExecutionUpdate =
+  | PendingExecutionUpdate
+  | RunningExecutionUpdate
+  | FinishedExecutionUpdate
+  | CancelledExecutionUpdate;
+
+export function buildStartedUpdate(target: ExecutionUpdateTarget): RunningExecutionUpdate {
+  return { ...target, status: 'running' };
+}
+
+export function buildOutputUpdate(target: ExecutionUpdateTarget, output: string): RunningExecutionUpdate {
+  return { ...target, status: 'running', output };
+}
+
+export function buildProgressUpdate(target: ExecutionUpdateTarget, progress: ScriptProgress): RunningExecutionUpdate {
+  return {
+    ...target,
+    status: 'running',
+    progress: progress.percent,
+    progressPhase: progress.phase,
+    progressStatus: progress.status
+  };
+}
+
+/**
+ * The final update for a run, with everything the execution panel shows for it.
+ * succeeded defaults to result.success; runbook steps decide by their own exit codes.
+ */
+export function buildCompletionUpdate(
+  target: ExecutionUpdateTarget,
+  result: ExecutionResult,
+  succeeded: boolean = result.success
+): FinishedExecutionUpdate {
+  return {
+    ...target,
+    status: succeeded ? 'success' : 'error',
+    progress: 100,
+    output: result.output || `Script "${target.scriptName}" completed`,
+    error: result.error,
+    duration: result.duration,
+    exitCode: result.exitCode,
+    resourceUsage: result.resourceUsage,
+    results: result.results,
+    attempt: result.attempt,
+    maxAttempts: result.maxAttempts,
+    dryRun: result.dryRun
+  };
+}
+
+/**
+ * Send an update to the main window, if it is open.
+ */
+export function sendExecutionUpdate(update: ExecutionUpdate): void {
+  const windows = BrowserWindow.getAllWindows();
+  if (windows.length > 0 && !windows[0].isDestroyed()) {
+    windows[0].webContents.send('script:execution:update', update);
+  }
+}
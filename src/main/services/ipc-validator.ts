@@ -5,11 +5,28 @@ import {
   IpcMessageSchema,
   ExecuteScriptRequestSchema,
   CancelExecutionRequestSchema,
+  PromptResponseRequestSchema,
+  ReorderQueueRequestSchema,
   LogFiltersSchema,
   ExportLogsRequestSchema,
   AppSettingsSchema,
   NotificationSchema,
-  SessionStateSchema
+  SessionStateSchema,
+  CreateScheduleRequestSchema,
+  UpdateScheduleRequestSchema,
+  DeleteScheduleRequestSchema,
+  StartRunbookRequestSchema,
+  ListArtifactsRequestSchema,
+  ArtifactActionRequestSchema,
+  RerunInfoRequestSchema,
+  SetSecretRequestSchema,
+  DeleteSecretRequestSchema,
+  ReadTranscriptRequestSchema,
+  SaveTranscriptRequestSchema,
+  RollbackCatalogScriptRequestSchema,
+  PinCatalogScriptRequestSchema,
+  ScriptPackageImportRequestSchema,
+  ExportScriptPackageRequestSchema
 } from '../../shared/validation/schemas';
 import { securityLogger, ipcLogger } from './logger';
 import { v4 as uuidv4 } from 'uuid';
@@ -30,10 +47,22 @@ const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   'system:get-realtime-metrics': { windowMs: 10000, maxRequests: isDev ? 120 : 60 },
   'script:execute': { windowMs: 60000, maxRequests: 5 },
   'script:cancel': { windowMs: 60000, maxRequests: 10 },
+  'script:prompt-response': { windowMs: 60000, maxRequests: 60 },
+  'queue:list': { windowMs: 30000, maxRequests: isDev ? 50 : 30 },
+  'queue:reorder': { windowMs: 60000, maxRequests: 60 },
+  'queue:cancel': { windowMs: 60000, maxRequests: 20 },
   'script:get-all': { windowMs: 30000, maxRequests: 20 },
+  'script:rescan': { windowMs: 60000, maxRequests: 5 },
+  'script:get-load-report': { windowMs: 30000, maxRequests: isDev ? 50 : 30 },
   'script:get-details': { windowMs: 30000, maxRequests: 50 },
+  'script:check-concurrency': { windowMs: 30000, maxRequests: 50 },
+  'script:check-preconditions': { windowMs: 30000, maxRequests: 30 },
+  'secret:list': { windowMs: 30000, maxRequests: 20 },
+  'secret:set': { windowMs: 60000, maxRequests: 10 },
+  'secret:delete': { windowMs: 60000, maxRequests: 10 },
   'log:get': { windowMs: 30000, maxRequests: 30 },
   'log:export': { windowMs: 300000, maxRequests: 2 }, // 5 minutes, 2 exports
+  'log:rerun-info': { windowMs: 30000, maxRequests: 30 },
   'settings:get': { windowMs: 60000, maxRequests: 20 },
   'settings:update': { windowMs: 60000, maxRequests: 10 },
   'notification:show': { windowMs: 60000, maxRequests: 30 },
@@ -41,7 +70,29 @@ const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   'session:restore-state': { windowMs: 60000, maxRequests: 5 },
   'session:end-request': { windowMs: 60000, maxRequests: 3 },
   'favorites:get': { windowMs: 30000, maxRequests: isDev ? 50 : 20 },
-  'favorites:toggle': { windowMs: 60000, maxRequests: isDev ? 50 : 20 }
+  'favorites:toggle': { windowMs: 60000, maxRequests: isDev ? 50 : 20 },
+  'schedule:list': { windowMs: 30000, maxRequests: isDev ? 50 : 20 },
+  'schedule:create': { windowMs: 60000, maxRequests: 10 },
+  'schedule:update': { windowMs: 60000, maxRequests: 30 },
+  'schedule:delete': { windowMs: 60000, maxRequests: 10 },
+  'runbook:list': { windowMs: 30000, maxRequests: isDev ? 50 : 20 },
+  'runbook:executions': { windowMs: 30000, maxRequests: isDev ? 50 : 30 },
+  'runbook:start': { windowMs: 60000, maxRequests: 5 },
+  'runbook:cancel': { windowMs: 60000, maxRequests: 10 },
+  'artifact:list': { windowMs: 30000, maxRequests: isDev ? 100 : 60 },
+  'artifact:open': { windowMs: 60000, maxRequests: 20 },
+  'artifact:save': { windowMs: 60000, maxRequests: 20 },
+  'artifact:reveal': { windowMs: 60000, maxRequests: 20 },
+  'transcript:read': { windowMs: 30000, maxRequests: isDev ? 200 : 120 },
+  'transcript:save': { windowMs: 60000, maxRequests: 20 },
+  'catalog:status': { windowMs: 30000, maxRequests: isDev ? 50 : 30 },
+  'catalog:sync': { windowMs: 60000, maxRequests: 5 },
+  'catalog:rollback': { windowMs: 60000, maxRequests: 10 },
+  'catalog:pin': { windowMs: 60000, maxRequests: 20 },
+  'package:inspect': { windowMs: 60000, maxRequests: 10 },
+  'package:install': { windowMs: 60000, maxRequests: 10 },
+  'package:cancel': { windowMs: 60000, maxRequests: 20 },
+  'package:export': { windowMs: 60000, maxRequests: 10 }
 };
 
 // Rate limiting storage
@@ -51,12 +102,36 @@ const rateLimitStorage = new Map<string, Array<{ timestamp: number; channel: str
 const VALIDATION_SCHEMAS: Record<string, z.ZodSchema<any>> = {
   'script:execute': ExecuteScriptRequestSchema,
   'script:cancel': CancelExecutionRequestSchema,
+  'script:prompt-response': PromptResponseRequestSchema,
+  'queue:reorder': ReorderQueueRequestSchema,
+  'queue:cancel': CancelExecutionRequestSchema,
   'script:get-details': z.object({ scriptId: z.string().min(1).max(100) }),
+  'script:check-concurrency': z.object({ scriptId: z.string().min(1).max(100) }),
+  'script:check-preconditions': z.object({ scriptId: z.string().min(1).max(100) }),
   'log:get': LogFiltersSchema.optional(),
   'log:export': ExportLogsRequestSchema,
+  'log:rerun-info': RerunInfoRequestSchema,
   'settings:update': AppSettingsSchema.partial(),
   'notification:show': NotificationSchema,
   'session:save-state': SessionStateSchema,
+  'schedule:create': CreateScheduleRequestSchema,
+  'schedule:update': UpdateScheduleRequestSchema,
+  'schedule:delete': DeleteScheduleRequestSchema,
+  'runbook:start': StartRunbookRequestSchema,
+  'runbook:cancel': CancelExecutionRequestSchema,
+  'artifact:list': ListArtifactsRequestSchema,
+  'artifact:open': ArtifactActionRequestSchema,
+  'artifact:save': ArtifactActionRequestSchema,
+  'artifact:reveal': ArtifactActionRequestSchema,
+  'secret:set': SetSecretRequestSchema,
+  'secret:delete': DeleteSecretRequestSchema,
+  'transcript:read': ReadTranscriptRequestSchema,
+  'transcript:save': SaveTranscriptRequestSchema,
+  'catalog:rollback': RollbackCatalogScriptRequestSchema,
+  'catalog:pin': PinCatalogScriptRequestSchema,
+  'package:install': ScriptPackageImportRequestSchema,
+  'package:cancel': ScriptPackageImportRequestSchema,
+  'package:export': ExportScriptPackageRequestSchema,
   // Add more as needed
 };
 
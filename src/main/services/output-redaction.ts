@@ -0,0 +1,48 @@
+import { createServiceLogger } from './logger';
+import { getDatabaseService } from './database';
+import type { ScriptDefinition } from './script-registry';
+import {
+  REDACTION_DETECTOR_IDS,
+  createRedactor,
+  type RedactionDetectorId,
+  type Redactor
+} from '../../shared/execution/redaction';
+
+const logger = createServiceLogger('output-redaction');
+
+/**
+ * Builds the redactor for a script's output: the built-in detectors enabled in settings plus
+ * the script's own rules.
+ */
+class OutputRedactionService {
+  public getRedactor(scriptDef?: Pick<ScriptDefinition, 'redactions'>): Redactor {
+    return createRedactor(this.getEnabledDetectors(), scriptDef?.redactions ?? []);
+  }
+
+  /**
+   * Detectors from the redactionDetectors setting, or all of them when it isn't set.
+   */
+  public getEnabledDetectors(): RedactionDetectorId[] {
+    try {
+      const configured = getDatabaseService().getSetting<string[]>('redactionDetectors');
+      if (Array.isArray(configured)) {
+        return REDACTION_DETECTOR_IDS.filter(id => configured.includes(id));
+      }
+    } catch (dbError) {
+      logger.warn('Database unavailable - using all redaction detectors');
+    }
+    return [...REDACTION_DETECTOR_IDS];
+  }
+}
+
+// Create and export singleton instance
+let outputRedactionService: OutputRedactionService | null = null;
+
+export const getOutputRedactionService = (): OutputRedactionService => {
+  if (!outputRedactionService) {
+    outputRedactionService = new OutputRedactionService();
+  }
+  return outputRedactionService;
+};
+
+export default getOutputRedactionService;
@@ -1,39 +1,79 @@
 import { spawn, ChildProcess } from 'child_process';
 import { randomUUID } from 'crypto';
-import { join } from 'path';
-import { writeFileSync, unlinkSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { unlinkSync, existsSync, writeFileSync } from 'fs';
 import { app, BrowserWindow } from 'electron';
 import { createServiceLogger, scriptLogger, securityLogger } from './logger';
 import { getDatabaseService } from './database';
+import type { QueuedExecutionRecord } from './database';
 import { validateScriptForExecution } from './signature-verifier';
 import type { ScriptDefinition } from './script-registry';
 import type { ValidationResult } from './script-validator';
+import { getScriptRegistryService } from './script-registry';
+import { readVerifiedCleanupScript, readVerifiedScript } from './script-integrity';
+import ScriptValidatorService from './script-validator';
+import { getScriptRuntime } from './runtimes';
+import { getResourceMonitorService } from './resource-monitor';
+import { getArtifactStoreService } from './artifact-store';
+import { listProcessTree, snapshotProcessTree, terminateProcesses } from './process-tree';
+import { getPreconditionEvaluatorService } from './precondition-evaluator';
+import { getRequirementEvaluatorService } from './requirement-evaluator';
+import { getSecretVaultService } from './secret-vault';
+import { getOutputRedactionService } from './output-redaction';
+import { getTranscriptStoreService, type TranscriptWriter } from './transcript-store';
+import { sendExecutionUpdate } from './execution-updates';
 import { validateAndSanitize, ExecutionResultSchema } from '../../shared/validation/schemas';
+import type { ScriptProgress } from '../../shared/execution/progress';
+import {
+  findConcurrencyConflict,
+  type ConcurrencyConflict,
+  type ConcurrencyRun
+} from '../../shared/execution/concurrency';
+import {
+  formatPromptResponse,
+  type ScriptPrompt,
+  type ScriptPromptResponse,
+} from '../../shared/execution/prompt';
+import {
+  splitCompleteLines,
+  splitScriptOutput,
+  flushScriptOutput,
+  type ScriptOutputChunk
+} from '../../shared/execution/script-output';
+import type { ProcessSample, ResourceUsage } from '../../shared/execution/resource-usage';
+import { ARTIFACTS_ENV_VAR } from '../../shared/execution/artifacts';
+import { addScriptResult, redactScriptResults, type ScriptResult } from '../../shared/execution/result';
+import { DRY_RUN_ENV_VAR, withDryRunParameter } from '../../shared/execution/dry-run';
+import {
+  CANCEL_PARAMETERS_ENV_VAR,
+  CANCEL_REASON_ENV_VAR,
+  CLEANUP_TIMEOUT_MS,
+  STOP_FILE_ENV_VAR,
+  formatCancellationReport,
+  shouldRunCleanup,
+  type CancellationStep
+} from '../../shared/execution/cancellation';
+import {
+  formatAttemptLabel,
+  getRetryDelay,
+  hasAttemptsLeft,
+  isRetryableFailure
+} from '../../shared/execution/retry';
+import { summarizeFailedPreconditions } from '../../shared/execution/preconditions';
+import { maskSecretChunk, maskSecrets } from '../../shared/execution/secrets';
+import type { RedactionCounts, Redactor } from '../../shared/execution/redaction';
+import { appendTail } from '../../shared/execution/transcript';
+import {
+  BLOCKED_PROXY,
+  getCapabilityRestrictions,
+  isLanguageModeViolation,
+  type CapabilityViolation,
+  type ScriptCapability
+} from '../../shared/execution/capabilities';
+import { getQueueInsertIndex, moveQueueEntry, orderSavedQueue } from '../../shared/execution/queue';
 
 const logger = createServiceLogger('powershell-executor');
 
-// Debug logging helper - sends logs to both console and renderer DevTools
-const debugLog = (category: string, message: string, data?: any): void => {
-  const timestamp = new Date().toISOString().split('T')[1].replace('Z', '');
-  const logEntry = {
-    timestamp,
-    category,
-    message,
-    data,
-    source: 'powershell-executor'
-  };
-
-  // Always log to console and file logger at info level
-  console.log(`[${timestamp}] [${category}] ${message}`, data ? JSON.stringify(data, null, 2) : '');
-  logger.info(`[${category}] ${message}`, data || {});
-
-  // Send to renderer if any window exists
-  const windows = BrowserWindow.getAllWindows();
-  if (windows.length > 0 && !windows[0].isDestroyed()) {
-    windows[0].webContents.send('debug:main-process-log', logEntry);
-  }
-};
-
 export interface ExecutionRequest {
   scriptId: string;
   scriptDefinition: ScriptDefinition;
@@ -42,6 +82,12 @@ export interface ExecutionRequest {
   requestId: string;
   userId?: string;
   source: 'manual' | 'protocol' | 'scheduled';
+  /** Preview run: the script is asked to report what it would do without changing anything */
+  dryRun?: boolean;
+  /** Set on automatic retries: the run being retried and this attempt's 1-based number */
+  retryOf?: { runId: string; attempt: number };
+  /** Keep the run pending until the script's preconditions pass instead of refusing it */
+  waitForPreconditions?: boolean;
 }
 
 export interface ExecutionResult {
@@ -53,43 +99,145 @@ export interface ExecutionResult {
   exitCode: number;
   timestamp: number;
   resourceUsage?: ResourceUsage;
+  /** Structured results the script reported (summary cards, tables) */
+  results?: ScriptResult[];
+  /** Set for scripts with a retry policy */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Set for Preview runs */
+  dryRun?: boolean;
 }
 
-export interface ResourceUsage {
-  maxMemoryMB: number;
-  avgCpuPercent: number;
-  diskReadMB: number;
-  diskWriteMB: number;
-  networkBytesSent: number;
-  networkBytesReceived: number;
-}
+export type { ResourceUsage, ScriptResult };
 
 export interface ExecutionOptions {
   timeout?: number;
   workingDirectory?: string;
   environment?: Record<string, string>;
+  /** Memory limit for the script's whole process tree; runs over it are cancelled with 'resource_limit' */
   maxMemoryMB?: number;
   enableNetworking?: boolean;
   allowFileSystem?: boolean;
   allowRegistry?: boolean;
+  /** Declared capabilities, enforced by the runtime; undefined for scripts that declare none (unrestricted) */
+  capabilities?: ScriptCapability[];
+  /** Per-run directory for files the script wants kept, indexed when the run ends */
+  artifactsDirectory?: string;
+  /** Decrypted values of the run's secret parameters, masked wherever output is stored or streamed */
+  secretValues?: string[];
   captureOutput?: boolean;
   streamOutput?: boolean;
 }
 
 export interface ActiveExecution {
   id: string;
+  /** ID callers know the run by; differs from id on automatic retries */
+  runId: string;
+  /** 1-based attempt number */
+  attempt: number;
+  request: ExecutionRequest;
   scriptId: string;
+  scriptName: string;
+  concurrencyGroup?: string;
   process: ChildProcess;
   startTime: number;
   timeout?: NodeJS.Timeout;
   options: ExecutionOptions;
   onProgress?: (output: string) => void;
+  onProgressUpdate?: (progress: ScriptProgress) => void;
+  onComplete?: (result: ExecutionResult) => void;
+  onCancel?: (reason: string) => void;
+  /** Latest progress reported by the script */
+  progress?: ScriptProgress;
+  /** Prompt the script is currently blocked on, waiting for an answer on stdin */
+  pendingPrompt?: ScriptPrompt;
+  /** Structured results reported so far */
+  results: ScriptResult[];
+  /** Applied to output before it is stored or written to the app log */
+  redactor: Redactor;
+  /** Full output on disk; null if the transcript file couldn't be created */
+  transcript: TranscriptWriter | null;
+}
+
+export interface ExecutionCallbacks {
+  onProgress?: (output: string) => void;
+  onProgressUpdate?: (progress: ScriptProgress) => void;
   onComplete?: (result: ExecutionResult) => void;
+  /** Called instead of onComplete when the run is cancelled or times out */
+  onCancel?: (reason: string) => void;
+}
+
+/** A failed run waiting out its retry delay. The next attempt gets a new execution ID. */
+interface PendingRetry {
+  request: ExecutionRequest;
+  callbacks: ExecutionCallbacks;
+  /** Number of the attempt about to start */
+  attempt: number;
+  timer: NodeJS.Timeout;
+}
+
+// How often a due retry checks for a free slot
+const RETRY_SLOT_POLL_MS = 5000;
+
+// End of each stream kept in memory and in the execution log; the rest is in the transcript
+const MAX_STORED_OUTPUT_LENGTH = 50000;
+const MAX_STORED_ERROR_LENGTH = 10000;
+
+/** A run waiting for its script's preconditions to pass. requestId is the execution ID. */
+interface WaitingExecution {
+  request: ExecutionRequest;
+  waitingSince: number;
+  timer: NodeJS.Timeout;
+}
+
+// How often a waiting run re-checks its preconditions, and when it gives up
+const PRECONDITION_POLL_MS = 30000;
+const PRECONDITION_MAX_WAIT_MS = 24 * 60 * 60 * 1000;
+
+/** A request waiting for a free execution slot. requestId is the execution ID. */
+interface QueuedExecution {
+  request: ExecutionRequest;
+  priority: number;
+  enqueuedAt: number;
+}
+
+/** Queue entry as reported to the renderer */
+export interface QueueItem {
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
+  source: ExecutionRequest['source'];
+  priority: number;
+  /** 1-based position in the queue */
+  position: number;
+  enqueuedAt: number;
+}
+
+// Higher runs first: someone waiting at the screen beats a link click beats a schedule
+const QUEUE_PRIORITY: Record<ExecutionRequest['source'], number> = {
+  manual: 3,
+  protocol: 2,
+  scheduled: 1
+};
+
+/** Payload of the script:prompt event sent to the renderer */
+export interface ScriptPromptRequest extends ScriptPrompt {
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
 }
 
 class PowerShellExecutorService {
   private activeExecutions = new Map<string, ActiveExecution>();
-  private executionQueue: ExecutionRequest[] = [];
+  private executionQueue: QueuedExecution[] = [];
+  // Callbacks registered for queued executions, attached when they start
+  private pendingCallbacks = new Map<string, ExecutionCallbacks>();
+  // Executions that are starting but haven't spawned their process yet
+  private startingExecutions = new Map<string, ExecutionRequest>();
+  // Failed runs waiting to be retried, by run ID
+  private pendingRetries = new Map<string, PendingRetry>();
+  // Runs waiting for their preconditions, by execution ID
+  private waitingExecutions = new Map<string, WaitingExecution>();
   private maxConcurrentExecutions = 3;
   private isProcessingQueue = false;
   private tempDirectory: string;
@@ -142,10 +290,16 @@ class PowerShellExecutorService {
         this.executionQueue.length > 0 && 
         this.activeExecutions.size < this.maxConcurrentExecutions
       ) {
-        const request = this.executionQueue.shift();
-        if (request) {
-          await this.executeScriptImmediate(request);
-        }
+        // Skip over requests held back by a concurrency group or instance limit
+        const index = this.executionQueue.findIndex(
+          item => !this.checkConcurrency(item.request.scriptDefinition)
+        );
+        if (index === -1) break;
+
+        const [queued] = this.executionQueue.splice(index, 1);
+        this.removePersistedQueueItem(queued.request.requestId);
+        this.broadcastQueuePositions();
+        await this.startExecution(queued.request, true);
       }
     } catch (error) {
       logger.error('Error processing execution queue', {
@@ -163,11 +317,263 @@ class PowerShellExecutorService {
       executionId,
       scriptId: request.scriptId,
       source: request.source,
+      dryRun: !!request.dryRun,
       queueLength: this.executionQueue.length,
       activeExecutions: this.activeExecutions.size
     });
 
-    // Log execution request to database (skip in development if database unavailable)
+    if (request.dryRun && !request.scriptDefinition.supportsWhatIf) {
+      throw new Error(`${request.scriptDefinition.name} does not support preview`);
+    }
+
+    // Refused before the log entry is written: a bad secret reference may be a pasted secret
+    try {
+      getSecretVaultService().resolveReferences(request.scriptDefinition, request.parameters || {});
+    } catch (error) {
+      logger.warn('Script execution refused - secret parameters not resolved', {
+        executionId,
+        scriptId: request.scriptId,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+
+    this.insertPendingLog(executionId, request);
+    if (request.dryRun) {
+      try {
+        getDatabaseService().markExecutionPreview(executionId);
+      } catch (dbError) {
+        logger.warn('Database unavailable - skipping preview tag', { executionId });
+      }
+    }
+
+    const securityError = this.checkSecurityLevel(request, executionId);
+    if (securityError) {
+      try {
+        const db = getDatabaseService();
+        db.updateExecutionLog(executionId, 'error', 0, -1, '', securityError);
+      } catch (dbError) {
+        logger.warn('Database unavailable - skipping error log', { executionId });
+      }
+      throw new Error(securityError);
+    }
+
+    // Requirements don't change while the app runs, so unlike preconditions there's no waiting
+    const compatibility = await getRequirementEvaluatorService().evaluate(request.scriptDefinition);
+    if (!compatibility.compatible) {
+      const error = `Not available on this PC: ${compatibility.reasons.join('; ')}`;
+      logger.warn('Script execution refused - requirements not met', {
+        executionId,
+        scriptId: request.scriptId,
+        reasons: compatibility.reasons
+      });
+
+      try {
+        const db = getDatabaseService();
+        db.updateExecutionLog(executionId, 'error', 0, -1, '', error);
+      } catch (dbError) {
+        logger.warn('Database unavailable - skipping error log', { executionId });
+      }
+      throw new Error(error);
+    }
+
+    const preconditions = request.scriptDefinition.preconditions;
+    if (preconditions?.length) {
+      const check = await getPreconditionEvaluatorService().evaluate(preconditions);
+      if (!check.passed) {
+        const summary = summarizeFailedPreconditions(check);
+        if (request.waitForPreconditions) {
+          this.waitForPreconditions({ ...request, requestId: executionId }, summary);
+          return executionId;
+        }
+
+        const error = `Conditions not met: ${summary}`;
+        logger.warn('Script execution refused - preconditions not met', {
+          executionId,
+          scriptId: request.scriptId,
+          failed: summary
+        });
+
+        try {
+          const db = getDatabaseService();
+          db.updateExecutionLog(executionId, 'error', 0, -1, '', error);
+        } catch (dbError) {
+          logger.warn('Database unavailable - skipping error log', { executionId });
+        }
+        throw new Error(error);
+      }
+    }
+
+    await this.dispatch({ ...request, requestId: executionId });
+    return executionId;
+  }
+
+  /**
+   * Start a request (requestId set) or queue it, subject to concurrency rules and the slot limit.
+   */
+  private async dispatch(request: ExecutionRequest, wasQueued: boolean = false): Promise<void> {
+    const executionId = request.requestId;
+    const conflict = this.checkConcurrency(request.scriptDefinition);
+    if (conflict?.policy === 'reject') {
+      logger.warn('Script execution rejected by concurrency rules', {
+        executionId,
+        scriptId: request.scriptId,
+        kind: conflict.kind,
+        blockedBy: conflict.blockedBy
+      });
+
+      try {
+        const db = getDatabaseService();
+        db.updateExecutionLog(executionId, 'error', 0, -1, '', conflict.reason);
+      } catch (dbError) {
+        logger.warn('Database unavailable - skipping error log', { executionId });
+      }
+      throw new Error(conflict.reason);
+    }
+
+    // Add to queue or execute immediately
+    if (
+      conflict ||
+      this.activeExecutions.size >= this.maxConcurrentExecutions ||
+      this.executionQueue.length > 0
+    ) {
+      this.enqueue({
+        request,
+        priority: QUEUE_PRIORITY[request.source],
+        enqueuedAt: Date.now()
+      });
+      // A slot may be free if only lower-priority work was waiting
+      this.processQueue();
+    } else {
+      await this.startExecution(request, wasQueued);
+    }
+  }
+
+  /**
+   * Hold a run whose preconditions failed and re-check them until they pass.
+   */
+  private waitForPreconditions(request: ExecutionRequest, summary: string): void {
+    const executionId = request.requestId;
+    this.waitingExecutions.set(executionId, {
+      request,
+      waitingSince: Date.now(),
+      timer: setTimeout(() => this.recheckPreconditions(executionId), PRECONDITION_POLL_MS)
+    });
+
+    logger.info('Script execution waiting for preconditions', {
+      executionId,
+      scriptId: request.scriptId,
+      failed: summary
+    });
+    this.sendWaitingUpdate(request, summary);
+  }
+
+  private async recheckPreconditions(executionId: string): Promise<void> {
+    const waiting = this.waitingExecutions.get(executionId);
+    if (!waiting) return;
+
+    const { request } = waiting;
+    const check = await getPreconditionEvaluatorService().evaluate(request.scriptDefinition.preconditions ?? []);
+    // Cancelled while the checks ran
+    if (this.waitingExecutions.get(executionId) !== waiting) return;
+
+    if (!check.passed) {
+      const summary = summarizeFailedPreconditions(check);
+      if (Date.now() - waiting.waitingSince >= PRECONDITION_MAX_WAIT_MS) {
+        this.waitingExecutions.delete(executionId);
+        this.failWaitingExecution(request, `Conditions still not met after 24 hours: ${summary}`);
+        return;
+      }
+      waiting.timer = setTimeout(() => this.recheckPreconditions(executionId), PRECONDITION_POLL_MS);
+      this.sendWaitingUpdate(request, summary);
+      return;
+    }
+
+    this.waitingExecutions.delete(executionId);
+    logger.info('Preconditions met - starting waiting execution', { executionId, scriptId: request.scriptId });
+    try {
+      await this.dispatch(request, true);
+    } catch (error) {
+      this.failWaitingExecution(request, (error as Error).message);
+    }
+  }
+
+  private sendWaitingUpdate(request: ExecutionRequest, summary: string): void {
+    sendExecutionUpdate({
+      executionId: request.requestId,
+      scriptId: request.scriptId,
+      scriptName: request.scriptDefinition.name,
+      status: 'pending',
+      progressPhase: 'Waiting for conditions',
+      progressStatus: summary
+    });
+  }
+
+  private failWaitingExecution(request: ExecutionRequest, error: string): void {
+    const executionId = request.requestId;
+    logger.warn('Waiting execution failed', { executionId, scriptId: request.scriptId, error });
+
+    try {
+      getDatabaseService().updateExecutionLog(executionId, 'error', 0, -1, '', error);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping error log', { executionId });
+    }
+
+    const callbacks = this.pendingCallbacks.get(executionId);
+    this.pendingCallbacks.delete(executionId);
+    if (callbacks?.onComplete) {
+      callbacks.onComplete({
+        id: executionId,
+        success: false,
+        error,
+        duration: 0,
+        exitCode: -1,
+        timestamp: Date.now()
+      });
+    } else {
+      sendExecutionUpdate({
+        executionId,
+        scriptId: request.scriptId,
+        scriptName: request.scriptDefinition.name,
+        status: 'error',
+        error
+      });
+    }
+  }
+
+  private cancelWaitingExecution(executionId: string, reason: string): boolean {
+    const waiting = this.waitingExecutions.get(executionId);
+    if (!waiting) {
+      return false;
+    }
+
+    clearTimeout(waiting.timer);
+    this.waitingExecutions.delete(executionId);
+    const callbacks = this.pendingCallbacks.get(executionId);
+    this.pendingCallbacks.delete(executionId);
+
+    try {
+      getDatabaseService().updateExecutionLog(executionId, 'cancelled', 0, -1, '', `Cancelled: ${reason}`);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping cancellation log', { executionId });
+    }
+
+    logger.info('Waiting execution cancelled', { executionId, reason });
+    callbacks?.onCancel?.(reason);
+
+    sendExecutionUpdate({
+      executionId,
+      scriptId: waiting.request.scriptId,
+      scriptName: waiting.request.scriptDefinition.name,
+      status: 'cancelled'
+    });
+    return true;
+  }
+
+  /**
+   * Log an execution request to the database (skip in development if database unavailable).
+   */
+  private insertPendingLog(executionId: string, request: ExecutionRequest): void {
     try {
       const db = getDatabaseService();
       db.insertExecutionLog({
@@ -180,82 +586,230 @@ class PowerShellExecutorService {
         created_at: Date.now(),
         updated_at: Date.now()
       });
+      db.saveScriptSnapshot(executionId, request.scriptDefinition.hash, request.scriptDefinition.parameters ?? []);
     } catch (error) {
       logger.warn('Database unavailable - skipping execution log', { executionId });
     }
+  }
 
-    // Security check - all scripts in this app are admin-crafted and loaded from trusted directories
-    // (bundled with app or user's AppData scripts folder). Log warnings but allow execution.
-    if (request.validationResult.securityLevel === 'dangerous') {
-      // Check if script is from trusted bundled resources
-      const scriptPath = request.scriptDefinition?.scriptPath || '';
+  /**
+   * Check a script's concurrencyGroup / maxInstances against everything running or starting.
+   * Returns null if the script could start now (ignoring the global slot limit).
+   */
+  public checkConcurrency(scriptDef: ScriptDefinition): ConcurrencyConflict | null {
+    const running: ConcurrencyRun[] = [
+      ...Array.from(this.activeExecutions.values()).map(execution => ({
+        scriptId: execution.scriptId,
+        scriptName: execution.scriptName,
+        concurrencyGroup: execution.concurrencyGroup
+      })),
+      ...Array.from(this.startingExecutions.values()).map(request => ({
+        scriptId: request.scriptId,
+        scriptName: request.scriptDefinition.name,
+        concurrencyGroup: request.scriptDefinition.concurrencyGroup
+      }))
+    ];
 
-      // If no path available, allow execution (internal scripts loaded via registry)
-      if (!scriptPath) {
-        logger.warn('Script with security flags allowed (no path to verify)', {
-          executionId,
-          scriptId: request.scriptId,
-          violations: request.validationResult.violations.length
-        });
-      } else {
-        const trustedPaths = [
-          process.resourcesPath ? join(process.resourcesPath, 'scripts') : '',
-          app.getPath('userData'),
-          // Development paths
-          join(__dirname, '..', '..', 'scripts'),
-          join(__dirname, '..', '..', '..', 'scripts')
-        ].filter(p => p.length > 0);
-
-        const isFromTrustedSource = trustedPaths.some(trusted =>
-          scriptPath.toLowerCase().startsWith(trusted.toLowerCase())
-        );
+    return findConcurrencyConflict(scriptDef, running);
+  }
 
-        if (isFromTrustedSource) {
-          // Script is from trusted source - allow execution with warning
-          logger.warn('Script with security flags allowed from trusted source', {
-            executionId,
-            scriptId: request.scriptId,
-            scriptPath,
-            violations: request.validationResult.violations.length
-          });
-        } else {
-          // Script is from unknown source - block execution
-          const error = 'Script execution denied: untrusted source with security violations';
-
-          securityLogger.error('Untrusted script execution blocked', {
-            executionId,
-            scriptId: request.scriptId,
-            scriptPath,
-            violations: request.validationResult.violations.length
-          });
+  /**
+   * Start a request, counting it against concurrency limits until its process is tracked.
+   */
+  private async startExecution(request: ExecutionRequest, wasQueued: boolean = false): Promise<void> {
+    this.startingExecutions.set(request.requestId, request);
+    try {
+      await this.executeScriptImmediate(request, wasQueued);
+    } finally {
+      this.startingExecutions.delete(request.requestId);
+    }
+  }
+
+  /**
+   * Insert a request behind everything of equal or higher priority and persist the new order.
+   */
+  private enqueue(queued: QueuedExecution): void {
+    const insertAt = getQueueInsertIndex(this.executionQueue, queued.priority);
+    this.executionQueue.splice(insertAt, 0, queued);
+
+    try {
+      const db = getDatabaseService();
+      db.insertQueuedExecution({
+        id: queued.request.requestId,
+        script_id: queued.request.scriptId,
+        script_name: queued.request.scriptDefinition.name,
+        source: queued.request.source,
+        priority: queued.priority,
+        position: insertAt,
+        parameters: JSON.stringify(queued.request.parameters || {}),
+        enqueued_at: queued.enqueuedAt
+      });
+      db.setQueueOrder(this.executionQueue.map(item => item.request.requestId));
+    } catch (error) {
+      logger.warn('Database unavailable - queued execution will not survive a restart', {
+        executionId: queued.request.requestId
+      });
+    }
+
+    logger.info('Script execution queued', {
+      executionId: queued.request.requestId,
+      source: queued.request.source,
+      queuePosition: insertAt + 1,
+      queueLength: this.executionQueue.length
+    });
+
+    this.broadcastQueuePositions();
+  }
+
+  /**
+   * Reload executions that were still queued when the app last exited.
+   * Must be called after the script registry has loaded.
+   */
+  public async restoreQueue(): Promise<void> {
+    let records: QueuedExecutionRecord[];
+    try {
+      records = getDatabaseService().getQueuedExecutions();
+    } catch (error) {
+      logger.warn('Database unavailable - skipping queue restore');
+      return;
+    }
 
-          try {
-            const db = getDatabaseService();
-            db.updateExecutionLog(executionId, 'error', 0, -1, '', error);
-          } catch (dbError) {
-            logger.warn('Database unavailable - skipping error log', { executionId });
-          }
-          throw new Error(error);
+    const registry = getScriptRegistryService();
+    const restored: QueuedExecution[] = [];
+
+    for (const record of orderSavedQueue(records.map(record => ({ ...record, enqueuedAt: record.enqueued_at })))) {
+      const scriptDef = registry.getScript(record.script_id);
+      if (!scriptDef) {
+        logger.warn('Queued script no longer available - dropping from queue', {
+          executionId: record.id,
+          scriptId: record.script_id
+        });
+        this.removePersistedQueueItem(record.id);
+        try {
+          getDatabaseService().updateExecutionLog(record.id, 'error', 0, -1, '', 'Script no longer available');
+        } catch (dbError) {
+          logger.warn('Database unavailable - skipping error log', { executionId: record.id });
         }
+        continue;
       }
-    }
 
-    // Add to queue or execute immediately
-    if (this.activeExecutions.size >= this.maxConcurrentExecutions) {
-      this.executionQueue.push(request);
-      logger.info('Script execution queued', {
-        executionId,
-        queuePosition: this.executionQueue.length
+      restored.push({
+        request: {
+          scriptId: scriptDef.id,
+          scriptDefinition: scriptDef,
+          parameters: record.parameters ? JSON.parse(record.parameters) : {},
+          validationResult: await ScriptValidatorService.validateScript(scriptDef),
+          requestId: record.id,
+          source: record.source as ExecutionRequest['source'],
+          dryRun: !!record.is_preview
+        },
+        priority: record.priority,
+        enqueuedAt: record.enqueued_at
       });
-    } else {
-      await this.executeScriptImmediate({ ...request, requestId: executionId });
     }
+    this.executionQueue.push(...restored);
 
-    return executionId;
+    if (restored.length > 0) {
+      logger.info('Restored queued executions', { count: restored.length });
+      this.broadcastQueuePositions();
+    }
+  }
+
+  /**
+   * Current queue in run order.
+   */
+  public getQueue(): QueueItem[] {
+    return this.executionQueue.map((item, index) => ({
+      executionId: item.request.requestId,
+      scriptId: item.request.scriptId,
+      scriptName: item.request.scriptDefinition.name,
+      source: item.request.source,
+      priority: item.priority,
+      position: index + 1,
+      enqueuedAt: item.enqueuedAt
+    }));
+  }
+
+  /**
+   * Move a queued execution to a new 1-based position. Manual reordering overrides priority.
+   */
+  public moveQueuedExecution(executionId: string, position: number): boolean {
+    const index = this.executionQueue.findIndex(item => item.request.requestId === executionId);
+    if (index === -1) {
+      logger.warn('Cannot reorder - execution not queued', { executionId });
+      return false;
+    }
+
+    const { queue, index: newIndex } = moveQueueEntry(this.executionQueue, index, position);
+    this.executionQueue = queue;
+
+    try {
+      getDatabaseService().setQueueOrder(this.executionQueue.map(queued => queued.request.requestId));
+    } catch (error) {
+      logger.warn('Database unavailable - skipping queue order update', { executionId });
+    }
+
+    logger.info('Queued execution moved', { executionId, from: index + 1, to: newIndex + 1 });
+    this.broadcastQueuePositions();
+    return true;
+  }
+
+  private cancelQueuedExecution(executionId: string, reason: string): boolean {
+    const index = this.executionQueue.findIndex(item => item.request.requestId === executionId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [queued] = this.executionQueue.splice(index, 1);
+    const queuedCallbacks = this.pendingCallbacks.get(executionId);
+    this.pendingCallbacks.delete(executionId);
+    this.removePersistedQueueItem(executionId);
+
+    try {
+      getDatabaseService().updateExecutionLog(executionId, 'cancelled', 0, -1, '', `Cancelled: ${reason}`);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping cancellation log', { executionId });
+    }
+
+    logger.info('Queued execution cancelled', { executionId, reason });
+    queuedCallbacks?.onCancel?.(reason);
+
+    sendExecutionUpdate({
+      executionId,
+      scriptId: queued.request.scriptId,
+      scriptName: queued.request.scriptDefinition.name,
+      status: 'cancelled'
+    });
+    this.broadcastQueuePositions();
+    return true;
+  }
+
+  private removePersistedQueueItem(executionId: string): void {
+    try {
+      getDatabaseService().deleteQueuedExecution(executionId);
+    } catch (error) {
+      logger.warn('Database unavailable - skipping queue removal', { executionId });
+    }
+  }
+
+  /**
+   * Tell the renderer where every queued execution now stands.
+   */
+  private broadcastQueuePositions(): void {
+    for (const item of this.getQueue()) {
+      sendExecutionUpdate({
+        executionId: item.executionId,
+        scriptId: item.scriptId,
+        scriptName: item.scriptName,
+        status: 'pending',
+        queuePosition: item.position
+      });
+    }
   }
 
-  private async executeScriptImmediate(request: ExecutionRequest): Promise<void> {
+  private async executeScriptImmediate(request: ExecutionRequest, wasQueued: boolean = false): Promise<void> {
     const executionId = request.requestId;
+    const runId = request.retryOf?.runId ?? executionId;
     const startTime = Date.now();
     
     try {
@@ -267,6 +821,20 @@ class PowerShellExecutorService {
         logger.warn('Database unavailable - skipping status update', { executionId });
       }
 
+      // Read the script once and check it against the hash the registry pinned when it loaded
+      // the file. Waiting and retried runs pick up the registry's current definition here.
+      const verified = await readVerifiedScript(request.scriptId, executionId);
+      request.scriptDefinition = verified.definition;
+      const scriptContent = verified.content;
+
+      // The request-time security check read the file on its own; check the bytes that will run
+      const runtime = getScriptRuntime(request.scriptDefinition);
+      request.validationResult = await ScriptValidatorService.validateScriptContent(scriptContent.toString('utf8'), runtime.id);
+      const securityError = this.checkSecurityLevel(request, executionId);
+      if (securityError) {
+        throw new Error(securityError);
+      }
+
       // Verify script signature before execution
       const signatureError = validateScriptForExecution(
         request.scriptDefinition.scriptPath,
@@ -284,18 +852,30 @@ class PowerShellExecutorService {
 
       // Create execution options
       const options = this.createExecutionOptions(request);
+      getArtifactStoreService().createDirectory(executionId);
       
-      // Create PowerShell command
-      const { command, args, tempScriptPath } = await this.buildPowerShellCommand(request, options);
+      // Build the command line with the script's runtime (PowerShell, pwsh, bash, ...)
+      const { command, args, tempScriptPath } = await runtime.buildCommand({
+        executionId,
+        scriptDefinition: request.scriptDefinition,
+        parameters: request.dryRun
+          ? withDryRunParameter(request.parameters || {})
+          : request.parameters || {},
+        options,
+        dryRun: !!request.dryRun,
+        scriptContent,
+        tempDirectory: this.tempDirectory,
+      });
       
-      logger.info('Starting PowerShell process', {
+      logger.info('Starting script process', {
         executionId,
+        runtime: runtime.id,
         command,
         args: args.length,
         timeout: options.timeout
       });
 
-      // Start PowerShell process
+      // Start script process
       // Note: windowsHide must be false to allow WPF dialogs to appear
       const childProcess = spawn(command, args, {
         cwd: options.workingDirectory,
@@ -306,25 +886,71 @@ class PowerShellExecutorService {
       });
 
       // Track active execution
+      const redactor = getOutputRedactionService().getRedactor(request.scriptDefinition);
       const execution: ActiveExecution = {
         id: executionId,
+        runId,
+        attempt: request.retryOf?.attempt ?? 1,
+        request,
         scriptId: request.scriptId,
+        scriptName: request.scriptDefinition.name,
+        concurrencyGroup: request.scriptDefinition.concurrencyGroup,
         process: childProcess,
         startTime,
         options,
+        results: [],
+        redactor,
+        transcript: getTranscriptStoreService().open(executionId, redactor),
       };
 
+      // Attach callbacks registered while the execution was queued
+      const queuedCallbacks = this.pendingCallbacks.get(executionId);
+      if (queuedCallbacks) {
+        Object.assign(execution, queuedCallbacks);
+        this.pendingCallbacks.delete(executionId);
+      }
+
       this.activeExecutions.set(executionId, execution);
 
-      // Set up timeout
-      if (options.timeout && options.timeout > 0) {
-        logger.info('⏱️ Setting execution timeout', {
-          executionId,
-          timeoutMs: options.timeout,
-          timeoutHours: (options.timeout / 1000 / 60 / 60).toFixed(2)
+      if (childProcess.pid) {
+        getResourceMonitorService().track(executionId, childProcess.pid, options.maxMemoryMB, (memoryMB) => {
+          this.handleResourceLimit(executionId, memoryMB);
         });
-        execution.timeout = setTimeout(() => {
-          logger.warn('⏱️ TIMEOUT EXPIRED - killing process', { executionId, timeoutMs: options.timeout });
+      }
+
+      if (request.retryOf) {
+        const maxAttempts = request.scriptDefinition.retry?.maxAttempts ?? request.retryOf.attempt;
+        sendExecutionUpdate({
+          executionId: runId,
+          scriptId: request.scriptId,
+          scriptName: request.scriptDefinition.name,
+          status: 'running',
+          progressPhase: formatAttemptLabel(request.retryOf.attempt, maxAttempts),
+          progressStatus: '',
+          attempt: request.retryOf.attempt,
+          maxAttempts
+        });
+      } else if (wasQueued) {
+        // Empty phase clears "Waiting for conditions" left from a run that waited
+        sendExecutionUpdate({
+          executionId,
+          scriptId: request.scriptId,
+          scriptName: request.scriptDefinition.name,
+          status: 'running',
+          progressPhase: '',
+          progressStatus: ''
+        });
+      }
+
+      // Set up timeout
+      if (options.timeout && options.timeout > 0) {
+        logger.info('⏱️ Setting execution timeout', {
+          executionId,
+          timeoutMs: options.timeout,
+          timeoutHours: (options.timeout / 1000 / 60 / 60).toFixed(2)
+        });
+        execution.timeout = setTimeout(() => {
+          logger.warn('⏱️ TIMEOUT EXPIRED - killing process', { executionId, timeoutMs: options.timeout });
           this.cancelExecution(executionId, 'timeout');
         }, options.timeout);
       }
@@ -332,33 +958,81 @@ class PowerShellExecutorService {
       // Capture output
       let stdout = '';
       let stderr = '';
+      let pendingLine = '';
+      let pendingErrorLine = '';
+      // Output that may be the start of a secret value, held back until the next chunk
+      let pendingSecretOutput = '';
+      let pendingSecretError = '';
+      const secretValues = options.secretValues ?? [];
+
+      // Marker lines are consumed here and never reach the stored or streamed output
+      const handleOutput = ({ output, progress, prompts, results, violations }: ScriptOutputChunk): void => {
+        for (const report of progress) {
+          this.applyProgress(execution, report);
+        }
+        for (const prompt of prompts) {
+          this.requestPromptAnswer(execution, prompt);
+        }
+        for (const entry of results) {
+          addScriptResult(execution.results, entry);
+        }
+        for (const violation of violations) {
+          this.recordCapabilityViolation(execution, violation);
+        }
+
+        if (!output) return;
+        execution.transcript?.write('stdout', output);
+        stdout = appendTail(stdout, output, MAX_STORED_OUTPUT_LENGTH);
 
-      childProcess.stdout?.on('data', (data: any) => {
-        const output = data.toString();
-        stdout += output;
-        
         if (options.streamOutput && execution.onProgress) {
           execution.onProgress(output);
         }
 
         scriptLogger.debug('PowerShell stdout', {
           executionId,
-          output: output.substring(0, 1000) // Limit log size
+          output: execution.redactor.redact(output).text.substring(0, 1000) // Limit log size
         });
-      });
+      };
+
+      // stderr is passed on in whole lines so redaction sees complete values
+      const handleError = (error: string): void => {
+        if (!error) return;
+        execution.transcript?.write('stderr', error);
+        stderr = appendTail(stderr, error, MAX_STORED_ERROR_LENGTH);
 
-      childProcess.stderr?.on('data', (data: any) => {
-        const error = data.toString();
-        stderr += error;
-        
         scriptLogger.warn('PowerShell stderr', {
           executionId,
-          error: error.substring(0, 1000) // Limit log size
+          error: execution.redactor.redact(error).text.substring(0, 1000) // Limit log size
         });
+      };
+
+      // Secret values are masked before anything else sees the output, marker lines included
+      childProcess.stdout?.on('data', (data: any) => {
+        const masked = maskSecretChunk(pendingSecretOutput, data.toString(), secretValues);
+        pendingSecretOutput = masked.remainder;
+        const chunk = splitScriptOutput(pendingLine, masked.text);
+        pendingLine = chunk.remainder;
+        handleOutput(chunk);
+      });
+
+      childProcess.stderr?.on('data', (data: any) => {
+        const masked = maskSecretChunk(pendingSecretError, data.toString(), secretValues);
+        pendingSecretError = masked.remainder;
+        const lines = splitCompleteLines(pendingErrorLine, masked.text);
+        pendingErrorLine = lines.remainder;
+        handleError(lines.complete);
       });
 
       // Handle process completion
       childProcess.on('close', (code: number | null) => {
+        const last = splitScriptOutput(pendingLine, maskSecrets(pendingSecretOutput, secretValues));
+        handleOutput(last);
+        handleOutput(flushScriptOutput(last.remainder));
+        handleError(pendingErrorLine + maskSecrets(pendingSecretError, secretValues));
+        pendingLine = '';
+        pendingErrorLine = '';
+        pendingSecretOutput = '';
+        pendingSecretError = '';
         this.handleProcessCompletion(executionId, code || 0, stdout, stderr, tempScriptPath);
       });
 
@@ -391,36 +1065,76 @@ class PowerShellExecutorService {
         logger.warn('Database unavailable - skipping error log', { executionId });
       }
 
+      this.activeExecutions.get(executionId)?.transcript?.close();
       this.activeExecutions.delete(executionId);
+      const queuedCallbacks = this.pendingCallbacks.get(executionId);
+      this.pendingCallbacks.delete(executionId);
+
+      if (queuedCallbacks?.onComplete) {
+        queuedCallbacks.onComplete({
+          id: executionId,
+          success: false,
+          error: (error as Error).message,
+          duration: Date.now() - startTime,
+          exitCode: -1,
+          timestamp: Date.now()
+        });
+      } else {
+        sendExecutionUpdate({
+          executionId: runId,
+          scriptId: request.scriptId,
+          scriptName: request.scriptDefinition.name,
+          status: 'error',
+          error: (error as Error).message
+        });
+      }
     }
   }
 
   private createExecutionOptions(request: ExecutionRequest): ExecutionOptions {
     const scriptDef = request.scriptDefinition;
     const validation = request.validationResult;
+    const artifactsDirectory = getArtifactStoreService().getDirectory(request.requestId);
+    const vault = getSecretVaultService();
+    const secretReferences = vault.resolveReferences(scriptDef, request.parameters || {});
+    const secretEnvironment = secretReferences.length > 0
+      ? vault.decryptForRun(request.requestId, secretReferences)
+      : {};
+    const restrictions = scriptDef.capabilities ? getCapabilityRestrictions(scriptDef.capabilities) : null;
     
     // Base options with security restrictions
     const options: ExecutionOptions = {
       timeout: Math.min(scriptDef.timeout || 30000, 28800000), // Max 8 hours
       workingDirectory: this.tempDirectory,
       maxMemoryMB: 512, // 512MB limit
-      enableNetworking: false,
-      allowFileSystem: false,
-      allowRegistry: false,
+      enableNetworking: restrictions?.allowNetwork ?? true,
+      allowFileSystem: restrictions?.allowFileSystem ?? true,
+      allowRegistry: restrictions?.allowRegistry ?? true,
+      capabilities: restrictions?.allowed,
+      artifactsDirectory,
+      secretValues: Object.values(secretEnvironment),
       captureOutput: true,
       streamOutput: true, // Enable streaming so onProgress callbacks work
       environment: {
         'TEMP': this.tempDirectory,
         'TMP': this.tempDirectory,
+        [ARTIFACTS_ENV_VAR]: artifactsDirectory,
+        [STOP_FILE_ENV_VAR]: this.getStopFilePath(request.requestId),
+        ...(request.dryRun ? { [DRY_RUN_ENV_VAR]: '1' } : {}),
+        ...secretEnvironment,
+        // Programs the script starts (curl, pwsh's web cmdlets) go through an unreachable proxy
+        ...(restrictions && !restrictions.allowNetwork ? {
+          'HTTP_PROXY': BLOCKED_PROXY,
+          'HTTPS_PROXY': BLOCKED_PROXY,
+          'http_proxy': BLOCKED_PROXY,
+          'https_proxy': BLOCKED_PROXY,
+          'NO_PROXY': ''
+        } : {}),
         'PSModulePath': '', // Restrict module loading
         'PSExecutionPolicyPreference': 'Restricted'
       }
     };
 
-    // Allow file system access for trusted scripts
-    options.allowFileSystem = true;
-    options.maxMemoryMB = 512;
-
     // Log security violations but don't cap timeout for trusted scripts
     // (Untrusted scripts with violations are already blocked earlier in executeScriptImmediate)
     const dangerousViolations = validation.violations.filter(v =>
@@ -438,400 +1152,13 @@ class PowerShellExecutorService {
       // NOTE: Previously capped timeout to 60 seconds here, but this broke long-running
       // trusted scripts like file-backup.ps1. Since untrusted scripts are already blocked
       // earlier, we preserve the script's configured timeout.
-      // Still apply other restrictions for defense in depth:
-      options.allowRegistry = false;
+      // Still apply a tighter memory limit for defense in depth
       options.maxMemoryMB = 256;
     }
 
     return options;
   }
 
-  private async buildPowerShellCommand(
-    request: ExecutionRequest,
-    options: ExecutionOptions
-  ): Promise<{ command: string; args: string[]; tempScriptPath?: string }> {
-
-    const scriptDef = request.scriptDefinition;
-    const parameters = request.parameters || {};
-
-    debugLog('POWERSHELL', '========== buildPowerShellCommand ==========', {
-      scriptId: scriptDef.id,
-      scriptPath: scriptDef.scriptPath,
-      requestId: request.requestId,
-      incomingParameters: parameters
-    });
-
-    // Read original script to check if it has a param() block
-    const { readFileSync } = require('fs');
-    const originalScript = readFileSync(scriptDef.scriptPath, 'utf8');
-    const hasParamBlock = this.scriptHasParamBlock(originalScript);
-
-    debugLog('POWERSHELL', 'Script analysis', {
-      hasParamBlock,
-      scriptLength: originalScript.length,
-      firstLines: originalScript.split('\n').slice(0, 10).join('\n')
-    });
-
-    // Create temporary script file
-    const tempScriptPath = join(this.tempDirectory, `${request.requestId}.ps1`);
-    const scriptContent = await this.buildScriptWithParameters(scriptDef, parameters, hasParamBlock);
-
-    writeFileSync(tempScriptPath, scriptContent, 'utf8');
-
-    // Build command-line parameter string for scripts with param() blocks
-    const paramString = hasParamBlock
-      ? this.buildCommandLineParams(scriptDef, parameters)
-      : '';
-
-    debugLog('POWERSHELL', 'Parameter string built', {
-      hasParamBlock,
-      paramString,
-      paramStringLength: paramString.length,
-      willUseCommandLineParams: hasParamBlock
-    });
-
-    // Build PowerShell command with security restrictions
-    const command = 'powershell.exe';
-    const scriptInvocation = `& '${tempScriptPath.replace(/'/g, "''")}'${paramString}`;
-
-    debugLog('POWERSHELL', 'Final script invocation', {
-      scriptInvocation,
-      tempScriptPath
-    });
-
-    const args = [
-      '-NoProfile',           // Don't load PowerShell profile
-      '-NoLogo',             // Don't show PowerShell logo
-      // Note: Removed -NonInteractive and -WindowStyle Hidden to allow WPF dialogs
-      '-ExecutionPolicy', 'Bypass', // Bypass execution policy for this script
-      '-Command', `& {
-        # Set error preference (scripts manage their own strict mode if needed)
-        $ErrorActionPreference = 'Continue';
-
-        # Execute script with error handling
-        try {
-          ${scriptInvocation}
-        } catch {
-          Write-Error "Script execution failed: $_"
-          exit 1
-        }
-      }`
-    ];
-
-    debugLog('POWERSHELL', 'Full PowerShell command', {
-      command,
-      argsLength: args.length,
-      fullCommand: `${command} ${args.join(' ')}`
-    });
-
-    // Add network restrictions if disabled
-    if (!options.enableNetworking) {
-      // Note: This is a basic restriction, more advanced networking blocks would require
-      // PowerShell Constrained Language Mode or AppLocker policies
-      args.push('-Command', `$env:http_proxy='127.0.0.1:1'; $env:https_proxy='127.0.0.1:1';`);
-    }
-
-    return { command, args, tempScriptPath };
-  }
-
-  /**
-   * Check if a PowerShell script has a param() block.
-   * Scripts with [CmdletBinding()] and param() must have these as the first
-   * executable statements, so we cannot prepend code to them.
-   */
-  private scriptHasParamBlock(scriptContent: string): boolean {
-    // Look for param( that's not inside a comment or string
-    // This regex looks for 'param(' at the start of a line (with optional whitespace)
-    // after any [CmdletBinding(...)] attribute
-    const paramPattern = /^\s*param\s*\(/m;
-    const cmdletBindingPattern = /^\s*\[CmdletBinding/m;
-
-    return paramPattern.test(scriptContent) || cmdletBindingPattern.test(scriptContent);
-  }
-
-  /**
-   * Get parameter value with case-insensitive key lookup.
-   * Protocol URLs may have different casing than script parameter definitions.
-   */
-  private getParameterCaseInsensitive(
-    parameters: Record<string, any>,
-    paramName: string
-  ): any {
-    const allKeys = Object.keys(parameters);
-    debugLog('POWERSHELL', `getParameterCaseInsensitive called for "${paramName}"`, {
-      lookingFor: paramName,
-      availableKeys: allKeys,
-      parametersObject: JSON.stringify(parameters)
-    });
-
-    // First try exact match
-    if (parameters[paramName] !== undefined) {
-      debugLog('POWERSHELL', `EXACT match found for "${paramName}"`, {
-        value: parameters[paramName],
-        valueType: typeof parameters[paramName]
-      });
-      return parameters[paramName];
-    }
-
-    // Try case-insensitive match
-    const lowerParamName = paramName.toLowerCase();
-    for (const key of allKeys) {
-      debugLog('POWERSHELL', `Comparing: "${key.toLowerCase()}" === "${lowerParamName}"`, {
-        keyLower: key.toLowerCase(),
-        paramLower: lowerParamName,
-        match: key.toLowerCase() === lowerParamName
-      });
-      if (key.toLowerCase() === lowerParamName) {
-        debugLog('POWERSHELL', `CASE-INSENSITIVE match found`, {
-          originalKey: key,
-          lookingFor: paramName,
-          value: parameters[key],
-          valueType: typeof parameters[key]
-        });
-        return parameters[key];
-      }
-    }
-
-    debugLog('POWERSHELL', `NO MATCH found for "${paramName}"`, {
-      availableKeys: allKeys,
-      parametersProvided: JSON.stringify(parameters)
-    });
-    return undefined;
-  }
-
-  /**
-   * Build command-line parameter string for scripts with param() blocks.
-   * Returns a string like " -WhatIf -SkipEmail:$true -Path 'C:\test'"
-   */
-  private buildCommandLineParams(scriptDef: ScriptDefinition, parameters: Record<string, any>): string {
-    debugLog('POWERSHELL', '========== buildCommandLineParams ==========', {
-      scriptId: scriptDef.id,
-      scriptName: scriptDef.name
-    });
-
-    if (!scriptDef.parameters || scriptDef.parameters.length === 0) {
-      debugLog('POWERSHELL', 'No parameters defined in script definition', {});
-      return '';
-    }
-
-    // FIX: Enhanced debug logging for parameter troubleshooting
-    debugLog('POWERSHELL', '>>> PARAMETER DEBUG START <<<', {});
-    debugLog('POWERSHELL', 'Incoming parameters object', {
-      parametersType: typeof parameters,
-      parametersIsNull: parameters === null,
-      parametersIsUndefined: parameters === undefined,
-      rawParameters: JSON.stringify(parameters),
-      parameterKeys: Object.keys(parameters || {}),
-      parameterValues: Object.entries(parameters || {}).map(([k, v]) => ({
-        key: k,
-        value: v,
-        type: typeof v,
-        length: typeof v === 'string' ? v.length : 'N/A',
-        isEmpty: v === '' || v === null || v === undefined
-      }))
-    });
-
-    // Special debug for file-restore script
-    if (scriptDef.id === 'file-restore') {
-      debugLog('POWERSHELL', '*** FILE-RESTORE SPECIAL DEBUG ***', {
-        hasPathKey: 'Path' in parameters,
-        hasPathLowerKey: 'path' in parameters,
-        pathValue: parameters['Path'],
-        pathLowerValue: parameters['path'],
-        allKeys: Object.keys(parameters),
-        allValues: Object.values(parameters)
-      });
-    }
-
-    debugLog('POWERSHELL', 'Expected parameters from script definition', {
-      expectedParams: scriptDef.parameters.map(p => ({
-        name: p.name,
-        type: p.type,
-        required: p.required,
-        default: p.default
-      }))
-    });
-
-    const paramParts: string[] = [];
-
-    for (const paramDef of scriptDef.parameters) {
-      const paramName = paramDef.name;
-      const paramValue = this.getParameterCaseInsensitive(parameters, paramName);
-
-      debugLog('POWERSHELL', `Parameter lookup: "${paramName}"`, {
-        expectedName: paramName,
-        foundValue: paramValue,
-        valueType: typeof paramValue,
-        valueIsEmpty: paramValue === '' || paramValue === null || paramValue === undefined,
-        paramDefType: paramDef.type
-      });
-
-      if (paramValue === undefined || paramValue === null) {
-        debugLog('POWERSHELL', `Parameter "${paramName}" is undefined/null - SKIPPING`, {});
-        continue;
-      }
-
-      // Handle empty strings - they should still be passed
-      if (paramValue === '' && paramDef.type === 'string') {
-        debugLog('POWERSHELL', `Parameter "${paramName}" is empty string - SKIPPING (empty strings not passed)`, {});
-        continue;
-      }
-
-      let paramPart = '';
-      switch (paramDef.type) {
-        case 'boolean':
-          // For switch parameters, just use -ParamName if true
-          if (paramValue === true) {
-            paramPart = `-${paramName}`;
-            paramParts.push(paramPart);
-            debugLog('POWERSHELL', `Boolean parameter "${paramName}" = true`, { paramPart });
-          } else {
-            debugLog('POWERSHELL', `Boolean parameter "${paramName}" = false - not adding`, {});
-          }
-          break;
-
-        case 'string':
-        case 'select':
-          // Escape single quotes and wrap in single quotes
-          const escapedStr = String(paramValue).replace(/'/g, "''");
-          paramPart = `-${paramName} '${escapedStr}'`;
-          paramParts.push(paramPart);
-          debugLog('POWERSHELL', `String parameter "${paramName}" added`, {
-            originalValue: paramValue,
-            escapedValue: escapedStr,
-            paramPart
-          });
-          break;
-
-        case 'number':
-          paramPart = `-${paramName} ${Number(paramValue)}`;
-          paramParts.push(paramPart);
-          debugLog('POWERSHELL', `Number parameter "${paramName}" added`, { paramPart });
-          break;
-
-        default:
-          // Default to string handling
-          const escapedDefault = String(paramValue).replace(/'/g, "''");
-          paramPart = `-${paramName} '${escapedDefault}'`;
-          paramParts.push(paramPart);
-          debugLog('POWERSHELL', `Default parameter "${paramName}" added as string`, { paramPart });
-      }
-    }
-
-    const result = paramParts.length > 0 ? ' ' + paramParts.join(' ') : '';
-    debugLog('POWERSHELL', 'Final command line parameters', {
-      paramPartsCount: paramParts.length,
-      paramParts,
-      finalResult: result
-    });
-
-    return result;
-  }
-
-  private async buildScriptWithParameters(
-    scriptDef: ScriptDefinition,
-    parameters: Record<string, any>,
-    hasParamBlock: boolean
-  ): Promise<string> {
-
-    // Read original script
-    const { readFileSync } = require('fs');
-    let scriptContent = readFileSync(scriptDef.scriptPath, 'utf8');
-
-    // For scripts WITH param() blocks: don't prepend any code
-    // Parameters will be passed via command-line arguments instead
-    // This preserves [CmdletBinding()] and param() which must be first
-    if (hasParamBlock) {
-      logger.debug('Script has param block - passing parameters via command line', {
-        scriptName: scriptDef.name
-      });
-      // Return script as-is - parameters are passed on command line
-      return scriptContent;
-    }
-
-    // For scripts WITHOUT param() blocks: inject parameter variables
-    if (scriptDef.parameters && scriptDef.parameters.length > 0) {
-      const paramValidation = this.generateParameterValidation(scriptDef.parameters, parameters);
-      scriptContent = paramValidation + '\n\n' + scriptContent;
-    }
-
-    // Add security header as comments only (executable statements are in the -Command wrapper)
-    const securityHeader = `
-# Security Context: First Aid Kit Execution
-# Script: ${scriptDef.name}
-# Execution Time: ${new Date().toISOString()}
-# Security restrictions are applied by the execution wrapper
-
-`;
-
-    return securityHeader + scriptContent;
-  }
-
-  private generateParameterValidation(
-    paramDefs: any[], 
-    providedParams: Record<string, any>
-  ): string {
-    let validation = '# Parameter validation\n';
-    
-    for (const paramDef of paramDefs) {
-      const paramName = paramDef.name;
-      const paramValue = this.getParameterCaseInsensitive(providedParams, paramName);
-
-      if (paramDef.required && (paramValue === undefined || paramValue === null)) {
-        throw new Error(`Required parameter '${paramName}' is missing`);
-      }
-      
-      if (paramValue !== undefined) {
-        // Escape and validate parameter value
-        const escapedValue = this.escapeParameterValue(paramValue, paramDef.type);
-        validation += `$${paramName} = ${escapedValue}\n`;
-        
-        // Add type and range validation
-        if (paramDef.type === 'number' && paramDef.validation) {
-          if (paramDef.validation.min !== undefined) {
-            validation += `if ($${paramName} -lt ${paramDef.validation.min}) { throw "Parameter ${paramName} must be >= ${paramDef.validation.min}" }\n`;
-          }
-          if (paramDef.validation.max !== undefined) {
-            validation += `if ($${paramName} -gt ${paramDef.validation.max}) { throw "Parameter ${paramName} must be <= ${paramDef.validation.max}" }\n`;
-          }
-        }
-        
-        if (paramDef.validation?.allowedValues) {
-          const allowedValues = paramDef.validation.allowedValues.map((v: any) => `'${v}'`).join(', ');
-          validation += `if ($${paramName} -notin @(${allowedValues})) { throw "Parameter ${paramName} must be one of: ${allowedValues}" }\n`;
-        }
-      } else if (paramDef.default !== undefined) {
-        const escapedDefault = this.escapeParameterValue(paramDef.default, paramDef.type);
-        validation += `$${paramName} = ${escapedDefault}\n`;
-      }
-    }
-    
-    return validation;
-  }
-
-  private escapeParameterValue(value: any, type: string): string {
-    switch (type) {
-      case 'string':
-        // Escape single quotes and wrap in single quotes
-        return `'${String(value).replace(/'/g, "''")}'`;
-      
-      case 'number':
-        const num = Number(value);
-        if (isNaN(num)) throw new Error(`Invalid number value: ${value}`);
-        return String(num);
-      
-      case 'boolean':
-        return value ? '$true' : '$false';
-      
-      case 'select':
-        // Treat as string for select type
-        return `'${String(value).replace(/'/g, "''")}'`;
-      
-      default:
-        return `'${String(value).replace(/'/g, "''")}'`;
-    }
-  }
-
   private handleProcessCompletion(
     executionId: string,
     exitCode: number,
@@ -851,6 +1178,16 @@ class PowerShellExecutorService {
       clearTimeout(execution.timeout);
     }
 
+    execution.transcript?.close();
+    // Constrained Language Mode reports its refusals as ordinary errors
+    if (execution.options.capabilities && !execution.options.capabilities.includes('fullLanguage') && isLanguageModeViolation(stderr)) {
+      this.recordCapabilityViolation(execution, { capability: 'fullLanguage', command: 'ConstrainedLanguage' });
+    }
+    const resourceUsage = this.finishResourceTracking(executionId);
+    const { results, counts: resultRedactions } = this.saveResults(execution);
+    const maxAttempts = execution.request.scriptDefinition.retry?.maxAttempts;
+    getArtifactStoreService().collect(executionId);
+
     // Clean up temporary script file
     if (tempScriptPath && existsSync(tempScriptPath)) {
       try {
@@ -871,7 +1208,12 @@ class PowerShellExecutorService {
       error: stderr || undefined,
       duration,
       exitCode,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      resourceUsage,
+      results,
+      attempt: maxAttempts ? execution.attempt : undefined,
+      maxAttempts,
+      dryRun: execution.request.dryRun || undefined
     };
 
     // Validate result
@@ -883,7 +1225,8 @@ class PowerShellExecutorService {
       });
     }
 
-    // Update database (skip if unavailable)
+    // Update database (skip if unavailable) - output is redacted before it is stored
+    const redacted = execution.redactor.redactFields({ output: stdout || '', error: stderr || '' });
     try {
       const db = getDatabaseService();
       db.updateExecutionLog(
@@ -891,9 +1234,10 @@ class PowerShellExecutorService {
         success ? 'success' : 'error',
         duration,
         exitCode,
-        stdout?.substring(0, 50000) || '', // Limit output size
-        stderr?.substring(0, 10000) || ''   // Limit error size
+        redacted.fields.output.slice(-MAX_STORED_OUTPUT_LENGTH), // Limit output size
+        redacted.fields.error.slice(-MAX_STORED_ERROR_LENGTH)    // Limit error size
       );
+      db.saveRedactionCounts(executionId, { ...redacted.counts, ...resultRedactions });
     } catch (dbError) {
       logger.warn('Database unavailable - skipping completion log', { executionId });
     }
@@ -909,9 +1253,33 @@ class PowerShellExecutorService {
       errorLength: stderr?.length || 0
     });
 
+    // A retry takes over the run's callbacks; they hear about the final attempt only
+    if (!success && this.scheduleRetry(execution, exitCode, stderr)) {
+      this.activeExecutions.delete(executionId);
+      return;
+    }
+
     // Call completion callback if provided
     if (execution.onComplete) {
       execution.onComplete(validation.success ? validation.data : result);
+    } else {
+      // Runs restored from a previous session have no listener - report completion directly
+      sendExecutionUpdate({
+        executionId: execution.runId,
+        scriptId: execution.scriptId,
+        scriptName: execution.scriptName,
+        status: success ? 'success' : 'error',
+        progress: 100,
+        output: stdout || undefined,
+        error: stderr || undefined,
+        duration,
+        exitCode,
+        resourceUsage,
+        results,
+        attempt: result.attempt,
+        maxAttempts,
+        dryRun: result.dryRun
+      });
     }
 
     // Remove from active executions
@@ -926,42 +1294,55 @@ class PowerShellExecutorService {
       stackTrace: new Error().stack
     });
 
-    const execution = this.activeExecutions.get(executionId);
+    if (
+      this.cancelQueuedExecution(executionId, reason) ||
+      this.cancelWaitingExecution(executionId, reason) ||
+      this.cancelPendingRetry(executionId, reason)
+    ) {
+      return true;
+    }
+
+    const execution = this.findActiveExecution(executionId);
     if (!execution) {
       logger.warn('Cannot cancel execution - not found', { executionId });
       return false;
     }
 
-    logger.info('Cancelling script execution', { executionId, reason });
+    logger.info('Cancelling script execution', { executionId: execution.id, runId: execution.runId, reason });
 
     try {
-      // Kill the process
-      if (execution.process && !execution.process.killed) {
-        execution.process.kill('SIGTERM');
-        
-        // Force kill after 5 seconds if still running
-        setTimeout(() => {
-          if (execution.process && !execution.process.killed) {
-            execution.process.kill('SIGKILL');
-          }
-        }, 5000);
-      }
-
-      // Update database (skip if unavailable)
-      try {
-        const db = getDatabaseService();
-        const duration = Date.now() - execution.startTime;
-        db.updateExecutionLog(executionId, 'cancelled', duration, -1, '', `Cancelled: ${reason}`);
-      } catch (dbError) {
-        logger.warn('Database unavailable - skipping cancellation log', { executionId });
-      }
+      // Stop the process tree and run the cleanup hook in the background; the log is
+      // updated with the outcome of each step once they are done
+      const duration = Date.now() - execution.startTime;
+      this.recordCancellation(execution.id, reason, duration, []);
+      this.stopExecution(execution, reason)
+        .then(steps => this.recordCancellation(execution.id, reason, duration, steps))
+        .catch(error => {
+          logger.error('Failed to stop cancelled execution', {
+            executionId: execution.id,
+            error: (error as Error).message
+          });
+        })
+        // Output written while the script was stopping is kept too
+        .finally(() => execution.transcript?.close());
 
       // Clean up
       if (execution.timeout) {
         clearTimeout(execution.timeout);
       }
 
-      this.activeExecutions.delete(executionId);
+      this.finishResourceTracking(execution.id);
+      const { counts: resultRedactions } = this.saveResults(execution);
+      if (resultRedactions.results) {
+        try {
+          getDatabaseService().saveRedactionCounts(execution.id, resultRedactions);
+        } catch (dbError) {
+          logger.warn('Database unavailable - skipping redaction counts', { executionId: execution.id });
+        }
+      }
+      getArtifactStoreService().collect(execution.id);
+      this.activeExecutions.delete(execution.id);
+      execution.onCancel?.(reason);
 
       return true;
 
@@ -974,16 +1355,226 @@ class PowerShellExecutorService {
     }
   }
 
+  private getStopFilePath(executionId: string): string {
+    return join(this.tempDirectory, `${executionId}.stop`);
+  }
+
+  private recordCancellation(executionId: string, reason: string, duration: number, steps: CancellationStep[]): void {
+    try {
+      getDatabaseService().updateExecutionLog(
+        executionId,
+        'cancelled',
+        duration,
+        -1,
+        '',
+        formatCancellationReport(reason, steps)
+      );
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping cancellation log', { executionId });
+    }
+  }
+
+  /**
+   * Graceful stop (if the script supports one), then terminate whatever is left of the
+   * process tree, then the cleanup script. Returns the outcome of each step.
+   */
+  private async stopExecution(execution: ActiveExecution, reason: string): Promise<CancellationStep[]> {
+    const steps: CancellationStep[] = [];
+    const child = execution.process;
+    const scriptDef = execution.request.scriptDefinition;
+    const stopFile = this.getStopFilePath(execution.id);
+    const hasExited = () => child.exitCode !== null || child.signalCode !== null;
+
+    // On shutdown there is no time to wait for a graceful stop, but the whole tree still goes
+    if (reason === 'shutdown') {
+      if (child.pid && !hasExited()) {
+        await terminateProcesses(await listProcessTree(child.pid).catch(() => [child.pid!]));
+      }
+      return steps;
+    }
+
+    // Snapshot the tree first: children outlive the script if it exits during the graceful stop
+    let knownProcesses: ProcessSample[] = [];
+    if (child.pid) {
+      try {
+        knownProcesses = await snapshotProcessTree(child.pid);
+      } catch (error) {
+        logger.warn('Failed to read process tree', { executionId: execution.id, error: (error as Error).message });
+      }
+    }
+
+    if (scriptDef.gracefulStopSeconds && !hasExited()) {
+      try {
+        writeFileSync(stopFile, reason);
+        const exited = await this.waitForExit(child, scriptDef.gracefulStopSeconds * 1000);
+        steps.push(exited
+          ? { step: 'stop-signal', outcome: 'ok', detail: 'script stopped on its own' }
+          : { step: 'stop-signal', outcome: 'timeout', detail: `still running after ${scriptDef.gracefulStopSeconds}s` });
+      } catch (error) {
+        steps.push({ step: 'stop-signal', outcome: 'failed', detail: (error as Error).message });
+      }
+    }
+
+    if (child.pid) {
+      try {
+        // Once the script has exited its PID may belong to someone else - only the snapshot is left to go by
+        const rootPid = hasExited() ? null : child.pid;
+        const pids = await listProcessTree(rootPid, knownProcesses)
+          .catch(() => rootPid !== null ? [rootPid] : []);
+        const { found, survivors } = await terminateProcesses(pids);
+        steps.push(survivors.length === 0
+          ? { step: 'terminate', outcome: 'ok', detail: `${found} process${found === 1 ? '' : 'es'} terminated` }
+          : { step: 'terminate', outcome: 'failed', detail: `still running: ${survivors.join(', ')}` });
+      } catch (error) {
+        steps.push({ step: 'terminate', outcome: 'failed', detail: (error as Error).message });
+      }
+    }
+
+    if (existsSync(stopFile)) {
+      try {
+        unlinkSync(stopFile);
+      } catch {
+        // Left for the temp directory cleanup
+      }
+    }
+
+    if (scriptDef.cleanupScript && shouldRunCleanup(reason)) {
+      steps.push(await this.runCleanupScript(execution, reason));
+    }
+
+    logger.info('Cancelled execution stopped', { executionId: execution.id, reason, steps });
+    return steps;
+  }
+
+  private waitForExit(child: ChildProcess, timeoutMs: number): Promise<boolean> {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return Promise.resolve(true);
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        child.off('exit', onExit);
+        resolve(false);
+      }, timeoutMs);
+      const onExit = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      child.once('exit', onExit);
+    });
+  }
+
+  /**
+   * Run the script's cleanup hook with the same runtime, after its own signature check.
+   */
+  private async runCleanupScript(execution: ActiveExecution, reason: string): Promise<CancellationStep> {
+    const scriptDef = execution.request.scriptDefinition;
+    const cleanupPath = join(dirname(scriptDef.scriptPath), scriptDef.cleanupScript!);
+    const cleanupId = `${execution.id}-cleanup`;
+
+    if (!existsSync(cleanupPath)) {
+      return { step: 'cleanup', outcome: 'failed', detail: `${scriptDef.cleanupScript} not found` };
+    }
+
+    const signatureError = validateScriptForExecution(cleanupPath, cleanupId);
+    if (signatureError) {
+      return { step: 'cleanup', outcome: 'failed', detail: signatureError };
+    }
+
+    let tempScriptPath: string | undefined;
+    try {
+      // Cleanup runs without anyone confirming it, so dangerous content is never run
+      const runtime = getScriptRuntime(scriptDef);
+      const scriptContent = await readVerifiedCleanupScript(scriptDef, cleanupId);
+      const validation = await ScriptValidatorService.validateScriptContent(scriptContent.toString('utf8'), runtime.id);
+      if (validation.securityLevel === 'dangerous') {
+        securityLogger.error('Dangerous cleanup script blocked', {
+          executionId: execution.id,
+          scriptId: scriptDef.id,
+          cleanupPath,
+          violations: validation.violations.length
+        });
+        return { step: 'cleanup', outcome: 'failed', detail: 'blocked: security violations in the cleanup script' };
+      }
+
+      const options: ExecutionOptions = {
+        ...execution.options,
+        environment: {
+          ...execution.options.environment,
+          [CANCEL_REASON_ENV_VAR]: reason,
+          [CANCEL_PARAMETERS_ENV_VAR]: JSON.stringify(execution.request.parameters || {})
+        }
+      };
+      const built = await runtime.buildCommand({
+        executionId: cleanupId,
+        scriptDefinition: { ...scriptDef, scriptPath: cleanupPath, parameters: [] },
+        parameters: {},
+        options,
+        // A cancelled preview's cleanup still sees FAK_DRY_RUN in its environment
+        dryRun: false,
+        scriptContent,
+        tempDirectory: this.tempDirectory,
+      });
+      tempScriptPath = built.tempScriptPath;
+
+      const cleanup = spawn(built.command, built.args, {
+        cwd: options.workingDirectory,
+        env: { ...process.env, ...options.environment },
+        stdio: ['ignore', 'ignore', 'pipe'],
+        windowsHide: true
+      });
+
+      let stderr = '';
+      let pendingSecret = '';
+      cleanup.stderr?.on('data', (data: Buffer) => {
+        const masked = maskSecretChunk(pendingSecret, data.toString(), options.secretValues ?? []);
+        pendingSecret = masked.remainder;
+        stderr = (stderr + masked.text).slice(-2000);
+      });
+
+      const exited = await this.waitForExit(cleanup, CLEANUP_TIMEOUT_MS);
+      stderr += maskSecrets(pendingSecret, options.secretValues ?? []);
+      if (!exited) {
+        if (cleanup.pid) {
+          await terminateProcesses(await listProcessTree(cleanup.pid).catch(() => [cleanup.pid!]));
+        }
+        return { step: 'cleanup', outcome: 'timeout', detail: `stopped after ${CLEANUP_TIMEOUT_MS / 1000}s` };
+      }
+
+      return cleanup.exitCode === 0
+        ? { step: 'cleanup', outcome: 'ok' }
+        : {
+            step: 'cleanup',
+            outcome: 'failed',
+            detail: `exit code ${cleanup.exitCode}${stderr.trim() ? `: ${stderr.trim().split('\n')[0]}` : ''}`
+          };
+    } catch (error) {
+      return { step: 'cleanup', outcome: 'failed', detail: (error as Error).message };
+    } finally {
+      if (tempScriptPath && existsSync(tempScriptPath)) {
+        try {
+          unlinkSync(tempScriptPath);
+        } catch {
+          // Left for the temp directory cleanup
+        }
+      }
+    }
+  }
+
   public getActiveExecutions(): ActiveExecution[] {
     return Array.from(this.activeExecutions.values());
   }
 
   public getExecutionStatus(executionId: string): 'pending' | 'running' | 'completed' | 'not_found' {
-    if (this.activeExecutions.has(executionId)) {
+    // A run waiting to be retried still counts as running
+    if (this.findActiveExecution(executionId) || this.pendingRetries.has(executionId)) {
       return 'running';
     }
 
-    if (this.executionQueue.some(req => req.requestId === executionId)) {
+    if (
+      this.startingExecutions.has(executionId) ||
+      this.waitingExecutions.has(executionId) ||
+      this.executionQueue.some(item => item.request.requestId === executionId)
+    ) {
       return 'pending';
     }
 
@@ -1002,17 +1593,23 @@ class PowerShellExecutorService {
   }
 
   /**
-   * Set callbacks on an active execution to receive progress updates and completion notification.
+   * Set callbacks on an active or queued execution to receive progress updates and completion notification.
    * Must be called immediately after executeScript() before the process completes.
    */
-  public setExecutionCallbacks(
-    executionId: string,
-    callbacks: {
-      onProgress?: (output: string) => void;
-      onComplete?: (result: ExecutionResult) => void;
-    }
-  ): boolean {
+  public setExecutionCallbacks(executionId: string, callbacks: ExecutionCallbacks): boolean {
     const execution = this.activeExecutions.get(executionId);
+
+    // Queued executions get their callbacks when they start
+    if (
+      !execution &&
+      (this.startingExecutions.has(executionId) ||
+        this.waitingExecutions.has(executionId) ||
+        this.executionQueue.some(item => item.request.requestId === executionId))
+    ) {
+      this.pendingCallbacks.set(executionId, { ...this.pendingCallbacks.get(executionId), ...callbacks });
+      return true;
+    }
+
     if (!execution) {
       logger.warn('Cannot set callbacks - execution not found', { executionId });
       return false;
@@ -1021,19 +1618,418 @@ class PowerShellExecutorService {
     if (callbacks.onProgress) {
       execution.onProgress = callbacks.onProgress;
     }
+    if (callbacks.onProgressUpdate) {
+      execution.onProgressUpdate = callbacks.onProgressUpdate;
+    }
     if (callbacks.onComplete) {
       execution.onComplete = callbacks.onComplete;
     }
+    if (callbacks.onCancel) {
+      execution.onCancel = callbacks.onCancel;
+    }
 
     logger.debug('Execution callbacks set', {
       executionId,
       hasOnProgress: !!callbacks.onProgress,
+      hasOnProgressUpdate: !!callbacks.onProgressUpdate,
       hasOnComplete: !!callbacks.onComplete
     });
 
     return true;
   }
 
+  /**
+   * Record a progress report from the script and notify listeners.
+   * Fields missing from the report keep their previous value within a phase, so a
+   * status-only update doesn't reset the percentage.
+   */
+  private applyProgress(execution: ActiveExecution, report: ScriptProgress): void {
+    // A new phase starts fresh; updates within the same phase only overwrite what they report
+    const samePhase = !report.phase || report.phase === execution.progress?.phase;
+    execution.progress = samePhase ? { ...execution.progress, ...report } : report;
+
+    if (execution.onProgressUpdate) {
+      execution.onProgressUpdate(execution.progress);
+    }
+  }
+
+  /**
+   * Forward a prompt from the script to the renderer. The script stays blocked on stdin
+   * until respondToPrompt() is called or the execution ends.
+   */
+  private requestPromptAnswer(execution: ActiveExecution, prompt: ScriptPrompt): void {
+    execution.pendingPrompt = prompt;
+
+    this.auditPrompt(execution, prompt, 'prompt_requested', {});
+
+    const windows = BrowserWindow.getAllWindows();
+    if (windows.length === 0 || windows[0].isDestroyed()) {
+      // Nobody can answer - cancel rather than leave the script hanging until the timeout
+      logger.warn('No window available to answer script prompt - cancelling prompt', {
+        executionId: execution.id,
+        promptId: prompt.promptId
+      });
+      this.respondToPrompt(execution.id, { promptId: prompt.promptId, cancelled: true });
+      return;
+    }
+
+    const request: ScriptPromptRequest = {
+      ...prompt,
+      executionId: execution.runId,
+      scriptId: execution.scriptId,
+      scriptName: execution.scriptName
+    };
+    windows[0].webContents.send('script:prompt', request);
+  }
+
+  /**
+   * Write the user's answer to a pending prompt to the script's stdin.
+   * Returns false if the execution is gone or isn't waiting on this prompt.
+   */
+  public respondToPrompt(executionId: string, response: ScriptPromptResponse): boolean {
+    const execution = this.findActiveExecution(executionId);
+    const prompt = execution?.pendingPrompt;
+
+    if (!execution || !prompt || prompt.promptId !== response.promptId) {
+      logger.warn('Cannot answer prompt - no matching pending prompt', {
+        executionId,
+        promptId: response.promptId
+      });
+      return false;
+    }
+
+    if (!response.cancelled && prompt.kind === 'choice') {
+      const choiceCount = prompt.choices?.length ?? 0;
+      if (response.choice === undefined || response.choice < 0 || response.choice >= choiceCount) {
+        logger.warn('Cannot answer prompt - choice out of range', { executionId, promptId: prompt.promptId });
+        return false;
+      }
+    }
+
+    const stdin = execution.process.stdin;
+    if (!stdin || stdin.destroyed) {
+      logger.warn('Cannot answer prompt - script input is closed', { executionId });
+      return false;
+    }
+
+    stdin.write(formatPromptResponse(response));
+    execution.pendingPrompt = undefined;
+
+    // Masked answers are never written to logs or the audit trail
+    this.auditPrompt(execution, prompt, response.cancelled ? 'prompt_cancelled' : 'prompt_answered', {
+      value: response.cancelled || prompt.kind === 'choice' ? undefined : prompt.masked ? '[masked]' : response.value,
+      choice: response.cancelled || prompt.kind !== 'choice' ? undefined : prompt.choices?.[response.choice!]?.label
+    });
+
+    return true;
+  }
+
+  private auditPrompt(
+    execution: ActiveExecution,
+    prompt: ScriptPrompt,
+    userAction: string,
+    details: Record<string, unknown>
+  ): void {
+    securityLogger.info(`Script prompt: ${userAction}`, {
+      executionId: execution.id,
+      scriptId: execution.scriptId,
+      promptId: prompt.promptId,
+      kind: prompt.kind,
+      masked: prompt.masked
+    });
+
+    try {
+      const db = getDatabaseService();
+      const now = Date.now();
+      db.insertAuditLog({
+        id: randomUUID(),
+        timestamp: now,
+        event_type: 'script_prompt',
+        user_action: userAction,
+        resource: execution.scriptId,
+        details: JSON.stringify({
+          executionId: execution.id,
+          promptId: prompt.promptId,
+          kind: prompt.kind,
+          message: prompt.message,
+          masked: prompt.masked,
+          ...details
+        }).substring(0, 2000),
+        risk_level: 'low',
+        created_at: now
+      });
+    } catch (error) {
+      logger.warn('Database unavailable - skipping prompt audit log', { executionId: execution.id });
+    }
+  }
+
+  /**
+   * Scripts with a dangerous rating only run from the app's own script folders (bundled or
+   * AppData). Returns why the run is refused, or null.
+   */
+  private checkSecurityLevel(request: ExecutionRequest, executionId: string): string | null {
+    if (request.validationResult.securityLevel !== 'dangerous') {
+      return null;
+    }
+
+    // Check if script is from trusted bundled resources
+    const scriptPath = request.scriptDefinition?.scriptPath || '';
+
+    // If no path available, allow execution (internal scripts loaded via registry)
+    if (!scriptPath) {
+      logger.warn('Script with security flags allowed (no path to verify)', {
+        executionId,
+        scriptId: request.scriptId,
+        violations: request.validationResult.violations.length
+      });
+      return null;
+    }
+
+    const trustedPaths = [
+      process.resourcesPath ? join(process.resourcesPath, 'scripts') : '',
+      app.getPath('userData'),
+      // Development paths
+      join(__dirname, '..', '..', 'scripts'),
+      join(__dirname, '..', '..', '..', 'scripts')
+    ].filter(p => p.length > 0);
+
+    const isFromTrustedSource = trustedPaths.some(trusted =>
+      scriptPath.toLowerCase().startsWith(trusted.toLowerCase())
+    );
+
+    if (isFromTrustedSource) {
+      // Script is from trusted source - allow execution with warning
+      logger.warn('Script with security flags allowed from trusted source', {
+        executionId,
+        scriptId: request.scriptId,
+        scriptPath,
+        violations: request.validationResult.violations.length
+      });
+      return null;
+    }
+
+    // Script is from unknown source - block execution
+    securityLogger.error('Untrusted script execution blocked', {
+      executionId,
+      scriptId: request.scriptId,
+      scriptPath,
+      violations: request.validationResult.violations.length
+    });
+    return 'Script execution denied: untrusted source with security violations';
+  }
+
+  private recordCapabilityViolation(execution: ActiveExecution, violation: CapabilityViolation): void {
+    const target = violation.target ? execution.redactor.redact(violation.target).text : undefined;
+    securityLogger.warn('Capability violation blocked', {
+      executionId: execution.id,
+      scriptId: execution.scriptId,
+      capability: violation.capability,
+      command: violation.command,
+      target
+    });
+
+    try {
+      const now = Date.now();
+      getDatabaseService().insertAuditLog({
+        id: randomUUID(),
+        timestamp: now,
+        event_type: 'capability_violation',
+        user_action: 'blocked',
+        resource: execution.scriptId,
+        details: JSON.stringify({
+          executionId: execution.id,
+          capability: violation.capability,
+          command: violation.command,
+          target,
+          declared: execution.options.capabilities
+        }).substring(0, 2000),
+        risk_level: 'high',
+        created_at: now
+      });
+    } catch (error) {
+      logger.warn('Database unavailable - skipping capability audit log', { executionId: execution.id });
+    }
+  }
+
+  /**
+   * Stop sampling a run and store its resource figures on the execution log.
+   */
+  private finishResourceTracking(executionId: string): ResourceUsage | undefined {
+    const resourceUsage = getResourceMonitorService().stop(executionId);
+    if (!resourceUsage) return undefined;
+
+    try {
+      getDatabaseService().saveResourceUsage(executionId, resourceUsage);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping resource usage', { executionId });
+    }
+    return resourceUsage;
+  }
+
+  /**
+   * Store a finished run's structured results on its execution log.
+   */
+  /**
+   * Redact and store a run's structured results. They are taken out of stdout before the
+   * output is redacted, so they get their own pass; the count is stored under "results".
+   */
+  private saveResults(execution: ActiveExecution): { results?: ScriptResult[]; counts: RedactionCounts } {
+    if (execution.results.length === 0) return { counts: {} };
+
+    const redacted = redactScriptResults(execution.results, execution.redactor);
+    execution.results = redacted.results;
+
+    try {
+      getDatabaseService().saveExecutionResults(execution.id, execution.results);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping execution results', { executionId: execution.id });
+    }
+    return { results: execution.results, counts: { results: redacted.count } };
+  }
+
+  /**
+   * Kill a run whose process tree went over its memory limit.
+   */
+  private handleResourceLimit(executionId: string, memoryMB: number): void {
+    const execution = this.activeExecutions.get(executionId);
+    if (!execution) return;
+
+    const message = `Stopped: used ${Math.round(memoryMB)} MB of memory (limit ${execution.options.maxMemoryMB} MB)`;
+    securityLogger.warn('Execution exceeded memory limit', {
+      executionId,
+      scriptId: execution.scriptId,
+      memoryMB: Math.round(memoryMB),
+      maxMemoryMB: execution.options.maxMemoryMB
+    });
+
+    if (this.cancelExecution(executionId, 'resource_limit')) {
+      sendExecutionUpdate({
+        executionId: execution.runId,
+        scriptId: execution.scriptId,
+        scriptName: execution.scriptName,
+        status: 'cancelled',
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Find a running execution by its own ID or by the run ID it was retried under.
+   */
+  private findActiveExecution(executionId: string): ActiveExecution | undefined {
+    return (
+      this.activeExecutions.get(executionId) ??
+      Array.from(this.activeExecutions.values()).find(execution => execution.runId === executionId)
+    );
+  }
+
+  /**
+   * Schedule the next attempt of a failed run if its script's retry policy allows one.
+   * Returns false if the failure is final.
+   */
+  private scheduleRetry(execution: ActiveExecution, exitCode: number, stderr: string): boolean {
+    const policy = execution.request.scriptDefinition.retry;
+    // Previews are never retried
+    if (
+      !policy ||
+      execution.request.dryRun ||
+      !hasAttemptsLeft(policy, execution.attempt) ||
+      !isRetryableFailure(policy, exitCode, stderr)
+    ) {
+      return false;
+    }
+
+    const delay = getRetryDelay(policy, execution.attempt);
+    const attempt = execution.attempt + 1;
+
+    logger.warn('Script failed - retrying', {
+      executionId: execution.id,
+      runId: execution.runId,
+      scriptId: execution.scriptId,
+      exitCode,
+      nextAttempt: attempt,
+      maxAttempts: policy.maxAttempts,
+      delayMs: delay
+    });
+
+    this.pendingRetries.set(execution.runId, {
+      request: execution.request,
+      callbacks: {
+        onProgress: execution.onProgress,
+        onProgressUpdate: execution.onProgressUpdate,
+        onComplete: execution.onComplete,
+        onCancel: execution.onCancel
+      },
+      attempt,
+      timer: setTimeout(() => this.startRetry(execution.runId), delay)
+    });
+
+    sendExecutionUpdate({
+      executionId: execution.runId,
+      scriptId: execution.scriptId,
+      scriptName: execution.scriptName,
+      status: 'running',
+      progressPhase: `${formatAttemptLabel(execution.attempt, policy.maxAttempts)} failed`,
+      progressStatus: `Retrying in ${Math.round(delay / 1000)}s`,
+      attempt: execution.attempt,
+      maxAttempts: policy.maxAttempts
+    });
+    return true;
+  }
+
+  /**
+   * Start a retry whose delay has passed, as a new execution linked to the run. Waits for a
+   * free slot without going through the queue, so the run keeps its ID in the renderer.
+   */
+  private async startRetry(runId: string): Promise<void> {
+    const retry = this.pendingRetries.get(runId);
+    if (!retry) return;
+
+    const { request, attempt } = retry;
+    if (
+      this.checkConcurrency(request.scriptDefinition) ||
+      this.activeExecutions.size + this.startingExecutions.size >= this.maxConcurrentExecutions
+    ) {
+      retry.timer = setTimeout(() => this.startRetry(runId), RETRY_SLOT_POLL_MS);
+      return;
+    }
+
+    this.pendingRetries.delete(runId);
+    const executionId = this.generateExecutionId();
+
+    this.insertPendingLog(executionId, request);
+    try {
+      getDatabaseService().insertExecutionAttempt(executionId, runId, attempt);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping execution attempt link', { executionId, runId });
+    }
+
+    logger.info('Starting retry attempt', { executionId, runId, attempt });
+    this.pendingCallbacks.set(executionId, retry.callbacks);
+    await this.startExecution({ ...request, requestId: executionId, retryOf: { runId, attempt } });
+  }
+
+  private cancelPendingRetry(runId: string, reason: string): boolean {
+    const retry = this.pendingRetries.get(runId);
+    if (!retry) {
+      return false;
+    }
+
+    clearTimeout(retry.timer);
+    this.pendingRetries.delete(runId);
+
+    logger.info('Pending retry cancelled', { executionId: runId, reason });
+    retry.callbacks.onCancel?.(reason);
+
+    sendExecutionUpdate({
+      executionId: runId,
+      scriptId: retry.request.scriptId,
+      scriptName: retry.request.scriptDefinition.name,
+      status: 'cancelled'
+    });
+    return true;
+  }
+
   private generateExecutionId(): string {
     return randomUUID();
   }
@@ -1046,8 +2042,22 @@ class PowerShellExecutorService {
       this.cancelExecution(executionId, 'shutdown');
     }
 
-    // Clear queue
+    // Drop pending retries - the failed attempt is already logged
+    for (const retry of this.pendingRetries.values()) {
+      clearTimeout(retry.timer);
+    }
+    this.pendingRetries.clear();
+
+    // Runs waiting for preconditions are not persisted
+    for (const waiting of this.waitingExecutions.values()) {
+      clearTimeout(waiting.timer);
+    }
+    this.waitingExecutions.clear();
+
+    // Clear in-memory queue (persisted entries are restored on next start)
     this.executionQueue.length = 0;
+    this.pendingCallbacks.clear();
+    getResourceMonitorService().cleanup();
 
     logger.info('PowerShell executor cleanup completed');
   }
@@ -0,0 +1,153 @@
+import { powerMonitor } from 'electron';
+import { access, statfs } from 'fs/promises';
+import { connect } from 'net';
+import { release } from 'os';
+import { createServiceLogger } from './logger';
+import { listProcessNames } from './process-tree';
+import {
+  DEFAULT_REACHABLE_PORT,
+  describePrecondition,
+  isProcessRunning,
+  parseWindowsBuild,
+  type Precondition,
+  type PreconditionCheck,
+  type PreconditionResult
+} from '../../shared/execution/preconditions';
+
+const logger = createServiceLogger('precondition-evaluator');
+
+// An unreachable share or host can take much longer than this to fail on its own
+const CHECK_TIMEOUT_MS = 5000;
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+type CheckOutcome = { passed: boolean; detail?: string };
+
+/**
+ * Checks the preconditions declared in script metadata (disk space, reachability, power,
+ * OS build, running processes) before a run starts.
+ */
+class PreconditionEvaluatorService {
+  /**
+   * Check every precondition. Checks run side by side; each is failed if it takes too long.
+   */
+  public async evaluate(preconditions: Precondition[]): Promise<PreconditionCheck> {
+    const results = await Promise.all(
+      preconditions.map(async (precondition): Promise<PreconditionResult> => {
+        const label = describePrecondition(precondition);
+        try {
+          const outcome = await this.withTimeout(this.check(precondition));
+          return { precondition, label, ...outcome };
+        } catch (error) {
+          return { precondition, label, passed: false, detail: (error as Error).message };
+        }
+      })
+    );
+
+    const check: PreconditionCheck = {
+      passed: results.every(result => result.passed),
+      results,
+      checkedAt: Date.now()
+    };
+
+    logger.debug('Preconditions evaluated', {
+      passed: check.passed,
+      failed: results.filter(result => !result.passed).map(result => result.label)
+    });
+    return check;
+  }
+
+  private async check(precondition: Precondition): Promise<CheckOutcome> {
+    switch (precondition.type) {
+      case 'diskSpace':
+        return this.checkDiskSpace(precondition.drive, precondition.minFreeGB);
+      case 'reachable':
+        return precondition.path
+          ? this.checkPath(precondition.path)
+          : this.checkHost(precondition.host!, precondition.port ?? DEFAULT_REACHABLE_PORT);
+      case 'acPower':
+        return powerMonitor.isOnBatteryPower()
+          ? { passed: false, detail: 'running on battery' }
+          : { passed: true };
+      case 'minOsBuild':
+        return this.checkOsBuild(precondition.build);
+      case 'process': {
+        const running = isProcessRunning(await listProcessNames(), precondition.name);
+        return running ? { passed: true } : { passed: false, detail: 'not running' };
+      }
+    }
+  }
+
+  private async checkDiskSpace(drive: string | undefined, minFreeGB: number): Promise<CheckOutcome> {
+    const root = drive
+      ? (/^[a-zA-Z]:$/.test(drive) ? `${drive}\\` : drive)
+      : process.platform === 'win32' ? `${process.env.SystemDrive || 'C:'}\\` : '/';
+
+    const stats = await statfs(root);
+    const freeGB = (stats.bavail * stats.bsize) / BYTES_PER_GB;
+    return freeGB >= minFreeGB
+      ? { passed: true }
+      : { passed: false, detail: `${freeGB.toFixed(1)} GB free` };
+  }
+
+  private async checkPath(path: string): Promise<CheckOutcome> {
+    try {
+      await access(path);
+      return { passed: true };
+    } catch {
+      return { passed: false, detail: 'not reachable' };
+    }
+  }
+
+  private checkHost(host: string, port: number): Promise<CheckOutcome> {
+    return new Promise(resolve => {
+      const socket = connect({ host, port });
+      const finish = (outcome: CheckOutcome) => {
+        socket.destroy();
+        resolve(outcome);
+      };
+      socket.setTimeout(CHECK_TIMEOUT_MS, () => finish({ passed: false, detail: 'no response' }));
+      socket.once('connect', () => finish({ passed: true }));
+      socket.once('error', (error: NodeJS.ErrnoException) => finish({ passed: false, detail: error.code || error.message }));
+    });
+  }
+
+  private checkOsBuild(minBuild: number): CheckOutcome {
+    // Builds only mean something on Windows
+    if (process.platform !== 'win32') {
+      return { passed: true };
+    }
+    const build = parseWindowsBuild(release());
+    return build !== null && build >= minBuild
+      ? { passed: true }
+      : { passed: false, detail: build !== null ? `build ${build}` : 'unknown build' };
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('check timed out')), CHECK_TIMEOUT_MS);
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+// Create and export singleton instance
+let preconditionEvaluatorService: PreconditionEvaluatorService | null = null;
+
+export const getPreconditionEvaluatorService = (): PreconditionEvaluatorService => {
+  if (!preconditionEvaluatorService) {
+    preconditionEvaluatorService = new PreconditionEvaluatorService();
+  }
+  return preconditionEvaluatorService;
+};
+
+export default getPreconditionEvaluatorService;
@@ -0,0 +1,151 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createServiceLogger } from './logger';
+import {
+  findSurvivingProcesses,
+  getProcessTree,
+  parsePsOutput,
+  parseWin32ProcessJson,
+  type ProcessSample
+} from '../../shared/execution/resource-usage';
+
+const logger = createServiceLogger('process-tree');
+const execFileAsync = promisify(execFile);
+
+// POSIX processes get this long to exit after SIGTERM before SIGKILL
+const TERMINATE_GRACE_MS = 3000;
+const EXIT_POLL_MS = 250;
+
+const WIN32_PROCESS_QUERY =
+  'Get-CimInstance Win32_Process | Select-Object ProcessId,ParentProcessId,WorkingSetSize,' +
+  'UserModeTime,KernelModeTime,ReadTransferCount,WriteTransferCount,' +
+  '@{Name=\'CreatedAt\';Expression={if ($_.CreationDate) { ([DateTimeOffset]$_.CreationDate).ToUnixTimeMilliseconds() }}} | ' +
+  'ConvertTo-Json -Compress';
+
+export interface TreeTerminationResult {
+  /** Processes that were running when termination started */
+  found: number;
+  /** PIDs still alive afterwards */
+  survivors: number[];
+}
+
+/**
+ * Snapshot of every process on the machine with its parent, memory and CPU figures.
+ */
+export async function readProcessTable(): Promise<ProcessSample[]> {
+  if (process.platform === 'win32') {
+    const { stdout } = await execFileAsync(
+      'powershell.exe',
+      ['-NoProfile', '-NonInteractive', '-Command', WIN32_PROCESS_QUERY],
+      { windowsHide: true, maxBuffer: 16 * 1024 * 1024 }
+    );
+    return parseWin32ProcessJson(stdout);
+  }
+
+  const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pid=,ppid=,rss=,time=']);
+  return parsePsOutput(stdout);
+}
+
+/**
+ * Image names of every running process, e.g. "OUTLOOK.EXE" or "bash".
+ */
+export async function listProcessNames(): Promise<string[]> {
+  if (process.platform === 'win32') {
+    const { stdout } = await execFileAsync('tasklist', ['/FO', 'CSV', '/NH'], {
+      windowsHide: true,
+      maxBuffer: 16 * 1024 * 1024
+    });
+    // "OUTLOOK.EXE","1234","Console","1","245,312 K"
+    return stdout
+      .split('\n')
+      .map(line => line.match(/^"([^"]+)"/)?.[1])
+      .filter((name): name is string => !!name);
+  }
+
+  const { stdout } = await execFileAsync('ps', ['-A', '-o', 'comm=']);
+  return stdout
+    .split('\n')
+    .map(line => line.trim().split('/').pop() ?? '')
+    .filter(name => name.length > 0);
+}
+
+/**
+ * A process and everything it started, as they are now.
+ */
+export async function snapshotProcessTree(rootPid: number): Promise<ProcessSample[]> {
+  return getProcessTree(rootPid, await readProcessTable());
+}
+
+/**
+ * PIDs of a process and everything it started. known (an earlier snapshot) keeps descendants
+ * whose parent has already exited; of those, PIDs that have since been reused by unrelated
+ * processes are left out. rootPid is null when the root process has exited itself.
+ */
+export async function listProcessTree(rootPid: number | null, known: ProcessSample[] = []): Promise<number[]> {
+  const table = await readProcessTable();
+  const roots = findSurvivingProcesses(known, table).map(sample => sample.pid);
+  if (rootPid !== null) roots.unshift(rootPid);
+
+  const pids = new Set<number>();
+  for (const pid of roots) {
+    for (const sample of getProcessTree(pid, table)) {
+      pids.add(sample.pid);
+    }
+  }
+  return Array.from(pids);
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the PID exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Terminate a set of processes: taskkill /T /F on Windows, SIGTERM then SIGKILL elsewhere.
+ */
+export async function terminateProcesses(pids: number[]): Promise<TreeTerminationResult> {
+  const running = pids.filter(isAlive);
+  if (running.length === 0) {
+    return { found: 0, survivors: [] };
+  }
+
+  if (process.platform === 'win32') {
+    const args = ['/F', '/T', ...running.flatMap(pid => ['/PID', String(pid)])];
+    try {
+      await execFileAsync('taskkill', args, { windowsHide: true });
+    } catch (error) {
+      // taskkill fails when some of the PIDs have exited in the meantime
+      logger.debug('taskkill reported errors', { error: (error as Error).message });
+    }
+    return { found: running.length, survivors: running.filter(isAlive) };
+  }
+
+  for (const pid of running) {
+    try {
+      process.kill(pid, 'SIGTERM');
+    } catch {
+      // Already gone
+    }
+  }
+
+  const deadline = Date.now() + TERMINATE_GRACE_MS;
+  while (Date.now() < deadline && running.some(isAlive)) {
+    await new Promise(resolve => setTimeout(resolve, EXIT_POLL_MS));
+  }
+
+  for (const pid of running.filter(isAlive)) {
+    try {
+      process.kill(pid, 'SIGKILL');
+    } catch {
+      // Already gone
+    }
+  }
+
+  await new Promise(resolve => setTimeout(resolve, EXIT_POLL_MS));
+  return { found: running.length, survivors: running.filter(isAlive) };
+}
@@ -0,0 +1,203 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { machine, platform, release, version } from 'os';
+import { createServiceLogger } from './logger';
+import type { ScriptDefinition } from './script-registry';
+import { getRuntimeById } from './runtimes';
+import { parseWindowsBuild } from '../../shared/execution/preconditions';
+import { getUnenforceableCapabilitiesReason } from '../../shared/execution/capabilities';
+import type { ScriptRuntimeId } from '../../shared/execution/runtime';
+import {
+  detectOsName,
+  evaluateRequirements,
+  needsRuntimeFacts,
+  normalizeArchitecture,
+  type PowerShellFacts,
+  type ScriptCompatibility,
+  type SystemFacts
+} from '../../shared/execution/requirements';
+
+const logger = createServiceLogger('requirement-evaluator');
+const execFileAsync = promisify(execFile);
+
+// Get-Module -ListAvailable walks every module folder and can take several seconds
+const PROBE_TIMEOUT_MS = 30000;
+
+const POWERSHELL_RUNTIMES: readonly ScriptRuntimeId[] = ['powershell', 'pwsh'];
+
+// Asked of each PowerShell runtime - each has its own version and module path
+const RUNTIME_FACTS_QUERY = `
+  @{
+    PSVersion = $PSVersionTable.PSVersion.ToString()
+    Modules = @(Get-Module -ListAvailable | Select-Object -ExpandProperty Name -Unique)
+  } | ConvertTo-Json -Compress
+`;
+
+const DOMAIN_QUERY = '[bool](Get-CimInstance Win32_ComputerSystem).PartOfDomain';
+
+const UNKNOWN_POWERSHELL_FACTS: PowerShellFacts = { version: null, modules: null };
+
+/**
+ * Checks the compatibleOS and requirements declared in script metadata against this PC.
+ * Facts are detected once and kept until the scripts are rescanned. Each PowerShell runtime
+ * (powershell.exe, pwsh) is only probed when a tool running under it needs its version or
+ * modules, and domain membership only when a tool asks for it.
+ */
+class RequirementEvaluatorService {
+  private runtimeFacts = new Map<ScriptRuntimeId, Promise<PowerShellFacts>>();
+  private domainJoined: Promise<boolean | null> | null = null;
+
+  public async evaluate(script: ScriptDefinition): Promise<ScriptCompatibility> {
+    const facts = await this.getFacts([script]);
+    return this.evaluateScript(script, facts);
+  }
+
+  /**
+   * Compatibility of every script, by script ID.
+   */
+  public async evaluateAll(scripts: ScriptDefinition[]): Promise<Map<string, ScriptCompatibility>> {
+    const facts = await this.getFacts(scripts);
+    const results = new Map<string, ScriptCompatibility>();
+    for (const script of scripts) {
+      results.set(script.id, this.evaluateScript(script, facts));
+    }
+
+    const incompatible = Array.from(results.entries()).filter(([, result]) => !result.compatible);
+    if (incompatible.length > 0) {
+      logger.debug('Incompatible scripts', { scriptIds: incompatible.map(([scriptId]) => scriptId) });
+    }
+    return results;
+  }
+
+  /**
+   * The PC's facts, with the runtime and domain facts the given scripts' requirements need.
+   */
+  public async getFacts(scripts: ScriptDefinition[]): Promise<SystemFacts> {
+    const runtimes = new Set<ScriptRuntimeId>();
+    for (const script of scripts) {
+      if (script.runtime && POWERSHELL_RUNTIMES.includes(script.runtime) && needsRuntimeFacts(script.requirements)) {
+        runtimes.add(script.runtime);
+      }
+    }
+    const needsDomain = scripts.some(script => script.requirements?.domainJoined !== undefined);
+
+    const [powerShell, domainJoined] = await Promise.all([
+      Promise.all(Array.from(runtimes, async runtime => [runtime, await this.getRuntimeFacts(runtime)] as const)),
+      needsDomain ? this.getDomainJoined() : Promise.resolve(null)
+    ]);
+
+    const osRelease = release();
+    return {
+      osName: detectOsName(platform(), osRelease, version()),
+      osBuild: platform() === 'win32' ? parseWindowsBuild(osRelease) : null,
+      architecture: this.detectArchitecture(),
+      domainJoined,
+      powerShell: Object.fromEntries(powerShell)
+    };
+  }
+
+  /**
+   * Requirements, plus capabilities the script's runtime can't enforce - such a tool can't run safely here either.
+   */
+  private evaluateScript(script: ScriptDefinition, facts: SystemFacts): ScriptCompatibility {
+    const result = evaluateRequirements(script.requirements, script.compatibleOS, facts, script.runtime);
+    const unenforceable = getUnenforceableCapabilitiesReason(script.runtime, script.capabilities);
+    return unenforceable
+      ? { compatible: false, reasons: [...result.reasons, unenforceable] }
+      : result;
+  }
+
+  /**
+   * Forget detected facts, e.g. after a module was installed. Called on a manual rescan.
+   */
+  public clearFacts(): void {
+    this.runtimeFacts.clear();
+    this.domainJoined = null;
+  }
+
+  private detectArchitecture(): SystemFacts['architecture'] {
+    // PROCESSOR_ARCHITEW6432 is the real architecture when the app runs under WOW64
+    const windowsArchitecture = process.env.PROCESSOR_ARCHITEW6432 || process.env.PROCESSOR_ARCHITECTURE;
+    return normalizeArchitecture(
+      process.platform === 'win32' && windowsArchitecture ? windowsArchitecture : machine()
+    );
+  }
+
+  private getRuntimeFacts(runtime: ScriptRuntimeId): Promise<PowerShellFacts> {
+    let facts = this.runtimeFacts.get(runtime);
+    if (!facts) {
+      facts = this.probeRuntime(runtime);
+      this.runtimeFacts.set(runtime, facts);
+    }
+    return facts;
+  }
+
+  private async probeRuntime(runtime: ScriptRuntimeId): Promise<PowerShellFacts> {
+    // Windows PowerShell only exists on Windows; pwsh may be installed anywhere
+    if (runtime === 'powershell' && process.platform !== 'win32') {
+      return UNKNOWN_POWERSHELL_FACTS;
+    }
+
+    try {
+      const parsed = JSON.parse(await this.runPowerShell(getRuntimeById(runtime).executable, RUNTIME_FACTS_QUERY));
+      const facts: PowerShellFacts = {
+        version: typeof parsed.PSVersion === 'string' ? parsed.PSVersion : null,
+        modules: Array.isArray(parsed.Modules) ? parsed.Modules.filter((name: unknown) => typeof name === 'string') : null
+      };
+      logger.info('PowerShell runtime facts detected', {
+        runtime,
+        version: facts.version,
+        modules: facts.modules?.length
+      });
+      return facts;
+    } catch (error) {
+      // Unknown facts don't make tools incompatible
+      logger.warn('Failed to detect PowerShell runtime facts', { runtime, error: (error as Error).message });
+      return UNKNOWN_POWERSHELL_FACTS;
+    }
+  }
+
+  private getDomainJoined(): Promise<boolean | null> {
+    if (!this.domainJoined) {
+      this.domainJoined = this.probeDomainJoined();
+    }
+    return this.domainJoined;
+  }
+
+  private async probeDomainJoined(): Promise<boolean | null> {
+    if (process.platform !== 'win32') {
+      return null;
+    }
+
+    try {
+      const answer = await this.runPowerShell(getRuntimeById('powershell').executable, DOMAIN_QUERY);
+      const domainJoined = answer === 'True' ? true : answer === 'False' ? false : null;
+      logger.info('Domain membership detected', { domainJoined });
+      return domainJoined;
+    } catch (error) {
+      logger.warn('Failed to detect domain membership', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async runPowerShell(executable: string, command: string): Promise<string> {
+    const { stdout } = await execFileAsync(
+      executable,
+      ['-NoProfile', '-NonInteractive', '-Command', command],
+      { windowsHide: true, timeout: PROBE_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 }
+    );
+    return stdout.trim();
+  }
+}
+
+// Create and export singleton instance
+let requirementEvaluatorService: RequirementEvaluatorService | null = null;
+
+export const getRequirementEvaluatorService = (): RequirementEvaluatorService => {
+  if (!requirementEvaluatorService) {
+    requirementEvaluatorService = new RequirementEvaluatorService();
+  }
+  return requirementEvaluatorService;
+};
+
+export default getRequirementEvaluatorService;
@@ -0,0 +1,152 @@
+import { readFileSync } from 'fs';
+import { cpus } from 'os';
+import { createServiceLogger } from './logger';
+import { readProcessTable } from './process-tree';
+import {
+  createResourceTracker,
+  getProcessTree,
+  recordResourceSample,
+  summarizeResourceUsage,
+  type ProcessSample,
+  type ResourceTracker,
+  type ResourceUsage
+} from '../../shared/execution/resource-usage';
+
+const logger = createServiceLogger('resource-monitor');
+
+// How often the process table is sampled while any execution is running
+const SAMPLE_INTERVAL_MS = 3000;
+
+interface TrackedExecution {
+  pid: number;
+  tracker: ResourceTracker;
+  maxMemoryMB?: number;
+  onLimitExceeded: (memoryMB: number) => void;
+  limitReported: boolean;
+}
+
+/**
+ * Samples the process tree of each running execution for memory, CPU and disk figures,
+ * and reports runs whose memory use goes over their limit.
+ */
+class ResourceMonitorService {
+  private tracked = new Map<string, TrackedExecution>();
+  private sampleTimer: NodeJS.Timeout | null = null;
+  private isSampling = false;
+  private cpuCount = Math.max(1, cpus().length);
+
+  /**
+   * Start sampling an execution. onLimitExceeded is called once if the tree's memory
+   * goes over maxMemoryMB; stopping the run is up to the caller.
+   */
+  public track(
+    executionId: string,
+    pid: number,
+    maxMemoryMB: number | undefined,
+    onLimitExceeded: (memoryMB: number) => void
+  ): void {
+    this.tracked.set(executionId, {
+      pid,
+      tracker: createResourceTracker(Date.now()),
+      maxMemoryMB,
+      onLimitExceeded,
+      limitReported: false,
+    });
+
+    if (!this.sampleTimer) {
+      this.sampleTimer = setInterval(() => {
+        this.sample();
+      }, SAMPLE_INTERVAL_MS);
+    }
+
+    // Sample straight away so short runs still get figures
+    this.sample();
+  }
+
+  /**
+   * Stop sampling an execution and return its figures (undefined if it was never sampled).
+   */
+  public stop(executionId: string): ResourceUsage | undefined {
+    const execution = this.tracked.get(executionId);
+    if (!execution) return undefined;
+
+    this.tracked.delete(executionId);
+    if (this.tracked.size === 0) {
+      this.stopTimer();
+    }
+
+    return summarizeResourceUsage(execution.tracker, this.cpuCount) ?? undefined;
+  }
+
+  public cleanup(): void {
+    this.tracked.clear();
+    this.stopTimer();
+  }
+
+  private stopTimer(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+  }
+
+  private async sample(): Promise<void> {
+    if (this.isSampling || this.tracked.size === 0) return;
+    this.isSampling = true;
+
+    try {
+      const processes = await readProcessTable();
+      const sampledAt = Date.now();
+
+      for (const [executionId, execution] of this.tracked) {
+        const tree = getProcessTree(execution.pid, processes);
+        if (tree.length === 0) continue; // Exited between spawn and sample
+
+        if (process.platform === 'linux') {
+          this.addLinuxIoCounters(tree);
+        }
+
+        const memoryMB = recordResourceSample(execution.tracker, tree, sampledAt, this.cpuCount);
+
+        if (execution.maxMemoryMB && memoryMB > execution.maxMemoryMB && !execution.limitReported) {
+          execution.limitReported = true;
+          logger.warn('Execution exceeded memory limit', {
+            executionId,
+            memoryMB: Math.round(memoryMB),
+            maxMemoryMB: execution.maxMemoryMB,
+          });
+          execution.onLimitExceeded(memoryMB);
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to sample process resource usage', { error: (error as Error).message });
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  /** ps has no I/O counters; /proc/<pid>/io does, for processes we own */
+  private addLinuxIoCounters(tree: ProcessSample[]): void {
+    for (const sample of tree) {
+      try {
+        const io = readFileSync(`/proc/${sample.pid}/io`, 'utf8');
+        sample.readBytes = Number(io.match(/^read_bytes:\s*(\d+)/m)?.[1] ?? 0);
+        sample.writeBytes = Number(io.match(/^write_bytes:\s*(\d+)/m)?.[1] ?? 0);
+      } catch {
+        // Process exited or not readable - keep the counters we have
+      }
+    }
+  }
+}
+
+// Create and export singleton instance
+let resourceMonitorService: ResourceMonitorService | null = null;
+
+export const getResourceMonitorService = (): ResourceMonitorService => {
+  if (!resourceMonitorService) {
+    resourceMonitorService = new ResourceMonitorService();
+  }
+  return resourceMonitorService;
+};
+
+export default getResourceMonitorService;
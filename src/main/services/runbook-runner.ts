@@ -0,0 +1,455 @@
+import { randomUUID } from 'crypto';
+import { BrowserWindow } from 'electron';
+import { createServiceLogger } from './logger';
+import { getDatabaseService } from './database';
+import { getScriptRegistryService } from './script-registry';
+import type { RunbookInfo } from './script-registry';
+import { getPowerShellExecutorService } from './powershell-executor';
+import type { ExecutionRequest } from './powershell-executor';
+import ScriptValidatorService from './script-validator';
+import {
+  buildCompletionUpdate,
+  buildOutputUpdate,
+  buildProgressUpdate,
+  buildStartedUpdate,
+  sendExecutionUpdate
+} from './execution-updates';
+import {
+  MAX_RUNBOOK_STEP_RUNS,
+  getNextStepIndex,
+  isStepSuccessful
+} from '../../shared/runbooks/runbook-flow';
+import type { ScriptProgress } from '../../shared/execution/progress';
+
+const logger = createServiceLogger('runbook-runner');
+
+// Finished runs kept in memory so the Runbooks page can show them after they end
+const MAX_FINISHED_RUNS = 20;
+
+const INTERRUPTED_MESSAGE = 'Interrupted: the app closed while the runbook was running';
+
+export type RunbookRunStatus = 'running' | 'success' | 'error' | 'cancelled';
+export type RunbookStepStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled' | 'skipped';
+
+export interface RunbookStepState {
+  stepId: string;
+  name: string;
+  scriptId: string;
+  status: RunbookStepStatus;
+  /** Execution ID of the step's latest script run */
+  executionId?: string;
+  exitCode?: number;
+  /** How many times the step ran (branches can revisit a step) */
+  runs: number;
+}
+
+/** Payload of the runbook:update event and runbook:executions results */
+export interface RunbookExecutionInfo {
+  executionId: string;
+  runbookId: string;
+  runbookName: string;
+  status: RunbookRunStatus;
+  currentStepId: string | null;
+  steps: RunbookStepState[];
+  startedAt: number;
+  completedAt: number | null;
+  error?: string;
+}
+
+interface RunbookRun {
+  info: RunbookExecutionInfo;
+  runbook: RunbookInfo;
+  source: ExecutionRequest['source'];
+  stepRuns: number;
+  cancelRequested: boolean;
+  /** Why the runbook was cancelled: runbook_cancelled, or the reason its current step was cancelled */
+  cancelReason?: string;
+  /** Last step that finished, used for the runbook's overall result */
+  lastStepSucceeded: boolean;
+  lastExitCode: number;
+}
+
+class RunbookRunnerService {
+  private runs = new Map<string, RunbookRun>();
+
+  /**
+   * Runbooks only run in memory and can't be resumed after a restart. Record the ones that
+   * were running when the app last exited, and their unfinished steps, as interrupted, and
+   * drop step runs still in the queue so restoreQueue doesn't start them on their own.
+   * Must be called before restoreQueue.
+   */
+  public recoverInterruptedRunbooks(): void {
+    let executionIds: string[];
+    try {
+      executionIds = getDatabaseService().getUnfinishedRunbookExecutionIds();
+    } catch (error) {
+      logger.warn('Database unavailable - skipping interrupted runbook recovery');
+      return;
+    }
+
+    const now = Date.now();
+    for (const executionId of executionIds) {
+      try {
+        const db = getDatabaseService();
+        for (const step of db.getRunbookSteps(executionId)) {
+          if (step.status !== 'running') continue;
+
+          db.updateRunbookStep(step.id!, step.execution_id ?? null, 'error', null, now);
+          if (step.execution_id) {
+            db.deleteQueuedExecution(step.execution_id);
+            const child = db.getExecutionLog(step.execution_id);
+            if (child && (child.status === 'pending' || child.status === 'running')) {
+              db.updateExecutionLog(step.execution_id, 'error', 0, -1, '', INTERRUPTED_MESSAGE);
+            }
+          }
+        }
+        db.updateExecutionLog(executionId, 'error', 0, -1, '', INTERRUPTED_MESSAGE);
+        logger.info('Marked interrupted runbook', { executionId });
+      } catch (error) {
+        logger.warn('Failed to mark interrupted runbook', { executionId, error: (error as Error).message });
+      }
+    }
+  }
+
+  /**
+   * Start a runbook. Returns the parent execution ID; steps run in the background.
+   */
+  public async startRunbook(runbookId: string, source: ExecutionRequest['source'] = 'manual'): Promise<string> {
+    const runbook = getScriptRegistryService().getRunbook(runbookId);
+    if (!runbook) {
+      throw new Error(`Runbook not found: ${runbookId}`);
+    }
+
+    const executionId = randomUUID();
+    const startedAt = Date.now();
+
+    try {
+      const db = getDatabaseService();
+      db.insertExecutionLog({
+        id: executionId,
+        timestamp: startedAt,
+        script_id: runbook.id,
+        script_name: runbook.name,
+        status: 'running',
+        parameters: JSON.stringify({ runbook: true, steps: runbook.steps.map(step => step.id) }),
+        created_at: startedAt,
+        updated_at: startedAt
+      });
+    } catch (error) {
+      logger.warn('Database unavailable - skipping runbook execution log', { executionId });
+    }
+
+    const registry = getScriptRegistryService();
+    const run: RunbookRun = {
+      info: {
+        executionId,
+        runbookId: runbook.id,
+        runbookName: runbook.name,
+        status: 'running',
+        currentStepId: null,
+        steps: runbook.steps.map(step => ({
+          stepId: step.id,
+          name: step.name || registry.getScript(step.scriptId)?.name || step.scriptId,
+          scriptId: step.scriptId,
+          status: 'pending',
+          runs: 0
+        })),
+        startedAt,
+        completedAt: null
+      },
+      runbook,
+      source,
+      stepRuns: 0,
+      cancelRequested: false,
+      lastStepSucceeded: false,
+      lastExitCode: -1
+    };
+
+    this.runs.set(executionId, run);
+
+    logger.info('Runbook started', {
+      executionId,
+      runbookId: runbook.id,
+      steps: runbook.steps.length,
+      source
+    });
+
+    this.broadcast(run);
+    void this.runStep(run, 0);
+
+    return executionId;
+  }
+
+  /**
+   * Cancel a running runbook: the current step is cancelled and no further steps run.
+   */
+  public cancelRunbook(executionId: string): boolean {
+    const run = this.runs.get(executionId);
+    if (!run || run.info.status !== 'running') {
+      return false;
+    }
+
+    run.cancelRequested = true;
+    run.cancelReason = 'runbook_cancelled';
+    logger.info('Runbook cancellation requested', { executionId, currentStepId: run.info.currentStepId });
+
+    const current = run.info.steps.find(step => step.stepId === run.info.currentStepId);
+    if (current?.executionId && getPowerShellExecutorService().cancelExecution(current.executionId, 'runbook_cancelled')) {
+      // The step's onCancel callback finishes the runbook
+      return true;
+    }
+
+    this.finish(run, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Running runbooks plus the most recent finished ones, newest first.
+   */
+  public getRunbookExecutions(): RunbookExecutionInfo[] {
+    return Array.from(this.runs.values())
+      .map(run => run.info)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  private async runStep(run: RunbookRun, stepIndex: number): Promise<void> {
+    if (run.cancelRequested) {
+      this.finish(run, 'cancelled');
+      return;
+    }
+
+    if (++run.stepRuns > MAX_RUNBOOK_STEP_RUNS) {
+      logger.error('Runbook exceeded step limit - stopping', {
+        executionId: run.info.executionId,
+        limit: MAX_RUNBOOK_STEP_RUNS
+      });
+      this.finish(run, 'error', `Stopped after ${MAX_RUNBOOK_STEP_RUNS} steps - check the runbook for a loop`);
+      return;
+    }
+
+    const step = run.runbook.steps[stepIndex];
+    const state = run.info.steps[stepIndex];
+    const startedAt = Date.now();
+
+    state.status = 'running';
+    state.runs += 1;
+    state.executionId = undefined;
+    state.exitCode = undefined;
+    run.info.currentStepId = step.id;
+    this.broadcast(run);
+
+    let stepRecordId: number | null = null;
+    try {
+      stepRecordId = getDatabaseService().insertRunbookStep({
+        runbook_execution_id: run.info.executionId,
+        step_index: stepIndex,
+        step_id: step.id,
+        script_id: step.scriptId,
+        status: 'running',
+        started_at: startedAt
+      });
+    } catch (error) {
+      logger.warn('Database unavailable - skipping runbook step record', {
+        executionId: run.info.executionId,
+        stepId: step.id
+      });
+    }
+
+    const complete = (status: 'success' | 'error' | 'cancelled', exitCode: number): void => {
+      if (stepRecordId !== null) {
+        try {
+          getDatabaseService().updateRunbookStep(stepRecordId, state.executionId ?? null, status, exitCode, Date.now());
+        } catch (error) {
+          logger.warn('Database unavailable - skipping runbook step update', { stepRecordId });
+        }
+      }
+      this.handleStepFinished(run, stepIndex, status, exitCode);
+    };
+
+    const scriptDef = getScriptRegistryService().getScript(step.scriptId);
+    if (!scriptDef) {
+      logger.error('Runbook step script not found', { executionId: run.info.executionId, scriptId: step.scriptId });
+      complete('error', -1);
+      return;
+    }
+
+    const psExecutor = getPowerShellExecutorService();
+    let childId: string;
+    try {
+      const validationResult = await ScriptValidatorService.validateScript(scriptDef);
+      childId = await psExecutor.executeScript({
+        scriptId: scriptDef.id,
+        scriptDefinition: scriptDef,
+        parameters: step.parameters || {},
+        validationResult,
+        requestId: '',
+        source: run.source
+      });
+    } catch (error) {
+      logger.error('Runbook step failed to start', {
+        executionId: run.info.executionId,
+        stepId: step.id,
+        error: (error as Error).message
+      });
+      complete('error', -1);
+      return;
+    }
+
+    state.executionId = childId;
+    this.broadcast(run);
+
+    // Recorded now so a restart can find the step's run, see recoverInterruptedRunbooks()
+    if (stepRecordId !== null) {
+      try {
+        getDatabaseService().updateRunbookStep(stepRecordId, childId, 'running', null, null);
+      } catch (error) {
+        logger.warn('Database unavailable - skipping runbook step update', { stepRecordId });
+      }
+    }
+
+    // Queued runs are announced by the executor
+    const target = { executionId: childId, scriptId: scriptDef.id, scriptName: scriptDef.name };
+    if (psExecutor.getExecutionStatus(childId) === 'running') {
+      sendExecutionUpdate(buildStartedUpdate(target));
+    }
+
+    const tracking = psExecutor.setExecutionCallbacks(childId, {
+      onProgress: (output: string) => {
+        sendExecutionUpdate(buildOutputUpdate(target, output));
+      },
+      onProgressUpdate: (progress: ScriptProgress) => {
+        sendExecutionUpdate(buildProgressUpdate(target, progress));
+      },
+      onComplete: (result) => {
+        const succeeded = isStepSuccessful(step, result.exitCode);
+        sendExecutionUpdate(buildCompletionUpdate(target, result, succeeded));
+        complete(succeeded ? 'success' : 'error', result.exitCode);
+      },
+      onCancel: (reason: string) => {
+        sendExecutionUpdate({ ...target, status: 'cancelled' });
+
+        // A timeout is a step failure and takes the onFailure branch; anything else stops the runbook
+        if (reason === 'timeout') {
+          complete('error', -1);
+        } else {
+          run.cancelRequested = true;
+          run.cancelReason = run.cancelReason ?? reason;
+          complete('cancelled', -1);
+        }
+      }
+    });
+
+    // The executor already reported a run that failed before its process started
+    if (!tracking) {
+      complete('error', -1);
+    }
+  }
+
+  private handleStepFinished(
+    run: RunbookRun,
+    stepIndex: number,
+    status: 'success' | 'error' | 'cancelled',
+    exitCode: number
+  ): void {
+    const state = run.info.steps[stepIndex];
+    state.status = status;
+    state.exitCode = exitCode;
+    run.lastStepSucceeded = status === 'success';
+    run.lastExitCode = exitCode;
+
+    logger.info('Runbook step finished', {
+      executionId: run.info.executionId,
+      stepId: state.stepId,
+      status,
+      exitCode
+    });
+
+    if (status === 'cancelled' || run.cancelRequested) {
+      this.finish(run, 'cancelled');
+      return;
+    }
+
+    const nextIndex = getNextStepIndex(run.runbook, stepIndex, status === 'success');
+    if (nextIndex === null) {
+      this.finish(run, run.lastStepSucceeded ? 'success' : 'error');
+      return;
+    }
+
+    this.broadcast(run);
+    void this.runStep(run, nextIndex);
+  }
+
+  private finish(run: RunbookRun, status: Exclude<RunbookRunStatus, 'running'>, error?: string): void {
+    if (run.info.status !== 'running') return;
+
+    const completedAt = Date.now();
+    run.info.status = status;
+    run.info.currentStepId = null;
+    run.info.completedAt = completedAt;
+    if (error) run.info.error = error;
+
+    // Steps the run never reached
+    for (const step of run.info.steps) {
+      if (step.status === 'pending') {
+        step.status = 'skipped';
+      }
+    }
+
+    const summary = run.info.steps
+      .filter(step => step.runs > 0)
+      .map(step => `${step.name}: ${step.status}${step.exitCode !== undefined ? ` (exit ${step.exitCode})` : ''}`)
+      .join('\n');
+
+    try {
+      getDatabaseService().updateExecutionLog(
+        run.info.executionId,
+        status,
+        completedAt - run.info.startedAt,
+        status === 'cancelled' ? -1 : run.lastExitCode,
+        summary,
+        error || (status === 'cancelled' ? `Cancelled: ${run.cancelReason ?? 'runbook_cancelled'}` : '')
+      );
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping runbook completion log', { executionId: run.info.executionId });
+    }
+
+    logger.info('Runbook finished', {
+      executionId: run.info.executionId,
+      runbookId: run.info.runbookId,
+      status,
+      duration: completedAt - run.info.startedAt
+    });
+
+    this.broadcast(run);
+    this.pruneFinishedRuns();
+  }
+
+  private pruneFinishedRuns(): void {
+    const finished = Array.from(this.runs.values())
+      .filter(run => run.info.status !== 'running')
+      .sort((a, b) => b.info.startedAt - a.info.startedAt);
+
+    for (const run of finished.slice(MAX_FINISHED_RUNS)) {
+      this.runs.delete(run.info.executionId);
+    }
+  }
+
+  private broadcast(run: RunbookRun): void {
+    const windows = BrowserWindow.getAllWindows();
+    if (windows.length > 0 && !windows[0].isDestroyed()) {
+      windows[0].webContents.send('runbook:update', run.info);
+    }
+  }
+}
+
+// Create and export singleton instance
+let runbookRunnerService: RunbookRunnerService | null = null;
+
+export const getRunbookRunnerService = (): RunbookRunnerService => {
+  if (!runbookRunnerService) {
+    runbookRunnerService = new RunbookRunnerService();
+  }
+  return runbookRunnerService;
+};
+
+export default getRunbookRunnerService;
@@ -0,0 +1,29 @@
+import type { ScriptDefinition } from '../script-registry';
+import { resolveScriptRuntime, type ScriptRuntimeId } from '../../../shared/execution/runtime';
+import { PowerShellRuntime } from './powershell';
+import { PosixShellRuntime } from './posix-shell';
+import type { ScriptRuntime } from './script-runtime';
+
+export type { ScriptRuntime, RuntimeInvocation, RuntimeCommand } from './script-runtime';
+
+const RUNTIMES: Record<ScriptRuntimeId, ScriptRuntime> = {
+  powershell: new PowerShellRuntime('powershell', 'Windows PowerShell 5.1', 'powershell.exe'),
+  pwsh: new PowerShellRuntime('pwsh', 'PowerShell 7', 'pwsh'),
+  bash: new PosixShellRuntime('bash', 'Bash', 'bash'),
+  sh: new PosixShellRuntime('sh', 'POSIX sh', 'sh'),
+};
+
+export function getRuntimeById(runtimeId: ScriptRuntimeId): ScriptRuntime {
+  return RUNTIMES[runtimeId];
+}
+
+/**
+ * Get the runtime adapter for a script, from its `runtime` metadata or its file extension.
+ */
+export function getScriptRuntime(scriptDef: ScriptDefinition): ScriptRuntime {
+  const runtimeId = resolveScriptRuntime(scriptDef.scriptPath, scriptDef.runtime, process.platform);
+  if (!runtimeId) {
+    throw new Error(`No runtime available for script: ${scriptDef.scriptPath}`);
+  }
+  return RUNTIMES[runtimeId];
+}
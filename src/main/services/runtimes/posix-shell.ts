@@ -0,0 +1,111 @@
+import { join } from 'path';
+import { writeFileSync } from 'fs';
+import { createServiceLogger } from '../logger';
+import type { ScriptParameter } from '../script-registry';
+import type { ScriptRuntimeId } from '../../../shared/execution/runtime';
+import { getUnenforceableCapabilitiesReason } from '../../../shared/execution/capabilities';
+import type { RuntimeCommand, RuntimeInvocation, ScriptRuntime } from './script-runtime';
+
+const logger = createServiceLogger('posix-shell-runtime');
+
+/**
+ * Runs .sh scripts under bash or sh.
+ *
+ * Parameters are passed as separate argv entries (`--Name=value`, or `--Name` for a true
+ * boolean), so no shell quoting is involved: spawn hands each argument to the script verbatim.
+ */
+export class PosixShellRuntime implements ScriptRuntime {
+  constructor(
+    readonly id: ScriptRuntimeId,
+    readonly displayName: string,
+    readonly executable: string
+  ) {}
+
+  async buildCommand(invocation: RuntimeInvocation): Promise<RuntimeCommand> {
+    const { executionId, scriptDefinition: scriptDef, parameters } = invocation;
+
+    // There is no command guard for shells; the tool is listed as incompatible, so this only
+    // catches callers that skipped the compatibility check
+    const unenforceable = getUnenforceableCapabilitiesReason(this.id, invocation.options.capabilities);
+    if (unenforceable) {
+      throw new Error(unenforceable);
+    }
+
+    // Run a per-run copy so the script can't change under a running execution
+    const tempScriptPath = join(invocation.tempDirectory, `${executionId}.sh`);
+    writeFileSync(tempScriptPath, invocation.scriptContent);
+
+    const args = [tempScriptPath, ...this.buildArguments(scriptDef.parameters || [], parameters)];
+
+    logger.debug('Built shell command', {
+      runtime: this.id,
+      scriptId: scriptDef.id,
+      argumentCount: args.length - 1,
+    });
+
+    return { command: this.executable, args, tempScriptPath };
+  }
+
+  private buildArguments(definitions: ScriptParameter[], parameters: Record<string, any>): string[] {
+    const args: string[] = [];
+
+    for (const definition of definitions) {
+      // Secrets reach the script as $FAK_SECRET_<NAME>, never as arguments
+      if (definition.type === 'secret') continue;
+
+      let value = this.getParameterCaseInsensitive(parameters, definition.name);
+      if (value === undefined || value === null || value === '') {
+        value = definition.default;
+      }
+
+      if (value === undefined || value === null || value === '') {
+        if (definition.required) {
+          throw new Error(`Required parameter '${definition.name}' is missing`);
+        }
+        continue;
+      }
+
+      if (definition.type === 'boolean') {
+        if (value === true || value === 'true' || value === '1') {
+          args.push(`--${definition.name}`);
+        }
+        continue;
+      }
+
+      args.push(`--${definition.name}=${this.formatValue(definition, value)}`);
+    }
+
+    return args;
+  }
+
+  private formatValue(definition: ScriptParameter, value: any): string {
+    const text = String(value);
+
+    if (text.includes('\0')) {
+      throw new Error(`Parameter '${definition.name}' contains invalid characters`);
+    }
+
+    if (definition.type === 'number') {
+      const numeric = Number(text);
+      if (!Number.isFinite(numeric)) {
+        throw new Error(`Parameter '${definition.name}' must be a number`);
+      }
+      return String(numeric);
+    }
+
+    return text;
+  }
+
+  /**
+   * Protocol URLs may use different casing than the parameter definitions.
+   */
+  private getParameterCaseInsensitive(parameters: Record<string, any>, name: string): any {
+    if (parameters[name] !== undefined) {
+      return parameters[name];
+    }
+
+    const lowerName = name.toLowerCase();
+    const key = Object.keys(parameters).find(candidate => candidate.toLowerCase() === lowerName);
+    return key === undefined ? undefined : parameters[key];
+  }
+}
@@ -0,0 +1,633 @@
+import { join } from 'path';
+import { writeFileSync } from 'fs';
+import { BrowserWindow } from 'electron';
+import { createServiceLogger } from '../logger';
+import type { ScriptDefinition } from '../script-registry';
+import type { ScriptRuntimeId } from '../../../shared/execution/runtime';
+import { PROGRESS_MARKER } from '../../../shared/execution/progress';
+import { PROMPT_MARKER } from '../../../shared/execution/prompt';
+import { RESULT_MARKER } from '../../../shared/execution/result';
+import { STOP_FILE_ENV_VAR } from '../../../shared/execution/cancellation';
+import { CAPABILITY_MARKER, getCapabilityRestrictions } from '../../../shared/execution/capabilities';
+import { DRY_RUN_PARAMETER, declaresDryRunParameter } from '../../../shared/execution/dry-run';
+import type { RuntimeCommand, RuntimeInvocation, ScriptRuntime } from './script-runtime';
+
+const logger = createServiceLogger('powershell-executor');
+
+// Debug logging helper - sends logs to both console and renderer DevTools
+const debugLog = (category: string, message: string, data?: any): void => {
+  const timestamp = new Date().toISOString().split('T')[1].replace('Z', '');
+  const logEntry = {
+    timestamp,
+    category,
+    message,
+    data,
+    source: 'powershell-runtime'
+  };
+
+  // Always log to console and file logger at info level
+  console.log(`[${timestamp}] [${category}] ${message}`, data ? JSON.stringify(data, null, 2) : '');
+  logger.info(`[${category}] ${message}`, data || {});
+
+  // Send to renderer if any window exists
+  const windows = BrowserWindow.getAllWindows();
+  if (windows.length > 0 && !windows[0].isDestroyed()) {
+    windows[0].webContents.send('debug:main-process-log', logEntry);
+  }
+};
+
+/**
+ * Runs .ps1 scripts under Windows PowerShell 5.1 (powershell.exe) or PowerShell 7 (pwsh).
+ * Both accept the same command line and script wrapper; only the executable differs.
+ */
+export class PowerShellRuntime implements ScriptRuntime {
+  constructor(
+    readonly id: ScriptRuntimeId,
+    readonly displayName: string,
+    readonly executable: string
+  ) {}
+
+  async buildCommand(invocation: RuntimeInvocation): Promise<RuntimeCommand> {
+    const { executionId, scriptDefinition: scriptDef, parameters } = invocation;
+
+    debugLog('POWERSHELL', '========== buildCommand ==========', {
+      runtime: this.id,
+      scriptId: scriptDef.id,
+      scriptPath: scriptDef.scriptPath,
+      requestId: executionId,
+      incomingParameters: parameters
+    });
+
+    // Check the original script for a param() block
+    const originalScript = invocation.scriptContent.toString('utf8');
+    const hasParamBlock = this.scriptHasParamBlock(originalScript);
+
+    debugLog('POWERSHELL', 'Script analysis', {
+      hasParamBlock,
+      scriptLength: originalScript.length,
+      firstLines: originalScript.split('\n').slice(0, 10).join('\n')
+    });
+
+    // Create temporary script file
+    const tempScriptPath = join(invocation.tempDirectory, `${executionId}.ps1`);
+    const scriptContent = await this.buildScriptWithParameters(scriptDef, originalScript, parameters, hasParamBlock);
+
+    writeFileSync(tempScriptPath, scriptContent, 'utf8');
+
+    // Build command-line parameter string for scripts with param() blocks
+    let paramString = hasParamBlock
+      ? this.buildCommandLineParams(scriptDef, parameters)
+      : '';
+
+    // Only declared parameters are passed, but SupportsShouldProcess provides WhatIf undeclared.
+    // A script that doesn't accept it fails to bind instead of running for real.
+    if (invocation.dryRun && hasParamBlock && !declaresDryRunParameter(scriptDef.parameters)) {
+      paramString += ` -${DRY_RUN_PARAMETER}`;
+    }
+
+    debugLog('POWERSHELL', 'Parameter string built', {
+      hasParamBlock,
+      paramString,
+      paramStringLength: paramString.length,
+      willUseCommandLineParams: hasParamBlock
+    });
+
+    // Build PowerShell command with security restrictions
+    const command = this.executable;
+    const scriptInvocation = `& '${tempScriptPath.replace(/'/g, "''")}'${paramString}`;
+
+    debugLog('POWERSHELL', 'Final script invocation', {
+      scriptInvocation,
+      tempScriptPath
+    });
+
+    const args = [
+      '-NoProfile',           // Don't load PowerShell profile
+      '-NoLogo',             // Don't show PowerShell logo
+      // Note: Removed -NonInteractive and -WindowStyle Hidden to allow WPF dialogs
+      '-ExecutionPolicy', 'Bypass', // Bypass execution policy for this script
+      '-Command', `& {
+        # Set error preference (scripts manage their own strict mode if needed)
+        $ErrorActionPreference = 'Continue';
+
+        # Forward Write-Progress to stdout as marker lines so the app can show real progress
+        function global:Write-Progress {
+          [CmdletBinding()]
+          param(
+            [Parameter(Position = 0)][string]$Activity,
+            [Parameter(Position = 1)][string]$Status,
+            [Parameter(Position = 2)][int]$Id,
+            [int]$PercentComplete = -1,
+            [int]$SecondsRemaining = -1,
+            [string]$CurrentOperation,
+            [int]$ParentId = -1,
+            [switch]$Completed,
+            [int]$SourceId
+          )
+          try {
+            $payload = @{ activity = $Activity; status = $Status; operation = $CurrentOperation; percent = $PercentComplete; completed = [bool]$Completed } | ConvertTo-Json -Compress
+            [Console]::Out.WriteLine('${PROGRESS_MARKER} ' + $payload)
+          } catch { }
+          Microsoft.PowerShell.Utility\\Write-Progress @PSBoundParameters
+        }
+
+        # Relay input prompts to the app: print a marker line, then read one JSON answer line from stdin
+        function global:Receive-PromptAnswer {
+          param([string]$Payload)
+          [Console]::Out.WriteLine('${PROMPT_MARKER} ' + $Payload)
+          $line = [Console]::In.ReadLine()
+          if ($null -eq $line) { throw 'Prompt cancelled: input closed' }
+          $answer = $line | ConvertFrom-Json
+          if ($answer.cancelled) { throw 'Prompt cancelled by user' }
+          return $answer
+        }
+
+        function global:Read-Host {
+          [CmdletBinding()]
+          param(
+            [Parameter(Position = 0, ValueFromRemainingArguments = $true)]$Prompt,
+            [switch]$AsSecureString,
+            [switch]$MaskInput
+          )
+          $payload = @{ promptId = [guid]::NewGuid().ToString(); kind = 'text'; message = (@($Prompt) -join ' '); masked = [bool]($AsSecureString -or $MaskInput) } | ConvertTo-Json -Compress
+          $value = [string](Receive-PromptAnswer $payload).value
+          if ($AsSecureString) {
+            $secure = New-Object System.Security.SecureString
+            foreach ($char in $value.ToCharArray()) { $secure.AppendChar($char) }
+            $secure.MakeReadOnly()
+            return $secure
+          }
+          return $value
+        }
+
+        # Instance members on $Host.UI take precedence over the host's own PromptForChoice
+        $Host.UI | Add-Member -MemberType ScriptMethod -Name PromptForChoice -Force -Value {
+          param($Caption, $Message, $Choices, $DefaultChoice)
+          $choiceList = @($Choices | ForEach-Object {
+            if ($_ -is [string]) { @{ label = $_ } } else { @{ label = $_.Label; helpMessage = $_.HelpMessage } }
+          })
+          $payload = @{ promptId = [guid]::NewGuid().ToString(); kind = 'choice'; title = $Caption; message = $Message; choices = $choiceList; defaultChoice = $DefaultChoice; masked = $false } | ConvertTo-Json -Compress -Depth 4
+          return [int](Receive-PromptAnswer $payload).choice
+        }
+
+        # Report structured results: piped objects become rows of the table named by -Title,
+        # -Summary reports a summary card with -Text as the headline and the object's properties as items
+        function global:Write-FakResult {
+          [CmdletBinding()]
+          param(
+            [Parameter(ValueFromPipeline = $true)]$InputObject,
+            [string]$Title,
+            [string]$Text,
+            [switch]$Summary
+          )
+          process {
+            if ($Summary) {
+              $payload = @{ type = 'summary'; title = $Title; text = $Text; data = $InputObject }
+            } elseif ($null -ne $InputObject) {
+              $payload = @{ type = 'row'; title = $Title; data = $InputObject }
+            } else {
+              return
+            }
+            try {
+              [Console]::Out.WriteLine('${RESULT_MARKER} ' + ($payload | ConvertTo-Json -Compress -Depth 3))
+            } catch { }
+          }
+        }
+
+        # True once the app has asked the script to stop (scripts with gracefulStopSeconds)
+        function global:Test-FakStopRequested {
+          return [bool]($env:${STOP_FILE_ENV_VAR} -and (Test-Path -LiteralPath $env:${STOP_FILE_ENV_VAR}))
+        }
+
+${this.buildCapabilityGuard(invocation)}
+        # Execute script with error handling
+        try {
+          ${scriptInvocation}
+        } catch {
+          Write-Error "Script execution failed: $_"
+          exit 1
+        }
+      }`
+    ];
+
+    debugLog('POWERSHELL', 'Full PowerShell command', {
+      command,
+      argsLength: args.length,
+      fullCommand: `${command} ${args.join(' ')}`
+    });
+
+    return { command, args, tempScriptPath };
+  }
+
+  /**
+   * Wrapper code enforcing the script's declared capabilities; empty for scripts that declare
+   * none. Every command lookup goes through a PostCommandLookupAction that refuses commands
+   * and programs outside the declaration, and swaps path-taking cmdlets for proxies that check
+   * their registry and file targets. Module functions that can change settings are refused
+   * unless fullLanguage is declared. The script then runs in Constrained Language Mode, which
+   * keeps it from reaching .NET directly or removing the hook. Code defined here stays in Full
+   * Language Mode.
+   */
+  private buildCapabilityGuard(invocation: RuntimeInvocation): string {
+    const { options } = invocation;
+    if (!options.capabilities) return '';
+
+    const restrictions = getCapabilityRestrictions(options.capabilities);
+    const settings = JSON.stringify({
+      ...restrictions,
+      writableRoots: [invocation.tempDirectory, options.artifactsDirectory].filter(Boolean),
+    }).replace(/'/g, "''");
+
+    return `
+        # Capability guard: ${restrictions.allowed.length > 0 ? restrictions.allowed.join(', ') : 'no capabilities'} declared
+        & {
+          $guard = '${settings}' | ConvertFrom-Json
+
+          $deny = {
+            param([string]$Capability, [string]$Command, [string]$Target)
+            $payload = @{ capability = $Capability; command = $Command; target = $Target } | ConvertTo-Json -Compress
+            [Console]::Out.WriteLine('${CAPABILITY_MARKER} ' + $payload)
+            throw "$Command was blocked: this tool does not declare the '$Capability' capability"
+          }
+
+          # Checks the parameters a proxied cmdlet was called with, including pipeline-bound ones.
+          # Closures only capture local variables, so the ones they need are copied in first.
+          $newProxy = {
+            param($Command)
+            $guard = $guard
+            $deny = $deny
+            $commandName = $Command.Name
+            $writeParameters = @($guard.pathCommands.($commandName))
+            $isRemotable = $guard.remotableCommands -contains $commandName
+            $check = {
+              param($Bound)
+              if ($isRemotable) {
+                foreach ($parameter in $guard.networkTargetParameters) {
+                  if ($Bound.ContainsKey($parameter)) { & $deny 'network' $commandName ([string]$Bound[$parameter]) }
+                }
+              }
+              foreach ($parameter in @('Path', 'LiteralPath', 'Destination', 'FilePath', 'DestinationPath', 'OutputDirectory')) {
+                if (-not $Bound.ContainsKey($parameter)) { continue }
+                foreach ($item in @($Bound[$parameter])) {
+                  $provider = $null
+                  $drive = $null
+                  try {
+                    $target = $ExecutionContext.SessionState.Path.GetUnresolvedProviderPathFromPSPath([string]$item, [ref]$provider, [ref]$drive)
+                  } catch { continue }
+                  if ($provider.Name -eq 'Registry') {
+                    if (-not $guard.allowRegistry) { & $deny 'registry' $commandName $target }
+                  } elseif ($provider.Name -eq 'FileSystem' -and -not $guard.allowFileSystem -and $writeParameters -contains $parameter) {
+                    $inside = $false
+                    foreach ($root in $guard.writableRoots) {
+                      if ($target.StartsWith($root, [System.StringComparison]::OrdinalIgnoreCase)) { $inside = $true }
+                    }
+                    if (-not $inside) { & $deny 'fileSystem' $commandName $target }
+                  }
+                }
+              }
+            }.GetNewClosure()
+
+            $text = [System.Management.Automation.ProxyCommand]::Create([System.Management.Automation.CommandMetadata]::new($Command))
+            $text = $text -replace '(?m)^begin\s*\{', "begin\`n{\`n& \`$check \`$PSBoundParameters" -replace '(?m)^process\s*\{', "process\`n{\`n& \`$check \`$PSBoundParameters"
+            return [scriptblock]::Create($text).GetNewClosure()
+          }
+
+          $proxies = @{}
+          $ExecutionContext.InvokeCommand.PostCommandLookupAction = {
+            param([string]$CommandName, $LookupArgs)
+            $command = $LookupArgs.Command
+            if ($null -eq $command) { return }
+            $name = $command.Name
+            $capability = $null
+
+            if ($command.CommandType -eq 'Application') {
+              $capability = $guard.deniedPrograms.($name.ToLowerInvariant())
+              if (-not $capability -and -not $guard.allowPrograms) { $capability = 'processes' }
+            } elseif ($command.CommandType -eq 'Cmdlet' -or $command.CommandType -eq 'Function' -or $command.CommandType -eq 'Filter') {
+              # Script-defined functions have no module; module functions (e.g. Expand-Archive in
+              # Windows PowerShell, Set-NetFirewallProfile) are checked like cmdlets
+              if ($command.CommandType -ne 'Cmdlet' -and -not $command.ModuleName) { return }
+              $capability = $guard.deniedCommands.($name.ToLowerInvariant())
+              if (-not $capability -and ($guard.pathCommands.PSObject.Properties[$name] -or $guard.remotableCommands -contains $name)) {
+                if (-not $proxies.ContainsKey($name)) { $proxies[$name] = & $newProxy $command }
+                $LookupArgs.CommandScriptBlock = $proxies[$name]
+                return
+              }
+              if (-not $capability -and $command.CommandType -ne 'Cmdlet' -and -not $guard.allowModuleFunctions -and
+                  $guard.coreModules -notcontains $command.ModuleName -and $guard.readOnlyVerbs -notcontains $command.Verb) {
+                $capability = 'fullLanguage'
+              }
+            }
+
+            if ($capability) {
+              $report = $deny
+              $LookupArgs.CommandScriptBlock = { & $report $capability $name ($args -join ' ') }.GetNewClosure()
+            }
+          }.GetNewClosure()
+        }
+${restrictions.constrainedLanguage ? `        $ExecutionContext.SessionState.LanguageMode = 'ConstrainedLanguage'
+` : ''}`;
+  }
+
+  /**
+   * Check if a PowerShell script has a param() block.
+   * Scripts with [CmdletBinding()] and param() must have these as the first
+   * executable statements, so we cannot prepend code to them.
+   */
+  private scriptHasParamBlock(scriptContent: string): boolean {
+    // Look for param( that's not inside a comment or string
+    // This regex looks for 'param(' at the start of a line (with optional whitespace)
+    // after any [CmdletBinding(...)] attribute
+    const paramPattern = /^\s*param\s*\(/m;
+    const cmdletBindingPattern = /^\s*\[CmdletBinding/m;
+
+    return paramPattern.test(scriptContent) || cmdletBindingPattern.test(scriptContent);
+  }
+
+  /**
+   * Get parameter value with case-insensitive key lookup.
+   * Protocol URLs may have different casing than script parameter definitions.
+   */
+  private getParameterCaseInsensitive(
+    parameters: Record<string, any>,
+    paramName: string
+  ): any {
+    const allKeys = Object.keys(parameters);
+    debugLog('POWERSHELL', `getParameterCaseInsensitive called for "${paramName}"`, {
+      lookingFor: paramName,
+      availableKeys: allKeys,
+      parametersObject: JSON.stringify(parameters)
+    });
+
+    // First try exact match
+    if (parameters[paramName] !== undefined) {
+      debugLog('POWERSHELL', `EXACT match found for "${paramName}"`, {
+        value: parameters[paramName],
+        valueType: typeof parameters[paramName]
+      });
+      return parameters[paramName];
+    }
+
+    // Try case-insensitive match
+    const lowerParamName = paramName.toLowerCase();
+    for (const key of allKeys) {
+      debugLog('POWERSHELL', `Comparing: "${key.toLowerCase()}" === "${lowerParamName}"`, {
+        keyLower: key.toLowerCase(),
+        paramLower: lowerParamName,
+        match: key.toLowerCase() === lowerParamName
+      });
+      if (key.toLowerCase() === lowerParamName) {
+        debugLog('POWERSHELL', `CASE-INSENSITIVE match found`, {
+          originalKey: key,
+          lookingFor: paramName,
+          value: parameters[key],
+          valueType: typeof parameters[key]
+        });
+        return parameters[key];
+      }
+    }
+
+    debugLog('POWERSHELL', `NO MATCH found for "${paramName}"`, {
+      availableKeys: allKeys,
+      parametersProvided: JSON.stringify(parameters)
+    });
+    return undefined;
+  }
+
+  /**
+   * Build command-line parameter string for scripts with param() blocks.
+   * Returns a string like " -WhatIf -SkipEmail:$true -Path 'C:\test'"
+   */
+  private buildCommandLineParams(scriptDef: ScriptDefinition, parameters: Record<string, any>): string {
+    debugLog('POWERSHELL', '========== buildCommandLineParams ==========', {
+      scriptId: scriptDef.id,
+      scriptName: scriptDef.name
+    });
+
+    if (!scriptDef.parameters || scriptDef.parameters.length === 0) {
+      debugLog('POWERSHELL', 'No parameters defined in script definition', {});
+      return '';
+    }
+
+    // FIX: Enhanced debug logging for parameter troubleshooting
+    debugLog('POWERSHELL', '>>> PARAMETER DEBUG START <<<', {});
+    debugLog('POWERSHELL', 'Incoming parameters object', {
+      parametersType: typeof parameters,
+      parametersIsNull: parameters === null,
+      parametersIsUndefined: parameters === undefined,
+      rawParameters: JSON.stringify(parameters),
+      parameterKeys: Object.keys(parameters || {}),
+      parameterValues: Object.entries(parameters || {}).map(([k, v]) => ({
+        key: k,
+        value: v,
+        type: typeof v,
+        length: typeof v === 'string' ? v.length : 'N/A',
+        isEmpty: v === '' || v === null || v === undefined
+      }))
+    });
+
+    // Special debug for file-restore script
+    if (scriptDef.id === 'file-restore') {
+      debugLog('POWERSHELL', '*** FILE-RESTORE SPECIAL DEBUG ***', {
+        hasPathKey: 'Path' in parameters,
+        hasPathLowerKey: 'path' in parameters,
+        pathValue: parameters['Path'],
+        pathLowerValue: parameters['path'],
+        allKeys: Object.keys(parameters),
+        allValues: Object.values(parameters)
+      });
+    }
+
+    debugLog('POWERSHELL', 'Expected parameters from script definition', {
+      expectedParams: scriptDef.parameters.map(p => ({
+        name: p.name,
+        type: p.type,
+        required: p.required,
+        default: p.default
+      }))
+    });
+
+    const paramParts: string[] = [];
+
+    for (const paramDef of scriptDef.parameters) {
+      // Secrets reach the script as $env:FAK_SECRET_<NAME>, never on the command line
+      if (paramDef.type === 'secret') continue;
+
+      const paramName = paramDef.name;
+      const paramValue = this.getParameterCaseInsensitive(parameters, paramName);
+
+      debugLog('POWERSHELL', `Parameter lookup: "${paramName}"`, {
+        expectedName: paramName,
+        foundValue: paramValue,
+        valueType: typeof paramValue,
+        valueIsEmpty: paramValue === '' || paramValue === null || paramValue === undefined,
+        paramDefType: paramDef.type
+      });
+
+      if (paramValue === undefined || paramValue === null) {
+        debugLog('POWERSHELL', `Parameter "${paramName}" is undefined/null - SKIPPING`, {});
+        continue;
+      }
+
+      // Handle empty strings - they should still be passed
+      if (paramValue === '' && paramDef.type === 'string') {
+        debugLog('POWERSHELL', `Parameter "${paramName}" is empty string - SKIPPING (empty strings not passed)`, {});
+        continue;
+      }
+
+      let paramPart = '';
+      switch (paramDef.type) {
+        case 'boolean':
+          // For switch parameters, just use -ParamName if true
+          if (paramValue === true) {
+            paramPart = `-${paramName}`;
+            paramParts.push(paramPart);
+            debugLog('POWERSHELL', `Boolean parameter "${paramName}" = true`, { paramPart });
+          } else {
+            debugLog('POWERSHELL', `Boolean parameter "${paramName}" = false - not adding`, {});
+          }
+          break;
+
+        case 'string':
+        case 'select':
+          // Escape single quotes and wrap in single quotes
+          const escapedStr = String(paramValue).replace(/'/g, "''");
+          paramPart = `-${paramName} '${escapedStr}'`;
+          paramParts.push(paramPart);
+          debugLog('POWERSHELL', `String parameter "${paramName}" added`, {
+            originalValue: paramValue,
+            escapedValue: escapedStr,
+            paramPart
+          });
+          break;
+
+        case 'number':
+          paramPart = `-${paramName} ${Number(paramValue)}`;
+          paramParts.push(paramPart);
+          debugLog('POWERSHELL', `Number parameter "${paramName}" added`, { paramPart });
+          break;
+
+        default:
+          // Default to string handling
+          const escapedDefault = String(paramValue).replace(/'/g, "''");
+          paramPart = `-${paramName} '${escapedDefault}'`;
+          paramParts.push(paramPart);
+          debugLog('POWERSHELL', `Default parameter "${paramName}" added as string`, { paramPart });
+      }
+    }
+
+    const result = paramParts.length > 0 ? ' ' + paramParts.join(' ') : '';
+    debugLog('POWERSHELL', 'Final command line parameters', {
+      paramPartsCount: paramParts.length,
+      paramParts,
+      finalResult: result
+    });
+
+    return result;
+  }
+
+  private async buildScriptWithParameters(
+    scriptDef: ScriptDefinition,
+    originalScript: string,
+    parameters: Record<string, any>,
+    hasParamBlock: boolean
+  ): Promise<string> {
+    let scriptContent = originalScript;
+
+    // For scripts WITH param() blocks: don't prepend any code
+    // Parameters will be passed via command-line arguments instead
+    // This preserves [CmdletBinding()] and param() which must be first
+    if (hasParamBlock) {
+      logger.debug('Script has param block - passing parameters via command line', {
+        scriptName: scriptDef.name
+      });
+      // Return script as-is - parameters are passed on command line
+      return scriptContent;
+    }
+
+    // For scripts WITHOUT param() blocks: inject parameter variables
+    if (scriptDef.parameters && scriptDef.parameters.length > 0) {
+      const paramValidation = this.generateParameterValidation(scriptDef.parameters, parameters);
+      scriptContent = paramValidation + '\n\n' + scriptContent;
+    }
+
+    // Add security header as comments only (executable statements are in the -Command wrapper)
+    const securityHeader = `
+# Security Context: First Aid Kit Execution
+# Script: ${scriptDef.name}
+# Execution Time: ${new Date().toISOString()}
+# Security restrictions are applied by the execution wrapper
+
+`;
+
+    return securityHeader + scriptContent;
+  }
+
+  private generateParameterValidation(
+    paramDefs: any[], 
+    providedParams: Record<string, any>
+  ): string {
+    let validation = '# Parameter validation\n';
+    
+    for (const paramDef of paramDefs) {
+      // Secrets reach the script as $env:FAK_SECRET_<NAME>
+      if (paramDef.type === 'secret') continue;
+
+      const paramName = paramDef.name;
+      const paramValue = this.getParameterCaseInsensitive(providedParams, paramName);
+
+      if (paramDef.required && (paramValue === undefined || paramValue === null)) {
+        throw new Error(`Required parameter '${paramName}' is missing`);
+      }
+      
+      if (paramValue !== undefined) {
+        // Escape and validate parameter value
+        const escapedValue = this.escapeParameterValue(paramValue, paramDef.type);
+        validation += `$${paramName} = ${escapedValue}\n`;
+        
+        // Add type and range validation
+        if (paramDef.type === 'number' && paramDef.validation) {
+          if (paramDef.validation.min !== undefined) {
+            validation += `if ($${paramName} -lt ${paramDef.validation.min}) { throw "Parameter ${paramName} must be >= ${paramDef.validation.min}" }\n`;
+          }
+          if (paramDef.validation.max !== undefined) {
+            validation += `if ($${paramName} -gt ${paramDef.validation.max}) { throw "Parameter ${paramName} must be <= ${paramDef.validation.max}" }\n`;
+          }
+        }
+        
+        if (paramDef.validation?.allowedValues) {
+          const allowedValues = paramDef.validation.allowedValues.map((v: any) => `'${v}'`).join(', ');
+          validation += `if ($${paramName} -notin @(${allowedValues})) { throw "Parameter ${paramName} must be one of: ${allowedValues}" }\n`;
+        }
+      } else if (paramDef.default !== undefined) {
+        const escapedDefault = this.escapeParameterValue(paramDef.default, paramDef.type);
+        validation += `$${paramName} = ${escapedDefault}\n`;
+      }
+    }
+    
+    return validation;
+  }
+
+  private escapeParameterValue(value: any, type: string): string {
+    switch (type) {
+      case 'string':
+        // Escape single quotes and wrap in single quotes
+        return `'${String(value).replace(/'/g, "''")}'`;
+      
+      case 'number':
+        const num = Number(value);
+        if (isNaN(num)) throw new Error(`Invalid number value: ${value}`);
+        return String(num);
+      
+      case 'boolean':
+        return value ? '$true' : '$false';
+      
+      case 'select':
+        // Treat as string for select type
+        return `'${String(value).replace(/'/g, "''")}'`;
+      
+      default:
+        return `'${String(value).replace(/'/g, "''")}'`;
+    }
+  }
+}
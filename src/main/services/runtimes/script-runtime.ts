@@ -0,0 +1,36 @@
+import type { ScriptDefinition } from '../script-registry';
+import type { ExecutionOptions } from '../powershell-executor';
+import type { ScriptRuntimeId } from '../../../shared/execution/runtime';
+
+/** Everything a runtime needs to turn a request into a process to spawn */
+export interface RuntimeInvocation {
+  executionId: string;
+  scriptDefinition: ScriptDefinition;
+  parameters: Record<string, any>;
+  options: ExecutionOptions;
+  /** Preview run - see shared/execution/dry-run.ts */
+  dryRun: boolean;
+  /** The script file's bytes, read once and checked by the executor - runtimes don't read the file again */
+  scriptContent: Buffer;
+  /** Directory for the per-run copy of the script */
+  tempDirectory: string;
+}
+
+export interface RuntimeCommand {
+  command: string;
+  args: string[];
+  /** Per-run copy of the script, deleted when the run completes */
+  tempScriptPath?: string;
+}
+
+/**
+ * Adapter for one script interpreter. Owns command building, parameter binding and escaping;
+ * the executor only spawns the result and reads stdout/stderr.
+ */
+export interface ScriptRuntime {
+  readonly id: ScriptRuntimeId;
+  readonly displayName: string;
+  /** Executable name, resolved through PATH */
+  readonly executable: string;
+  buildCommand(invocation: RuntimeInvocation): Promise<RuntimeCommand>;
+}
@@ -0,0 +1,395 @@
+import { randomUUID } from 'crypto';
+import { powerMonitor } from 'electron';
+import { createServiceLogger } from './logger';
+import { getDatabaseService, isDatabaseAvailable } from './database';
+import type { ScheduleRecord } from './database';
+import { getScriptRegistryService } from './script-registry';
+import type { ScriptDefinition } from './script-registry';
+import { getPowerShellExecutorService } from './powershell-executor';
+import ScriptValidatorService from './script-validator';
+import {
+  buildCompletionUpdate,
+  buildOutputUpdate,
+  buildProgressUpdate,
+  buildStartedUpdate,
+  sendExecutionUpdate
+} from './execution-updates';
+import { getNextRunTime, validateScheduleRule } from '../../shared/scheduling/schedule-rules';
+import type { ScriptProgress } from '../../shared/execution/progress';
+import type {
+  ScheduleRule,
+  CreateScheduleRequest,
+  UpdateScheduleRequest
+} from '../../shared/validation/schemas';
+
+const logger = createServiceLogger('scheduler');
+
+// How often due schedules are checked
+const TICK_INTERVAL_MS = 30000;
+
+// Settings key tracking which scripts already had their defaultSchedule created,
+// so a schedule the user deleted is not recreated on the next start
+const SEEDED_SCRIPTS_SETTING = 'schedulerSeededScripts';
+
+export type ScheduleRunStatus = 'running' | 'success' | 'error' | 'cancelled' | 'skipped';
+
+export interface ScheduleInfo {
+  id: string;
+  scriptId: string;
+  scriptName: string;
+  name: string;
+  rule: ScheduleRule;
+  parameters: Record<string, any>;
+  enabled: boolean;
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  lastExecutionId: string | null;
+  lastStatus: ScheduleRunStatus | null;
+  createdAt: number;
+}
+
+class SchedulerService {
+  private tickTimer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private started = false;
+
+  /**
+   * Start the scheduler: create default schedules, catch up on runs missed while
+   * the app was closed or the machine was asleep, then check every 30 seconds.
+   */
+  public start(): void {
+    if (this.started) return;
+
+    if (!isDatabaseAvailable()) {
+      logger.warn('Database unavailable - scheduler disabled');
+      return;
+    }
+
+    this.started = true;
+    this.seedDefaultSchedules();
+
+    this.tickTimer = setInterval(() => {
+      this.tick();
+    }, TICK_INTERVAL_MS);
+
+    // Timers don't fire while suspended, so check immediately on wake
+    powerMonitor.on('resume', () => {
+      logger.info('System resumed - checking for missed scheduled runs');
+      this.tick();
+    });
+
+    logger.info('Scheduler started', { tickIntervalMs: TICK_INTERVAL_MS });
+    this.tick();
+  }
+
+  public stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.started = false;
+    logger.info('Scheduler stopped');
+  }
+
+  public listSchedules(): ScheduleInfo[] {
+    const db = getDatabaseService();
+    return db.getSchedules().map(record => this.toScheduleInfo(record));
+  }
+
+  public createSchedule(request: CreateScheduleRequest): ScheduleInfo {
+    const scriptDef = this.requireScript(request.scriptId);
+    this.assertValidRule(request.rule);
+
+    const now = Date.now();
+    const enabled = request.enabled ?? true;
+    const record: ScheduleRecord = {
+      id: randomUUID(),
+      script_id: scriptDef.id,
+      name: request.name || scriptDef.name,
+      rule: JSON.stringify(request.rule),
+      parameters: JSON.stringify(request.parameters || {}),
+      enabled: enabled ? 1 : 0,
+      next_run_at: enabled ? getNextRunTime(request.rule, now, now) : null,
+      created_at: now,
+      updated_at: now
+    };
+
+    const db = getDatabaseService();
+    db.insertSchedule(record);
+
+    logger.info('Schedule created', {
+      scheduleId: record.id,
+      scriptId: record.script_id,
+      rule: request.rule,
+      nextRunAt: record.next_run_at
+    });
+
+    return this.toScheduleInfo(db.getSchedule(record.id) || record);
+  }
+
+  public updateSchedule(request: UpdateScheduleRequest): ScheduleInfo {
+    const db = getDatabaseService();
+    const existing = db.getSchedule(request.id);
+    if (!existing) {
+      throw new Error(`Schedule not found: ${request.id}`);
+    }
+
+    const existingRule = JSON.parse(existing.rule) as ScheduleRule;
+    const rule = request.rule || existingRule;
+    if (request.rule) {
+      this.assertValidRule(request.rule);
+    }
+
+    const enabled = request.enabled ?? existing.enabled === 1;
+    const ruleChanged = JSON.stringify(rule) !== existing.rule;
+    const wasEnabled = existing.enabled === 1;
+
+    // Keep the pending run unless the timing inputs changed
+    let nextRunAt = existing.next_run_at ?? null;
+    if (!enabled) {
+      nextRunAt = null;
+    } else if (ruleChanged || !wasEnabled || nextRunAt === null) {
+      const now = Date.now();
+      nextRunAt = getNextRunTime(rule, now, now);
+    }
+
+    db.updateSchedule(
+      existing.id,
+      request.name || existing.name,
+      JSON.stringify(rule),
+      request.parameters ? JSON.stringify(request.parameters) : existing.parameters,
+      enabled ? 1 : 0,
+      nextRunAt
+    );
+
+    logger.info('Schedule updated', {
+      scheduleId: existing.id,
+      enabled,
+      ruleChanged,
+      nextRunAt
+    });
+
+    return this.toScheduleInfo(db.getSchedule(existing.id) || existing);
+  }
+
+  public deleteSchedule(id: string): boolean {
+    const db = getDatabaseService();
+    const deleted = db.deleteSchedule(id);
+    logger.info('Schedule deleted', { scheduleId: id, deleted });
+    return deleted;
+  }
+
+  private seedDefaultSchedules(): void {
+    try {
+      const db = getDatabaseService();
+      const seeded = db.getSetting<string[]>(SEEDED_SCRIPTS_SETTING, []) || [];
+      const scripts = getScriptRegistryService().getAllScripts()
+        .filter(script => script.defaultSchedule && !seeded.includes(script.id));
+
+      for (const script of scripts) {
+        try {
+          this.createSchedule({ scriptId: script.id, rule: script.defaultSchedule! });
+          logger.info('Default schedule created', { scriptId: script.id, rule: script.defaultSchedule });
+        } catch (error) {
+          logger.warn('Failed to create default schedule', {
+            scriptId: script.id,
+            error: (error as Error).message
+          });
+        }
+        seeded.push(script.id);
+      }
+
+      if (scripts.length > 0) {
+        db.setSetting(SEEDED_SCRIPTS_SETTING, seeded);
+      }
+    } catch (error) {
+      logger.warn('Database unavailable - skipping default schedules', {
+        error: (error as Error).message
+      });
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const now = Date.now();
+      const db = getDatabaseService();
+      const due = db.getSchedules().filter(s =>
+        s.enabled === 1 && s.next_run_at !== null && s.next_run_at !== undefined && s.next_run_at <= now
+      );
+
+      for (const schedule of due) {
+        await this.runSchedule(schedule, now);
+      }
+    } catch (error) {
+      logger.error('Scheduler tick failed', { error: (error as Error).message });
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async runSchedule(schedule: ScheduleRecord, now: number): Promise<void> {
+    const db = getDatabaseService();
+    const rule = JSON.parse(schedule.rule) as ScheduleRule;
+    const scheduledFor = schedule.next_run_at as number;
+
+    // Missed occurrences (app closed, machine asleep) are coalesced into a single run;
+    // interval rules stay on their original grid by anchoring to the missed slot
+    const nextRunAt = getNextRunTime(rule, now, scheduledFor);
+    const missedBy = now - scheduledFor;
+    if (missedBy > TICK_INTERVAL_MS * 2) {
+      logger.info('Catching up on missed scheduled run', {
+        scheduleId: schedule.id,
+        scriptId: schedule.script_id,
+        scheduledFor: new Date(scheduledFor).toISOString(),
+        missedByMinutes: Math.round(missedBy / 60000)
+      });
+    }
+
+    const psExecutor = getPowerShellExecutorService();
+
+    // Don't stack a new run on top of one that is still going (e.g. a long backup) or still queued
+    const lastStatus = schedule.last_execution_id ? psExecutor.getExecutionStatus(schedule.last_execution_id) : null;
+    if (lastStatus === 'running' || lastStatus === 'pending') {
+      logger.warn('Previous scheduled run still active - skipping', {
+        scheduleId: schedule.id,
+        lastExecutionId: schedule.last_execution_id
+      });
+      db.recordScheduleRun(schedule.id, now, schedule.last_execution_id ?? null, 'skipped', nextRunAt);
+      return;
+    }
+
+    const scriptDef = getScriptRegistryService().getScript(schedule.script_id);
+    if (!scriptDef) {
+      logger.warn('Scheduled script not found - skipping', {
+        scheduleId: schedule.id,
+        scriptId: schedule.script_id
+      });
+      db.recordScheduleRun(schedule.id, now, null, 'skipped', nextRunAt);
+      return;
+    }
+
+    try {
+      const validationResult = await ScriptValidatorService.validateScript(scriptDef);
+      const executionId = await psExecutor.executeScript({
+        scriptId: scriptDef.id,
+        scriptDefinition: scriptDef,
+        parameters: schedule.parameters ? JSON.parse(schedule.parameters) : {},
+        validationResult,
+        requestId: '',
+        source: 'scheduled'
+      });
+
+      db.recordScheduleRun(schedule.id, now, executionId, 'running', nextRunAt);
+      this.trackExecution(schedule.id, executionId, scriptDef);
+
+      logger.info('Scheduled run started', {
+        scheduleId: schedule.id,
+        scriptId: scriptDef.id,
+        executionId,
+        nextRunAt: nextRunAt ? new Date(nextRunAt).toISOString() : null
+      });
+    } catch (error) {
+      logger.error('Scheduled run failed to start', {
+        scheduleId: schedule.id,
+        scriptId: scriptDef.id,
+        error: (error as Error).message
+      });
+      db.recordScheduleRun(schedule.id, now, null, 'error', nextRunAt);
+    }
+  }
+
+  /**
+   * Forward updates for a scheduled run to the renderer and record the final status.
+   */
+  private trackExecution(scheduleId: string, executionId: string, scriptDef: ScriptDefinition): void {
+    const psExecutor = getPowerShellExecutorService();
+    const target = { executionId, scriptId: scriptDef.id, scriptName: scriptDef.name };
+
+    // Queued runs are announced by the executor
+    if (psExecutor.getExecutionStatus(executionId) === 'running') {
+      sendExecutionUpdate(buildStartedUpdate(target));
+    }
+
+    psExecutor.setExecutionCallbacks(executionId, {
+      onProgress: (output: string) => {
+        sendExecutionUpdate(buildOutputUpdate(target, output));
+      },
+      onProgressUpdate: (progress: ScriptProgress) => {
+        sendExecutionUpdate(buildProgressUpdate(target, progress));
+      },
+      onComplete: (result) => {
+        this.recordRunStatus(scheduleId, executionId, result.success ? 'success' : 'error');
+        sendExecutionUpdate(buildCompletionUpdate(target, result));
+
+        logger.info('Scheduled run completed', {
+          scheduleId,
+          executionId,
+          success: result.success,
+          duration: result.duration
+        });
+      },
+      onCancel: (reason: string) => {
+        this.recordRunStatus(scheduleId, executionId, 'cancelled');
+        sendExecutionUpdate({ ...target, status: 'cancelled' });
+
+        logger.info('Scheduled run cancelled', { scheduleId, executionId, reason });
+      }
+    });
+  }
+
+  private recordRunStatus(scheduleId: string, executionId: string, status: ScheduleRunStatus): void {
+    try {
+      getDatabaseService().updateScheduleStatus(scheduleId, executionId, status);
+    } catch (error) {
+      logger.warn('Database unavailable - skipping schedule status update', { scheduleId });
+    }
+  }
+
+  private requireScript(scriptId: string): ScriptDefinition {
+    const scriptDef = getScriptRegistryService().getScript(scriptId);
+    if (!scriptDef) {
+      throw new Error(`Script not found: ${scriptId}`);
+    }
+    return scriptDef;
+  }
+
+  private assertValidRule(rule: ScheduleRule): void {
+    const error = validateScheduleRule(rule);
+    if (error) {
+      throw new Error(`Invalid schedule: ${error}`);
+    }
+  }
+
+  private toScheduleInfo(record: ScheduleRecord): ScheduleInfo {
+    const scriptDef = getScriptRegistryService().getScript(record.script_id);
+    return {
+      id: record.id,
+      scriptId: record.script_id,
+      scriptName: scriptDef?.name || record.script_id,
+      name: record.name,
+      rule: JSON.parse(record.rule) as ScheduleRule,
+      parameters: record.parameters ? JSON.parse(record.parameters) : {},
+      enabled: record.enabled === 1,
+      nextRunAt: record.next_run_at ?? null,
+      lastRunAt: record.last_run_at ?? null,
+      lastExecutionId: record.last_execution_id ?? null,
+      lastStatus: (record.last_status as ScheduleRunStatus | null) ?? null,
+      createdAt: record.created_at
+    };
+  }
+}
+
+// Create and export singleton instance
+let schedulerService: SchedulerService | null = null;
+
+export const getSchedulerService = (): SchedulerService => {
+  if (!schedulerService) {
+    schedulerService = new SchedulerService();
+  }
+  return schedulerService;
+};
+
+export default getSchedulerService;
@@ -0,0 +1,100 @@
+import { createHash, randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createServiceLogger, securityLogger } from './logger';
+import { getDatabaseService } from './database';
+import { getScriptRegistryService, type ScriptDefinition } from './script-registry';
+
+const logger = createServiceLogger('script-integrity');
+
+/**
+ * SHA-256 of a script file's bytes, pinned in ScriptDefinition.hash (and cleanupHash for the
+ * cleanup script) when the script is loaded and checked again against what is about to run.
+ */
+export function hashScriptContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export interface VerifiedScript {
+  /** The registry's current definition - a run requested before an edit the registry has picked up runs the new script */
+  definition: ScriptDefinition;
+  /** The bytes that match the pinned hash; the runtime runs these, never the file */
+  content: Buffer;
+}
+
+/**
+ * Read a script for a run and check it against the hash the registry pinned when it loaded the
+ * file. The registry is the reference, not the definition the request was made with, so runs
+ * that waited in the queue or for a retry aren't blocked by an edit that was already reloaded.
+ * Throws if the script is gone or the file on disk is not the one the registry loaded.
+ */
+export async function readVerifiedScript(scriptId: string, executionId: string): Promise<VerifiedScript> {
+  const definition = getScriptRegistryService().getScript(scriptId);
+  if (!definition) {
+    throw new Error(`Script no longer available: ${scriptId}`);
+  }
+
+  const content = readFileSync(definition.scriptPath);
+  await verifyContent(definition, definition.scriptPath, definition.hash, content, executionId);
+  return { definition, content };
+}
+
+/**
+ * Read a script's cleanup hook and check it against the hash pinned with the script.
+ */
+export async function readVerifiedCleanupScript(definition: ScriptDefinition, executionId: string): Promise<Buffer> {
+  const current = getScriptRegistryService().getScript(definition.id) ?? definition;
+  const cleanupPath = join(dirname(current.scriptPath), current.cleanupScript!);
+  const content = readFileSync(cleanupPath);
+  await verifyContent(current, cleanupPath, current.cleanupHash, content, executionId);
+  return content;
+}
+
+async function verifyContent(
+  definition: ScriptDefinition,
+  filePath: string,
+  expectedHash: string | undefined,
+  content: Buffer,
+  executionId: string
+): Promise<void> {
+  const actualHash = hashScriptContent(content);
+  if (actualHash === expectedHash) {
+    return;
+  }
+
+  securityLogger.error('Script changed since it was loaded - execution blocked', {
+    executionId,
+    scriptId: definition.id,
+    filePath,
+    expectedHash,
+    actualHash
+  });
+
+  try {
+    const now = Date.now();
+    getDatabaseService().insertAuditLog({
+      id: randomUUID(),
+      timestamp: now,
+      event_type: 'script_hash_mismatch',
+      user_action: 'blocked',
+      resource: definition.id,
+      details: JSON.stringify({ executionId, filePath, expectedHash, actualHash }).substring(0, 2000),
+      risk_level: 'high',
+      created_at: now
+    });
+  } catch (error) {
+    logger.warn('Database unavailable - skipping hash mismatch audit log', { executionId });
+  }
+
+  // Load and validate the file again so only what passed validation is offered
+  try {
+    await getScriptRegistryService().reloadChangedScript(definition.scriptPath);
+  } catch (error) {
+    logger.error('Failed to reload changed script', {
+      scriptPath: definition.scriptPath,
+      error: (error as Error).message
+    });
+  }
+
+  throw new Error('The script file changed after it was loaded and was not run. It has been reloaded - check it and run it again.');
+}
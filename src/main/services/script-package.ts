@@ -0,0 +1,447 @@
+import { app, BrowserWindow, dialog } from 'electron';
+import { join, basename, dirname, extname } from 'path';
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import { createHash, randomUUID } from 'crypto';
+import { createServiceLogger, securityLogger } from './logger';
+import { getDatabaseService } from './database';
+import { getScriptRegistryService } from './script-registry';
+import { isSignatureValid } from './catalog-sync';
+import ScriptValidatorService, { type ValidationResult } from './script-validator';
+import { createZipArchive, readZipArchive } from './zip-archive';
+import {
+  ScriptPackageManifestSchema,
+  validateAndSanitize,
+  type ScriptDefinition,
+  type ScriptPackageManifest
+} from '../../shared/validation/schemas';
+import {
+  MAX_PACKAGE_FILE_SIZE,
+  MAX_PACKAGE_SIZE,
+  PACKAGE_MANIFEST_FILE,
+  PACKAGE_SIGNATURE_FILE,
+  SCRIPT_PACKAGE_EXTENSION,
+  checkPackageContents,
+  getPackageFileRole,
+  getPackageScriptFile,
+  type PackageFileRole,
+  type ScriptPackagePreview,
+  type ScriptPackageSignature
+} from '../../shared/packages/script-package';
+
+const logger = createServiceLogger('script-package');
+
+// A checked package waits this long for the user to install it
+const PENDING_IMPORT_TTL_MS = 10 * 60 * 1000;
+// Manifest, signature and the ten files a manifest may list
+const MAX_PACKAGE_ENTRIES = 12;
+
+interface PendingImport {
+  manifest: ScriptPackageManifest;
+  /** Staging directory holding the checked files */
+  directory: string;
+  fileName: string;
+  signature: ScriptPackageSignature;
+  createdAt: number;
+}
+
+type PackageAction = 'import' | 'export' | 'rejected';
+
+/**
+ * Imports and exports .fakpkg script packages (see shared/packages/script-package.ts).
+ * Importing is two steps: inspectPackage() checks the archive, manifest, signature and script
+ * and returns a preview; installPackage() then moves the checked files into the scripts
+ * directory. Imports, exports and refused packages go to the audit log as script_package
+ * events.
+ */
+class ScriptPackageService {
+  private stagingRoot: string;
+  private installRoot: string;
+  private pendingImports = new Map<string, PendingImport>();
+
+  constructor() {
+    this.stagingRoot = join(app.getPath('userData'), 'packages', 'staging');
+    this.installRoot = join(getScriptRegistryService().getScriptsDirectory(), 'packages');
+
+    // Checked packages don't survive a restart
+    rmSync(this.stagingRoot, { recursive: true, force: true });
+  }
+
+  /**
+   * Ask for a package file and check it. Returns null if the dialog was cancelled; throws with
+   * the reason if the package is refused.
+   */
+  public async inspectPackage(): Promise<ScriptPackagePreview | null> {
+    const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+    const options: Electron.OpenDialogOptions = {
+      properties: ['openFile'],
+      filters: [{ name: 'Script packages', extensions: [SCRIPT_PACKAGE_EXTENSION.substring(1)] }]
+    };
+
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const packagePath = result.filePaths[0];
+    try {
+      return await this.checkPackage(packagePath);
+    } catch (error) {
+      this.logAction('rejected', basename(packagePath), { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Install a package checked by inspectPackage() into scripts/packages/<id>, replacing an
+   * earlier import of the same tool.
+   */
+  public async installPackage(importId: string): Promise<{ scriptId: string }> {
+    const pending = this.pendingImports.get(importId);
+    if (!pending || Date.now() - pending.createdAt > PENDING_IMPORT_TTL_MS) {
+      this.cancelImport(importId);
+      throw new Error('This package check has expired. Open the package again.');
+    }
+
+    const { manifest } = pending;
+    const installDir = join(this.installRoot, manifest.id);
+    this.assertNotShadowing(manifest.id, installDir);
+
+    const retiredDir = join(this.stagingRoot, `${manifest.id}-retired-${randomUUID()}`);
+    const replaced = existsSync(installDir);
+
+    mkdirSync(this.installRoot, { recursive: true });
+    if (replaced) {
+      renameSync(installDir, retiredDir);
+    }
+    try {
+      renameSync(pending.directory, installDir);
+    } catch (error) {
+      if (replaced) {
+        renameSync(retiredDir, installDir);
+      }
+      throw error;
+    }
+    rmSync(retiredDir, { recursive: true, force: true });
+    this.pendingImports.delete(importId);
+
+    this.logAction('import', manifest.id, {
+      version: manifest.version,
+      fileName: pending.fileName,
+      signature: pending.signature,
+      replaced
+    });
+
+    await getScriptRegistryService().rescan();
+    return { scriptId: manifest.id };
+  }
+
+  public cancelImport(importId: string): void {
+    const pending = this.pendingImports.get(importId);
+    if (pending) {
+      rmSync(pending.directory, { recursive: true, force: true });
+      this.pendingImports.delete(importId);
+    }
+  }
+
+  /**
+   * Package a registered tool with its metadata, cleanup script, docs and icon, and save it
+   * where the user chooses. Returns false if the dialog was cancelled.
+   */
+  public async exportPackage(scriptId: string): Promise<boolean> {
+    const script = getScriptRegistryService().getScript(scriptId);
+    if (!script) {
+      throw new Error(`Tool not found: ${scriptId}`);
+    }
+
+    const entries = this.collectPackageFiles(script);
+    const manifest = {
+      formatVersion: 1,
+      id: script.id,
+      name: script.name,
+      version: script.version,
+      exportedAt: new Date().toISOString(),
+      files: entries.map(entry => ({ name: entry.name, sha256: sha256(entry.data) }))
+    };
+
+    const validation = validateAndSanitize(ScriptPackageManifestSchema, manifest);
+    if (!validation.success) {
+      throw new Error(`${script.name} cannot be packaged: ${validation.error}`);
+    }
+    const contentError = checkPackageContents(validation.data, new Map(entries.map(entry => [entry.name, sha256(entry.data)])));
+    if (contentError) {
+      throw new Error(`${script.name} cannot be packaged: ${contentError}`);
+    }
+
+    const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+    const options: Electron.SaveDialogOptions = {
+      defaultPath: join(app.getPath('downloads'), `${script.id}${SCRIPT_PACKAGE_EXTENSION}`),
+      filters: [{ name: 'Script packages', extensions: [SCRIPT_PACKAGE_EXTENSION.substring(1)] }]
+    };
+
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return false;
+    }
+
+    const archive = createZipArchive([
+      { name: PACKAGE_MANIFEST_FILE, data: Buffer.from(JSON.stringify(validation.data, null, 2)) },
+      ...entries
+    ]);
+    writeFileSync(result.filePath, archive);
+
+    this.logAction('export', script.id, { version: script.version, destination: result.filePath });
+    return true;
+  }
+
+  private async checkPackage(packagePath: string): Promise<ScriptPackagePreview> {
+    this.discardExpiredImports();
+
+    if (statSync(packagePath).size > MAX_PACKAGE_SIZE) {
+      throw new Error('Package is too large');
+    }
+
+    const files = new Map<string, Buffer>();
+    for (const entry of readZipArchive(readFileSync(packagePath), { maxEntries: MAX_PACKAGE_ENTRIES, maxEntrySize: MAX_PACKAGE_FILE_SIZE })) {
+      if (files.has(entry.name)) {
+        throw new Error(`Package contains ${entry.name} more than once`);
+      }
+      files.set(entry.name, entry.data);
+    }
+
+    const manifestData = files.get(PACKAGE_MANIFEST_FILE);
+    if (!manifestData) {
+      throw new Error(`Not a script package: ${PACKAGE_MANIFEST_FILE} is missing`);
+    }
+    const validation = validateAndSanitize(ScriptPackageManifestSchema, parseJson(manifestData, PACKAGE_MANIFEST_FILE));
+    if (!validation.success) {
+      throw new Error(`Invalid package manifest: ${validation.error}`);
+    }
+    const manifest = validation.data;
+    const signature = this.checkSignature(manifestData, files.get(PACKAGE_SIGNATURE_FILE));
+
+    files.delete(PACKAGE_MANIFEST_FILE);
+    files.delete(PACKAGE_SIGNATURE_FILE);
+    const contentError = checkPackageContents(manifest, new Map([...files].map(([name, data]) => [name, sha256(data)])));
+    if (contentError) {
+      throw new Error(contentError);
+    }
+
+    const scriptFile = getPackageScriptFile(manifest)!;
+    const metadataName = basename(scriptFile, extname(scriptFile)) + '.json';
+    const metadata = parseJson(files.get(metadataName)!, metadataName) as { id?: unknown; cleanupScript?: unknown };
+    if (metadata.id !== manifest.id) {
+      throw new Error(`${metadataName} must have "id": "${manifest.id}"`);
+    }
+    const cleanupFile = manifest.files.find(file => getPackageFileRole(file.name) === 'cleanup');
+    if (cleanupFile && cleanupFile.name !== metadata.cleanupScript) {
+      throw new Error(`${cleanupFile.name} is not the cleanupScript named in ${metadataName}`);
+    }
+
+    const installDir = join(this.installRoot, manifest.id);
+    this.assertNotShadowing(manifest.id, installDir);
+
+    // Checked as extracted, so what is validated is exactly what gets installed
+    const importId = randomUUID();
+    const directory = join(this.stagingRoot, importId);
+    mkdirSync(directory, { recursive: true });
+
+    try {
+      for (const [name, data] of files) {
+        writeFileSync(join(directory, name), data);
+      }
+
+      const scriptDef = await getScriptRegistryService().readScriptDefinition(join(directory, scriptFile));
+      const validationResult = await ScriptValidatorService.validateScript(scriptDef);
+      assertPassesValidation(validationResult, scriptFile);
+
+      // The cleanup script runs unattended after a cancel, so it is held to the same check
+      const cleanupWarnings: string[] = [];
+      if (cleanupFile) {
+        const cleanupResult = await ScriptValidatorService.validateScriptContent(
+          files.get(cleanupFile.name)!.toString('utf8'),
+          scriptDef.runtime
+        );
+        assertPassesValidation(cleanupResult, cleanupFile.name);
+        cleanupWarnings.push(...cleanupResult.violations.map(violation => `${cleanupFile.name}: ${violation.description}`));
+      }
+
+      this.pendingImports.set(importId, {
+        manifest,
+        directory,
+        fileName: basename(packagePath),
+        signature,
+        createdAt: Date.now()
+      });
+
+      logger.info('Script package checked', { importId, scriptId: manifest.id, signature });
+
+      return {
+        importId,
+        fileName: basename(packagePath),
+        scriptId: manifest.id,
+        name: scriptDef.name,
+        description: scriptDef.description,
+        version: manifest.version,
+        author: scriptDef.author,
+        files: manifest.files.map(file => ({
+          name: file.name,
+          role: getPackageFileRole(file.name) as PackageFileRole,
+          size: files.get(file.name)!.length
+        })),
+        signature,
+        securityLevel: validationResult.securityLevel,
+        warnings: [
+          ...validationResult.violations.map(violation => violation.description),
+          ...validationResult.warnings,
+          ...cleanupWarnings
+        ],
+        replaces: existsSync(installDir)
+      };
+    } catch (error) {
+      rmSync(directory, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Packages may be signed with the same key as the catalog. A signature that doesn't verify
+   * is refused; without a configured key a signature can't be checked.
+   */
+  private checkSignature(manifestData: Buffer, signature: Buffer | undefined): ScriptPackageSignature {
+    if (!signature) {
+      return 'unsigned';
+    }
+
+    let publicKey: string | null = null;
+    try {
+      publicKey = getDatabaseService().getSetting<string>('catalogPublicKey');
+    } catch (dbError) {
+      logger.warn('Database unavailable - package signature not checked');
+    }
+    if (!publicKey) {
+      return 'unverified';
+    }
+
+    if (!isSignatureValid(manifestData, signature, publicKey)) {
+      throw new Error('Package signature does not match the signing key');
+    }
+    return 'verified';
+  }
+
+  /** Imports can replace earlier imports, but not bundled, catalog or hand-copied tools */
+  private assertNotShadowing(scriptId: string, installDir: string): void {
+    const existing = getScriptRegistryService().getScript(scriptId);
+    if (existing && dirname(existing.scriptPath) !== installDir) {
+      throw new Error(`A tool with the ID ${scriptId} is already installed and was not imported from a package`);
+    }
+  }
+
+  /**
+   * The files of a registered tool: the script, its metadata (always included, with the tool's
+   * ID), and the cleanup script, docs (<name>.md or .txt) and icon (<name>.png or .ico) next
+   * to it.
+   */
+  private collectPackageFiles(script: ScriptDefinition): Array<{ name: string; data: Buffer }> {
+    const directory = dirname(script.scriptPath);
+    const baseName = basename(script.scriptPath, extname(script.scriptPath));
+    const metadataPath = join(directory, `${baseName}.json`);
+
+    let metadata: Record<string, unknown>;
+    if (existsSync(metadataPath)) {
+      metadata = parseJson(readFileSync(metadataPath), `${baseName}.json`) as Record<string, unknown>;
+    } else {
+      // Comment-based metadata: write out what the registry read
+      const { scriptPath: _scriptPath, lastModified: _lastModified, fileSize: _fileSize, hash: _hash, ...definition } = script;
+      metadata = definition;
+    }
+
+    const entries = [
+      { name: basename(script.scriptPath), data: readFileSync(script.scriptPath) },
+      { name: `${baseName}.json`, data: Buffer.from(JSON.stringify({ ...metadata, id: script.id }, null, 2)) }
+    ];
+
+    const optionalFiles = [
+      script.cleanupScript,
+      [`${baseName}.md`, `${baseName}.txt`].find(name => existsSync(join(directory, name))),
+      [`${baseName}.png`, `${baseName}.ico`].find(name => existsSync(join(directory, name)))
+    ];
+    for (const name of optionalFiles) {
+      if (name && existsSync(join(directory, name))) {
+        entries.push({ name, data: readFileSync(join(directory, name)) });
+      }
+    }
+    return entries;
+  }
+
+  private discardExpiredImports(): void {
+    for (const [importId, pending] of this.pendingImports) {
+      if (Date.now() - pending.createdAt > PENDING_IMPORT_TTL_MS) {
+        this.cancelImport(importId);
+      }
+    }
+  }
+
+  private logAction(action: PackageAction, resource: string, details: Record<string, unknown>): void {
+    if (action === 'rejected') {
+      securityLogger.warn('Script package refused', { resource, ...details });
+    } else {
+      securityLogger.info(`Script package ${action}ed`, { resource, ...details });
+    }
+
+    try {
+      const now = Date.now();
+      getDatabaseService().insertAuditLog({
+        id: randomUUID(),
+        timestamp: now,
+        event_type: 'script_package',
+        user_action: action,
+        resource,
+        details: JSON.stringify(details).substring(0, 2000),
+        risk_level: action === 'export' ? 'low' : action === 'rejected' ? 'high' : 'medium',
+        created_at: now
+      });
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping package audit log', { resource, action });
+    }
+  }
+}
+
+/**
+ * Refuse a package whose script or cleanup script fails security validation.
+ */
+function assertPassesValidation(
+  result: ValidationResult,
+  fileName: string
+): asserts result is ValidationResult & { securityLevel: 'safe' | 'caution' } {
+  if (result.isValid && result.securityLevel !== 'dangerous') return;
+  const reasons = result.violations.slice(0, 3).map(violation => violation.description).join('; ');
+  throw new Error(`Package refused by security validation of ${fileName}${reasons ? `: ${reasons}` : ''}`);
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function parseJson(data: Buffer, fileName: string): unknown {
+  try {
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+}
+
+// Create and export singleton instance
+let scriptPackageService: ScriptPackageService | null = null;
+
+export const getScriptPackageService = (): ScriptPackageService => {
+  if (!scriptPackageService) {
+    scriptPackageService = new ScriptPackageService();
+  }
+  return scriptPackageService;
+};
+
+export default getScriptPackageService;
@@ -1,8 +1,44 @@
-import { readFileSync, existsSync, statSync, readdirSync } from 'fs';
-import { join, basename, extname } from 'path';
-import { app } from 'electron';
+import { readFileSync, existsSync, statSync, readdirSync, watch, type FSWatcher } from 'fs';
+import { join, basename, dirname, extname, sep } from 'path';
+import { app, BrowserWindow } from 'electron';
 import { createServiceLogger } from './logger';
-import { validateAndSanitize, ScriptDefinitionSchema } from '../../shared/validation/schemas';
+import { hashScriptContent } from './script-integrity';
+import {
+  validateAndSanitize,
+  ScriptDefinitionSchema,
+  RunbookDefinitionSchema
+} from '../../shared/validation/schemas';
+import type { ScheduleRule, RunbookDefinition } from '../../shared/validation/schemas';
+import { validateRunbook } from '../../shared/runbooks/runbook-flow';
+import type { ConcurrencyPolicy } from '../../shared/execution/concurrency';
+import type { RetryPolicy } from '../../shared/execution/retry';
+import { isCleanupScriptFile } from '../../shared/execution/cancellation';
+import type { Precondition } from '../../shared/execution/preconditions';
+import type { RedactionRule } from '../../shared/execution/redaction';
+import type { ScriptCapability } from '../../shared/execution/capabilities';
+import type { ScriptRequirements } from '../../shared/execution/requirements';
+import {
+  RUNBOOK_FILE_SUFFIX,
+  SCRIPT_WATCH_DEBOUNCE_MS,
+  classifyChangedFile,
+  diffScripts,
+  hasScriptChanges,
+  type ScriptsChangedEvent
+} from '../../shared/registry/script-changes';
+import {
+  buildLoadReport,
+  formatLoadIssue,
+  toLoadIssues,
+  type ScriptLoadIssue,
+  type ScriptLoadReport,
+  type ScriptLoadResult,
+  type ScriptLoadStatus
+} from '../../shared/registry/load-report';
+import {
+  RUNTIME_EXTENSIONS,
+  resolveScriptRuntime,
+  type ScriptRuntimeId
+} from '../../shared/execution/runtime';
 
 const logger = createServiceLogger('script-registry');
 
@@ -22,11 +58,26 @@ export interface ScriptDefinition {
   fileSize: number;
   hash?: string;
   order?: number;
+  defaultSchedule?: ScheduleRule; // Schedule created automatically the first time the script is seen
+  concurrencyGroup?: string; // Only one script from the group runs at a time
+  maxInstances?: number; // Max simultaneous runs of this script
+  concurrencyPolicy?: ConcurrencyPolicy; // Queue (default) or reject conflicting runs
+  runtime?: ScriptRuntimeId; // Interpreter the script runs under, from metadata or file extension
+  retry?: RetryPolicy; // Re-run automatically after a transient failure
+  supportsWhatIf?: boolean; // Offers a Preview (dry run) - see shared/execution/dry-run.ts
+  gracefulStopSeconds?: number; // Time the script gets to stop on its own when cancelled
+  cleanupScript?: string; // File next to the script, run after cancellation or timeout
+  cleanupHash?: string; // SHA-256 of the cleanup script when it was loaded; undefined if missing
+  preconditions?: Precondition[]; // Checked before every run
+  redactions?: RedactionRule[]; // Applied to output on top of the built-in detectors
+  capabilities?: ScriptCapability[]; // Enforced when declared; undeclared scripts run unrestricted
+  compatibleOS?: string[]; // OS names the tool supports, e.g. "Windows 11"
+  requirements?: ScriptRequirements; // What the PC needs - incompatible tools are shown disabled
 }
 
 export interface ScriptParameter {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'select';
+  type: 'string' | 'number' | 'boolean' | 'select' | 'secret'; // secret: value names a vault entry
   required: boolean;
   description: string;
   options?: string[];
@@ -39,6 +90,10 @@ export interface ScriptParameter {
   };
 }
 
+export interface RunbookInfo extends RunbookDefinition {
+  filePath: string;
+}
+
 export interface ScriptMetadata {
   id?: string;
   name?: string;
@@ -51,6 +106,20 @@ export interface ScriptMetadata {
   estimatedDuration?: number;
   parameters?: ScriptParameter[];
   order?: number;
+  defaultSchedule?: ScheduleRule;
+  concurrencyGroup?: string;
+  maxInstances?: number;
+  concurrencyPolicy?: ConcurrencyPolicy;
+  runtime?: ScriptRuntimeId;
+  retry?: RetryPolicy;
+  supportsWhatIf?: boolean;
+  gracefulStopSeconds?: number;
+  cleanupScript?: string;
+  preconditions?: Precondition[];
+  redactions?: RedactionRule[];
+  capabilities?: ScriptCapability[];
+  compatibleOS?: string[];
+  requirements?: ScriptRequirements;
 }
 
 export interface ScriptDiscoveryConfig {
@@ -64,10 +133,19 @@ export interface ScriptDiscoveryConfig {
 
 class ScriptRegistryService {
   private scripts: Map<string, ScriptDefinition> = new Map();
+  private runbooks: Map<string, RunbookInfo> = new Map();
+  // Last load result for each script file found, for the load report
+  private loadResults: Map<string, ScriptLoadResult> = new Map();
   private scriptsDirectory: string;
   private initialized = false;
   private discoveryConfig: ScriptDiscoveryConfig;
   private initPromise: Promise<void>;
+  private watchers: FSWatcher[] = [];
+  private changedPaths = new Set<string>();
+  private fullRescanPending = false;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  // Reloads run one at a time, in order
+  private reloadQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.scriptsDirectory = join(app.getPath('userData'), 'scripts');
@@ -84,7 +162,7 @@ class ScriptRegistryService {
         this.scriptsDirectory,
         bundledScriptsPath,
       ],
-      allowedExtensions: ['.ps1', '.psm1'],
+      allowedExtensions: Object.keys(RUNTIME_EXTENSIONS),
       maxScriptSize: 10 * 1024 * 1024, // 10MB max
       enableMetadataComments: true,
       enableJsonMetadata: true,
@@ -138,6 +216,7 @@ class ScriptRegistryService {
   private async discoverScripts(): Promise<void> {
     logger.info('Starting script discovery...');
     let discoveredCount = 0;
+    this.loadResults.clear();
 
     for (const directory of this.discoveryConfig.scriptDirectories) {
       if (!existsSync(directory)) {
@@ -145,7 +224,7 @@ class ScriptRegistryService {
         continue;
       }
 
-      const scripts = await this.scanDirectory(directory);
+      const scripts = await this.scanDirectory(directory, (fileName) => this.isScriptFile(fileName), this.recordSkipped);
       discoveredCount += scripts.length;
 
       for (const scriptPath of scripts) {
@@ -160,13 +239,42 @@ class ScriptRegistryService {
       }
     }
 
+    // Runbooks reference scripts, so they are loaded once every script is known
+    await this.discoverRunbooks();
+
     logger.info('Script discovery completed', {
       discoveredCount,
-      loadedCount: this.scripts.size
+      loadedCount: this.scripts.size,
+      runbookCount: this.runbooks.size
     });
   }
 
-  private async scanDirectory(directory: string): Promise<string[]> {
+  private async discoverRunbooks(): Promise<void> {
+    this.runbooks.clear();
+
+    for (const directory of this.discoveryConfig.scriptDirectories) {
+      if (!existsSync(directory)) continue;
+
+      const runbookFiles = await this.scanDirectory(directory, (fileName) =>
+        fileName.toLowerCase().endsWith(RUNBOOK_FILE_SUFFIX)
+      );
+      for (const runbookPath of runbookFiles) {
+        this.loadRunbook(runbookPath);
+      }
+    }
+  }
+
+  // Cleanup scripts belong to another script and are not tools themselves
+  private isScriptFile(fileName: string): boolean {
+    return this.discoveryConfig.allowedExtensions.includes(extname(fileName).toLowerCase()) &&
+      !isCleanupScriptFile(fileName);
+  }
+
+  private async scanDirectory(
+    directory: string,
+    isMatch: (fileName: string) => boolean,
+    onSkipped?: (filePath: string, size: number) => void
+  ): Promise<string[]> {
     const scripts: string[] = [];
 
     try {
@@ -178,12 +286,10 @@ class ScriptRegistryService {
 
         if (stat.isDirectory() && this.discoveryConfig.scanSubdirectories) {
           // Recursively scan subdirectories
-          const subScripts = await this.scanDirectory(fullPath);
+          const subScripts = await this.scanDirectory(fullPath, isMatch, onSkipped);
           scripts.push(...subScripts);
         } else if (stat.isFile()) {
-          const ext = extname(item).toLowerCase();
-          
-          if (this.discoveryConfig.allowedExtensions.includes(ext)) {
+          if (isMatch(item)) {
             // Check file size
             if (stat.size <= this.discoveryConfig.maxScriptSize) {
               scripts.push(fullPath);
@@ -193,6 +299,7 @@ class ScriptRegistryService {
                 size: stat.size,
                 maxSize: this.discoveryConfig.maxScriptSize
               });
+              onSkipped?.(fullPath, stat.size);
             }
           }
         }
@@ -207,43 +314,21 @@ class ScriptRegistryService {
     return scripts;
   }
 
-  private async loadScript(scriptPath: string): Promise<void> {
-    try {
-      const stat = statSync(scriptPath);
-      const scriptContent = readFileSync(scriptPath, 'utf8');
-
-      // Parse metadata from script (do this first to get ID from JSON)
-      const metadata = await this.parseScriptMetadata(scriptPath, scriptContent);
+  private async loadScript(scriptPath: string): Promise<string> {
+    const issues: ScriptLoadIssue[] = [];
+    let scriptId: string | undefined;
 
-      // Use ID from JSON metadata if available, otherwise generate from path
-      const scriptId = metadata.id || this.generateScriptId(scriptPath);
-
-      // Create script definition
-      const scriptDef: ScriptDefinition = {
-        id: scriptId,
-        name: metadata.name || this.generateDisplayName(scriptPath),
-        description: metadata.description || 'No description available',
-        scriptPath,
-        timeout: metadata.timeout || 30000, // 30 seconds default
-        category: metadata.category || 'uncategorized',
-        version: metadata.version || '1.0.0',
-        author: metadata.author || 'Unknown',
-        tags: metadata.tags || [],
-        estimatedDuration: metadata.estimatedDuration || 5000, // 5 seconds default
-        parameters: metadata.parameters || [],
-        lastModified: stat.mtime.getTime(),
-        fileSize: stat.size,
-        order: metadata.order ?? 99, // Default to 99 if not specified (unpinned)
-      };
-
-      // Validate script definition
-      const validation = validateAndSanitize(ScriptDefinitionSchema, scriptDef);
-      if (!validation.success) {
-        throw new Error(`Script validation failed: ${validation.error}`);
+    try {
+      const result = await this.buildScriptDefinition(scriptPath, issues);
+      scriptId = result.scriptId;
+      if (!result.definition) {
+        throw new Error(`Script validation failed: ${issues.map(formatLoadIssue).join('; ')}`);
       }
+      const scriptDef = result.definition;
 
       // Store script
-      this.scripts.set(scriptId, validation.data);
+      this.scripts.set(scriptId, scriptDef);
+      this.recordLoadResult(scriptPath, 'loaded', issues, scriptId);
       
       logger.info('Script loaded', {
         scriptId,
@@ -252,16 +337,135 @@ class ScriptRegistryService {
         timeout: scriptDef.timeout,
         timeoutHours: (scriptDef.timeout / 1000 / 60 / 60).toFixed(2)
       });
+      return scriptId;
 
     } catch (error) {
+      if (!issues.some(issue => issue.kind === 'schema')) {
+        issues.push({ kind: 'file', message: (error as Error).message });
+      }
+      this.recordLoadResult(scriptPath, 'broken', issues, scriptId);
+
       logger.error('Failed to load script', {
         scriptPath,
+        scriptId,
         error: (error as Error).message
       });
       throw error;
     }
   }
 
+  /**
+   * Build and validate the definition of a script file the way discovery does, without
+   * registering it. Also used to check imported script packages before they are installed.
+   */
+  public async readScriptDefinition(scriptPath: string): Promise<ScriptDefinition> {
+    const issues: ScriptLoadIssue[] = [];
+    const { definition } = await this.buildScriptDefinition(scriptPath, issues);
+    if (!definition) {
+      throw new Error(`Script validation failed: ${issues.map(formatLoadIssue).join('; ')}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Build a script's definition from the file and its metadata. Problems found on the way are
+   * added to `issues`; the definition is null if it failed validation.
+   */
+  private async buildScriptDefinition(
+    scriptPath: string,
+    issues: ScriptLoadIssue[]
+  ): Promise<{ scriptId: string; definition: ScriptDefinition | null }> {
+    const stat = statSync(scriptPath);
+    const scriptBytes = readFileSync(scriptPath);
+    const scriptContent = scriptBytes.toString('utf8');
+
+    // Parse metadata from script (do this first to get ID from JSON)
+    const metadata = await this.parseScriptMetadata(scriptPath, scriptContent, issues);
+
+    // Use ID from JSON metadata if available, otherwise generate from path
+    const scriptId = metadata.id || this.generateScriptId(scriptPath);
+
+    // Create script definition
+    const scriptDef: ScriptDefinition = {
+      id: scriptId,
+      name: metadata.name || this.generateDisplayName(scriptPath),
+      description: metadata.description || 'No description available',
+      scriptPath,
+      timeout: metadata.timeout || 30000, // 30 seconds default
+      category: metadata.category || 'uncategorized',
+      version: metadata.version || '1.0.0',
+      author: metadata.author || 'Unknown',
+      tags: metadata.tags || [],
+      estimatedDuration: metadata.estimatedDuration || 5000, // 5 seconds default
+      parameters: metadata.parameters || [],
+      lastModified: stat.mtime.getTime(),
+      fileSize: stat.size,
+      hash: hashScriptContent(scriptBytes),
+      order: metadata.order ?? 99, // Default to 99 if not specified (unpinned)
+      defaultSchedule: metadata.defaultSchedule,
+      concurrencyGroup: metadata.concurrencyGroup,
+      maxInstances: metadata.maxInstances,
+      concurrencyPolicy: metadata.concurrencyPolicy,
+      runtime: metadata.runtime ?? resolveScriptRuntime(scriptPath, undefined, process.platform) ?? undefined,
+      retry: metadata.retry,
+      supportsWhatIf: metadata.supportsWhatIf,
+      gracefulStopSeconds: metadata.gracefulStopSeconds,
+      cleanupScript: metadata.cleanupScript,
+      preconditions: metadata.preconditions,
+      redactions: metadata.redactions,
+      capabilities: metadata.capabilities,
+      compatibleOS: metadata.compatibleOS,
+      requirements: metadata.requirements,
+    };
+
+    // Validate script definition, keeping every issue for the load report
+    const validation = ScriptDefinitionSchema.safeParse(scriptDef);
+    if (!validation.success) {
+      issues.push(...toLoadIssues(validation.error.issues, scriptDef));
+      return { scriptId, definition: null };
+    }
+
+    // The cleanup script is pinned with the script, once its name is known to be safe
+    const definition: ScriptDefinition = validation.data;
+    if (definition.cleanupScript) {
+      const cleanupPath = join(dirname(scriptPath), definition.cleanupScript);
+      if (existsSync(cleanupPath)) {
+        definition.cleanupHash = hashScriptContent(readFileSync(cleanupPath));
+      }
+    }
+    return { scriptId, definition };
+  }
+
+  private loadRunbook(runbookPath: string): void {
+    try {
+      const json = JSON.parse(readFileSync(runbookPath, 'utf8'));
+
+      const validation = validateAndSanitize(RunbookDefinitionSchema, json);
+      if (!validation.success) {
+        throw new Error(`Runbook validation failed: ${validation.error}`);
+      }
+
+      const flowError = validateRunbook(validation.data, (scriptId) => this.scripts.has(scriptId));
+      if (flowError) {
+        throw new Error(`Runbook validation failed: ${flowError}`);
+      }
+
+      this.runbooks.set(validation.data.id, { ...validation.data, filePath: runbookPath });
+
+      logger.info('Runbook loaded', {
+        runbookId: validation.data.id,
+        name: validation.data.name,
+        steps: validation.data.steps.length,
+        path: runbookPath
+      });
+    } catch (error) {
+      logger.warn('Failed to load runbook', {
+        runbookPath,
+        error: (error as Error).message
+      });
+    }
+  }
+
   private generateScriptId(scriptPath: string): string {
     // Create a consistent ID from the script path
     const relativePath = scriptPath.replace(this.scriptsDirectory, '');
@@ -284,7 +488,7 @@ class ScriptRegistryService {
       .replace(/\b\w/g, char => char.toUpperCase());
   }
 
-  private async parseScriptMetadata(scriptPath: string, content: string): Promise<ScriptMetadata> {
+  private async parseScriptMetadata(scriptPath: string, content: string, issues: ScriptLoadIssue[]): Promise<ScriptMetadata> {
     const metadata: ScriptMetadata = {};
 
     // Try to load JSON metadata file first
@@ -305,6 +509,10 @@ class ScriptRegistryService {
             metadataPath,
             error: (error as Error).message
           });
+          issues.push({
+            kind: 'json',
+            message: `${basename(metadataPath)} is not valid JSON and was ignored: ${(error as Error).message}`
+          });
         }
       }
     }
@@ -368,6 +576,9 @@ class ScriptRegistryService {
             const duration = parseInt(value);
             if (!isNaN(duration)) metadata.estimatedDuration = duration * 1000; // Convert to ms
             break;
+          case 'runtime':
+            metadata.runtime = value as ScriptRuntimeId; // Checked by ScriptDefinitionSchema
+            break;
         }
       }
     }
@@ -393,6 +604,24 @@ class ScriptRegistryService {
     return Array.from(this.scripts.values());
   }
 
+  public getRunbook(runbookId: string): RunbookInfo | null {
+    if (!this.initialized) {
+      logger.warn('Script registry not initialized');
+      return null;
+    }
+
+    return this.runbooks.get(runbookId) || null;
+  }
+
+  public getAllRunbooks(): RunbookInfo[] {
+    if (!this.initialized) {
+      logger.warn('Script registry not initialized');
+      return [];
+    }
+
+    return Array.from(this.runbooks.values());
+  }
+
   public getScriptsByCategory(category: string): ScriptDefinition[] {
     if (!this.initialized) {
       return [];
@@ -443,13 +672,266 @@ class ScriptRegistryService {
     logger.info('Refreshing script registry...');
     
     this.scripts.clear();
+    this.runbooks.clear();
     await this.discoverScripts();
     
     logger.info('Script registry refreshed', {
-      scriptCount: this.scripts.size
+      scriptCount: this.scripts.size,
+      runbookCount: this.runbooks.size
+    });
+  }
+
+  /**
+   * Rescan every script directory, e.g. after scripts were copied in while the app wasn't
+   * watching. Open windows get the changes as a scripts:changed event.
+   */
+  public rescan(): Promise<ScriptsChangedEvent> {
+    return this.runExclusive(async () => {
+      const before = this.getFingerprints();
+      await this.refreshRegistry();
+
+      const event: ScriptsChangedEvent = { ...diffScripts(before, this.getFingerprints()), source: 'rescan' };
+      if (hasScriptChanges(event)) {
+        this.broadcastChanges(event);
+      }
+      return event;
     });
   }
 
+  /**
+   * Load one script again because its file no longer matches the hash pinned at load time, so
+   * only content that passed validation is offered. Open windows get the change as usual.
+   */
+  public reloadChangedScript(scriptPath: string): Promise<void> {
+    return this.runExclusive(async () => {
+      const before = this.getFingerprints();
+      await this.reloadScriptFile(scriptPath);
+      await this.discoverRunbooks();
+
+      const changes = diffScripts(before, this.getFingerprints());
+      if (hasScriptChanges(changes)) {
+        this.broadcastChanges({ ...changes, source: 'watch' });
+      }
+    });
+  }
+
+  /**
+   * Watch the script directories and reload scripts, their metadata and runbooks as files
+   * change, so new and edited tools appear without a restart.
+   */
+  public startWatching(): void {
+    if (this.watchers.length > 0) return;
+
+    for (const directory of this.discoveryConfig.scriptDirectories) {
+      if (!existsSync(directory)) continue;
+
+      try {
+        const watcher = watch(directory, { recursive: this.discoveryConfig.scanSubdirectories }, (_eventType, fileName) => {
+          if (fileName) {
+            this.changedPaths.add(join(directory, fileName.toString()));
+          } else {
+            // Some platforms don't say which file changed
+            this.fullRescanPending = true;
+          }
+          this.scheduleReload();
+        });
+        watcher.on('error', (error) => {
+          logger.warn('Script directory watcher failed', { directory, error: error.message });
+        });
+        this.watchers.push(watcher);
+      } catch (error) {
+        logger.warn('Could not watch script directory', {
+          directory,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    logger.info('Watching script directories for changes', { directories: this.watchers.length });
+  }
+
+  public stopWatching(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    this.changedPaths.clear();
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.runExclusive(() => this.applyChanges()).catch((error) => {
+        logger.error('Failed to reload changed scripts', { error: (error as Error).message });
+      });
+    }, SCRIPT_WATCH_DEBOUNCE_MS);
+  }
+
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.reloadQueue.then(task);
+    this.reloadQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reload what the files changed since the last reload affect: the scripts themselves, the
+   * scripts their metadata belongs to, and the runbooks (which refer to scripts by ID).
+   */
+  private async applyChanges(): Promise<void> {
+    const changedPaths = Array.from(this.changedPaths);
+    const fullRescan = this.fullRescanPending;
+    this.changedPaths.clear();
+    this.fullRescanPending = false;
+
+    const before = this.getFingerprints();
+
+    if (fullRescan) {
+      await this.refreshRegistry();
+    } else {
+      const scriptPaths = new Set<string>();
+      let runbooksChanged = false;
+
+      for (const filePath of changedPaths) {
+        const change = classifyChangedFile(filePath, this.discoveryConfig.allowedExtensions);
+        if (change.kind === 'script') {
+          scriptPaths.add(change.scriptPath);
+        } else if (change.kind === 'metadata') {
+          for (const extension of this.discoveryConfig.allowedExtensions) {
+            const scriptPath = change.basePath + extension;
+            if (existsSync(scriptPath) || this.isRegisteredPath(scriptPath)) {
+              scriptPaths.add(scriptPath);
+            }
+          }
+        } else if (change.kind === 'runbook') {
+          runbooksChanged = true;
+        } else {
+          // A cleanup script is pinned with the scripts that use it
+          for (const scriptPath of this.getScriptPathsUsingCleanup(filePath)) {
+            scriptPaths.add(scriptPath);
+          }
+          for (const scriptPath of await this.getScriptPathsInFolder(filePath)) {
+            scriptPaths.add(scriptPath);
+          }
+        }
+      }
+
+      for (const scriptPath of scriptPaths) {
+        await this.reloadScriptFile(scriptPath);
+      }
+      if (scriptPaths.size > 0 || runbooksChanged) {
+        await this.discoverRunbooks();
+      }
+    }
+
+    const changes = diffScripts(before, this.getFingerprints());
+    if (hasScriptChanges(changes)) {
+      logger.info('Scripts changed on disk', changes);
+      this.broadcastChanges({ ...changes, source: 'watch' });
+    }
+  }
+
+  /**
+   * Load a script again from disk, or drop it if it was deleted, became too large or no
+   * longer passes validation - the same scripts discovery at startup would skip.
+   */
+  private async reloadScriptFile(scriptPath: string): Promise<void> {
+    const previousIds = this.getAllScripts()
+      .filter(script => script.scriptPath === scriptPath)
+      .map(script => script.id);
+
+    let loadedId: string | null = null;
+    try {
+      if (!existsSync(scriptPath)) {
+        this.loadResults.delete(scriptPath);
+      } else if (statSync(scriptPath).size > this.discoveryConfig.maxScriptSize) {
+        this.recordSkipped(scriptPath, statSync(scriptPath).size);
+      } else {
+        loadedId = await this.loadScript(scriptPath);
+      }
+    } catch {
+      // loadScript has logged why
+    }
+
+    // The ID can change with the metadata, so anything else loaded from this file goes
+    for (const id of previousIds) {
+      if (id !== loadedId) {
+        this.scripts.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Scripts affected by a folder being added, removed or renamed: the scripts inside it, or
+   * the registered scripts that were inside it.
+   */
+  private async getScriptPathsInFolder(folderPath: string): Promise<string[]> {
+    try {
+      if (existsSync(folderPath)) {
+        return statSync(folderPath).isDirectory() && this.discoveryConfig.scanSubdirectories
+          ? this.scanDirectory(folderPath, (fileName) => this.isScriptFile(fileName), this.recordSkipped)
+          : [];
+      }
+    } catch {
+      return [];
+    }
+
+    // Broken and skipped files have no registered script, but their load results go too
+    const prefix = folderPath + sep;
+    const knownPaths = new Set([...this.getAllScripts().map(script => script.scriptPath), ...this.loadResults.keys()]);
+    return Array.from(knownPaths).filter(scriptPath => scriptPath.startsWith(prefix));
+  }
+
+  /**
+   * What happened to every script file found: loaded, broken (with each validation issue),
+   * shadowed by another file with the same script ID, or skipped.
+   */
+  public getLoadReport(): ScriptLoadReport {
+    const activePaths = new Map(this.getAllScripts().map(script => [script.id, script.scriptPath]));
+    return buildLoadReport(Array.from(this.loadResults.values()), activePaths);
+  }
+
+  private recordLoadResult(filePath: string, status: ScriptLoadStatus, issues: ScriptLoadIssue[], scriptId?: string): void {
+    this.loadResults.set(filePath, { filePath, status, scriptId, issues, checkedAt: Date.now() });
+  }
+
+  private recordSkipped = (filePath: string, size: number): void => {
+    const limitMB = Math.round(this.discoveryConfig.maxScriptSize / 1024 / 1024);
+    this.recordLoadResult(filePath, 'skipped', [{
+      kind: 'file',
+      message: `File is ${(size / 1024 / 1024).toFixed(1)} MB, over the ${limitMB} MB script size limit`
+    }]);
+  };
+
+  private getScriptPathsUsingCleanup(filePath: string): string[] {
+    if (!isCleanupScriptFile(basename(filePath))) return [];
+    return this.getAllScripts()
+      .filter(script => script.cleanupScript &&
+        join(dirname(script.scriptPath), script.cleanupScript).toLowerCase() === filePath.toLowerCase())
+      .map(script => script.scriptPath);
+  }
+
+  private isRegisteredPath(scriptPath: string): boolean {
+    return this.getAllScripts().some(script => script.scriptPath === scriptPath);
+  }
+
+  private getFingerprints(): Map<string, string> {
+    return new Map(this.getAllScripts().map(script => [script.id, JSON.stringify(script)]));
+  }
+
+  private broadcastChanges(event: ScriptsChangedEvent): void {
+    const windows = BrowserWindow.getAllWindows();
+    if (windows.length > 0 && !windows[0].isDestroyed()) {
+      windows[0].webContents.send('scripts:changed', event);
+    }
+  }
+
   public getRegistryStats(): {
     totalScripts: number;
     scriptsByCategory: Record<string, number>;
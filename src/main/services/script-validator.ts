@@ -2,6 +2,7 @@ import { createHash } from 'crypto';
 import { readFileSync } from 'fs';
 import { createServiceLogger, securityLogger } from './logger';
 import type { ScriptDefinition } from './script-registry';
+import { getRuntimeFamily, resolveScriptRuntime, type ScriptRuntimeId } from '../../shared/execution/runtime';
 
 const logger = createServiceLogger('script-validator');
 
@@ -97,6 +98,38 @@ class ScriptValidatorService {
     'kernel32', 'user32', 'advapi32', 'ntdll'
   ];
 
+  // Dangerous commands in POSIX shell scripts (bash, sh), matched instead of the PowerShell list
+  private static readonly SHELL_DANGEROUS_COMMANDS: Array<{
+    command: string;
+    pattern: RegExp;
+    severity: SecurityViolation['severity'];
+  }> = [
+    // Running generated or downloaded code, and elevation
+    { command: 'eval', pattern: /\beval\b/, severity: 'critical' },
+    { command: 'curl | sh', pattern: /\b(curl|wget)\b.*\|\s*(sudo\s+)?(ba|da|z)?sh\b/, severity: 'critical' },
+    { command: 'sudo', pattern: /\b(sudo|doas|pkexec)\b|\bsu(\s+-)?\s+\w/, severity: 'critical' },
+
+    // Reverse shells and destroying disks
+    { command: '/dev/tcp', pattern: /\/dev\/(tcp|udp)\//, severity: 'critical' },
+    { command: 'nc -e', pattern: /\b(nc|ncat|netcat)\b.*\s-\w*[ec]\b/, severity: 'critical' },
+    { command: 'mkfs', pattern: /\bmkfs(\.\w+)?\b/, severity: 'critical' },
+    { command: 'dd of=/dev', pattern: /\bdd\b.*\bof=\/dev\//, severity: 'critical' },
+    { command: 'fork bomb', pattern: /:\(\)\s*\{/, severity: 'critical' },
+
+    // File system, downloads, persistence and system state
+    { command: 'rm -r', pattern: /\brm\s+(-\w*\s+)*(-\w*[rR]\w*|--recursive)\b/, severity: 'high' },
+    { command: 'chmod', pattern: /\bchmod\b.*(\+s\b|\b[0-7]?777\b)/, severity: 'high' },
+    { command: 'curl', pattern: /\b(curl|wget)\b/, severity: 'high' },
+    { command: 'base64 -d', pattern: /\bbase64\s+(-d|--decode)\b/, severity: 'high' },
+    { command: 'crontab', pattern: /\bcrontab\b|\/etc\/cron/, severity: 'high' },
+    { command: '> /etc', pattern: />\s*\/etc\//, severity: 'high' },
+    { command: 'shutdown', pattern: /\b(shutdown|reboot|halt|poweroff)\b/, severity: 'high' },
+    { command: 'chown', pattern: /\bchown\b/, severity: 'medium' },
+    { command: 'kill', pattern: /\b(kill|pkill|killall)\b/, severity: 'medium' },
+    { command: 'systemctl', pattern: /\bsystemctl\s+(enable|disable|stop|mask|restart)\b/, severity: 'medium' },
+    { command: 'source', pattern: /^\s*(source|\.)\s+\S/, severity: 'low' }
+  ];
+
   // Suspicious patterns that might indicate malicious behavior
   private static readonly SUSPICIOUS_PATTERNS = [
     // Obfuscation
@@ -145,13 +178,14 @@ class ScriptValidatorService {
 
       // Read script content
       const content = readFileSync(scriptDef.scriptPath, 'utf8');
+      const runtime = scriptDef.runtime ?? resolveScriptRuntime(scriptDef.scriptPath, undefined, process.platform);
       
       // Generate hash for integrity checking
       const hash = createHash('sha256').update(content).digest('hex');
       
       // Perform analysis
       const analysis = this.analyzeScript(content);
-      const violations = this.checkSecurityViolations(content, analysis);
+      const violations = this.checkSecurityViolations(content, analysis, runtime);
       const warnings = this.generateWarnings(analysis);
       
       // Determine security level
@@ -469,14 +503,36 @@ class ScriptValidatorService {
     return undefined;
   }
 
-  private static checkSecurityViolations(content: string, analysis: ScriptAnalysis): SecurityViolation[] {
+  private static checkSecurityViolations(
+    content: string,
+    analysis: ScriptAnalysis,
+    runtime: ScriptRuntimeId | null | undefined
+  ): SecurityViolation[] {
     const violations: SecurityViolation[] = [];
     const lines = content.split('\n');
+    const isShellScript = !!runtime && getRuntimeFamily(runtime) === 'posix';
 
     // Check for dangerous commands
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i].toLowerCase();
       const lineNumber = i + 1;
+
+      if (isShellScript) {
+        if (line.trim().startsWith('#')) continue;
+        for (const rule of this.SHELL_DANGEROUS_COMMANDS) {
+          if (rule.pattern.test(lines[i])) {
+            violations.push({
+              type: 'dangerous_command',
+              severity: rule.severity,
+              description: `Use of potentially dangerous command: ${rule.command}`,
+              lineNumber,
+              snippet: lines[i].trim(),
+              recommendation: `Review the necessity of using '${rule.command}' and ensure it's used safely`
+            });
+          }
+        }
+        continue;
+      }
       
       for (const dangerousCmd of this.DANGEROUS_COMMANDS) {
         if (line.includes(dangerousCmd)) {
@@ -628,9 +684,13 @@ class ScriptValidatorService {
     return 'safe';
   }
 
-  public static async validateScriptContent(content: string): Promise<ValidationResult> {
+  /**
+   * Validate script content that was already read. Shell scripts are checked against the shell
+   * rules instead of the PowerShell ones, so pass the runtime they run under.
+   */
+  public static async validateScriptContent(content: string, runtime?: ScriptRuntimeId): Promise<ValidationResult> {
     const analysis = this.analyzeScript(content);
-    const violations = this.checkSecurityViolations(content, analysis);
+    const violations = this.checkSecurityViolations(content, analysis, runtime);
     const warnings = this.generateWarnings(analysis);
     const securityLevel = this.calculateSecurityLevel(violations);
     const hash = createHash('sha256').update(content).digest('hex');
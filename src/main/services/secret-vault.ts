@@ -0,0 +1,130 @@
+import { safeStorage } from 'electron';
+import { randomUUID } from 'crypto';
+import { createServiceLogger, securityLogger } from './logger';
+import { getDatabaseService } from './database';
+import {
+  getSecretReferences,
+  type SecretInfo,
+  type SecretReference
+} from '../../shared/execution/secrets';
+import type { ScriptDefinition } from './script-registry';
+
+const logger = createServiceLogger('secret-vault');
+
+/**
+ * Vault entries for secret parameters, encrypted with Electron safeStorage (DPAPI on Windows)
+ * and kept in the secrets table. Values are only ever decrypted into a run's environment.
+ */
+class SecretVaultService {
+  public isAvailable(): boolean {
+    return safeStorage.isEncryptionAvailable();
+  }
+
+  public list(): SecretInfo[] {
+    return getDatabaseService().getSecrets();
+  }
+
+  public set(name: string, value: string, description?: string): void {
+    this.ensureAvailable();
+
+    const db = getDatabaseService();
+    const existing = db.getSecret(name);
+    const now = Date.now();
+    db.upsertSecret({
+      name,
+      encrypted_value: safeStorage.encryptString(value),
+      description: description ?? null,
+      created_at: existing?.created_at ?? now,
+      updated_at: now
+    });
+
+    this.audit(existing ? 'update' : 'create', name);
+  }
+
+  public delete(name: string): boolean {
+    const deleted = getDatabaseService().deleteSecret(name);
+    if (deleted) {
+      this.audit('delete', name);
+    }
+    return deleted;
+  }
+
+  /**
+   * The vault entries a run needs. Throws if a secret parameter is missing or names an
+   * entry that doesn't exist, so the run is refused before anything is logged.
+   */
+  public resolveReferences(scriptDef: ScriptDefinition, parameters: Record<string, any>): SecretReference[] {
+    const references = getSecretReferences(scriptDef.parameters ?? [], parameters);
+    if (references.length === 0) {
+      return references;
+    }
+
+    this.ensureAvailable();
+    const db = getDatabaseService();
+    for (const reference of references) {
+      if (!db.getSecret(reference.secretName)) {
+        throw new Error(`Vault entry '${reference.secretName}' not found for parameter '${reference.parameter}'`);
+      }
+    }
+    return references;
+  }
+
+  /**
+   * Decrypt the entries for a run into environment variables.
+   */
+  public decryptForRun(executionId: string, references: SecretReference[]): Record<string, string> {
+    const environment: Record<string, string> = {};
+    const db = getDatabaseService();
+
+    for (const reference of references) {
+      const record = db.getSecret(reference.secretName);
+      if (!record) {
+        throw new Error(`Vault entry '${reference.secretName}' not found for parameter '${reference.parameter}'`);
+      }
+      environment[reference.envVar] = safeStorage.decryptString(record.encrypted_value);
+    }
+
+    securityLogger.info('Secrets released to script', {
+      executionId,
+      secrets: references.map(reference => reference.secretName)
+    });
+    return environment;
+  }
+
+  private ensureAvailable(): void {
+    if (!this.isAvailable()) {
+      throw new Error('Secret storage is not available on this machine');
+    }
+  }
+
+  private audit(userAction: 'create' | 'update' | 'delete', name: string): void {
+    securityLogger.info(`Vault entry ${userAction}d`, { name });
+
+    try {
+      const now = Date.now();
+      getDatabaseService().insertAuditLog({
+        id: randomUUID(),
+        timestamp: now,
+        event_type: 'secret_vault',
+        user_action: userAction,
+        resource: name,
+        risk_level: 'medium',
+        created_at: now
+      });
+    } catch (error) {
+      logger.warn('Database unavailable - skipping vault audit log', { name });
+    }
+  }
+}
+
+// Create and export singleton instance
+let secretVaultService: SecretVaultService | null = null;
+
+export const getSecretVaultService = (): SecretVaultService => {
+  if (!secretVaultService) {
+    secretVaultService = new SecretVaultService();
+  }
+  return secretVaultService;
+};
+
+export default getSecretVaultService;
@@ -0,0 +1,298 @@
+import { app, BrowserWindow, dialog } from 'electron';
+import { join, resolve, sep } from 'path';
+import { closeSync, createReadStream, createWriteStream, existsSync, mkdirSync, openSync, readdirSync, rmSync, writeSync } from 'fs';
+import { createInterface } from 'readline';
+import { pipeline } from 'stream/promises';
+import { createServiceLogger } from './logger';
+import { getDatabaseService } from './database';
+import type { Redactor } from '../../shared/execution/redaction';
+import {
+  MAX_TRANSCRIPT_PAGE_SIZE,
+  TRANSCRIPT_PAGE_SIZE,
+  formatTranscriptLine,
+  matchesTranscriptQuery,
+  parseTranscriptRecord,
+  splitTranscriptLines,
+  toTranscriptRecord,
+  type TranscriptLine,
+  type TranscriptPage,
+  type TranscriptQuery,
+  type TranscriptStream,
+  type TranscriptSummary
+} from '../../shared/execution/transcript';
+
+const logger = createServiceLogger('transcript-store');
+
+// Used when logRetentionDays hasn't been set
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Appends one run's output to its transcript file as complete lines arrive. Lines are redacted
+ * and written synchronously, so nothing is held in memory and a crash loses at most the
+ * unfinished last line of each stream.
+ */
+export class TranscriptWriter {
+  private pending: Record<TranscriptStream, string> = { stdout: '', stderr: '' };
+  private summary: TranscriptSummary = { sizeBytes: 0, lineCount: 0, stdoutLines: 0, stderrLines: 0 };
+  private closed = false;
+  // Set when a write fails; later output is dropped but close() still closes the file and records the summary
+  private failed = false;
+
+  constructor(
+    private readonly executionId: string,
+    private readonly fd: number,
+    private readonly redactor: Redactor
+  ) {}
+
+  public write(stream: TranscriptStream, text: string): void {
+    if (this.closed || this.failed) return;
+    const { lines, remainder } = splitTranscriptLines(this.pending[stream], text);
+    this.pending[stream] = remainder;
+    this.writeLines(stream, lines);
+  }
+
+  /**
+   * Write any unfinished lines, close the file and record the summary with the run.
+   */
+  public close(): TranscriptSummary {
+    if (this.closed) return this.summary;
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.pending[stream]) {
+        this.writeLines(stream, [this.pending[stream]]);
+        this.pending[stream] = '';
+      }
+    }
+    this.closed = true;
+
+    try {
+      closeSync(this.fd);
+    } catch (error) {
+      logger.warn('Failed to close transcript file', {
+        executionId: this.executionId,
+        error: (error as Error).message
+      });
+    }
+
+    try {
+      getDatabaseService().completeTranscript(this.executionId, {
+        size_bytes: this.summary.sizeBytes,
+        line_count: this.summary.lineCount,
+        stdout_lines: this.summary.stdoutLines,
+        stderr_lines: this.summary.stderrLines
+      });
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping transcript summary', { executionId: this.executionId });
+    }
+
+    return this.summary;
+  }
+
+  private writeLines(stream: TranscriptStream, lines: string[]): void {
+    if (lines.length === 0 || this.failed) return;
+
+    const time = Date.now();
+    const data = lines
+      .map(text => toTranscriptRecord(time, stream, this.redactor.redact(text).text) + '\n')
+      .join('');
+
+    try {
+      writeSync(this.fd, data);
+    } catch (error) {
+      // A full disk shouldn't fail the run; the execution log still gets the end of the output
+      logger.warn('Failed to write transcript - remaining output not kept in full', {
+        executionId: this.executionId,
+        error: (error as Error).message
+      });
+      this.failed = true;
+      return;
+    }
+
+    this.summary.sizeBytes += Buffer.byteLength(data);
+    this.summary.lineCount += lines.length;
+    if (stream === 'stdout') {
+      this.summary.stdoutLines += lines.length;
+    } else {
+      this.summary.stderrLines += lines.length;
+    }
+  }
+}
+
+/**
+ * Per-run output transcripts under userData/transcripts/<executionId>.jsonl, with paged
+ * reads and search for Run History.
+ */
+class TranscriptStoreService {
+  private transcriptsRoot: string;
+
+  constructor() {
+    this.transcriptsRoot = join(app.getPath('userData'), 'transcripts');
+  }
+
+  public getFilePath(executionId: string): string {
+    return join(this.transcriptsRoot, `${executionId}.jsonl`);
+  }
+
+  /**
+   * Start the transcript for a run. Returns null if the file can't be created; the run goes
+   * ahead with only the end of its output kept.
+   */
+  public open(executionId: string, redactor: Redactor): TranscriptWriter | null {
+    const filePath = this.getFilePath(executionId);
+    let fd: number;
+    try {
+      mkdirSync(this.transcriptsRoot, { recursive: true });
+      fd = openSync(filePath, 'a');
+    } catch (error) {
+      logger.warn('Failed to create transcript file', {
+        executionId,
+        error: (error as Error).message
+      });
+      return null;
+    }
+
+    try {
+      getDatabaseService().insertTranscript(executionId, filePath);
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping transcript record', { executionId });
+    }
+
+    return new TranscriptWriter(executionId, fd, redactor);
+  }
+
+  /**
+   * A page of a run's transcript, or null if it has none. With search or stream set, only
+   * matching lines are returned and nextOffset skips to just after the last one.
+   */
+  public async read(executionId: string, query: TranscriptQuery = {}): Promise<TranscriptPage | null> {
+    const record = getDatabaseService().getTranscript(executionId);
+    if (!record) return null;
+
+    const filePath = this.resolveFilePath(record.file_path);
+    if (!existsSync(filePath)) return null;
+
+    const offset = query.offset ?? 0;
+    const limit = Math.min(query.limit ?? TRANSCRIPT_PAGE_SIZE, MAX_TRANSCRIPT_PAGE_SIZE);
+    const lines: TranscriptLine[] = [];
+    let totalLines = 0;
+    let nextOffset: number | null = null;
+
+    // Streamed line by line - transcripts of long runs can be far larger than a page
+    const reader = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+    for await (const raw of reader) {
+      const index = totalLines++;
+      if (index < offset || nextOffset !== null) continue;
+
+      const line = parseTranscriptRecord(raw, index);
+      if (!line || !matchesTranscriptQuery(line, query)) continue;
+
+      if (lines.length === limit) {
+        nextOffset = index;
+      } else {
+        lines.push(line);
+      }
+    }
+
+    return { lines, totalLines, nextOffset, complete: record.completed_at !== null };
+  }
+
+  /**
+   * Write a run's transcript as plain text to a location chosen by the user. Returns false if
+   * the dialog was cancelled.
+   */
+  public async saveAs(executionId: string): Promise<boolean> {
+    const record = getDatabaseService().getTranscript(executionId);
+    const filePath = record ? this.resolveFilePath(record.file_path) : null;
+    if (!filePath || !existsSync(filePath)) {
+      throw new Error('Transcript not found');
+    }
+
+    const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+    const options = {
+      defaultPath: join(app.getPath('downloads'), `transcript-${executionId}.log`),
+      filters: [{ name: 'Log files', extensions: ['log', 'txt'] }]
+    };
+
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return false;
+    }
+
+    const reader = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+    await pipeline(
+      async function* () {
+        let index = 0;
+        for await (const raw of reader) {
+          const line = parseTranscriptRecord(raw, index++);
+          if (line) yield formatTranscriptLine(line) + '\n';
+        }
+      },
+      createWriteStream(result.filePath, { encoding: 'utf8' })
+    );
+
+    logger.info('Transcript saved', { executionId, destination: result.filePath });
+    return true;
+  }
+
+  /**
+   * Delete transcripts older than the log retention setting, and files of runs whose logs were
+   * cleared. Files of runs in keepExecutionIds (still running) are kept.
+   */
+  public pruneTranscripts(keepExecutionIds: string[] = []): void {
+    if (!existsSync(this.transcriptsRoot)) return;
+
+    let recorded: Set<string>;
+    try {
+      const db = getDatabaseService();
+      const retentionDays = db.getSetting<number>('logRetentionDays', DEFAULT_RETENTION_DAYS) ?? DEFAULT_RETENTION_DAYS;
+      recorded = new Set(db.pruneTranscripts(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+    } catch (dbError) {
+      logger.warn('Database unavailable - skipping transcript cleanup');
+      return;
+    }
+
+    const keep = new Set(keepExecutionIds);
+    let removed = 0;
+    for (const name of readdirSync(this.transcriptsRoot)) {
+      const executionId = name.replace(/\.jsonl$/, '');
+      if (!recorded.has(executionId) && !keep.has(executionId)) {
+        rmSync(join(this.transcriptsRoot, name), { force: true });
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('Removed expired transcripts', { removed });
+    }
+  }
+
+  /**
+   * Remove every transcript (used when all app data is cleared).
+   */
+  public clearAll(): void {
+    rmSync(this.transcriptsRoot, { recursive: true, force: true });
+  }
+
+  // The stored path is only trusted if it is inside the transcripts directory
+  private resolveFilePath(filePath: string): string {
+    const resolved = resolve(filePath);
+    if (!resolved.startsWith(this.transcriptsRoot + sep)) {
+      throw new Error('Invalid transcript path');
+    }
+    return resolved;
+  }
+}
+
+// Create and export singleton instance
+let transcriptStoreService: TranscriptStoreService | null = null;
+
+export const getTranscriptStoreService = (): TranscriptStoreService => {
+  if (!transcriptStoreService) {
+    transcriptStoreService = new TranscriptStoreService();
+  }
+  return transcriptStoreService;
+};
+
+export default getTranscriptStoreService;
@@ -20,18 +20,41 @@ export interface ElectronAPI {
   getRealtimeMetrics: () => Promise<RealtimeMetrics>;
 
   // Script execution
-  executeScript: (scriptId: string, parameters?: Record<string, any>) => Promise<ExecutionResult>;
+  /**
+   * dryRun runs a Preview - only for scripts with supportsWhatIf. waitForPreconditions keeps
+   * the run pending until the script's preconditions pass instead of refusing it.
+   */
+  executeScript: (
+    scriptId: string,
+    parameters?: Record<string, any>,
+    options?: { dryRun?: boolean; waitForPreconditions?: boolean }
+  ) => Promise<ExecutionResult>;
   cancelScriptExecution: (executionId: string) => Promise<boolean>;
 
+  // Execution queue
+  getExecutionQueue: () => Promise<QueueItem[]>;
+  moveQueuedExecution: (executionId: string, position: number) => Promise<QueueItem[]>;
+  cancelQueuedExecution: (executionId: string) => Promise<{ success: boolean }>;
+
   // Script management
   getAvailableScripts: () => Promise<ScriptDefinition[]>;
   getScriptDetails: (scriptId: string) => Promise<ScriptDefinition | null>;
+  checkScriptConcurrency: (scriptId: string) => Promise<ConcurrencyConflict | null>;
+  /** null when the script declares no preconditions */
+  checkScriptPreconditions: (scriptId: string) => Promise<PreconditionCheck | null>;
+  rescanScripts: () => Promise<ScriptsChangedEvent>;
+  onScriptsChanged: (callback: (changes: ScriptsChangedEvent) => void) => void;
+  removeScriptsChangedListener: () => void;
+  /** Every script file found and whether it loaded, with validation issues for broken ones */
+  getScriptLoadReport: () => Promise<ScriptLoadReport>;
 
   // Execution logs
   getExecutionLogs: (filters?: LogFilters) => Promise<ExecutionLog[]>;
   getExecutionStats: () => Promise<ExecutionStats>;
   clearExecutionLogs: () => Promise<{ success: boolean; cleared: number }>;
   exportLogs: (format: 'json' | 'csv', filters?: LogFilters) => Promise<string>;
+  /** Original parameters of a past run, and what changed in the script since */
+  getRerunInfo: (executionId: string) => Promise<RerunInfo>;
 
   // Data management
   clearAllData: () => Promise<{ success: boolean; message: string }>;
@@ -50,6 +73,11 @@ export interface ElectronAPI {
   // Event listeners for real-time updates
   onScriptExecutionUpdate: (callback: (update: ExecutionUpdate) => void) => void;
   removeScriptExecutionListener: () => void;
+
+  // Interactive prompts from running scripts
+  onScriptPrompt: (callback: (prompt: ScriptPromptRequest) => void) => void;
+  removeScriptPromptListener: () => void;
+  respondToScriptPrompt: (response: ScriptPromptAnswer) => Promise<{ success: boolean }>;
   
   onSettingsChanged: (callback: (settings: AppSettings) => void) => void;
   removeSettingsListener: () => void;
@@ -68,6 +96,47 @@ export interface ElectronAPI {
   // Favorites
   getFavorites: () => Promise<string[]>;
   toggleFavorite: (scriptId: string) => Promise<{ success: boolean; isFavorite: boolean; favorites: string[] }>;
+
+  // Schedules
+  getSchedules: () => Promise<ScheduleInfo[]>;
+  createSchedule: (schedule: CreateScheduleInput) => Promise<ScheduleInfo>;
+  updateSchedule: (id: string, changes: Partial<CreateScheduleInput>) => Promise<ScheduleInfo>;
+  deleteSchedule: (id: string) => Promise<{ success: boolean }>;
+
+  // Runbooks
+  getRunbooks: () => Promise<RunbookInfo[]>;
+  getRunbookExecutions: () => Promise<RunbookExecution[]>;
+  startRunbook: (runbookId: string) => Promise<{ executionId: string }>;
+  cancelRunbook: (executionId: string) => Promise<{ success: boolean }>;
+  onRunbookUpdate: (callback: (update: RunbookExecution) => void) => void;
+  removeRunbookListener: () => void;
+
+  // Execution artifacts
+  getExecutionArtifacts: (executionId: string) => Promise<ExecutionArtifact[]>;
+  openArtifact: (artifactId: number) => Promise<{ success: boolean }>;
+  saveArtifactAs: (artifactId: number) => Promise<{ success: boolean }>;
+  revealArtifact: (artifactId: number) => Promise<{ success: boolean }>;
+
+  // Execution transcripts (full output; null when the run has none)
+  readTranscript: (executionId: string, query?: TranscriptQuery) => Promise<TranscriptPage | null>;
+  saveTranscriptAs: (executionId: string) => Promise<{ success: boolean }>;
+
+  // Secret vault (values can be set but are never returned)
+  listSecrets: () => Promise<SecretList>;
+  setSecret: (name: string, value: string, description?: string) => Promise<{ success: boolean }>;
+  deleteSecret: (name: string) => Promise<{ success: boolean }>;
+
+  // Script catalog (location and signing key are the catalogSource/catalogPublicKey settings)
+  getCatalogStatus: () => Promise<CatalogStatus>;
+  syncCatalog: () => Promise<CatalogSyncResult>;
+  rollbackCatalogScript: (scriptId: string, version: string) => Promise<{ success: boolean }>;
+  pinCatalogScript: (scriptId: string, pinned: boolean) => Promise<{ success: boolean }>;
+
+  // Script packages (.fakpkg): inspect opens a file dialog and returns null if cancelled
+  inspectScriptPackage: () => Promise<ScriptPackagePreview | null>;
+  installScriptPackage: (importId: string) => Promise<{ scriptId: string }>;
+  cancelScriptPackage: (importId: string) => Promise<{ success: boolean }>;
+  exportScriptPackage: (scriptId: string) => Promise<{ success: boolean }>;
 }
 
 // Type definitions (these will be moved to shared types later)
@@ -161,11 +230,57 @@ interface ScriptDefinition {
   parameters?: ScriptParameter[];
   category: string;
   order?: number;
+  /** Offers a Preview (dry run) */
+  supportsWhatIf?: boolean;
+  /** What the tool may do beyond reading the PC; undefined when it declares nothing (unrestricted) */
+  capabilities?: Array<'network' | 'fileSystem' | 'registry' | 'processes' | 'fullLanguage'>;
+  /** Whether this PC meets the tool's compatibleOS and requirements */
+  compatibility?: ScriptCompatibility;
+}
+
+interface ScriptCompatibility {
+  compatible: boolean;
+  /** Why not, e.g. "Requires Windows 11 (this PC runs Windows 10, build 19045)" */
+  reasons: string[];
+}
+
+/** Script IDs added, changed or removed by a change on disk or a manual rescan */
+interface ScriptsChangedEvent {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  source: 'watch' | 'rescan';
+}
+
+interface ScriptLoadIssue {
+  kind: 'json' | 'schema' | 'file';
+  /** Field the issue is about, e.g. "parameters[0].name" */
+  path?: string;
+  message: string;
+  /** The offending value as JSON */
+  value?: string;
+}
+
+interface ScriptLoadResult {
+  filePath: string;
+  status: 'loaded' | 'broken' | 'shadowed' | 'skipped';
+  scriptId?: string;
+  /** For shadowed files: the file whose script is used instead */
+  shadowedBy?: string;
+  issues: ScriptLoadIssue[];
+  checkedAt: number;
+}
+
+interface ScriptLoadReport {
+  generatedAt: number;
+  /** Broken, shadowed and skipped files first */
+  files: ScriptLoadResult[];
+  counts: Record<ScriptLoadResult['status'], number>;
 }
 
 interface ScriptParameter {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'select';
+  type: 'string' | 'number' | 'boolean' | 'select' | 'secret';
   required: boolean;
   description: string;
   options?: string[]; // for select type
@@ -179,8 +294,32 @@ interface ExecutionResult {
   error?: string;
   duration: number;
   exitCode: number;
+  resourceUsage?: ResourceUsage;
+  results?: ScriptResult[];
+  attempt?: number;
+  maxAttempts?: number;
+  dryRun?: boolean;
 }
 
+/** Peak and average figures sampled from the script's process tree */
+interface ResourceUsage {
+  maxMemoryMB: number;
+  avgMemoryMB: number;
+  avgCpuPercent: number;
+  maxCpuPercent: number;
+  diskReadMB: number;
+  diskWriteMB: number;
+  networkBytesSent: number;
+  networkBytesReceived: number;
+}
+
+type ResultValue = string | number | boolean | null;
+
+/** Structured result a script reported: a summary card or a table */
+type ScriptResult =
+  | { kind: 'summary'; title?: string; text?: string; items: Array<{ label: string; value: ResultValue }> }
+  | { kind: 'table'; title?: string; columns: string[]; rows: Array<Record<string, ResultValue>>; truncated?: boolean };
+
 interface ExecutionLog {
   id: string;
   timestamp: Date;
@@ -217,6 +356,12 @@ interface AppSettings {
   maxConcurrentExecutions: number;
   scriptTimeout: number;
   enableDetailedLogging: boolean;
+  redactionDetectors?: Array<'email' | 'employeeId' | 'userPath' | 'token'>;
+  /** UNC path or http(s) URL of the script catalog */
+  catalogSource?: string;
+  /** PEM public key the catalog manifest is signed with */
+  catalogPublicKey?: string;
+  catalogKeepVersions?: number;
 }
 
 type NotificationType = 'success' | 'error' | 'warning' | 'info';
@@ -229,10 +374,26 @@ interface NotificationOptions {
 
 interface ExecutionUpdate {
   executionId: string;
-  status: 'running' | 'success' | 'error' | 'cancelled';
+  scriptId: string;
+  scriptName: string;
+  status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+  /** 1-based position while the execution waits in the queue */
+  queuePosition?: number;
   progress?: number;
+  progressPhase?: string;
+  progressStatus?: string;
   output?: string;
   error?: string;
+  duration?: number;
+  exitCode?: number;
+  /** Sent with the final update of a completed run */
+  resourceUsage?: ResourceUsage;
+  results?: ScriptResult[];
+  /** Set for scripts with a retry policy: current attempt and the most there will be */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Set on the final update of a Preview run */
+  dryRun?: boolean;
 }
 
 interface SessionState {
@@ -249,6 +410,236 @@ interface SessionState {
   sessionTimestamp: number;
 }
 
+type ScheduleRule =
+  | { type: 'cron'; expression: string }
+  | { type: 'interval'; everyDays: number; time: string };
+
+interface ScheduleInfo {
+  id: string;
+  scriptId: string;
+  scriptName: string;
+  name: string;
+  rule: ScheduleRule;
+  parameters: Record<string, any>;
+  enabled: boolean;
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  lastExecutionId: string | null;
+  lastStatus: 'running' | 'success' | 'error' | 'cancelled' | 'skipped' | null;
+  createdAt: number;
+}
+
+interface RunbookInfo {
+  id: string;
+  name: string;
+  description: string;
+  category?: string;
+  steps: Array<{
+    id: string;
+    name: string;
+    scriptId: string;
+    parameters?: Record<string, any>;
+    successExitCodes?: number[];
+    onSuccess?: string;
+    onFailure?: string;
+  }>;
+}
+
+interface RunbookExecution {
+  executionId: string;
+  runbookId: string;
+  runbookName: string;
+  status: 'running' | 'success' | 'error' | 'cancelled';
+  currentStepId: string | null;
+  steps: Array<{
+    stepId: string;
+    name: string;
+    scriptId: string;
+    status: 'pending' | 'running' | 'success' | 'error' | 'cancelled' | 'skipped';
+    executionId?: string;
+    exitCode?: number;
+    runs: number;
+  }>;
+  startedAt: number;
+  completedAt: number | null;
+  error?: string;
+}
+
+/** A file a run left in its artifacts directory */
+interface ExecutionArtifact {
+  id: number;
+  executionId: string;
+  relativePath: string;
+  sizeBytes: number;
+  modifiedAt: number;
+}
+
+type TranscriptStream = 'stdout' | 'stderr';
+
+/** One line of a run's output, as written */
+interface TranscriptLine {
+  line: number;
+  time: number;
+  stream: TranscriptStream;
+  text: string;
+}
+
+interface TranscriptQuery {
+  offset?: number;
+  limit?: number;
+  search?: string;
+  stream?: TranscriptStream;
+}
+
+interface TranscriptPage {
+  lines: TranscriptLine[];
+  totalLines: number;
+  /** Where the next page starts, or null when this is the last one */
+  nextOffset: number | null;
+  /** False while the run is still writing, or if it ended without closing the transcript */
+  complete: boolean;
+}
+
+/** A vault entry, without its value */
+interface SecretInfo {
+  name: string;
+  description?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface SecretList {
+  /** false when the OS offers no encryption (safeStorage) - entries can't be added or used */
+  available: boolean;
+  secrets: SecretInfo[];
+}
+
+interface CatalogScriptInfo {
+  scriptId: string;
+  activeVersion: string | null;
+  /** Syncs leave the script at this version */
+  pinnedVersion: string | null;
+  /** Kept on this PC for rollback, newest first */
+  versions: Array<{ version: string; installedAt: number }>;
+  updatedAt: number;
+}
+
+interface CatalogChange {
+  timestamp: number;
+  scriptId: string;
+  action: 'install' | 'update' | 'remove' | 'rollback' | 'pin' | 'unpin' | 'failed' | 'rejected';
+  fromVersion?: string;
+  toVersion?: string;
+  error?: string;
+}
+
+interface CatalogStatus {
+  source: string | null;
+  configured: boolean;
+  syncing: boolean;
+  lastSyncAt: number | null;
+  lastSyncError: string | null;
+  scripts: CatalogScriptInfo[];
+  changes: CatalogChange[];
+}
+
+interface CatalogSyncResult {
+  steps: Array<{ scriptId: string; action: 'install' | 'update' | 'remove'; fromVersion?: string; toVersion?: string }>;
+  failures: Array<{ scriptId: string; error: string }>;
+}
+
+interface ScriptPackagePreview {
+  /** Passed to installScriptPackage/cancelScriptPackage */
+  importId: string;
+  fileName: string;
+  scriptId: string;
+  name: string;
+  description: string;
+  version?: string;
+  author?: string;
+  files: Array<{ name: string; role: 'script' | 'cleanup' | 'metadata' | 'docs' | 'icon'; size: number }>;
+  signature: 'verified' | 'unverified' | 'unsigned';
+  securityLevel: 'safe' | 'caution';
+  warnings: string[];
+  /** An earlier import of this tool will be replaced */
+  replaces: boolean;
+}
+
+interface ParameterDefinitionChange {
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  fields?: string[];
+}
+
+interface RerunInfo {
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
+  parameters: Record<string, any>;
+  /** null when the run predates change tracking */
+  scriptChanged: boolean | null;
+  parameterChanges: ParameterDefinitionChange[];
+}
+
+interface QueueItem {
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
+  source: 'manual' | 'protocol' | 'scheduled';
+  priority: number;
+  position: number;
+  enqueuedAt: number;
+}
+
+interface ScriptPromptRequest {
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
+  promptId: string;
+  kind: 'text' | 'choice';
+  message: string;
+  title?: string;
+  masked: boolean;
+  choices?: Array<{ label: string; helpMessage?: string }>;
+  defaultChoice?: number;
+}
+
+interface ScriptPromptAnswer {
+  executionId: string;
+  promptId: string;
+  value?: string;
+  choice?: number;
+  cancelled?: boolean;
+}
+
+interface ConcurrencyConflict {
+  kind: 'instances' | 'group';
+  policy: 'queue' | 'reject';
+  blockedBy: string[];
+  reason: string;
+}
+
+interface PreconditionResult {
+  precondition: { type: 'diskSpace' | 'reachable' | 'acPower' | 'minOsBuild' | 'process' };
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+interface PreconditionCheck {
+  passed: boolean;
+  results: PreconditionResult[];
+  checkedAt: number;
+}
+
+interface CreateScheduleInput {
+  scriptId: string;
+  name?: string;
+  rule: ScheduleRule;
+  parameters?: Record<string, any>;
+  enabled?: boolean;
+}
+
 // IPC channel names (these will be moved to shared constants later)
 const IPC_CHANNELS = {
   // System
@@ -260,16 +651,29 @@ const IPC_CHANNELS = {
   EXECUTE_SCRIPT: 'script:execute',
   CANCEL_EXECUTION: 'script:cancel',
   SCRIPT_EXECUTION_UPDATE: 'script:execution:update',
+  SCRIPT_PROMPT: 'script:prompt',
+  SCRIPT_PROMPT_RESPONSE: 'script:prompt-response',
+
+  // Execution queue
+  GET_QUEUE: 'queue:list',
+  REORDER_QUEUE: 'queue:reorder',
+  CANCEL_QUEUED: 'queue:cancel',
   
   // Script management
   GET_SCRIPTS: 'script:get-all',
   GET_SCRIPT_DETAILS: 'script:get-details',
+  CHECK_SCRIPT_CONCURRENCY: 'script:check-concurrency',
+  CHECK_SCRIPT_PRECONDITIONS: 'script:check-preconditions',
+  RESCAN_SCRIPTS: 'script:rescan',
+  SCRIPTS_CHANGED: 'scripts:changed',
+  GET_SCRIPT_LOAD_REPORT: 'script:get-load-report',
   
   // Logging
   GET_LOGS: 'log:get',
   GET_STATS: 'log:stats',
   CLEAR_LOGS: 'log:clear',
   EXPORT_LOGS: 'log:export',
+  GET_RERUN_INFO: 'log:rerun-info',
 
   // Data management
   CLEAR_ALL_DATA: 'data:clear-all',
@@ -298,6 +702,46 @@ const IPC_CHANNELS = {
   GET_FAVORITES: 'favorites:get',
   TOGGLE_FAVORITE: 'favorites:toggle',
 
+  // Schedules
+  GET_SCHEDULES: 'schedule:list',
+  CREATE_SCHEDULE: 'schedule:create',
+  UPDATE_SCHEDULE: 'schedule:update',
+  DELETE_SCHEDULE: 'schedule:delete',
+
+  // Runbooks
+  GET_RUNBOOKS: 'runbook:list',
+  GET_RUNBOOK_EXECUTIONS: 'runbook:executions',
+  START_RUNBOOK: 'runbook:start',
+  CANCEL_RUNBOOK: 'runbook:cancel',
+  RUNBOOK_UPDATE: 'runbook:update',
+
+  // Execution artifacts
+  GET_ARTIFACTS: 'artifact:list',
+  OPEN_ARTIFACT: 'artifact:open',
+  SAVE_ARTIFACT: 'artifact:save',
+  REVEAL_ARTIFACT: 'artifact:reveal',
+
+  // Execution transcripts
+  READ_TRANSCRIPT: 'transcript:read',
+  SAVE_TRANSCRIPT: 'transcript:save',
+
+  // Secret vault
+  LIST_SECRETS: 'secret:list',
+  SET_SECRET: 'secret:set',
+  DELETE_SECRET: 'secret:delete',
+
+  // Script catalog
+  GET_CATALOG_STATUS: 'catalog:status',
+  SYNC_CATALOG: 'catalog:sync',
+  ROLLBACK_CATALOG_SCRIPT: 'catalog:rollback',
+  PIN_CATALOG_SCRIPT: 'catalog:pin',
+
+  // Script packages
+  INSPECT_SCRIPT_PACKAGE: 'package:inspect',
+  INSTALL_SCRIPT_PACKAGE: 'package:install',
+  CANCEL_SCRIPT_PACKAGE: 'package:cancel',
+  EXPORT_SCRIPT_PACKAGE: 'package:export',
+
   // Debug logging (main process -> renderer)
   DEBUG_MAIN_PROCESS_LOG: 'debug:main-process-log',
 } as const;
@@ -310,17 +754,48 @@ const electronAPI: ElectronAPI = {
   getRealtimeMetrics: () => ipcRenderer.invoke(IPC_CHANNELS.GET_REALTIME_METRICS),
 
   // Script execution
-  executeScript: (scriptId: string, parameters?: Record<string, any>) =>
-    ipcRenderer.invoke(IPC_CHANNELS.EXECUTE_SCRIPT, { scriptId, parameters }),
+  executeScript: (
+    scriptId: string,
+    parameters?: Record<string, any>,
+    options?: { dryRun?: boolean; waitForPreconditions?: boolean }
+  ) =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXECUTE_SCRIPT, {
+      scriptId,
+      parameters,
+      dryRun: options?.dryRun,
+      waitForPreconditions: options?.waitForPreconditions
+    }),
   
   cancelScriptExecution: (executionId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.CANCEL_EXECUTION, { executionId }),
+
+  // Execution queue
+  getExecutionQueue: () => ipcRenderer.invoke(IPC_CHANNELS.GET_QUEUE),
+
+  moveQueuedExecution: (executionId: string, position: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.REORDER_QUEUE, { executionId, position }),
+
+  cancelQueuedExecution: (executionId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CANCEL_QUEUED, { executionId }),
   
   // Script management
   getAvailableScripts: () => ipcRenderer.invoke(IPC_CHANNELS.GET_SCRIPTS),
   
   getScriptDetails: (scriptId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.GET_SCRIPT_DETAILS, { scriptId }),
+
+  checkScriptConcurrency: (scriptId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CHECK_SCRIPT_CONCURRENCY, { scriptId }),
+  checkScriptPreconditions: (scriptId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CHECK_SCRIPT_PRECONDITIONS, { scriptId }),
+  rescanScripts: () => ipcRenderer.invoke(IPC_CHANNELS.RESCAN_SCRIPTS),
+  onScriptsChanged: (callback: (changes: ScriptsChangedEvent) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.SCRIPTS_CHANGED, (_event, changes: ScriptsChangedEvent) => callback(changes));
+  },
+  removeScriptsChangedListener: () => {
+    ipcRenderer.removeAllListeners(IPC_CHANNELS.SCRIPTS_CHANGED);
+  },
+  getScriptLoadReport: () => ipcRenderer.invoke(IPC_CHANNELS.GET_SCRIPT_LOAD_REPORT),
   
   // Execution logs
   getExecutionLogs: (filters?: LogFilters) =>
@@ -335,6 +810,9 @@ const electronAPI: ElectronAPI = {
   exportLogs: (format: 'json' | 'csv', filters?: LogFilters) =>
     ipcRenderer.invoke(IPC_CHANNELS.EXPORT_LOGS, { format, filters }),
 
+  getRerunInfo: (executionId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GET_RERUN_INFO, { executionId }),
+
   // Data management
   clearAllData: () =>
     ipcRenderer.invoke(IPC_CHANNELS.CLEAR_ALL_DATA),
@@ -366,6 +844,17 @@ const electronAPI: ElectronAPI = {
   removeScriptExecutionListener: () => {
     ipcRenderer.removeAllListeners(IPC_CHANNELS.SCRIPT_EXECUTION_UPDATE);
   },
+
+  onScriptPrompt: (callback: (prompt: ScriptPromptRequest) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.SCRIPT_PROMPT, (_event, prompt: ScriptPromptRequest) => callback(prompt));
+  },
+
+  removeScriptPromptListener: () => {
+    ipcRenderer.removeAllListeners(IPC_CHANNELS.SCRIPT_PROMPT);
+  },
+
+  respondToScriptPrompt: (response: ScriptPromptAnswer) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SCRIPT_PROMPT_RESPONSE, response),
   
   onSettingsChanged: (callback: (settings: AppSettings) => void) => {
     ipcRenderer.on(IPC_CHANNELS.SETTINGS_CHANGED, (_event, settings: AppSettings) => callback(settings));
@@ -411,6 +900,90 @@ const electronAPI: ElectronAPI = {
 
   toggleFavorite: (scriptId: string) =>
     ipcRenderer.invoke(IPC_CHANNELS.TOGGLE_FAVORITE, { scriptId }),
+
+  // Schedules
+  getSchedules: () => ipcRenderer.invoke(IPC_CHANNELS.GET_SCHEDULES),
+
+  createSchedule: (schedule: CreateScheduleInput) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CREATE_SCHEDULE, schedule),
+
+  updateSchedule: (id: string, changes: Partial<CreateScheduleInput>) =>
+    ipcRenderer.invoke(IPC_CHANNELS.UPDATE_SCHEDULE, { id, ...changes }),
+
+  deleteSchedule: (id: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.DELETE_SCHEDULE, { id }),
+
+  // Runbooks
+  getRunbooks: () => ipcRenderer.invoke(IPC_CHANNELS.GET_RUNBOOKS),
+
+  getRunbookExecutions: () => ipcRenderer.invoke(IPC_CHANNELS.GET_RUNBOOK_EXECUTIONS),
+
+  startRunbook: (runbookId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.START_RUNBOOK, { runbookId }),
+
+  cancelRunbook: (executionId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CANCEL_RUNBOOK, { executionId }),
+
+  onRunbookUpdate: (callback: (update: RunbookExecution) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.RUNBOOK_UPDATE, (_event, update: RunbookExecution) => callback(update));
+  },
+
+  removeRunbookListener: () => {
+    ipcRenderer.removeAllListeners(IPC_CHANNELS.RUNBOOK_UPDATE);
+  },
+
+  // Execution artifacts
+  getExecutionArtifacts: (executionId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GET_ARTIFACTS, { executionId }),
+
+  openArtifact: (artifactId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.OPEN_ARTIFACT, { artifactId }),
+
+  saveArtifactAs: (artifactId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SAVE_ARTIFACT, { artifactId }),
+
+  revealArtifact: (artifactId: number) =>
+    ipcRenderer.invoke(IPC_CHANNELS.REVEAL_ARTIFACT, { artifactId }),
+
+  // Execution transcripts
+  readTranscript: (executionId: string, query?: TranscriptQuery) =>
+    ipcRenderer.invoke(IPC_CHANNELS.READ_TRANSCRIPT, { executionId, ...query }),
+
+  saveTranscriptAs: (executionId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SAVE_TRANSCRIPT, { executionId }),
+
+  listSecrets: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.LIST_SECRETS),
+
+  setSecret: (name: string, value: string, description?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.SET_SECRET, { name, value, description }),
+
+  deleteSecret: (name: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.DELETE_SECRET, { name }),
+
+  getCatalogStatus: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.GET_CATALOG_STATUS),
+
+  syncCatalog: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.SYNC_CATALOG),
+
+  rollbackCatalogScript: (scriptId: string, version: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ROLLBACK_CATALOG_SCRIPT, { scriptId, version }),
+
+  pinCatalogScript: (scriptId: string, pinned: boolean) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PIN_CATALOG_SCRIPT, { scriptId, pinned }),
+
+  inspectScriptPackage: () =>
+    ipcRenderer.invoke(IPC_CHANNELS.INSPECT_SCRIPT_PACKAGE),
+
+  installScriptPackage: (importId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.INSTALL_SCRIPT_PACKAGE, { importId }),
+
+  cancelScriptPackage: (importId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CANCEL_SCRIPT_PACKAGE, { importId }),
+
+  exportScriptPackage: (scriptId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.EXPORT_SCRIPT_PACKAGE, { scriptId }),
 };
 
 // Expose the API to the renderer process
@@ -491,8 +1064,11 @@ ipcRenderer.on(IPC_CHANNELS.DEBUG_MAIN_PROCESS_LOG, (_event, logEntry: {
 export type {
   SystemInfo,
   ScriptDefinition,
+  ScriptCompatibility,
   ScriptParameter,
   ExecutionResult,
+  ResourceUsage,
+  ScriptResult,
   ExecutionLog,
   LogFilters,
   ExecutionStats,
@@ -509,4 +1085,44 @@ export type {
   BitLockerInfo,
   DashboardInfo,
   RealtimeMetrics,
+  // Schedule types
+  ScheduleRule,
+  ScheduleInfo,
+  CreateScheduleInput,
+  // Runbook types
+  RunbookInfo,
+  RunbookExecution,
+  // Artifact types
+  ExecutionArtifact,
+  // Transcript types
+  TranscriptLine,
+  TranscriptQuery,
+  TranscriptPage,
+  // Secret vault types
+  SecretInfo,
+  SecretList,
+  // Rerun types
+  RerunInfo,
+  ParameterDefinitionChange,
+  // Queue types
+  QueueItem,
+  // Prompt types
+  ScriptPromptRequest,
+  ScriptPromptAnswer,
+  ConcurrencyConflict,
+  // Precondition types
+  PreconditionCheck,
+  PreconditionResult,
+  // Registry types
+  ScriptsChangedEvent,
+  ScriptLoadIssue,
+  ScriptLoadResult,
+  ScriptLoadReport,
+  // Catalog types
+  CatalogScriptInfo,
+  CatalogChange,
+  CatalogStatus,
+  CatalogSyncResult,
+  // Package types
+  ScriptPackagePreview,
 };
\ No newline at end of file
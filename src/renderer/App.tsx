@@ -5,10 +5,17 @@ import { HashRouter as Router, Routes, Route, useNavigate } from 'react-router-d
 import { Scripts as ScriptsPage } from './pages/Scripts';
 import { LogsPage } from './pages/LogsPage';
 import { AboutPage } from './pages/AboutPage';
+import { SchedulesPage } from './pages/SchedulesPage';
+import { RunbooksPage } from './pages/RunbooksPage';
+import { CatalogPage } from './pages/CatalogPage';
+import { ScriptHealthPage } from './pages/ScriptHealthPage';
 import { AppLayout } from './components/layout/AppLayout';
 import { Toaster } from '@/components/ui/toaster';
+import { ScriptPromptDialog } from './components/execution/ScriptPromptDialog';
 import { ScriptExecutionProvider } from '@/hooks/useScriptExecution';
 import { SettingsProvider } from '@/hooks/useSettings';
+import type { ScriptCapability } from '../shared/execution/capabilities';
+import type { ScriptCompatibility } from '../shared/execution/requirements';
 
 // Check if we're in development mode
 const isDevelopment = import.meta.env.DEV;
@@ -21,8 +28,23 @@ interface QuickScript {
   category: string;
   estimatedDuration: number;
   order?: number;
+  supportsWhatIf?: boolean;
+  capabilities?: ScriptCapability[];
+  compatibility?: ScriptCompatibility;
 }
 
+const toQuickScript = (s: any): QuickScript => ({
+  id: s.id,
+  name: s.name,
+  description: s.description,
+  category: s.category,
+  estimatedDuration: s.estimatedDuration,
+  order: s.order,
+  supportsWhatIf: s.supportsWhatIf,
+  capabilities: s.capabilities,
+  compatibility: s.compatibility
+});
+
 // Import components needed for Dashboard
 import { ConfirmationDialog } from './components/script/ConfirmationDialog';
 import { useScriptExecution } from '@/hooks/useScriptExecution';
@@ -65,14 +87,7 @@ const Dashboard: React.FC = () => {
 
         if (window.electronAPI?.getAvailableScripts) {
           const availableScripts = await window.electronAPI.getAvailableScripts();
-          setScripts(availableScripts.map((s: any) => ({
-            id: s.id,
-            name: s.name,
-            description: s.description,
-            category: s.category,
-            estimatedDuration: s.estimatedDuration,
-            order: s.order
-          })));
+          setScripts(availableScripts.map(toQuickScript));
         }
       } catch (err) {
         console.error('Failed to load scripts for dashboard:', err);
@@ -83,6 +98,24 @@ const Dashboard: React.FC = () => {
     loadScriptsAndFavorites();
   }, []);
 
+  // Pick up tools added, changed or removed on disk
+  useEffect(() => {
+    if (!window.electronAPI?.onScriptsChanged) return;
+
+    window.electronAPI.onScriptsChanged(async () => {
+      try {
+        const availableScripts = await window.electronAPI.getAvailableScripts();
+        setScripts(availableScripts.map(toQuickScript));
+      } catch (err) {
+        console.error('Failed to reload scripts for dashboard:', err);
+      }
+    });
+
+    return () => {
+      window.electronAPI?.removeScriptsChangedListener?.();
+    };
+  }, []);
+
   // Load execution stats from database
   useEffect(() => {
     const loadStats = async () => {
@@ -131,23 +164,34 @@ const Dashboard: React.FC = () => {
   };
 
   // Handle confirmed script execution
-  const handleConfirmExecution = async (showOutput: boolean = false) => {
+  const handleConfirmExecution = async (
+    showOutput: boolean = false,
+    dryRun: boolean = false,
+    waitForPreconditions: boolean = false
+  ) => {
     if (!selectedScript) return;
 
-    const executionId = startExecution(selectedScript.id, selectedScript.name);
+    const executionId = startExecution(selectedScript.id, selectedScript.name, { dryRun, parameters: {} });
 
-    if (showOutput) {
+    if (showOutput || dryRun) {
       openPanel();
     }
 
     try {
-      window.electronAPI.showNotification('info', `Starting "${selectedScript.name}"...`);
+      window.electronAPI.showNotification(
+        'info',
+        dryRun ? `Previewing "${selectedScript.name}"...` : `Starting "${selectedScript.name}"...`
+      );
 
       const updateHandler = (update: any) => {
         if (update.scriptId === selectedScript.id) {
           updateExecution(executionId, {
+            backendExecutionId: update.executionId,
             status: update.status,
+            queuePosition: update.queuePosition,
             progress: update.progress,
+            progressPhase: update.progressPhase,
+            progressStatus: update.progressStatus,
             output: update.output,
             error: update.error
           });
@@ -169,7 +213,7 @@ const Dashboard: React.FC = () => {
       };
 
       window.electronAPI.onScriptExecutionUpdate(updateHandler);
-      await window.electronAPI.executeScript(selectedScript.id, {});
+      await window.electronAPI.executeScript(selectedScript.id, {}, { dryRun, waitForPreconditions });
 
       setConfirmDialogOpen(false);
       setSelectedScript(null);
@@ -307,8 +351,12 @@ const Dashboard: React.FC = () => {
               setConfirmDialogOpen(false);
               setSelectedScript(null);
             }}
-            onConfirm={() => handleConfirmExecution(false)}
-            onConfirmAndView={() => handleConfirmExecution(true)}
+            onConfirm={options => handleConfirmExecution(false, false, options.waitForPreconditions)}
+            onConfirmAndView={options => handleConfirmExecution(true, false, options.waitForPreconditions)}
+            onPreview={options => handleConfirmExecution(true, true, options.waitForPreconditions)}
+            supportsWhatIf={selectedScript.supportsWhatIf}
+            capabilities={selectedScript.capabilities}
+            compatibility={selectedScript.compatibility}
             scriptId={selectedScript.id}
             scriptName={selectedScript.name}
             scriptDescription={selectedScript.description}
@@ -471,9 +519,14 @@ export const App: React.FC = () => {
               <Route path="/" element={<Dashboard />} />
               <Route path="/scripts" element={<ScriptsPage />} />
               <Route path="/logs" element={<LogsPage />} />
+              <Route path="/schedules" element={<SchedulesPage />} />
+              <Route path="/runbooks" element={<RunbooksPage />} />
+              <Route path="/catalog" element={<CatalogPage />} />
+              <Route path="/health" element={<ScriptHealthPage />} />
               <Route path="/about" element={<AboutPage />} />
             </Routes>
           </div>
+          <ScriptPromptDialog />
           <Toaster />
         </Router>
       </ScriptExecutionProvider>
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { canOpenArtifact, formatArtifactSize } from '../../../shared/execution/artifacts';
+import type { ExecutionArtifact } from '../../../preload/preload';
+
+export interface ExecutionArtifactsProps {
+  executionId: string;
+}
+
+/**
+ * Files a run left in its artifacts directory, with open, save-as and reveal actions.
+ * Renders nothing when the run produced no artifacts.
+ */
+export const ExecutionArtifacts: React.FC<ExecutionArtifactsProps> = ({ executionId }) => {
+  const [artifacts, setArtifacts] = useState<ExecutionArtifact[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadArtifacts = async () => {
+      try {
+        if (window.electronAPI?.getExecutionArtifacts) {
+          const result = await window.electronAPI.getExecutionArtifacts(executionId);
+          if (!cancelled) setArtifacts(result);
+        }
+      } catch (err) {
+        console.error('Failed to load artifacts:', err);
+      }
+    };
+    loadArtifacts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [executionId]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      console.error('Artifact action failed:', err);
+      setError((err as Error).message || 'The file could not be opened.');
+    }
+  };
+
+  if (artifacts.length === 0) return null;
+
+  return (
+    <div>
+      <div className="font-medium text-gray-700 mb-2">Files ({artifacts.length}):</div>
+      <div className="bg-white border border-gray-200 rounded divide-y divide-gray-100">
+        {artifacts.map(artifact => (
+          <div key={artifact.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="text-gray-800 font-mono truncate" title={artifact.relativePath}>
+                {artifact.relativePath}
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatArtifactSize(artifact.sizeBytes)} · {new Date(artifact.modifiedAt).toLocaleString()}
+              </div>
+            </div>
+            {canOpenArtifact(artifact.relativePath) && (
+              <Button variant="outline" size="sm" onClick={() => runAction(() => window.electronAPI.openArtifact(artifact.id))}>
+                Open
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => runAction(() => window.electronAPI.saveArtifactAs(artifact.id))}>
+              Save As
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => runAction(() => window.electronAPI.revealArtifact(artifact.id))}>
+              Show in Folder
+            </Button>
+          </div>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
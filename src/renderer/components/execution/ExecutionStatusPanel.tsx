@@ -1,17 +1,36 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { useScriptExecution } from '@/hooks/useScriptExecution';
+import { useScriptExecution, type ScriptExecution } from '@/hooks/useScriptExecution';
 import { ExecutionStatusBadge } from './ExecutionStatusBadge';
+import { ScriptResults } from './ScriptResults';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { formatProgressLabel } from '../../../shared/execution/progress';
+import { formatAttemptLabel } from '../../../shared/execution/retry';
 
 export interface ExecutionStatusPanelProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const PreviewBadge: React.FC = () => (
+  <span
+    className="ml-1.5 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wide bg-gray-100 text-gray-600 border border-gray-300 align-middle"
+    title="Preview run - nothing was changed"
+  >
+    Preview
+  </span>
+);
+
 export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOpen, onClose }) => {
-  const { activeExecutions, recentExecutions, cancelExecution, clearExecution, clearAllCompleted } =
-    useScriptExecution();
+  const {
+    activeExecutions,
+    recentExecutions,
+    startExecution,
+    updateExecution,
+    cancelExecution,
+    clearExecution,
+    clearAllCompleted,
+  } = useScriptExecution();
   const panelRef = useRef<HTMLDivElement>(null);
   const [expandedOutput, setExpandedOutput] = useState<string | null>(null);
 
@@ -19,6 +38,33 @@ export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOp
     setExpandedOutput((prev) => (prev === executionId ? null : executionId));
   };
 
+  const runningExecutions = activeExecutions.filter((execution) => execution.status === 'running');
+  const queuedExecutions = activeExecutions
+    .filter((execution) => execution.status === 'pending')
+    .sort((a, b) => (a.queuePosition ?? Infinity) - (b.queuePosition ?? Infinity));
+
+  // Run a previewed tool again for real, with the same parameters
+  const runForReal = async (preview: ScriptExecution) => {
+    const parameters = preview.parameters ?? {};
+    const executionId = startExecution(preview.scriptId, preview.scriptName, { parameters });
+    try {
+      await window.electronAPI.executeScript(preview.scriptId, parameters);
+    } catch (err) {
+      console.error('Script execution failed:', err);
+      updateExecution(executionId, {
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const moveQueued = (execution: ScriptExecution, offset: number) => {
+    if (execution.queuePosition === undefined) return;
+    window.electronAPI
+      .moveQueuedExecution(execution.backendExecutionId ?? execution.id, execution.queuePosition + offset)
+      .catch((err) => console.error('Failed to reorder queue:', err));
+  };
+
   // Handle click outside to close
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -105,13 +151,13 @@ export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOp
       {/* Content */}
       <div className="overflow-y-auto flex-1">
         {/* Active Executions */}
-        {activeExecutions.length > 0 && (
+        {runningExecutions.length > 0 && (
           <div className="p-4 border-b border-gray-200 bg-blue-50">
             <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-3">
-              Active ({activeExecutions.length})
+              Active ({runningExecutions.length})
             </h4>
             <div className="space-y-3">
-              {activeExecutions.map((execution) => (
+              {runningExecutions.map((execution) => (
                 <div
                   key={execution.id}
                   className="bg-white rounded-lg border border-blue-200 p-3 shadow-sm"
@@ -120,23 +166,36 @@ export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOp
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">
                         {execution.scriptName}
+                        {execution.dryRun && <PreviewBadge />}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         Started {formatTime(execution.startTime)} • {formatDuration(execution.startTime)}
                       </p>
+                      {execution.attempt && execution.maxAttempts && execution.attempt > 1 && (
+                        <p className="text-xs font-medium text-amber-700 mt-0.5">
+                          {formatAttemptLabel(execution.attempt, execution.maxAttempts)}
+                        </p>
+                      )}
                     </div>
                     <ExecutionStatusBadge status={execution.status} size="sm" />
                   </div>
 
-                  {execution.progress !== undefined && (
+                  {(execution.progress !== undefined || execution.progressPhase) && (
                     <div className="mt-2">
-                      <div className="w-full bg-gray-200 rounded-full h-1.5">
-                        <div
-                          className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
-                          style={{ width: `${execution.progress}%` }}
-                        ></div>
-                      </div>
-                      <p className="text-xs text-gray-500 mt-1">{execution.progress}% complete</p>
+                      {execution.progress !== undefined && (
+                        <div className="w-full bg-gray-200 rounded-full h-1.5">
+                          <div
+                            className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                            style={{ width: `${execution.progress}%` }}
+                          ></div>
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatProgressLabel({ percent: execution.progress, phase: execution.progressPhase })}
+                      </p>
+                      {execution.progressStatus && (
+                        <p className="text-xs text-gray-400 mt-0.5 truncate">{execution.progressStatus}</p>
+                      )}
                     </div>
                   )}
 
@@ -185,6 +244,74 @@ export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOp
           </div>
         )}
 
+        {/* Queued Executions */}
+        {queuedExecutions.length > 0 && (
+          <div className="p-4 border-b border-gray-200">
+            <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide mb-3">
+              Queued ({queuedExecutions.length})
+            </h4>
+            <div className="space-y-2">
+              {queuedExecutions.map((execution, index) => (
+                <div
+                  key={execution.id}
+                  className="rounded-lg border border-gray-200 p-3 flex items-center gap-3"
+                >
+                  <span className="text-xs font-semibold text-gray-500 w-5 text-center">
+                    {execution.queuePosition ?? '-'}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {execution.scriptName}
+                      {execution.dryRun && <PreviewBadge />}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Waiting since {formatTime(execution.startTime)}
+                    </p>
+                    {execution.progressPhase && (
+                      <p className="text-xs font-medium text-amber-700 mt-0.5">{execution.progressPhase}</p>
+                    )}
+                    {execution.progressStatus && (
+                      <p className="text-xs text-gray-400 mt-0.5 truncate" title={execution.progressStatus}>
+                        {execution.progressStatus}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => moveQueued(execution, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:hover:text-gray-400"
+                      aria-label="Move up"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => moveQueued(execution, 1)}
+                      disabled={index === queuedExecutions.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30 disabled:hover:text-gray-400"
+                      aria-label="Move down"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelExecution(execution.id)}
+                      className="text-xs ml-1"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Recent Executions */}
         {recentExecutions.length > 0 && (
           <div className="p-4">
@@ -206,9 +333,11 @@ export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOp
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">
                         {execution.scriptName}
+                        {execution.dryRun && <PreviewBadge />}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         {formatTime(execution.startTime)} • {formatDuration(execution.startTime, execution.endTime)}
+                        {execution.attempt && execution.attempt > 1 && ` • ${execution.attempt} attempts`}
                       </p>
                       {execution.error && (
                         <p className="text-xs text-red-600 mt-1 line-clamp-2">{execution.error}</p>
@@ -228,6 +357,22 @@ export const ExecutionStatusPanel: React.FC<ExecutionStatusPanelProps> = ({ isOp
                     </div>
                   </div>
 
+                  {/* Structured Results */}
+                  {execution.results && execution.results.length > 0 && (
+                    <div className="mt-2">
+                      <ScriptResults results={execution.results} compact />
+                    </div>
+                  )}
+
+                  {/* Run for Real after a successful Preview */}
+                  {execution.dryRun && execution.status === 'success' && (
+                    <div className="mt-2">
+                      <Button variant="outline" size="sm" onClick={() => runForReal(execution)}>
+                        Run for Real
+                      </Button>
+                    </div>
+                  )}
+
                   {/* View Output Button */}
                   {execution.output && (
                     <div className="mt-2">
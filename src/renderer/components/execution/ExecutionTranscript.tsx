@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { TranscriptLine, TranscriptPage } from '../../../preload/preload';
+
+export interface ExecutionTranscriptProps {
+  executionId: string;
+}
+
+type StreamFilter = 'all' | 'stdout' | 'stderr';
+
+const toQuery = (search: string, stream: StreamFilter) => ({
+  search: search || undefined,
+  stream: stream === 'all' ? undefined : stream,
+});
+
+/**
+ * A run's full output from its transcript, a page at a time, with search and download.
+ * Renders nothing when the run has no transcript.
+ */
+export const ExecutionTranscript: React.FC<ExecutionTranscriptProps> = ({ executionId }) => {
+  const [lines, setLines] = useState<TranscriptLine[]>([]);
+  const [page, setPage] = useState<TranscriptPage | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [stream, setStream] = useState<StreamFilter>('all');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadFirstPage = async () => {
+      try {
+        if (window.electronAPI?.readTranscript) {
+          setLoading(true);
+          const result = await window.electronAPI.readTranscript(executionId, toQuery(search, stream));
+          if (!cancelled) {
+            setPage(result);
+            setLines(result?.lines ?? []);
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load transcript:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadFirstPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [executionId, search, stream]);
+
+  const loadMore = async () => {
+    if (page?.nextOffset == null) return;
+    try {
+      setLoading(true);
+      const result = await window.electronAPI.readTranscript(executionId, {
+        ...toQuery(search, stream),
+        offset: page.nextOffset,
+      });
+      if (result) {
+        setPage(result);
+        setLines(previous => [...previous, ...result.lines]);
+      }
+    } catch (err) {
+      console.error('Failed to load transcript:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const download = async () => {
+    try {
+      await window.electronAPI.saveTranscriptAs(executionId);
+      setError(null);
+    } catch (err) {
+      console.error('Transcript download failed:', err);
+      setError((err as Error).message || 'The transcript could not be saved.');
+    }
+  };
+
+  if (!page || page.totalLines === 0) return null;
+
+  const filtered = !!search || stream !== 'all';
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-2">
+        <div className="font-medium text-gray-700">
+          Full Output ({page.totalLines.toLocaleString()} lines{page.complete ? '' : ', incomplete'}):
+        </div>
+        <div className="flex-1" />
+        <Button variant="outline" size="sm" onClick={download}>
+          Download Full Transcript
+        </Button>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          placeholder="Search output..."
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') setSearch(searchInput.trim());
+          }}
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        <select
+          value={stream}
+          onChange={(e) => setStream(e.target.value as StreamFilter)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        >
+          <option value="all">All output</option>
+          <option value="stdout">Output only</option>
+          <option value="stderr">Errors only</option>
+        </select>
+        <Button variant="outline" size="sm" onClick={() => setSearch(searchInput.trim())}>
+          Search
+        </Button>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded max-h-96 overflow-auto py-2 text-xs font-mono">
+        {lines.length === 0 && !loading && (
+          <div className="px-3 text-gray-500">{filtered ? 'No matching lines.' : 'No output.'}</div>
+        )}
+        {lines.map(line => (
+          <div
+            key={line.line}
+            className={line.stream === 'stderr' ? 'flex px-3 text-red-700 bg-red-50' : 'flex px-3 text-gray-800'}
+            title={new Date(line.time).toLocaleString()}
+          >
+            <span className="w-14 shrink-0 pr-3 text-right text-gray-400 select-none">{line.line + 1}</span>
+            <span className="whitespace-pre-wrap break-all">{line.text}</span>
+          </div>
+        ))}
+      </div>
+
+      {page.nextOffset !== null && (
+        <div className="mt-2 flex justify-center">
+          <Button variant="outline" size="sm" onClick={loadMore} disabled={loading}>
+            {loading ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useScriptExecution } from '@/hooks/useScriptExecution';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ScriptPromptRequest } from '../../../preload/preload';
+
+/**
+ * Shows questions asked by running scripts (Read-Host, PromptForChoice) and sends the
+ * answer back to the script. Prompts are queued so concurrent scripts get answered in turn.
+ */
+export const ScriptPromptDialog: React.FC = () => {
+  const { executions } = useScriptExecution();
+  const [prompts, setPrompts] = useState<ScriptPromptRequest[]>([]);
+  const [value, setValue] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const current = prompts[0];
+
+  useEffect(() => {
+    if (!window.electronAPI?.onScriptPrompt) return;
+
+    window.electronAPI.onScriptPrompt((prompt) => {
+      setPrompts(prev => [...prev, prompt]);
+    });
+
+    return () => {
+      window.electronAPI?.removeScriptPromptListener?.();
+    };
+  }, []);
+
+  // Drop prompts for runs that have finished - the script can no longer read the answer
+  useEffect(() => {
+    const finished = new Set(
+      executions.filter(e => e.status !== 'running' && e.status !== 'pending').map(e => e.id)
+    );
+    setPrompts(prev => {
+      const remaining = prev.filter(p => !finished.has(p.executionId));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [executions]);
+
+  // Reset the form whenever a new prompt comes to the front of the queue
+  useEffect(() => {
+    setValue('');
+    setError(null);
+    if (current?.kind === 'text') {
+      inputRef.current?.focus();
+    }
+  }, [current?.promptId]);
+
+  if (!current) return null;
+
+  const respond = async (answer: { value?: string; choice?: number; cancelled?: boolean }) => {
+    setSubmitting(true);
+    try {
+      await window.electronAPI.respondToScriptPrompt({
+        executionId: current.executionId,
+        promptId: current.promptId,
+        ...answer,
+      });
+      setPrompts(prev => prev.slice(1));
+    } catch (err) {
+      console.error('Failed to answer prompt:', err);
+      setError((err as Error).message || 'Failed to send the answer.');
+      // The script is gone or stopped waiting; let the user dismiss it
+      setPrompts(prev => prev.filter((p, index) => index === 0 || p.executionId !== current.executionId));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const dismiss = () => setPrompts(prev => prev.slice(1));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/65 flex items-center justify-center z-50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="script-prompt-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="p-6">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">{current.scriptName}</p>
+          <h3 id="script-prompt-title" className="text-lg font-semibold text-gray-900 mt-1">
+            {current.title || 'Input needed'}
+          </h3>
+          {current.message && (
+            <p className="text-sm text-gray-600 mt-2 whitespace-pre-wrap">{current.message}</p>
+          )}
+
+          {current.kind === 'text' ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                respond({ value });
+              }}
+            >
+              <input
+                ref={inputRef}
+                type={current.masked ? 'password' : 'text'}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoComplete="off"
+                className="mt-4 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                disabled={submitting}
+              />
+              {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+              <div className="flex gap-3 justify-end mt-6">
+                {error ? (
+                  <Button type="button" variant="outline" onClick={dismiss}>
+                    Close
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => respond({ cancelled: true })}
+                      disabled={submitting}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="bg-[#00468b] hover:bg-[#003d79] text-white"
+                      disabled={submitting}
+                    >
+                      Submit
+                    </Button>
+                  </>
+                )}
+              </div>
+            </form>
+          ) : (
+            <>
+              <div className="mt-4 space-y-2">
+                {current.choices?.map((choice, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => respond({ choice: index })}
+                    disabled={submitting || !!error}
+                    className={cn(
+                      'w-full text-left px-4 py-2 rounded-lg border text-sm transition-colors disabled:opacity-50',
+                      index === current.defaultChoice
+                        ? 'border-[#00468b] text-[#00468b] bg-blue-50 hover:bg-blue-100'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    )}
+                  >
+                    <span className="font-medium">{choice.label}</span>
+                    {choice.helpMessage && (
+                      <span className="block text-xs text-gray-500 mt-0.5">{choice.helpMessage}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+              {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+              <div className="flex gap-3 justify-end mt-6">
+                {error ? (
+                  <Button variant="outline" onClick={dismiss}>
+                    Close
+                  </Button>
+                ) : (
+                  <Button variant="outline" onClick={() => respond({ cancelled: true })} disabled={submitting}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
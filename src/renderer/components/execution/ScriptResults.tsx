@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { formatResultValue, sortResultRows } from '../../../shared/execution/result';
+import type { ScriptResult } from '../../../preload/preload';
+
+type ScriptResultTable = Extract<ScriptResult, { kind: 'table' }>;
+type ScriptResultSummary = Extract<ScriptResult, { kind: 'summary' }>;
+
+export interface ScriptResultsProps {
+  results: ScriptResult[];
+  /** Smaller cards and a shorter table height, for the status panel */
+  compact?: boolean;
+}
+
+const SummaryCard: React.FC<{ result: ScriptResultSummary; compact?: boolean }> = ({ result, compact }) => (
+  <div className="bg-white border border-gray-200 rounded p-3">
+    {result.title && (
+      <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{result.title}</div>
+    )}
+    {result.text && (
+      <div className={cn('font-medium text-gray-900', compact ? 'text-sm' : 'text-base')}>{result.text}</div>
+    )}
+    {result.items.length > 0 && (
+      <dl className={cn('mt-2 grid gap-x-4 gap-y-1 text-sm', compact ? 'grid-cols-1' : 'grid-cols-2')}>
+        {result.items.map(item => (
+          <div key={item.label} className="flex justify-between gap-2">
+            <dt className="text-gray-500 truncate">{item.label}</dt>
+            <dd className="text-gray-900 font-medium text-right">{formatResultValue(item.value)}</dd>
+          </div>
+        ))}
+      </dl>
+    )}
+  </div>
+);
+
+const ResultTable: React.FC<{ result: ScriptResultTable; compact?: boolean }> = ({ result, compact }) => {
+  const [sort, setSort] = useState<{ column: string; direction: 'asc' | 'desc' } | null>(null);
+
+  const rows = sort ? sortResultRows(result.rows, sort.column, sort.direction) : result.rows;
+
+  const toggleSort = (column: string) => {
+    setSort(prev =>
+      prev?.column === column
+        ? { column, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: 'asc' }
+    );
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded overflow-hidden">
+      {result.title && (
+        <div className="px-3 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wide border-b border-gray-100">
+          {result.title} ({result.rows.length}{result.truncated ? '+' : ''})
+        </div>
+      )}
+      <div className={cn('overflow-auto', compact ? 'max-h-40' : 'max-h-80')}>
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {result.columns.map(column => (
+                <th key={column} className="px-3 py-1.5 text-left font-medium text-gray-600 whitespace-nowrap">
+                  <button
+                    onClick={() => toggleSort(column)}
+                    className="hover:text-gray-900"
+                    title={`Sort by ${column}`}
+                  >
+                    {column}
+                    {sort?.column === column && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, index) => (
+              <tr key={index}>
+                {result.columns.map(column => (
+                  <td
+                    key={column}
+                    className={cn(
+                      'px-3 py-1 text-gray-800 whitespace-nowrap',
+                      typeof row[column] === 'number' && 'text-right tabular-nums'
+                    )}
+                  >
+                    {formatResultValue(row[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {result.truncated && (
+        <div className="px-3 py-1.5 text-xs text-gray-500 border-t border-gray-100">
+          Only the first {result.rows.length.toLocaleString()} rows were kept.
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Summary cards and sortable tables a script reported with Write-FakResult or
+ * ##FAK-RESULT marker lines. Renders nothing when there are none.
+ */
+export const ScriptResults: React.FC<ScriptResultsProps> = ({ results, compact }) => {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {results.map((result, index) =>
+        result.kind === 'summary' ? (
+          <SummaryCard key={index} result={result} compact={compact} />
+        ) : (
+          <ResultTable key={index} result={result} compact={compact} />
+        )
+      )}
+    </div>
+  );
+};
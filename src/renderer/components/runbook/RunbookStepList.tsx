@@ -0,0 +1,43 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { RunbookExecution } from '../../../preload/preload';
+
+type RunbookStepState = RunbookExecution['steps'][number];
+
+export interface RunbookStepListProps {
+  steps: RunbookStepState[];
+  className?: string;
+}
+
+const STEP_STYLES: Record<RunbookStepState['status'], { label: string; dot: string; text: string }> = {
+  pending: { label: 'Waiting', dot: 'border-gray-300 bg-white', text: 'text-gray-500' },
+  running: { label: 'Running', dot: 'border-blue-500 bg-blue-500 animate-pulse', text: 'text-blue-700' },
+  success: { label: 'Done', dot: 'border-green-500 bg-green-500', text: 'text-green-700' },
+  error: { label: 'Failed', dot: 'border-red-500 bg-red-500', text: 'text-red-700' },
+  cancelled: { label: 'Cancelled', dot: 'border-gray-400 bg-gray-400', text: 'text-gray-600' },
+  skipped: { label: 'Skipped', dot: 'border-gray-300 bg-gray-100', text: 'text-gray-400' },
+};
+
+/**
+ * Steps of a runbook run with their live status, in definition order.
+ */
+export const RunbookStepList: React.FC<RunbookStepListProps> = ({ steps, className }) => (
+  <ol className={cn('space-y-2', className)}>
+    {steps.map((step, index) => {
+      const style = STEP_STYLES[step.status];
+      return (
+        <li key={step.stepId} className="flex items-center gap-3 text-sm">
+          <span className={cn('w-3 h-3 rounded-full border-2 flex-shrink-0', style.dot)} aria-hidden="true" />
+          <span className={cn('flex-1', step.status === 'skipped' ? 'text-gray-400' : 'text-gray-900')}>
+            {index + 1}. {step.name}
+          </span>
+          <span className={cn('text-xs font-medium', style.text)}>
+            {style.label}
+            {step.exitCode !== undefined && step.status !== 'cancelled' && ` (exit ${step.exitCode})`}
+            {step.runs > 1 && ` · ran ${step.runs}×`}
+          </span>
+        </li>
+      );
+    })}
+  </ol>
+);
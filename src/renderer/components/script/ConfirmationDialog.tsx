@@ -1,10 +1,20 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { ConcurrencyConflict, PreconditionCheck, RerunInfo } from '../../../preload/preload';
+import { describeParameterChange } from '../../../shared/execution/rerun';
+import { CAPABILITY_LABELS, type ScriptCapability } from '../../../shared/execution/capabilities';
+import type { ScriptCompatibility } from '../../../shared/execution/requirements';
+
+/** Choices made in the dialog that apply to the run */
+export interface ConfirmRunOptions {
+  /** Keep the run pending until the tool's preconditions pass */
+  waitForPreconditions: boolean;
+}
 
 export interface ConfirmationDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
-  onConfirmAndView: () => void;
+  onConfirm: (options: ConfirmRunOptions) => void;
+  onConfirmAndView: (options: ConfirmRunOptions) => void;
   scriptId: string;
   scriptName: string;
   scriptDescription: string;
@@ -13,6 +23,17 @@ export interface ConfirmationDialogProps {
   order?: number;
   isFavorite?: boolean;
   onToggleFavorite?: (scriptId: string) => void;
+  /** Shows the Preview button - the tool reports what it would do without changing anything */
+  supportsWhatIf?: boolean;
+  onPreview?: (options: ConfirmRunOptions) => void;
+  /** Declared capabilities; undefined when the tool declares none and runs unrestricted */
+  capabilities?: ScriptCapability[];
+  /** Whether this PC can run the tool; an incompatible tool can't be started from the dialog */
+  compatibility?: ScriptCompatibility;
+  /** Set for "Run again": the earlier run's parameters and what changed in the tool since */
+  rerunInfo?: RerunInfo;
+  /** Shows Export Package - saves the tool as a .fakpkg file */
+  onExport?: (scriptId: string) => void;
 }
 
 // Pin Icon Component
@@ -86,9 +107,85 @@ export const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
   order,
   isFavorite = false,
   onToggleFavorite,
+  supportsWhatIf = false,
+  onPreview,
+  capabilities,
+  compatibility,
+  rerunInfo,
+  onExport,
 }) => {
   const dialogRef = useRef<HTMLDivElement>(null);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [conflict, setConflict] = useState<ConcurrencyConflict | null>(null);
+
+  // Ask the executor whether a concurrency group or instance limit would hold this run back
+  useEffect(() => {
+    if (!isOpen || !window.electronAPI?.checkScriptConcurrency) {
+      setConflict(null);
+      return;
+    }
+
+    let cancelled = false;
+    window.electronAPI.checkScriptConcurrency(scriptId)
+      .then(result => {
+        if (!cancelled) setConflict(result);
+      })
+      .catch(err => {
+        console.error('Failed to check tool concurrency:', err);
+        if (!cancelled) setConflict(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, scriptId]);
+
+  const [preconditions, setPreconditions] = useState<PreconditionCheck | null>(null);
+  const [isCheckingPreconditions, setIsCheckingPreconditions] = useState(false);
+  const [waitForPreconditions, setWaitForPreconditions] = useState(false);
+
+  // Check the tool's declared preconditions (disk space, network, power, ...) up front
+  const checkPreconditions = useCallback(async (isCurrent: () => boolean = () => true) => {
+    if (!window.electronAPI?.checkScriptPreconditions) {
+      setPreconditions(null);
+      return;
+    }
+
+    setIsCheckingPreconditions(true);
+    try {
+      const result = await window.electronAPI.checkScriptPreconditions(scriptId);
+      if (isCurrent()) setPreconditions(result);
+    } catch (err) {
+      console.error('Failed to check tool preconditions:', err);
+      if (isCurrent()) setPreconditions(null);
+    } finally {
+      if (isCurrent()) setIsCheckingPreconditions(false);
+    }
+  }, [scriptId]);
+
+  useEffect(() => {
+    setPreconditions(null);
+    setWaitForPreconditions(false);
+    if (!isOpen) return;
+
+    let cancelled = false;
+    checkPreconditions(() => !cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, checkPreconditions]);
+
+  const failedPreconditions = preconditions?.results.filter(result => !result.passed) ?? [];
+  const isRejected = conflict?.policy === 'reject';
+  const isIncompatible = compatibility?.compatible === false;
+  const isBlocked =
+    isIncompatible ||
+    isRejected ||
+    isCheckingPreconditions ||
+    (failedPreconditions.length > 0 && !waitForPreconditions);
+  const runOptions: ConfirmRunOptions = { waitForPreconditions: failedPreconditions.length > 0 && waitForPreconditions };
+  const rerunParameters = rerunInfo ? Object.entries(rerunInfo.parameters) : [];
+  const hasRerunChanges = !!rerunInfo && (rerunInfo.scriptChanged === true || rerunInfo.parameterChanges.length > 0);
 
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -155,7 +252,7 @@ export const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
           <div className="flex items-start justify-between">
             <div className="flex-1">
               <h2 id="dialog-title" className="text-xl font-semibold text-gray-900">
-                Execute Tool?
+                {rerunInfo ? 'Run Again?' : 'Execute Tool?'}
               </h2>
               <p className="mt-1 text-sm text-gray-500">
                 Please confirm you want to run this tool
@@ -201,7 +298,138 @@ export const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               Est. {formatDuration(estimatedDuration)}
+              {onExport && (
+                <button
+                  onClick={() => onExport(scriptId)}
+                  className="ml-auto text-[#00468b] hover:underline"
+                >
+                  Export Package
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Parameters from the earlier run */}
+          {rerunInfo && (
+            <div>
+              <p className="text-sm font-medium text-gray-700">Parameters from the earlier run</p>
+              {rerunParameters.length > 0 ? (
+                <dl className="mt-2 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm space-y-1">
+                  {rerunParameters.map(([name, value]) => (
+                    <div key={name} className="flex justify-between gap-4">
+                      <dt className="text-gray-500">{name}</dt>
+                      <dd className="text-gray-900 font-mono text-right break-all">{JSON.stringify(value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : (
+                <p className="mt-1 text-sm text-gray-500">None</p>
+              )}
+            </div>
+          )}
+
+          {/* Changes since the earlier run */}
+          {hasRerunChanges && (
+            <div className="rounded-lg p-4 border bg-amber-50 border-amber-200" role="status">
+              <p className="text-sm font-medium text-amber-800">This tool has changed since that run</p>
+              <ul className="text-sm mt-1 text-amber-700 list-disc list-inside space-y-0.5">
+                {rerunInfo!.scriptChanged && <li>The script file was modified</li>}
+                {rerunInfo!.parameterChanges.map(change => (
+                  <li key={change.name}>{describeParameterChange(change)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {rerunInfo && rerunInfo.scriptChanged === null && (
+            <p className="text-xs text-gray-500">
+              This run is older than change tracking, so changes to the tool since then can't be shown.
+            </p>
+          )}
+
+          {/* Compatibility Notice */}
+          {isIncompatible && (
+            <div className="rounded-lg p-4 border bg-red-50 border-red-200" role="status">
+              <p className="text-sm font-medium text-red-800">This tool can't run on this PC</p>
+              <ul className="text-sm mt-1 text-red-700 list-disc list-inside space-y-0.5">
+                {compatibility!.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Preconditions Notice */}
+          {failedPreconditions.length > 0 && (
+            <div className="rounded-lg p-4 border bg-red-50 border-red-200" role="status">
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-sm font-medium text-red-800">Conditions for this tool aren't met</p>
+                <button
+                  type="button"
+                  onClick={() => checkPreconditions()}
+                  disabled={isCheckingPreconditions}
+                  className="text-sm font-medium text-red-700 hover:text-red-900 underline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isCheckingPreconditions ? 'Checking...' : 'Check again'}
+                </button>
+              </div>
+              <ul className="text-sm mt-1 text-red-700 list-disc list-inside space-y-0.5">
+                {failedPreconditions.map(result => (
+                  <li key={result.label}>
+                    {result.label}
+                    {result.detail && <span className="text-red-600"> - {result.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+              <label className="flex items-center gap-2 mt-3 text-sm text-red-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={waitForPreconditions}
+                  onChange={e => setWaitForPreconditions(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-[#00468b] focus:ring-[#00468b]"
+                />
+                Run automatically when conditions are met
+              </label>
+            </div>
+          )}
+
+          {/* Concurrency Notice */}
+          {conflict && (
+            <div
+              className={`rounded-lg p-4 border ${
+                isRejected ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+              }`}
+              role="status"
+            >
+              <p className={`text-sm font-medium ${isRejected ? 'text-red-800' : 'text-amber-800'}`}>
+                {isRejected ? 'This tool is blocked right now' : 'This tool will wait in the queue'}
+              </p>
+              <p className={`text-sm mt-1 ${isRejected ? 'text-red-700' : 'text-amber-700'}`}>
+                {conflict.reason}{' '}
+                {isRejected
+                  ? 'Try again once it has finished.'
+                  : 'It will start automatically once that finishes.'}
+              </p>
             </div>
+          )}
+
+          {/* Capabilities */}
+          <div>
+            <p className="text-sm font-medium text-gray-700">What this tool can do</p>
+            {!capabilities ? (
+              <p className="mt-1 text-sm text-gray-500">
+                This tool doesn't declare what it needs, so it runs without restrictions.
+              </p>
+            ) : capabilities.length === 0 ? (
+              <p className="mt-1 text-sm text-gray-500">
+                Nothing beyond reading this PC and writing to its own working folders.
+              </p>
+            ) : (
+              <ul className="mt-1 text-sm text-gray-600 list-disc list-inside space-y-0.5">
+                {capabilities.map(capability => (
+                  <li key={capability}>{CAPABILITY_LABELS[capability]}</li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {/* Info Notice */}
@@ -238,13 +466,32 @@ export const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
           >
             Cancel
           </button>
+          {supportsWhatIf && onPreview && (
+            <button
+              type="button"
+              onClick={() => {
+                onPreview(runOptions);
+                onClose();
+              }}
+              disabled={isBlocked}
+              title="Show what this tool would change, without changing anything"
+              className="inline-flex items-center justify-center h-10 px-4 rounded-md text-sm font-medium border-2 border-gray-300 text-gray-700 bg-white hover:bg-gray-100 cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              Preview
+            </button>
+          )}
           <button
             type="button"
             onClick={() => {
-              onConfirm();
+              onConfirm(runOptions);
               onClose();
             }}
-            className="inline-flex items-center justify-center h-10 px-4 rounded-md text-sm font-medium border-2 border-[#00468b] text-[#00468b] bg-white hover:bg-blue-50 cursor-pointer transition-colors"
+            disabled={isBlocked}
+            className="inline-flex items-center justify-center h-10 px-4 rounded-md text-sm font-medium border-2 border-[#00468b] text-[#00468b] bg-white hover:bg-blue-50 cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 24 24">
               <path d="M8 5v14l11-7z" />
@@ -254,10 +501,11 @@ export const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
           <button
             type="button"
             onClick={() => {
-              onConfirmAndView();
+              onConfirmAndView(runOptions);
               onClose();
             }}
-            className="inline-flex items-center justify-center h-10 px-4 rounded-md text-sm font-medium bg-[#00468b] hover:bg-[#003d79] text-white cursor-pointer transition-colors"
+            disabled={isBlocked}
+            className="inline-flex items-center justify-center h-10 px-4 rounded-md text-sm font-medium bg-[#00468b] hover:bg-[#003d79] text-white cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 24 24">
               <path d="M8 5v14l11-7z" />
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle, CardDescription } from '../common/Card';
 import { ExecutionStatusBadge } from '../execution/ExecutionStatusBadge';
 import type { ScriptExecution } from '@/hooks/useScriptExecution';
+import type { ScriptCompatibility } from '../../../shared/execution/requirements';
 
 export interface ScriptCardProps {
   id: string;
@@ -12,6 +13,8 @@ export interface ScriptCardProps {
   executionStatus?: ScriptExecution['status'];
   isFavorite?: boolean;
   order?: number;
+  /** Tools this PC can't run are shown disabled with the reasons */
+  compatibility?: ScriptCompatibility;
   onExecute: (scriptId: string) => void;
   onToggleFavorite?: (scriptId: string) => void;
 }
@@ -90,10 +93,12 @@ export const ScriptCard: React.FC<ScriptCardProps> = ({
   executionStatus,
   isFavorite = false,
   order,
+  compatibility,
   onExecute,
   onToggleFavorite,
 }) => {
   const [isAnimating, setIsAnimating] = useState(false);
+  const incompatible = compatibility?.compatible === false;
 
   const formatDuration = (ms: number): string => {
     const seconds = Math.floor(ms / 1000);
@@ -113,7 +118,7 @@ export const ScriptCard: React.FC<ScriptCardProps> = ({
   };
 
   return (
-    <Card className="hover:shadow-md transition-shadow relative">
+    <Card className={`hover:shadow-md transition-shadow relative ${incompatible ? 'opacity-75' : ''}`}>
       <CardHeader>
         <div className="flex items-start justify-between">
           <div className="flex-1 pr-2">
@@ -170,6 +175,25 @@ export const ScriptCard: React.FC<ScriptCardProps> = ({
             </svg>
             <span>Est. {formatDuration(estimatedDuration)}</span>
           </div>
+
+          {incompatible && (
+            <div className="flex items-start text-sm text-amber-800">
+              <svg
+                className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-amber-500"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+                />
+              </svg>
+              <span>{compatibility!.reasons.join('; ')}</span>
+            </div>
+          )}
         </div>
       </CardContent>
 
@@ -184,7 +208,8 @@ export const ScriptCard: React.FC<ScriptCardProps> = ({
               e.stopPropagation();
               onExecute(id);
             }}
-            disabled={executionStatus === 'running' || executionStatus === 'pending'}
+            disabled={incompatible || executionStatus === 'running' || executionStatus === 'pending'}
+            title={incompatible ? 'Not available on this PC' : undefined}
             className="ml-auto inline-flex items-center justify-center h-9 px-4 rounded-md text-sm font-medium bg-[#00468b] hover:bg-[#003d79] text-white cursor-pointer transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <svg
@@ -194,7 +219,9 @@ export const ScriptCard: React.FC<ScriptCardProps> = ({
             >
               <path d="M8 5v14l11-7z" />
             </svg>
-            {executionStatus === 'running' || executionStatus === 'pending' ? 'Running...' : 'Run'}
+            {executionStatus === 'running' || executionStatus === 'pending'
+              ? 'Running...'
+              : incompatible ? 'Not Available' : 'Run'}
           </button>
         </div>
       </CardFooter>
@@ -1,34 +1,67 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import type { ResourceUsage, ScriptResult } from '../../preload/preload';
 
 export interface ScriptExecution {
   id: string;
+  /** ID assigned by the main process, when it differs from the local id */
+  backendExecutionId?: string;
   scriptId: string;
   scriptName: string;
   status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
   startTime: Date;
   endTime?: Date;
+  /** 1-based position while waiting in the execution queue */
+  queuePosition?: number;
   progress?: number;
+  /** Current phase reported by the script, e.g. "Copying Documents" */
+  progressPhase?: string;
+  /** Detail text reported by the script, e.g. "1,204 of 2,870 files" */
+  progressStatus?: string;
   output?: string;
   error?: string;
+  /** Memory, CPU and disk figures, once the run has completed */
+  resourceUsage?: ResourceUsage;
+  /** Summary cards and tables the script reported */
+  results?: ScriptResult[];
+  /** Current attempt, for scripts that retry automatically after a failure */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Preview run - the tool only reported what it would change */
+  dryRun?: boolean;
+  /** Parameters the run was started with, for "Run for Real" after a Preview */
+  parameters?: Record<string, any>;
 }
 
 interface ExecutionUpdate {
   executionId: string;
   scriptId?: string;
   scriptName?: string;
-  status: 'running' | 'success' | 'error' | 'cancelled';
+  status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+  queuePosition?: number;
   progress?: number;
+  progressPhase?: string;
+  progressStatus?: string;
   output?: string;
   error?: string;
   duration?: number;
   exitCode?: number;
+  resourceUsage?: ResourceUsage;
+  results?: ScriptResult[];
+  attempt?: number;
+  maxAttempts?: number;
+  dryRun?: boolean;
+}
+
+export interface StartExecutionOptions {
+  dryRun?: boolean;
+  parameters?: Record<string, any>;
 }
 
 interface ScriptExecutionContextValue {
   executions: ScriptExecution[];
   activeExecutions: ScriptExecution[];
   recentExecutions: ScriptExecution[];
-  startExecution: (scriptId: string, scriptName: string) => string;
+  startExecution: (scriptId: string, scriptName: string, options?: StartExecutionOptions) => string;
   updateExecution: (executionId: string, updates: Partial<ScriptExecution>) => void;
   cancelExecution: (executionId: string) => void;
   clearExecution: (executionId: string) => void;
@@ -56,61 +89,60 @@ export const ScriptExecutionProvider: React.FC<{ children: ReactNode }> = ({ chi
       console.log('Global execution update received:', update);
 
       setExecutions((prev) => {
+        const mergeUpdate = (exec: ScriptExecution): ScriptExecution => ({
+          ...exec,
+          backendExecutionId: exec.id === update.executionId ? exec.backendExecutionId : update.executionId,
+          status: update.status,
+          queuePosition: update.queuePosition ?? exec.queuePosition,
+          progress: update.progress ?? exec.progress,
+          progressPhase: update.progressPhase ?? exec.progressPhase,
+          progressStatus: update.progressStatus ?? exec.progressStatus,
+          output: update.output ?? exec.output,
+          error: update.error ?? exec.error,
+          resourceUsage: update.resourceUsage ?? exec.resourceUsage,
+          results: update.results ?? exec.results,
+          attempt: update.attempt ?? exec.attempt,
+          maxAttempts: update.maxAttempts ?? exec.maxAttempts,
+          dryRun: update.dryRun ?? exec.dryRun,
+          scriptName: update.scriptName || exec.scriptName,
+          scriptId: update.scriptId || exec.scriptId,
+          endTime: ['success', 'error', 'cancelled'].includes(update.status)
+            ? new Date()
+            : exec.endTime,
+        });
+
         // First check if there's an execution with matching executionId
-        const existingById = prev.findIndex(e => e.id === update.executionId);
+        const existingById = prev.findIndex(
+          e => e.id === update.executionId || e.backendExecutionId === update.executionId
+        );
 
-        // Also check if there's already a running execution for this script (UI-initiated)
+        // Also check if there's a UI-initiated execution for this script not yet linked to a backend ID
         const existingByScriptId = prev.findIndex(
-          e => e.scriptId === update.scriptId && e.status === 'running'
+          e => e.scriptId === update.scriptId &&
+            !e.backendExecutionId &&
+            (e.status === 'running' || e.status === 'pending')
         );
 
         if (existingById !== -1) {
-          // Update existing execution by ID
-          return prev.map((exec) =>
-            exec.id === update.executionId
-              ? {
-                  ...exec,
-                  status: update.status,
-                  progress: update.progress ?? exec.progress,
-                  output: update.output ?? exec.output,
-                  error: update.error ?? exec.error,
-                  scriptName: update.scriptName || exec.scriptName,
-                  scriptId: update.scriptId || exec.scriptId,
-                  endTime: ['success', 'error', 'cancelled'].includes(update.status)
-                    ? new Date()
-                    : exec.endTime,
-                }
-              : exec
-          );
+          return prev.map((exec, idx) => (idx === existingById ? mergeUpdate(exec) : exec));
         }
 
         if (existingByScriptId !== -1) {
-          // There's already a UI-initiated execution for this script - update it instead
-          return prev.map((exec, idx) =>
-            idx === existingByScriptId
-              ? {
-                  ...exec,
-                  status: update.status,
-                  progress: update.progress ?? exec.progress,
-                  output: update.output ?? exec.output,
-                  error: update.error ?? exec.error,
-                  endTime: ['success', 'error', 'cancelled'].includes(update.status)
-                    ? new Date()
-                    : exec.endTime,
-                }
-              : exec
-          );
+          return prev.map((exec, idx) => (idx === existingByScriptId ? mergeUpdate(exec) : exec));
         }
 
-        // No existing execution found - this is a protocol-triggered execution
-        if (update.status === 'running' && update.scriptName) {
+        // No existing execution found - this is a protocol-triggered, scheduled or restored execution
+        if ((update.status === 'running' || update.status === 'pending') && update.scriptName) {
           const newExecution: ScriptExecution = {
             id: update.executionId,
             scriptId: update.scriptId || 'unknown',
             scriptName: update.scriptName,
             status: update.status,
             startTime: new Date(),
+            queuePosition: update.queuePosition,
             progress: update.progress,
+            progressPhase: update.progressPhase,
+            progressStatus: update.progressStatus,
             output: update.output,
           };
           return [newExecution, ...prev];
@@ -128,7 +160,7 @@ export const ScriptExecutionProvider: React.FC<{ children: ReactNode }> = ({ chi
   }, []);
 
   // Start a new execution
-  const startExecution = useCallback((scriptId: string, scriptName: string): string => {
+  const startExecution = useCallback((scriptId: string, scriptName: string, options?: StartExecutionOptions): string => {
     const executionId = `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     const newExecution: ScriptExecution = {
@@ -137,6 +169,8 @@ export const ScriptExecutionProvider: React.FC<{ children: ReactNode }> = ({ chi
       scriptName,
       status: 'running',
       startTime: new Date(),
+      dryRun: options?.dryRun,
+      parameters: options?.parameters,
     };
 
     setExecutions((prev) => [newExecution, ...prev]);
@@ -146,12 +180,17 @@ export const ScriptExecutionProvider: React.FC<{ children: ReactNode }> = ({ chi
 
   // Update an existing execution
   const updateExecution = useCallback((executionId: string, updates: Partial<ScriptExecution>) => {
+    // Drop undefined fields so an output-only update doesn't wipe the reported progress
+    const definedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ) as Partial<ScriptExecution>;
+
     setExecutions((prev) =>
       prev.map((exec) =>
         exec.id === executionId
           ? {
               ...exec,
-              ...updates,
+              ...definedUpdates,
               endTime: updates.status && ['success', 'error', 'cancelled'].includes(updates.status)
                 ? new Date()
                 : exec.endTime,
@@ -163,15 +202,16 @@ export const ScriptExecutionProvider: React.FC<{ children: ReactNode }> = ({ chi
 
   // Cancel an execution
   const cancelExecution = useCallback((executionId: string) => {
+    const execution = executions.find(e => e.id === executionId);
     updateExecution(executionId, { status: 'cancelled' });
 
     // Call the actual cancel API
     if (window.electronAPI?.cancelScriptExecution) {
-      window.electronAPI.cancelScriptExecution(executionId).catch((err) => {
+      window.electronAPI.cancelScriptExecution(execution?.backendExecutionId ?? executionId).catch((err) => {
         console.error('Failed to cancel script execution:', err);
       });
     }
-  }, [updateExecution]);
+  }, [executions, updateExecution]);
 
   // Clear a single execution from the list
   const clearExecution = useCallback((executionId: string) => {
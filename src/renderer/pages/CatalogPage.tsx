@@ -0,0 +1,326 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppLayout } from '../components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/common/Card';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { DEFAULT_CATALOG_KEEP_VERSIONS, MAX_CATALOG_KEEP_VERSIONS } from '../../shared/catalog/catalog';
+import type { CatalogChange, CatalogScriptInfo, CatalogStatus } from '../../preload/preload';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+const CHANGE_LABELS: Record<CatalogChange['action'], string> = {
+  install: 'Installed',
+  update: 'Updated',
+  remove: 'Removed',
+  rollback: 'Rolled back',
+  pin: 'Pinned',
+  unpin: 'Unpinned',
+  failed: 'Update failed',
+  rejected: 'Catalog rejected',
+};
+
+const describeVersions = (change: CatalogChange): string => {
+  if (change.fromVersion && change.toVersion) return `${change.fromVersion} → ${change.toVersion}`;
+  return change.toVersion ?? change.fromVersion ?? '';
+};
+
+export const CatalogPage: React.FC = () => {
+  const [status, setStatus] = useState<CatalogStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Catalog settings form
+  const [source, setSource] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [keepVersions, setKeepVersions] = useState(DEFAULT_CATALOG_KEEP_VERSIONS);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  const [rollbackVersions, setRollbackVersions] = useState<Record<string, string>>({});
+
+  const loadStatus = useCallback(async () => {
+    try {
+      if (window.electronAPI?.getCatalogStatus) {
+        setStatus(await window.electronAPI.getCatalogStatus());
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load catalog status:', err);
+      setError('Failed to load the catalog. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadAll = async () => {
+      setLoading(true);
+      try {
+        if (window.electronAPI?.getSettings) {
+          const settings = await window.electronAPI.getSettings();
+          setSource(settings.catalogSource ?? '');
+          setPublicKey(settings.catalogPublicKey ?? '');
+          setKeepVersions(settings.catalogKeepVersions ?? DEFAULT_CATALOG_KEEP_VERSIONS);
+        }
+      } catch (err) {
+        console.error('Failed to load catalog settings:', err);
+      }
+      await loadStatus();
+      setLoading(false);
+    };
+    loadAll();
+  }, [loadStatus]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await window.electronAPI.updateSettings({
+        catalogSource: source.trim(),
+        catalogPublicKey: publicKey.trim(),
+        catalogKeepVersions: keepVersions
+      });
+      setMessage('Catalog settings saved.');
+      setError(null);
+      await loadStatus();
+    } catch (err) {
+      console.error('Failed to save catalog settings:', err);
+      setError((err as Error).message || 'Failed to save catalog settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      const result = await window.electronAPI.syncCatalog();
+      setMessage(
+        result.failures.length > 0
+          ? `Sync finished: ${result.steps.length} changed, ${result.failures.length} failed (see Change Log).`
+          : `Sync finished: ${result.steps.length === 0 ? 'everything is up to date' : `${result.steps.length} changed`}.`
+      );
+      setError(null);
+    } catch (err) {
+      console.error('Catalog sync failed:', err);
+      setError((err as Error).message || 'Catalog sync failed.');
+    } finally {
+      setSyncing(false);
+      await loadStatus();
+    }
+  };
+
+  const handleRollback = async (script: CatalogScriptInfo) => {
+    const version = rollbackVersions[script.scriptId];
+    if (!version) return;
+    try {
+      await window.electronAPI.rollbackCatalogScript(script.scriptId, version);
+      setMessage(`${script.scriptId} rolled back to ${version} and pinned.`);
+      setError(null);
+    } catch (err) {
+      console.error('Catalog rollback failed:', err);
+      setError((err as Error).message || 'Rollback failed.');
+    } finally {
+      await loadStatus();
+    }
+  };
+
+  const handleTogglePin = async (script: CatalogScriptInfo) => {
+    try {
+      await window.electronAPI.pinCatalogScript(script.scriptId, !script.pinnedVersion);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to change pin:', err);
+      setError((err as Error).message || 'Failed to change pin.');
+    } finally {
+      await loadStatus();
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Script Catalog</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Tools published by your IT team, checked against a signed catalog and updated every hour.
+            </p>
+          </div>
+          <Button
+            onClick={handleSync}
+            className="bg-[#00468b] hover:bg-[#003d79] text-white"
+            disabled={syncing || !status?.configured}
+          >
+            {syncing ? 'Syncing...' : 'Sync Now'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+        {message && !error && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">{message}</div>
+        )}
+
+        {/* Catalog Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Catalog Location</CardTitle>
+            <CardDescription>
+              {status?.lastSyncAt
+                ? `Last sync ${new Date(status.lastSyncAt).toLocaleString()}${status.lastSyncError ? ` - ${status.lastSyncError}` : ''}`
+                : 'Not synced since the app was started'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Location</label>
+                <input
+                  type="text"
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  placeholder="\\\\fileserver\\fak-catalog or https://intranet/fak-catalog"
+                  className={cn(inputClassName, 'font-mono')}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Versions kept per tool</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CATALOG_KEEP_VERSIONS}
+                  value={keepVersions}
+                  onChange={(e) =>
+                    setKeepVersions(Math.min(MAX_CATALOG_KEEP_VERSIONS, Math.max(1, Number(e.target.value) || 1)))
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Signing key (PEM public key)</label>
+                <textarea
+                  value={publicKey}
+                  onChange={(e) => setPublicKey(e.target.value)}
+                  rows={4}
+                  placeholder="-----BEGIN PUBLIC KEY-----"
+                  className={cn(inputClassName, 'font-mono text-xs')}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="outline" onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Installed Tools */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Tools from the Catalog</CardTitle>
+            <CardDescription>Rolling back pins a tool to that version until it is unpinned</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading catalog...</p>
+              </div>
+            ) : !status || status.scripts.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-gray-400 text-6xl mb-4">📦</div>
+                <p className="text-gray-600 mb-2">No tools installed from the catalog</p>
+                <p className="text-sm text-gray-500">Set the catalog location and signing key, then sync</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {status.scripts.map(script => {
+                  const olderVersions = script.versions.filter(version => version.version !== script.activeVersion);
+                  return (
+                    <div key={script.scriptId} className="border border-gray-200 rounded-lg p-4 flex items-center gap-4">
+                      <div className="flex-1">
+                        <div className="font-medium text-gray-900">{script.scriptId}</div>
+                        <div className="text-sm text-gray-600 mt-1">
+                          {script.activeVersion ? `Version ${script.activeVersion}` : 'Removed from the catalog'}
+                          {script.pinnedVersion && <span className="ml-2 text-amber-600 font-medium">(pinned)</span>}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Updated {new Date(script.updatedAt).toLocaleString()}
+                        </div>
+                      </div>
+
+                      {olderVersions.length > 0 && (
+                        <div className="flex gap-2 items-center">
+                          <select
+                            value={rollbackVersions[script.scriptId] ?? ''}
+                            onChange={(e) =>
+                              setRollbackVersions(prev => ({ ...prev, [script.scriptId]: e.target.value }))
+                            }
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                          >
+                            <option value="">Version...</option>
+                            {olderVersions.map(version => (
+                              <option key={version.version} value={version.version}>{version.version}</option>
+                            ))}
+                          </select>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRollback(script)}
+                            disabled={!rollbackVersions[script.scriptId]}
+                          >
+                            Roll Back
+                          </Button>
+                        </div>
+                      )}
+
+                      {script.activeVersion && (
+                        <Button variant="outline" size="sm" onClick={() => handleTogglePin(script)}>
+                          {script.pinnedVersion ? 'Unpin' : 'Pin'}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Change Log */}
+        {status && status.changes.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Change Log</CardTitle>
+              <CardDescription>Recent catalog changes on this PC, also kept in the audit log</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-gray-100 text-sm">
+                {status.changes.map((change, index) => (
+                  <div key={`${change.timestamp}-${index}`} className="py-2 flex gap-4">
+                    <span className="text-gray-500 w-44 shrink-0">{new Date(change.timestamp).toLocaleString()}</span>
+                    <span
+                      className={cn(
+                        'w-32 shrink-0 font-medium',
+                        change.action === 'failed' || change.action === 'rejected' ? 'text-red-600' : 'text-gray-900'
+                      )}
+                    >
+                      {CHANGE_LABELS[change.action] ?? change.action}
+                    </span>
+                    <span className="flex-1 text-gray-700">
+                      {change.scriptId} {describeVersions(change)}
+                      {change.error && <span className="block text-xs text-red-600">{change.error}</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
@@ -4,14 +4,29 @@ import { useScriptExecution } from '@/hooks/useScriptExecution';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/common/Card';
 import { Button } from '@/components/ui/button';
 import { ExecutionStatusBadge } from '../components/execution/ExecutionStatusBadge';
+import { ExecutionArtifacts } from '../components/execution/ExecutionArtifacts';
+import { ExecutionTranscript } from '../components/execution/ExecutionTranscript';
+import { ScriptResults } from '../components/execution/ScriptResults';
+import { ConfirmationDialog } from '../components/script/ConfirmationDialog';
 import { cn } from '@/lib/utils';
+import type { ResourceUsage, ScriptResult, ScriptDefinition, RerunInfo } from '../../preload/preload';
 
 type FilterStatus = 'all' | 'success' | 'error' | 'running' | 'cancelled';
 type ExportFormat = 'csv' | 'json';
 
+// A past run about to be repeated, with the current definition of its script
+interface PendingRerun {
+  info: RerunInfo;
+  script: ScriptDefinition;
+}
+
+const isFinished = (status: string) => ['success', 'error', 'cancelled'].includes(status);
+
 // Unified execution type for display
 interface DisplayExecution {
   id: string;
+  /** ID in the main process; differs from id for runs started from this window */
+  executionId: string;
   scriptId: string;
   scriptName: string;
   status: 'pending' | 'running' | 'success' | 'error' | 'cancelled';
@@ -20,11 +35,64 @@ interface DisplayExecution {
   output?: string;
   error?: string;
   progress?: number;
+  resourceUsage?: ResourceUsage;
+  results?: ScriptResult[];
+  /** Set on automatic retries: the run retried and this attempt's number */
+  parentExecutionId?: string;
+  attempt?: number;
+  /** Preview (dry run) - nothing was changed */
+  isPreview?: boolean;
+  /** Redactions made per field before the output was stored */
+  redactions?: Record<string, number>;
   source: 'memory' | 'database';
 }
 
+// Resource figures come back as joined columns on the execution log row
+const toResourceUsage = (log: any): ResourceUsage | undefined =>
+  log.max_memory_mb == null
+    ? undefined
+    : {
+        maxMemoryMB: log.max_memory_mb,
+        avgMemoryMB: log.avg_memory_mb,
+        avgCpuPercent: log.avg_cpu_percent,
+        maxCpuPercent: log.max_cpu_percent,
+        diskReadMB: log.disk_read_mb,
+        diskWriteMB: log.disk_write_mb,
+        networkBytesSent: 0,
+        networkBytesReceived: 0,
+      };
+
+// Structured results are stored as a JSON column on the execution log row
+const toScriptResults = (log: any): ScriptResult[] | undefined => {
+  if (!log.results) return undefined;
+  try {
+    return JSON.parse(log.results);
+  } catch {
+    return undefined;
+  }
+};
+
+// Redaction counts are stored as a JSON column on the execution log row
+const toRedactionCounts = (log: any): Record<string, number> | undefined => {
+  if (!log.redaction_counts) return undefined;
+  try {
+    return JSON.parse(log.redaction_counts);
+  } catch {
+    return undefined;
+  }
+};
+
+// "3 in output, 1 in error", or nothing when no redactions were made
+const formatRedactions = (counts?: Record<string, number>): string | undefined => {
+  const parts = Object.entries(counts ?? {})
+    .filter(([, count]) => count > 0)
+    .map(([field, count]) => `${count} in ${field}`);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+};
+
 export const LogsPage: React.FC = () => {
-  const { executions: memoryExecutions, clearAllCompleted } = useScriptExecution();
+  const { executions: memoryExecutions, clearAllCompleted, startExecution, updateExecution, openPanel } =
+    useScriptExecution();
   const [dbLogs, setDbLogs] = useState<DisplayExecution[]>([]);
   const [dbLoading, setDbLoading] = useState(true);
 
@@ -36,6 +104,7 @@ export const LogsPage: React.FC = () => {
           const logs = await window.electronAPI.getExecutionLogs();
           const formattedLogs: DisplayExecution[] = logs.map((log: any) => ({
             id: log.id,
+            executionId: log.id,
             scriptId: log.scriptId,
             scriptName: log.scriptName,
             status: log.status,
@@ -43,6 +112,12 @@ export const LogsPage: React.FC = () => {
             endTime: log.duration ? new Date(new Date(log.timestamp).getTime() + log.duration) : undefined,
             output: log.output,
             error: log.error,
+            resourceUsage: toResourceUsage(log),
+            results: toScriptResults(log),
+            parentExecutionId: log.parent_execution_id ?? undefined,
+            attempt: log.attempt ?? undefined,
+            isPreview: !!log.is_preview,
+            redactions: toRedactionCounts(log),
             source: 'database' as const,
           }));
           setDbLogs(formattedLogs);
@@ -63,6 +138,7 @@ export const LogsPage: React.FC = () => {
     // Convert memory executions to display format
     const memoryFormatted: DisplayExecution[] = memoryExecutions.map(e => ({
       id: e.id,
+      executionId: e.backendExecutionId ?? e.id,
       scriptId: e.scriptId,
       scriptName: e.scriptName,
       status: e.status,
@@ -71,6 +147,9 @@ export const LogsPage: React.FC = () => {
       output: e.output,
       error: e.error,
       progress: e.progress,
+      resourceUsage: e.resourceUsage,
+      results: e.results,
+      isPreview: e.dryRun,
       source: 'memory' as const,
     }));
 
@@ -90,6 +169,7 @@ export const LogsPage: React.FC = () => {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showClearAllConfirm, setShowClearAllConfirm] = useState(false);
   const [clearingAllData, setClearingAllData] = useState(false);
+  const [pendingRerun, setPendingRerun] = useState<PendingRerun | null>(null);
 
   // Statistics
   const stats = useMemo(() => {
@@ -153,6 +233,47 @@ export const LogsPage: React.FC = () => {
     setExpandedRows(newExpanded);
   };
 
+  // Run again: resolve the script and what changed since, then confirm as usual
+  const handleRunAgain = async (execution: DisplayExecution) => {
+    try {
+      const [info, scripts] = await Promise.all([
+        window.electronAPI.getRerunInfo(execution.executionId),
+        window.electronAPI.getAvailableScripts(),
+      ]);
+      const script = scripts.find(s => s.id === info.scriptId);
+      if (!script) {
+        throw new Error(`"${info.scriptName}" is no longer available`);
+      }
+      setPendingRerun({ info, script });
+    } catch (err) {
+      console.error('Failed to prepare run again:', err);
+      window.electronAPI.showNotification('error', err instanceof Error ? err.message : 'This run cannot be repeated.');
+    }
+  };
+
+  const handleConfirmRerun = async (showOutput: boolean, dryRun: boolean = false, waitForPreconditions: boolean = false) => {
+    if (!pendingRerun) return;
+    const { info } = pendingRerun;
+
+    const executionId = startExecution(info.scriptId, info.scriptName, { dryRun, parameters: info.parameters });
+    if (showOutput || dryRun) {
+      openPanel();
+    }
+
+    try {
+      window.electronAPI.showNotification(
+        'info',
+        dryRun ? `Previewing "${info.scriptName}"...` : `Starting "${info.scriptName}"...`
+      );
+      await window.electronAPI.executeScript(info.scriptId, info.parameters, { dryRun, waitForPreconditions });
+    } catch (err) {
+      console.error('Script execution failed:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      updateExecution(executionId, { status: 'error', error: errorMessage });
+      window.electronAPI.showNotification('error', `"${info.scriptName}" failed to start: ${errorMessage}`);
+    }
+  };
+
   // Export functionality
   const handleExport = (format: ExportFormat) => {
     const data = filteredExecutions.map(e => ({
@@ -160,25 +281,31 @@ export const LogsPage: React.FC = () => {
       scriptId: e.scriptId,
       scriptName: e.scriptName,
       status: e.status,
+      preview: !!e.isPreview,
       startTime: e.startTime.toISOString(),
       endTime: e.endTime?.toISOString() || null,
       duration: e.endTime ? `${((e.endTime.getTime() - e.startTime.getTime()) / 1000).toFixed(2)}s` : null,
+      peakMemoryMB: e.resourceUsage?.maxMemoryMB ?? null,
+      avgCpuPercent: e.resourceUsage?.avgCpuPercent ?? null,
       output: e.output || null,
       error: e.error || null,
     }));
 
     if (format === 'csv') {
       // CSV export
-      const headers = ['ID', 'Script Name', 'Status', 'Start Time', 'End Time', 'Duration', 'Output', 'Error'];
+      const headers = ['ID', 'Script Name', 'Status', 'Preview', 'Start Time', 'End Time', 'Duration', 'Peak Memory (MB)', 'Avg CPU (%)', 'Output', 'Error'];
       const csvRows = [
         headers.join(','),
         ...data.map(row => [
           row.id,
           `"${row.scriptName}"`,
           row.status,
+          row.preview ? 'yes' : 'no',
           row.startTime,
           row.endTime || '',
           row.duration || '',
+          row.peakMemoryMB ?? '',
+          row.avgCpuPercent ?? '',
           `"${(row.output || '').replace(/"/g, '""')}"`,
           `"${(row.error || '').replace(/"/g, '""')}"`,
         ].join(','))
@@ -413,13 +540,47 @@ export const LogsPage: React.FC = () => {
 
                           {/* Script Name */}
                           <div className="flex-1">
-                            <div className="font-medium text-gray-900">{execution.scriptName}</div>
+                            <div className="font-medium text-gray-900">
+                              {execution.scriptName}
+                              {execution.isPreview && (
+                                <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-semibold bg-gray-100 text-gray-600 border border-gray-300">
+                                  Preview
+                                </span>
+                              )}
+                            </div>
                             <div className="text-xs text-gray-500 mt-1">ID: {execution.id}</div>
+                            {execution.parentExecutionId && (
+                              <div className="text-xs text-amber-700 mt-0.5">
+                                Attempt {execution.attempt} · retry of {execution.parentExecutionId}
+                              </div>
+                            )}
                           </div>
 
+                          {/* Run Again */}
+                          {isFinished(execution.status) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRunAgain(execution);
+                              }}
+                            >
+                              Run Again
+                            </Button>
+                          )}
+
                           {/* Status Badge */}
                           <ExecutionStatusBadge status={execution.status} size="sm" />
 
+                          {/* Resource Usage */}
+                          <div className="text-sm text-gray-600 text-right min-w-[100px]">
+                            <div>{execution.resourceUsage ? `${execution.resourceUsage.maxMemoryMB.toFixed(0)} MB` : '-'}</div>
+                            <div className="text-xs text-gray-500">
+                              {execution.resourceUsage ? `${execution.resourceUsage.avgCpuPercent.toFixed(1)}% CPU` : ''}
+                            </div>
+                          </div>
+
                           {/* Time Info */}
                           <div className="text-sm text-gray-600 text-right min-w-[120px]">
                             <div>{execution.startTime.toLocaleTimeString()}</div>
@@ -469,9 +630,47 @@ export const LogsPage: React.FC = () => {
                               </span>
                             </div>
                           )}
+                          {execution.resourceUsage && (
+                            <>
+                              <div>
+                                <span className="font-medium text-gray-700">Memory:</span>
+                                <span className="ml-2 text-gray-600">
+                                  {execution.resourceUsage.maxMemoryMB} MB peak, {execution.resourceUsage.avgMemoryMB} MB average
+                                </span>
+                              </div>
+                              <div>
+                                <span className="font-medium text-gray-700">CPU:</span>
+                                <span className="ml-2 text-gray-600">
+                                  {execution.resourceUsage.maxCpuPercent}% peak, {execution.resourceUsage.avgCpuPercent}% average
+                                </span>
+                              </div>
+                              <div>
+                                <span className="font-medium text-gray-700">Disk:</span>
+                                <span className="ml-2 text-gray-600">
+                                  {execution.resourceUsage.diskReadMB} MB read, {execution.resourceUsage.diskWriteMB} MB written
+                                </span>
+                              </div>
+                            </>
+                          )}
+                          {formatRedactions(execution.redactions) && (
+                            <div>
+                              <span className="font-medium text-gray-700">Redacted:</span>
+                              <span className="ml-2 text-gray-600">
+                                {formatRedactions(execution.redactions)}
+                              </span>
+                            </div>
+                          )}
                         </div>
 
-                        {/* Output */}
+                        {/* Structured Results */}
+                        {execution.results && execution.results.length > 0 && (
+                          <div>
+                            <div className="font-medium text-gray-700 mb-2">Results:</div>
+                            <ScriptResults results={execution.results} />
+                          </div>
+                        )}
+
+                        {/* Output (the end of it - the full output is in the transcript) */}
                         {execution.output && (
                           <div>
                             <div className="font-medium text-gray-700 mb-2">Output:</div>
@@ -481,6 +680,16 @@ export const LogsPage: React.FC = () => {
                           </div>
                         )}
 
+                        {/* Full transcript (summarized once the run has finished) */}
+                        {isFinished(execution.status) && (
+                          <ExecutionTranscript executionId={execution.executionId} />
+                        )}
+
+                        {/* Artifacts (indexed once the run has finished) */}
+                        {isFinished(execution.status) && (
+                          <ExecutionArtifacts executionId={execution.executionId} />
+                        )}
+
                         {/* Error */}
                         {execution.error && (
                           <div>
@@ -490,6 +699,14 @@ export const LogsPage: React.FC = () => {
                             </div>
                           </div>
                         )}
+
+                        {isFinished(execution.status) && (
+                          <div className="flex justify-end">
+                            <Button variant="outline" size="sm" onClick={() => handleRunAgain(execution)}>
+                              Run Again with These Parameters
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -499,6 +716,27 @@ export const LogsPage: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Run Again Confirmation */}
+        {pendingRerun && (
+          <ConfirmationDialog
+            isOpen
+            onClose={() => setPendingRerun(null)}
+            onConfirm={options => handleConfirmRerun(false, false, options.waitForPreconditions)}
+            onConfirmAndView={options => handleConfirmRerun(true, false, options.waitForPreconditions)}
+            onPreview={options => handleConfirmRerun(true, true, options.waitForPreconditions)}
+            supportsWhatIf={pendingRerun.script.supportsWhatIf}
+            capabilities={pendingRerun.script.capabilities}
+            compatibility={pendingRerun.script.compatibility}
+            scriptId={pendingRerun.script.id}
+            scriptName={pendingRerun.script.name}
+            scriptDescription={pendingRerun.script.description}
+            estimatedDuration={pendingRerun.script.estimatedDuration}
+            category={pendingRerun.script.category}
+            order={pendingRerun.script.order}
+            rerunInfo={pendingRerun.info}
+          />
+        )}
+
         {/* Clear Confirmation Dialog */}
         {showClearConfirm && (
           <div className="fixed inset-0 bg-black/65 flex items-center justify-center z-50">
@@ -0,0 +1,226 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppLayout } from '../components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/common/Card';
+import { RunbookStepList } from '../components/runbook/RunbookStepList';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { RunbookInfo, RunbookExecution } from '../../preload/preload';
+
+export const RunbooksPage: React.FC = () => {
+  const [runbooks, setRunbooks] = useState<RunbookInfo[]>([]);
+  const [executions, setExecutions] = useState<RunbookExecution[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingRun, setPendingRun] = useState<RunbookInfo | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const loadExecutions = useCallback(async () => {
+    try {
+      if (window.electronAPI?.getRunbookExecutions) {
+        setExecutions(await window.electronAPI.getRunbookExecutions());
+      }
+    } catch (err) {
+      console.error('Failed to load runbook runs:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadAll = async () => {
+      setLoading(true);
+      try {
+        if (window.electronAPI?.getRunbooks) {
+          setRunbooks(await window.electronAPI.getRunbooks());
+        }
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load runbooks:', err);
+        setError('Failed to load runbooks. Please try again.');
+      }
+      await loadExecutions();
+      setLoading(false);
+    };
+    loadAll();
+
+    if (!window.electronAPI?.onRunbookUpdate) return;
+
+    window.electronAPI.onRunbookUpdate((update) => {
+      setExecutions(prev => {
+        const others = prev.filter(execution => execution.executionId !== update.executionId);
+        return [update, ...others].sort((a, b) => b.startedAt - a.startedAt);
+      });
+    });
+
+    return () => {
+      window.electronAPI?.removeRunbookListener?.();
+    };
+  }, [loadExecutions]);
+
+  const handleStart = async () => {
+    if (!pendingRun) return;
+    setStarting(true);
+    try {
+      await window.electronAPI.startRunbook(pendingRun.id);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to start runbook:', err);
+      setError((err as Error).message || 'Failed to start runbook.');
+    } finally {
+      setStarting(false);
+      setPendingRun(null);
+    }
+  };
+
+  const handleCancel = async (execution: RunbookExecution) => {
+    try {
+      await window.electronAPI.cancelRunbook(execution.executionId);
+    } catch (err) {
+      console.error('Failed to cancel runbook:', err);
+      setError('Failed to cancel runbook. Please try again.');
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Runbooks</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Run several tools in order. Each step only continues if the previous one went as expected.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Runbook List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Available Runbooks</CardTitle>
+            <CardDescription>Each step's output appears in Active Runs and Run History like any other run</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading runbooks...</p>
+              </div>
+            ) : runbooks.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-gray-400 text-6xl mb-4">📋</div>
+                <p className="text-gray-600 mb-2">No runbooks available</p>
+                <p className="text-sm text-gray-500">Runbooks are added by your IT team</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {runbooks.map(runbook => {
+                  const isRunning = executions.some(
+                    execution => execution.runbookId === runbook.id && execution.status === 'running'
+                  );
+                  return (
+                    <div key={runbook.id} className="border border-gray-200 rounded-lg p-4 flex items-center gap-4">
+                      <div className="flex-1">
+                        <div className="font-medium text-gray-900">{runbook.name}</div>
+                        <div className="text-sm text-gray-600 mt-1">{runbook.description}</div>
+                        <div className="text-xs text-gray-500 mt-2">
+                          {runbook.steps.map(step => step.name).join(' → ')}
+                        </div>
+                      </div>
+                      <Button
+                        onClick={() => setPendingRun(runbook)}
+                        className="bg-[#00468b] hover:bg-[#003d79] text-white"
+                        disabled={isRunning}
+                      >
+                        {isRunning ? 'Running...' : 'Run'}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Runbook Runs */}
+        {executions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Runs</CardTitle>
+              <CardDescription>Runbooks started since the app was opened</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {executions.map(execution => (
+                  <div key={execution.executionId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <div>
+                        <span className="font-medium text-gray-900">{execution.runbookName}</span>
+                        <RunbookStatusLabel status={execution.status} />
+                        <div className="text-xs text-gray-500 mt-1">
+                          Started {new Date(execution.startedAt).toLocaleString()}
+                        </div>
+                      </div>
+                      {execution.status === 'running' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleCancel(execution)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                    <RunbookStepList steps={execution.steps} />
+                    {execution.error && <p className="mt-3 text-sm text-red-600">{execution.error}</p>}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Run Confirmation Dialog */}
+        {pendingRun && (
+          <div className="fixed inset-0 bg-black/65 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+              <div className="p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Run "{pendingRun.name}"?</h3>
+                <p className="text-sm text-gray-600 mb-3">These tools will run with your current user context:</p>
+                <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1 mb-4">
+                  {pendingRun.steps.map(step => (
+                    <li key={step.id}>{step.name}</li>
+                  ))}
+                </ol>
+                <div className="flex gap-3 justify-end">
+                  <Button variant="outline" onClick={() => setPendingRun(null)} disabled={starting}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleStart}
+                    className="bg-[#00468b] hover:bg-[#003d79] text-white"
+                    disabled={starting}
+                  >
+                    {starting ? 'Starting...' : 'Run'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+const RunbookStatusLabel: React.FC<{ status: RunbookExecution['status'] }> = ({ status }) => {
+  const classes = {
+    running: 'text-blue-600',
+    success: 'text-green-600',
+    error: 'text-red-600',
+    cancelled: 'text-gray-500',
+  };
+
+  return <span className={cn('ml-2 text-sm font-medium', classes[status])}>({status})</span>;
+};
@@ -0,0 +1,360 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppLayout } from '../components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/common/Card';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { describeScheduleRule, validateScheduleRule } from '../../shared/scheduling/schedule-rules';
+import type { ScheduleInfo, ScheduleRule } from '../../preload/preload';
+
+interface ScriptOption {
+  id: string;
+  name: string;
+}
+
+type RuleType = ScheduleRule['type'];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const SchedulesPage: React.FC = () => {
+  const [schedules, setSchedules] = useState<ScheduleInfo[]>([]);
+  const [scripts, setScripts] = useState<ScriptOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // New schedule form state
+  const [showForm, setShowForm] = useState(false);
+  const [formScriptId, setFormScriptId] = useState('');
+  const [formRuleType, setFormRuleType] = useState<RuleType>('interval');
+  const [formEveryDays, setFormEveryDays] = useState(7);
+  const [formTime, setFormTime] = useState('12:00');
+  const [formCron, setFormCron] = useState('0 9 * * 1');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [pendingDelete, setPendingDelete] = useState<ScheduleInfo | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      if (window.electronAPI?.getSchedules) {
+        setSchedules(await window.electronAPI.getSchedules());
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load schedules:', err);
+      setError('Failed to load schedules. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadAll = async () => {
+      setLoading(true);
+      try {
+        if (window.electronAPI?.getAvailableScripts) {
+          const availableScripts = await window.electronAPI.getAvailableScripts();
+          setScripts(availableScripts.map((s: any) => ({ id: s.id, name: s.name })));
+        }
+      } catch (err) {
+        console.error('Failed to load scripts:', err);
+      }
+      await loadSchedules();
+      setLoading(false);
+    };
+    loadAll();
+
+    // Keep next/last run times fresh while the page is open
+    const refreshInterval = setInterval(loadSchedules, 30000);
+    return () => clearInterval(refreshInterval);
+  }, [loadSchedules]);
+
+  const buildRule = (): ScheduleRule =>
+    formRuleType === 'cron'
+      ? { type: 'cron', expression: formCron.trim() }
+      : { type: 'interval', everyDays: formEveryDays, time: formTime };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setFormScriptId('');
+    setFormRuleType('interval');
+    setFormEveryDays(7);
+    setFormTime('12:00');
+    setFormCron('0 9 * * 1');
+    setFormError(null);
+  };
+
+  const handleCreate = async () => {
+    if (!formScriptId) {
+      setFormError('Select a tool to schedule.');
+      return;
+    }
+
+    const rule = buildRule();
+    const ruleError = validateScheduleRule(rule);
+    if (ruleError) {
+      setFormError(ruleError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await window.electronAPI.createSchedule({ scriptId: formScriptId, rule });
+      resetForm();
+      await loadSchedules();
+    } catch (err) {
+      console.error('Failed to create schedule:', err);
+      setFormError((err as Error).message || 'Failed to create schedule.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (schedule: ScheduleInfo) => {
+    try {
+      const updated = await window.electronAPI.updateSchedule(schedule.id, { enabled: !schedule.enabled });
+      setSchedules(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      console.error('Failed to update schedule:', err);
+      setError('Failed to update schedule. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await window.electronAPI.deleteSchedule(pendingDelete.id);
+      setSchedules(prev => prev.filter(s => s.id !== pendingDelete.id));
+    } catch (err) {
+      console.error('Failed to delete schedule:', err);
+      setError('Failed to delete schedule. Please try again.');
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const formatTimestamp = (timestamp: number | null) =>
+    timestamp ? new Date(timestamp).toLocaleString() : '-';
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Schedules</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Run tools automatically. Runs missed while the computer was off or asleep start as soon as it is back.
+            </p>
+          </div>
+          {!showForm && (
+            <Button
+              onClick={() => setShowForm(true)}
+              className="bg-[#00468b] hover:bg-[#003d79] text-white"
+              disabled={scripts.length === 0}
+            >
+              Add Schedule
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* New Schedule Form */}
+        {showForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>New Schedule</CardTitle>
+              <CardDescription>Choose a tool and when it should run</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-2 block">Tool</label>
+                  <select
+                    value={formScriptId}
+                    onChange={(e) => setFormScriptId(e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">Select a tool...</option>
+                    {scripts.map(script => (
+                      <option key={script.id} value={script.id}>{script.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-2 block">Repeat</label>
+                  <select
+                    value={formRuleType}
+                    onChange={(e) => setFormRuleType(e.target.value as RuleType)}
+                    className={inputClassName}
+                  >
+                    <option value="interval">Every N days</option>
+                    <option value="cron">Cron expression</option>
+                  </select>
+                </div>
+
+                {formRuleType === 'interval' ? (
+                  <>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 mb-2 block">Every (days)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={365}
+                        value={formEveryDays}
+                        onChange={(e) => setFormEveryDays(Math.max(1, Number(e.target.value) || 1))}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 mb-2 block">At</label>
+                      <input
+                        type="time"
+                        value={formTime}
+                        onChange={(e) => setFormTime(e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div className="md:col-span-2">
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">Cron expression</label>
+                    <input
+                      type="text"
+                      value={formCron}
+                      onChange={(e) => setFormCron(e.target.value)}
+                      placeholder="minute hour day month weekday"
+                      className={cn(inputClassName, 'font-mono')}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Example: <span className="font-mono">0 9 * * 1</span> runs every {WEEKDAYS[1]} at 09:00.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {formError && <p className="mt-4 text-sm text-red-600">{formError}</p>}
+
+              <div className="flex gap-3 justify-end mt-6">
+                <Button variant="outline" onClick={resetForm} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  className="bg-[#00468b] hover:bg-[#003d79] text-white"
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Schedule'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Schedule List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Scheduled Tools</CardTitle>
+            <CardDescription>Scheduled runs appear in Run History like any other run</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading schedules...</p>
+              </div>
+            ) : schedules.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-gray-400 text-6xl mb-4">🗓️</div>
+                <p className="text-gray-600 mb-2">No schedules yet</p>
+                <p className="text-sm text-gray-500">Add a schedule to run a tool automatically</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {schedules.map(schedule => (
+                  <div
+                    key={schedule.id}
+                    className={cn(
+                      'border border-gray-200 rounded-lg p-4 flex items-center gap-4',
+                      !schedule.enabled && 'bg-gray-50'
+                    )}
+                  >
+                    <div className="flex-1">
+                      <div className={cn('font-medium', schedule.enabled ? 'text-gray-900' : 'text-gray-500')}>
+                        {schedule.name}
+                      </div>
+                      <div className="text-sm text-gray-600 mt-1">{describeScheduleRule(schedule.rule)}</div>
+                    </div>
+
+                    <div className="text-sm text-gray-600 text-right min-w-[180px]">
+                      <div>
+                        <span className="text-gray-500">Next:</span>{' '}
+                        {schedule.enabled ? formatTimestamp(schedule.nextRunAt) : 'Paused'}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Last: {formatTimestamp(schedule.lastRunAt)}
+                        {schedule.lastStatus && <ScheduleStatusLabel status={schedule.lastStatus} />}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleToggleEnabled(schedule)}>
+                        {schedule.enabled ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPendingDelete(schedule)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Delete Confirmation Dialog */}
+        {pendingDelete && (
+          <div className="fixed inset-0 bg-black/65 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+              <div className="p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Delete Schedule</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  "{pendingDelete.name}" will no longer run automatically. Past runs stay in Run History.
+                </p>
+                <div className="flex gap-3 justify-end">
+                  <Button variant="outline" onClick={() => setPendingDelete(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+};
+
+const ScheduleStatusLabel: React.FC<{ status: NonNullable<ScheduleInfo['lastStatus']> }> = ({ status }) => {
+  const classes = {
+    running: 'text-blue-600',
+    success: 'text-green-600',
+    error: 'text-red-600',
+    cancelled: 'text-gray-500',
+    skipped: 'text-amber-600',
+  };
+
+  return <span className={cn('ml-1 font-medium', classes[status])}>({status})</span>;
+};
@@ -0,0 +1,202 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppLayout } from '../components/layout/AppLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../components/common/Card';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ScriptLoadReport, ScriptLoadResult } from '../../preload/preload';
+
+const STATUS_LABELS: Record<ScriptLoadResult['status'], string> = {
+  broken: 'Broken',
+  shadowed: 'Shadowed',
+  skipped: 'Skipped',
+  loaded: 'Loaded',
+};
+
+const STATUS_STYLES: Record<ScriptLoadResult['status'], string> = {
+  broken: 'bg-red-100 text-red-800',
+  shadowed: 'bg-amber-100 text-amber-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  loaded: 'bg-green-100 text-green-800',
+};
+
+const STATUS_DESCRIPTIONS: Record<ScriptLoadResult['status'], string> = {
+  broken: 'Not available - fix the issues below',
+  shadowed: 'Another file uses the same tool ID',
+  skipped: 'Not read',
+  loaded: 'Available',
+};
+
+export const ScriptHealthPage: React.FC = () => {
+  const [report, setReport] = useState<ScriptLoadReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rescanning, setRescanning] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      if (window.electronAPI?.getScriptLoadReport) {
+        setReport(await window.electronAPI.getScriptLoadReport());
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load script health report:', err);
+      setError('Failed to load the script health report. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Files fixed or broken on disk show up here without a refresh
+  useEffect(() => {
+    if (!window.electronAPI?.onScriptsChanged) return;
+
+    window.electronAPI.onScriptsChanged(() => {
+      loadReport();
+    });
+
+    return () => {
+      window.electronAPI?.removeScriptsChangedListener?.();
+    };
+  }, [loadReport]);
+
+  const handleRescan = async () => {
+    try {
+      setRescanning(true);
+      await window.electronAPI.rescanScripts();
+      await loadReport();
+    } catch (err) {
+      console.error('Failed to rescan scripts:', err);
+      setError('Rescan failed. Please try again.');
+    } finally {
+      setRescanning(false);
+    }
+  };
+
+  const files = (report?.files ?? []).filter(file => showAll || file.status !== 'loaded' || file.issues.length > 0);
+  const problemCount = report ? report.counts.broken + report.counts.shadowed + report.counts.skipped : 0;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Script Health</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Every script file found in the script folders, and why any of them isn't available as a tool.
+            </p>
+          </div>
+          <Button
+            onClick={handleRescan}
+            className="bg-[#00468b] hover:bg-[#003d79] text-white"
+            disabled={rescanning}
+          >
+            {rescanning ? 'Rescanning...' : 'Rescan Scripts'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Counts */}
+        {report && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(['loaded', 'broken', 'shadowed', 'skipped'] as const).map(status => (
+              <div key={status} className="bg-white rounded-lg border border-gray-200 p-4">
+                <p className="text-sm font-medium text-gray-500">{STATUS_LABELS[status]}</p>
+                <p className={cn(
+                  'text-2xl font-semibold',
+                  status !== 'loaded' && report.counts[status] > 0 ? 'text-red-600' : 'text-gray-900'
+                )}>
+                  {report.counts[status]}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Script Files</CardTitle>
+                <CardDescription>
+                  {report
+                    ? `Checked ${new Date(report.generatedAt).toLocaleString()}`
+                    : 'Load results from the last scan'}
+                </CardDescription>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+                Show loaded files
+              </label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading report...</p>
+              </div>
+            ) : files.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="text-gray-400 text-6xl mb-4">✅</div>
+                <p className="text-gray-600 mb-2">
+                  {problemCount === 0 ? 'All script files loaded' : 'No files to show'}
+                </p>
+                <p className="text-sm text-gray-500">Broken, shadowed and skipped files are listed here</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {files.map(file => (
+                  <div key={file.filePath} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900">
+                          {file.scriptId ?? file.filePath.split(/[\\/]/).pop()}
+                        </div>
+                        <div className="text-xs text-gray-500 font-mono mt-1 break-all">{file.filePath}</div>
+                      </div>
+                      <span
+                        className={cn('text-xs font-medium px-2 py-1 rounded shrink-0', STATUS_STYLES[file.status])}
+                        title={STATUS_DESCRIPTIONS[file.status]}
+                      >
+                        {STATUS_LABELS[file.status]}
+                      </span>
+                    </div>
+
+                    {file.shadowedBy && (
+                      <p className="text-sm text-amber-800 mt-2">
+                        Not used - <span className="font-mono break-all">{file.shadowedBy}</span> has the same tool ID.
+                      </p>
+                    )}
+
+                    {file.issues.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-sm">
+                        {file.issues.map((issue, index) => (
+                          <li key={index} className={file.status === 'broken' ? 'text-red-700' : 'text-gray-700'}>
+                            {issue.path && <span className="font-mono font-medium">{issue.path}: </span>}
+                            {issue.message}
+                            {issue.value !== undefined && (
+                              <span className="text-gray-500"> (value: <span className="font-mono">{issue.value}</span>)</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+};
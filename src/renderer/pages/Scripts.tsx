@@ -3,7 +3,12 @@ import { AppLayout } from '../components/layout/AppLayout';
 import { SearchFilters } from '../components/script/SearchFilters';
 import { ScriptList } from '../components/script/ScriptList';
 import { ConfirmationDialog } from '../components/script/ConfirmationDialog';
+import { Button } from '@/components/ui/button';
 import { useScriptExecution } from '@/hooks/useScriptExecution';
+import type { ScriptCapability } from '../../shared/execution/capabilities';
+import type { ScriptCompatibility } from '../../shared/execution/requirements';
+import { formatScriptChanges } from '../../shared/registry/script-changes';
+import type { ScriptPackagePreview } from '../../preload/preload';
 
 interface Script {
   id: string;
@@ -12,13 +17,36 @@ interface Script {
   category: string;
   estimatedDuration: number;
   order?: number;
+  supportsWhatIf?: boolean;
+  capabilities?: ScriptCapability[];
+  compatibility?: ScriptCompatibility;
 }
 
+// Map API response to simplified Script interface
+const toScript = (s: any): Script => ({
+  id: s.id,
+  name: s.name,
+  description: s.description,
+  category: s.category,
+  estimatedDuration: s.estimatedDuration,
+  order: s.order,
+  supportsWhatIf: s.supportsWhatIf,
+  capabilities: s.capabilities,
+  compatibility: s.compatibility
+});
+
 export const Scripts: React.FC = () => {
   const [scripts, setScripts] = useState<Script[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [favorites, setFavorites] = useState<string[]>([]);
+  const [rescanning, setRescanning] = useState(false);
+  const [rescanMessage, setRescanMessage] = useState<string | null>(null);
+
+  // Script package import: the checked package waiting to be installed
+  const [packagePreview, setPackagePreview] = useState<ScriptPackagePreview | null>(null);
+  const [packageError, setPackageError] = useState<string | null>(null);
+  const [installingPackage, setInstallingPackage] = useState(false);
 
   // Filter states
   const [searchQuery, setSearchQuery] = useState('');
@@ -55,15 +83,7 @@ export const Scripts: React.FC = () => {
             console.warn('No scripts from API, using mock data for development');
             setScripts(getMockScripts());
           } else {
-            // Map API response to simplified Script interface
-            setScripts(availableScripts.map((s: any) => ({
-              id: s.id,
-              name: s.name,
-              description: s.description,
-              category: s.category,
-              estimatedDuration: s.estimatedDuration,
-              order: s.order
-            })));
+            setScripts(availableScripts.map(toScript));
           }
         } else {
           // Fallback: Use mock data if API not available
@@ -81,6 +101,85 @@ export const Scripts: React.FC = () => {
     loadScriptsAndFavorites();
   }, []);
 
+  // Pick up tools added, changed or removed on disk
+  useEffect(() => {
+    if (!window.electronAPI?.onScriptsChanged) return;
+
+    window.electronAPI.onScriptsChanged(async () => {
+      try {
+        const availableScripts = await window.electronAPI.getAvailableScripts();
+        setScripts(availableScripts.map(toScript));
+      } catch (err) {
+        console.error('Failed to reload scripts:', err);
+      }
+    });
+
+    return () => {
+      window.electronAPI?.removeScriptsChangedListener?.();
+    };
+  }, []);
+
+  const handleRescan = async () => {
+    try {
+      setRescanning(true);
+      const changes = await window.electronAPI.rescanScripts();
+      setRescanMessage(`Rescan complete: ${formatScriptChanges(changes).toLowerCase()}.`);
+    } catch (err) {
+      console.error('Failed to rescan scripts:', err);
+      setRescanMessage('Rescan failed. Please try again.');
+    } finally {
+      setRescanning(false);
+    }
+  };
+
+  const handleImportPackage = async () => {
+    try {
+      setPackageError(null);
+      const preview = await window.electronAPI.inspectScriptPackage();
+      if (preview) setPackagePreview(preview);
+    } catch (err) {
+      console.error('Failed to open script package:', err);
+      setPackageError((err as Error).message || 'The package could not be opened.');
+    }
+  };
+
+  const handleInstallPackage = async () => {
+    if (!packagePreview) return;
+    try {
+      setInstallingPackage(true);
+      await window.electronAPI.installScriptPackage(packagePreview.importId);
+      setRescanMessage(`Imported ${packagePreview.name}.`);
+      setPackagePreview(null);
+    } catch (err) {
+      console.error('Failed to install script package:', err);
+      setPackageError((err as Error).message || 'The package could not be installed.');
+      setPackagePreview(null);
+    } finally {
+      setInstallingPackage(false);
+    }
+  };
+
+  const handleCancelPackage = () => {
+    if (packagePreview) {
+      window.electronAPI.cancelScriptPackage(packagePreview.importId).catch(err => {
+        console.error('Failed to cancel script package import:', err);
+      });
+    }
+    setPackagePreview(null);
+  };
+
+  const handleExportPackage = async (scriptId: string) => {
+    try {
+      const result = await window.electronAPI.exportScriptPackage(scriptId);
+      if (result.success) {
+        window.electronAPI.showNotification('success', 'Tool exported as a package.');
+      }
+    } catch (err) {
+      console.error('Failed to export script package:', err);
+      window.electronAPI.showNotification('error', `Export failed: ${(err as Error).message}`);
+    }
+  };
+
   // Listen for protocol requests from browser links
   useEffect(() => {
     if (!window.electronAPI?.onProtocolRequest) {
@@ -113,6 +212,15 @@ export const Scripts: React.FC = () => {
         return;
       }
 
+      if (script.compatibility?.compatible === false) {
+        console.warn('Tool not available on this PC for protocol request:', request.scriptId);
+        window.electronAPI?.showNotification(
+          'error',
+          `"${script.name}" can't run on this PC: ${script.compatibility.reasons.join('; ')}`
+        );
+        return;
+      }
+
       console.log('✅ Found script for protocol request:', script.name);
 
       // Select the script and open confirmation dialog
@@ -185,8 +293,8 @@ export const Scripts: React.FC = () => {
   // Handle script execution button click - shows confirmation dialog
   const handleExecuteScript = (scriptId: string) => {
     const script = scripts.find((s) => s.id === scriptId);
-    if (!script) {
-      console.error('Script not found:', scriptId);
+    if (!script || script.compatibility?.compatible === false) {
+      console.error('Script not found or not available on this PC:', scriptId);
       return;
     }
 
@@ -195,14 +303,18 @@ export const Scripts: React.FC = () => {
   };
 
   // Handle confirmed script execution
-  const handleConfirmExecution = async (showOutput: boolean = false) => {
+  const handleConfirmExecution = async (
+    showOutput: boolean = false,
+    dryRun: boolean = false,
+    waitForPreconditions: boolean = false
+  ) => {
     if (!selectedScript) return;
 
     // Start execution tracking
-    const executionId = startExecution(selectedScript.id, selectedScript.name);
+    const executionId = startExecution(selectedScript.id, selectedScript.name, { dryRun, parameters: {} });
 
     // Open the panel if requested
-    if (showOutput) {
+    if (showOutput || dryRun) {
       openPanel();
     }
 
@@ -210,7 +322,10 @@ export const Scripts: React.FC = () => {
       console.log('✅ Executing tool via IPC:', selectedScript);
 
       // Show native Windows notification for execution start
-      window.electronAPI.showNotification('info', `Starting "${selectedScript.name}"...`);
+      window.electronAPI.showNotification(
+        'info',
+        dryRun ? `Previewing "${selectedScript.name}"...` : `Starting "${selectedScript.name}"...`
+      );
 
       // Set up listener for real-time execution updates
       const updateHandler = (update: any) => {
@@ -219,8 +334,12 @@ export const Scripts: React.FC = () => {
         // Map the backend executionId to our frontend executionId
         if (update.scriptId === selectedScript.id) {
           updateExecution(executionId, {
+            backendExecutionId: update.executionId,
             status: update.status,
+            queuePosition: update.queuePosition,
             progress: update.progress,
+            progressPhase: update.progressPhase,
+            progressStatus: update.progressStatus,
             output: update.output,
             error: update.error
           });
@@ -246,7 +365,7 @@ export const Scripts: React.FC = () => {
       window.electronAPI.onScriptExecutionUpdate(updateHandler);
 
       // Call actual PowerShell execution via IPC
-      const result = await window.electronAPI.executeScript(selectedScript.id, {});
+      const result = await window.electronAPI.executeScript(selectedScript.id, {}, { dryRun, waitForPreconditions });
 
       console.log('🚀 Script execution started with ID:', result.id);
 
@@ -352,6 +471,91 @@ export const Scripts: React.FC = () => {
               Showing <span className="font-medium">{filteredScripts.length}</span> of{' '}
               <span className="font-medium">{scripts.length}</span> tools
             </p>
+            <div className="flex items-center gap-3">
+              {rescanMessage && <span className="text-sm text-gray-500">{rescanMessage}</span>}
+              <Button variant="outline" size="sm" onClick={handleImportPackage} disabled={!!packagePreview}>
+                Import Package
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRescan} disabled={rescanning}>
+                {rescanning ? 'Rescanning...' : 'Rescan Scripts'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {packageError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex justify-between gap-4">
+            <span>Package not imported: {packageError}</span>
+            <button onClick={() => setPackageError(null)} className="text-red-500 hover:text-red-700" aria-label="Dismiss">
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Package checked and waiting to be installed */}
+        {packagePreview && (
+          <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-lg font-medium text-gray-900">
+                  {packagePreview.name}
+                  {packagePreview.version && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">v{packagePreview.version}</span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600 mt-1">{packagePreview.description}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {packagePreview.fileName} • ID {packagePreview.scriptId}
+                  {packagePreview.author && ` • by ${packagePreview.author}`}
+                </p>
+              </div>
+              <span
+                className={
+                  packagePreview.signature === 'verified'
+                    ? 'text-xs font-medium px-2 py-1 rounded bg-green-100 text-green-800'
+                    : 'text-xs font-medium px-2 py-1 rounded bg-amber-100 text-amber-800'
+                }
+              >
+                {packagePreview.signature === 'verified'
+                  ? 'Signed by your organisation'
+                  : packagePreview.signature === 'unverified'
+                    ? 'Signed - no signing key configured'
+                    : 'Unsigned'}
+              </span>
+            </div>
+
+            <ul className="text-sm text-gray-700 list-disc list-inside">
+              {packagePreview.files.map(file => (
+                <li key={file.name}>
+                  <span className="font-mono">{file.name}</span>
+                  <span className="text-gray-500"> ({file.role}, {Math.max(1, Math.round(file.size / 1024))} KB)</span>
+                </li>
+              ))}
+            </ul>
+
+            {packagePreview.warnings.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                <p className="font-medium">Security review: {packagePreview.securityLevel}</p>
+                <ul className="list-disc list-inside mt-1">
+                  {packagePreview.warnings.slice(0, 8).map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleCancelPackage} disabled={installingPackage}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleInstallPackage}
+                className="bg-[#00468b] hover:bg-[#003d79] text-white"
+                disabled={installingPackage}
+              >
+                {installingPackage ? 'Installing...' : packagePreview.replaces ? 'Replace Tool' : 'Install Tool'}
+              </Button>
+            </div>
           </div>
         )}
 
@@ -376,8 +580,12 @@ export const Scripts: React.FC = () => {
               setConfirmDialogOpen(false);
               setSelectedScript(null);
             }}
-            onConfirm={() => handleConfirmExecution(false)}
-            onConfirmAndView={() => handleConfirmExecution(true)}
+            onConfirm={options => handleConfirmExecution(false, false, options.waitForPreconditions)}
+            onConfirmAndView={options => handleConfirmExecution(true, false, options.waitForPreconditions)}
+            onPreview={options => handleConfirmExecution(true, true, options.waitForPreconditions)}
+            supportsWhatIf={selectedScript.supportsWhatIf}
+            capabilities={selectedScript.capabilities}
+            compatibility={selectedScript.compatibility}
             scriptId={selectedScript.id}
             scriptName={selectedScript.name}
             scriptDescription={selectedScript.description}
@@ -386,6 +594,7 @@ export const Scripts: React.FC = () => {
             order={selectedScript.order}
             isFavorite={favorites.includes(selectedScript.id)}
             onToggleFavorite={handleToggleFavorite}
+            onExport={handleExportPackage}
           />
         )}
       </div>
@@ -0,0 +1,202 @@
+/**
+ * Script catalog: tools published centrally on a file share or web server and synced to this
+ * PC. The catalog location holds a manifest signed with the organisation's key, and the files
+ * it lists under <id>/<version>/:
+ *
+ *   \\fileserver\fak-catalog\catalog.json                    the manifest (below)
+ *   \\fileserver\fak-catalog\catalog.json.sig                base64 signature of catalog.json
+ *   \\fileserver\fak-catalog\flush-dns\1.2.0\flush-dns.ps1
+ *   \\fileserver\fak-catalog\flush-dns\1.2.0\flush-dns.json
+ *
+ *   {
+ *     "formatVersion": 1,
+ *     "publishedAt": "2026-10-19T09:30:00Z",
+ *     "scripts": [
+ *       { "id": "flush-dns", "version": "1.2.0", "files": [
+ *         { "name": "flush-dns.ps1", "sha256": "9f86d081884c7d65..." },
+ *         { "name": "flush-dns.json", "sha256": "2c26b46b68ffc68f..." }
+ *       ] }
+ *     ]
+ *   }
+ *
+ * New versions are downloaded to a staging area, checked against their hashes, kept under
+ * userData/catalog/versions/<id>/<version> and then promoted into userData/scripts/catalog/<id>,
+ * where the script registry picks them up. The catalog decides which version is active unless
+ * the script is pinned; rolling back pins the script to the older version.
+ *
+ * A manifest published before the last one accepted from the same location is refused, so an
+ * old signed manifest served again can't bring back versions the publisher has replaced.
+ * Going back to an older version on one PC is what rollback is for.
+ */
+
+import type { CatalogManifest } from '../validation/schemas';
+
+export const CATALOG_MANIFEST_FILE = 'catalog.json';
+export const CATALOG_SIGNATURE_FILE = 'catalog.json.sig';
+
+/** Versions of each script kept for rollback when catalogKeepVersions isn't set */
+export const DEFAULT_CATALOG_KEEP_VERSIONS = 3;
+export const MAX_CATALOG_KEEP_VERSIONS = 20;
+
+export const CATALOG_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+export type CatalogAction = 'install' | 'update' | 'remove' | 'rollback' | 'pin' | 'unpin' | 'failed' | 'rejected';
+
+/** What the installed copy of a script is, as far as syncing is concerned */
+export interface CatalogInstalledScript {
+  scriptId: string;
+  /** null once the script has been removed from the catalog */
+  activeVersion: string | null;
+  pinnedVersion: string | null;
+}
+
+/** One step of a sync: what happens to a script, from which version to which */
+export interface CatalogSyncStep {
+  scriptId: string;
+  action: 'install' | 'update' | 'remove';
+  fromVersion?: string;
+  toVersion?: string;
+}
+
+export interface CatalogVersionInfo {
+  version: string;
+  installedAt: number;
+}
+
+export interface CatalogScriptInfo {
+  scriptId: string;
+  activeVersion: string | null;
+  pinnedVersion: string | null;
+  /** Versions kept on this PC, newest first */
+  versions: CatalogVersionInfo[];
+  updatedAt: number;
+}
+
+/** An entry of the catalog change log */
+export interface CatalogChange {
+  timestamp: number;
+  scriptId: string;
+  action: CatalogAction;
+  fromVersion?: string;
+  toVersion?: string;
+  error?: string;
+}
+
+export interface CatalogSyncResult {
+  steps: CatalogSyncStep[];
+  failures: Array<{ scriptId: string; error: string }>;
+}
+
+export interface CatalogStatus {
+  source: string | null;
+  /** A location and signing key are both set */
+  configured: boolean;
+  syncing: boolean;
+  lastSyncAt: number | null;
+  lastSyncError: string | null;
+  scripts: CatalogScriptInfo[];
+  changes: CatalogChange[];
+}
+
+/** The newest manifest a sync accepted, kept in the catalogLastManifest setting */
+export interface CatalogManifestMark {
+  source: string;
+  publishedAt: string;
+}
+
+/**
+ * Why a manifest must be refused as older than the last one accepted from the same location,
+ * or null if it may be used. The same manifest again is fine; a new location starts afresh.
+ */
+export function checkManifestFreshness(
+  source: string,
+  publishedAt: string,
+  lastAccepted: CatalogManifestMark | null
+): string | null {
+  if (!lastAccepted || lastAccepted.source !== source) {
+    return null;
+  }
+  if (Date.parse(publishedAt) < Date.parse(lastAccepted.publishedAt)) {
+    return `The catalog manifest (published ${publishedAt}) is older than the one already synced (published ${lastAccepted.publishedAt})`;
+  }
+  return null;
+}
+
+export function isCatalogUrl(source: string): boolean {
+  return /^https?:\/\/[^\s/]+/i.test(source);
+}
+
+/** A UNC path (\\server\share\...) or an http(s) URL */
+export function isCatalogSource(source: string): boolean {
+  return isCatalogUrl(source) || /^\\\\[^\\/\s]+\\[^\\/]+/.test(source);
+}
+
+/**
+ * Compare two versions part by part ("1.10.0" is newer than "1.9.2"); parts that aren't
+ * numbers are compared as text.
+ */
+export function compareCatalogVersions(a: string, b: string): number {
+  const partsA = a.split(/[.-]/);
+  const partsB = b.split(/[.-]/);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] ?? '0';
+    const partB = partsB[i] ?? '0';
+    const numberA = Number(partA);
+    const numberB = Number(partB);
+
+    const difference = Number.isInteger(numberA) && Number.isInteger(numberB)
+      ? numberA - numberB
+      : partA.localeCompare(partB);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  return 0;
+}
+
+/**
+ * What a sync has to do. The catalog decides the active version, so a lower version in the
+ * catalog is installed too (that is how a publisher withdraws a broken release). Pinned
+ * scripts are left alone, and scripts no longer in the catalog are removed.
+ */
+export function planCatalogSync(manifest: CatalogManifest, installed: CatalogInstalledScript[]): CatalogSyncStep[] {
+  const installedById = new Map(installed.map(script => [script.scriptId, script]));
+  const steps: CatalogSyncStep[] = [];
+
+  for (const entry of manifest.scripts) {
+    const current = installedById.get(entry.id);
+    if (current?.pinnedVersion) continue;
+
+    if (!current?.activeVersion) {
+      steps.push({ scriptId: entry.id, action: 'install', toVersion: entry.version });
+    } else if (current.activeVersion !== entry.version) {
+      steps.push({ scriptId: entry.id, action: 'update', fromVersion: current.activeVersion, toVersion: entry.version });
+    }
+  }
+
+  const listed = new Set(manifest.scripts.map(entry => entry.id));
+  for (const script of installed) {
+    if (!listed.has(script.scriptId) && script.activeVersion && !script.pinnedVersion) {
+      steps.push({ scriptId: script.scriptId, action: 'remove', fromVersion: script.activeVersion });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Kept versions beyond the newest `keep`, which can be deleted. The active and pinned
+ * versions are always kept.
+ */
+export function selectVersionsToPrune(
+  versions: CatalogVersionInfo[],
+  keep: number,
+  protectedVersions: Array<string | null>
+): string[] {
+  return [...versions]
+    .sort((a, b) => b.installedAt - a.installedAt)
+    .slice(keep)
+    .map(version => version.version)
+    .filter(version => !protectedVersions.includes(version));
+}
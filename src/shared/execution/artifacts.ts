@@ -0,0 +1,43 @@
+/**
+ * Execution artifacts: files a script writes to its per-run artifacts directory.
+ *
+ * The directory is passed to the script in an environment variable; whatever is in it when
+ * the run ends is indexed and listed in Run History.
+ */
+
+/** Environment variable holding the run's artifacts directory */
+export const ARTIFACTS_ENV_VAR = 'FAK_ARTIFACTS_DIR';
+
+/** Files beyond this many are left on disk but not indexed */
+export const MAX_ARTIFACTS_PER_EXECUTION = 200;
+
+// Inert types the OS default handler only displays. Everything else - executables, scripts,
+// HTML, Office documents, files without an extension - can still be saved or shown in the folder
+const OPENABLE_EXTENSIONS = new Set([
+  '.txt', '.log', '.csv', '.tsv', '.json', '.xml', '.md',
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.pdf',
+]);
+
+export interface ExecutionArtifact {
+  id: number;
+  executionId: string;
+  /** Path inside the artifacts directory, '/'-separated */
+  relativePath: string;
+  sizeBytes: number;
+  modifiedAt: number;
+}
+
+/**
+ * Whether the app may hand the file to the OS default handler.
+ */
+export function canOpenArtifact(relativePath: string): boolean {
+  const name = relativePath.split('/').pop() ?? '';
+  const dot = name.lastIndexOf('.');
+  return dot !== -1 && OPENABLE_EXTENSIONS.has(name.substring(dot).toLowerCase());
+}
+
+export function formatArtifactSize(sizeBytes: number): string {
+  if (sizeBytes < 1024) return `${sizeBytes} B`;
+  if (sizeBytes < 1024 * 1024) return `${(sizeBytes / 1024).toFixed(1)} KB`;
+  return `${(sizeBytes / 1024 / 1024).toFixed(1)} MB`;
+}
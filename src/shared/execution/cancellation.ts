@@ -0,0 +1,61 @@
+/**
+ * Stopping a run that is cancelled, times out or goes over its memory limit.
+ *
+ *   "gracefulStopSeconds": 20,                 - ask the script to stop, wait this long before killing it
+ *   "cleanupScript": "file-backup.cleanup.ps1" - runs after a cancelled or timed-out run
+ *
+ * Every run gets FAK_STOP_FILE in its environment. For scripts with gracefulStopSeconds the
+ * file is created when a stop is requested; scripts poll for it (Test-FakStopRequested in
+ * PowerShell) and exit cleanly. Whatever is still running afterwards - the script and every
+ * process it started - is terminated. Cleanup scripts sit next to the script, are named
+ * <name>.cleanup.<ext> so they are not listed as tools, and get FAK_CANCEL_REASON and
+ * FAK_PARAMETERS (the run's parameters as JSON).
+ */
+
+export const STOP_FILE_ENV_VAR = 'FAK_STOP_FILE';
+export const CANCEL_REASON_ENV_VAR = 'FAK_CANCEL_REASON';
+export const CANCEL_PARAMETERS_ENV_VAR = 'FAK_PARAMETERS';
+
+export const MAX_GRACEFUL_STOP_SECONDS = 300;
+export const CLEANUP_TIMEOUT_MS = 60000;
+
+const CLEANUP_FILE_PATTERN = /\.cleanup\.[^./\\]+$/i;
+
+export type CancellationStepName = 'stop-signal' | 'terminate' | 'cleanup';
+export type CancellationOutcome = 'ok' | 'failed' | 'timeout';
+
+export interface CancellationStep {
+  step: CancellationStepName;
+  outcome: CancellationOutcome;
+  detail?: string;
+}
+
+const STEP_LABELS: Record<CancellationStepName, string> = {
+  'stop-signal': 'Graceful stop',
+  terminate: 'Process tree',
+  cleanup: 'Cleanup script',
+};
+
+/**
+ * Whether a file is a cleanup script, which script discovery skips.
+ */
+export function isCleanupScriptFile(fileName: string): boolean {
+  return CLEANUP_FILE_PATTERN.test(fileName);
+}
+
+/**
+ * Cleanup scripts run after cancellations and timeouts, but not when the app is shutting down.
+ */
+export function shouldRunCleanup(reason: string): boolean {
+  return reason !== 'shutdown';
+}
+
+/**
+ * Error text stored for a cancelled run: the reason, then one line per step.
+ */
+export function formatCancellationReport(reason: string, steps: CancellationStep[]): string {
+  const lines = steps.map(step =>
+    `${STEP_LABELS[step.step]}: ${step.outcome}${step.detail ? ` - ${step.detail}` : ''}`
+  );
+  return [`Cancelled: ${reason}`, ...lines].join('\n');
+}
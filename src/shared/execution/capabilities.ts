@@ -0,0 +1,255 @@
+/**
+ * Script capabilities: what a tool may do beyond reading the machine and writing to its own
+ * temp and artifacts folders. Scripts declare what they need in metadata:
+ *
+ *   "capabilities": ["network", "registry"]
+ *
+ * PowerShell scripts that declare capabilities run in Constrained Language Mode (unless they
+ * declare fullLanguage) behind a command guard that refuses anything outside the declaration.
+ * A refused command prints a marker line and fails:
+ *
+ *   ##FAK-CAPABILITY {"capability":"network","command":"Invoke-WebRequest","target":"https://example.com"}
+ *
+ * Scripts without a capabilities field run unrestricted, as before. Other runtimes have no
+ * command guard, so scripts for them that declare capabilities are not run at all.
+ */
+
+import type { ScriptRuntimeId } from './runtime';
+
+export const CAPABILITY_MARKER = '##FAK-CAPABILITY';
+
+export const SCRIPT_CAPABILITY_IDS = ['network', 'fileSystem', 'registry', 'processes', 'fullLanguage'] as const;
+export type ScriptCapability = typeof SCRIPT_CAPABILITY_IDS[number];
+
+export const CAPABILITY_LABELS: Record<ScriptCapability, string> = {
+  network: 'Connect to other computers and the internet',
+  fileSystem: 'Change files outside its own working folders',
+  registry: 'Read and change the registry',
+  processes: 'Start other programs',
+  fullLanguage: 'Use .NET, COM and Add-Type (other limits are not enforced)',
+};
+
+/** Unreachable proxy for runs without network access; also covers programs the script starts */
+export const BLOCKED_PROXY = 'http://127.0.0.1:9';
+
+// Commands that only make sense with network access
+const NETWORK_COMMANDS = [
+  'Invoke-WebRequest', 'Invoke-RestMethod', 'Test-NetConnection', 'Test-Connection', 'Resolve-DnsName',
+  'Start-BitsTransfer', 'Send-MailMessage', 'New-PSSession', 'Enter-PSSession', 'Connect-WSMan',
+  'New-CimSession', 'Invoke-WSManAction',
+];
+
+// Commands that reach other computers when given one of NETWORK_TARGET_PARAMETERS
+const REMOTABLE_COMMANDS = [
+  'Invoke-Command', 'Get-CimInstance', 'Invoke-CimMethod', 'Get-WmiObject', 'Invoke-WmiMethod',
+  'Get-Service', 'Restart-Computer', 'Stop-Computer', 'Get-Process', 'Copy-Item',
+];
+
+const NETWORK_TARGET_PARAMETERS = ['ComputerName', 'CimSession', 'Session', 'ConnectionUri', 'ToSession', 'FromSession'];
+
+const PROCESS_COMMANDS = ['Start-Process', 'Start-Job', 'Start-ThreadJob', 'Invoke-Item'];
+
+// Commands that call WMI methods or change WMI instances on this computer. Win32_Process.Create
+// starts programs and StdRegProv writes the registry, so they need both capabilities
+const WMI_METHOD_COMMANDS = [
+  'Invoke-CimMethod', 'Invoke-WmiMethod', 'New-CimInstance', 'Set-CimInstance', 'Remove-CimInstance',
+  'Set-WmiInstance', 'Remove-WmiObject',
+];
+
+/**
+ * Module functions are allowed only with one of these verbs. CDXML modules (NetAdapter,
+ * NetSecurity, DnsClient, Storage, ...) are functions that change settings through WMI, which
+ * the guard can't see into, so the others need fullLanguage.
+ */
+const READ_ONLY_VERBS = [
+  'Get', 'Test', 'Find', 'Search', 'Measure', 'Compare', 'Resolve', 'Select', 'Read', 'Format',
+  'ConvertFrom', 'ConvertTo',
+];
+
+// Modules shipped with PowerShell itself; their functions are checked like cmdlets
+const CORE_MODULES = [
+  'Microsoft.PowerShell.Archive', 'Microsoft.PowerShell.Management', 'Microsoft.PowerShell.Security',
+  'Microsoft.PowerShell.Utility',
+];
+
+// Programs refused even when processes is declared, unless their own capability is too
+const REGISTRY_PROGRAMS = ['reg.exe', 'regedit.exe', 'regini.exe'];
+const NETWORK_PROGRAMS = [
+  'curl.exe', 'wget.exe', 'ping.exe', 'nslookup.exe', 'tracert.exe', 'pathping.exe', 'ftp.exe',
+  'tftp.exe', 'ssh.exe', 'scp.exe', 'bitsadmin.exe',
+];
+
+/**
+ * Commands whose path parameters are checked: registry paths need registry, and changes to
+ * files outside the writable folders need fileSystem. Values are the parameters that are
+ * written to; all path parameters are checked for registry paths.
+ */
+const PATH_COMMANDS: Record<string, string[]> = {
+  'Get-Item': [],
+  'Get-ChildItem': [],
+  'Get-ItemProperty': [],
+  'Get-ItemPropertyValue': [],
+  'Get-Content': [],
+  'Get-Acl': [],
+  'Test-Path': [],
+  'Set-Location': [],
+  'Push-Location': [],
+  'Set-Content': ['Path', 'LiteralPath'],
+  'Add-Content': ['Path', 'LiteralPath'],
+  'Clear-Content': ['Path', 'LiteralPath'],
+  'Out-File': ['FilePath', 'LiteralPath'],
+  'Tee-Object': ['FilePath', 'LiteralPath'],
+  'New-Item': ['Path'],
+  'Remove-Item': ['Path', 'LiteralPath'],
+  'Copy-Item': ['Destination'],
+  'Move-Item': ['Path', 'LiteralPath', 'Destination'],
+  'Rename-Item': ['Path', 'LiteralPath'],
+  'Set-Item': ['Path', 'LiteralPath'],
+  'Clear-Item': ['Path', 'LiteralPath'],
+  'New-ItemProperty': ['Path', 'LiteralPath'],
+  'Set-ItemProperty': ['Path', 'LiteralPath'],
+  'Remove-ItemProperty': ['Path', 'LiteralPath'],
+  'Rename-ItemProperty': ['Path', 'LiteralPath'],
+  'Clear-ItemProperty': ['Path', 'LiteralPath'],
+  'Set-Acl': ['Path', 'LiteralPath'],
+  'Export-Csv': ['Path', 'LiteralPath'],
+  'Export-Clixml': ['Path', 'LiteralPath'],
+  'Expand-Archive': ['DestinationPath'],
+  'Compress-Archive': ['DestinationPath'],
+  'Start-Transcript': ['Path', 'LiteralPath', 'OutputDirectory'],
+};
+
+/** The guard's settings for one run, derived from the declared capabilities */
+export interface CapabilityRestrictions {
+  allowed: ScriptCapability[];
+  /** Commands refused outright, and the capability they need (keys are lowercase) */
+  deniedCommands: Record<string, ScriptCapability>;
+  /** Programs refused outright, and the capability they need (keys are lowercase) */
+  deniedPrograms: Record<string, ScriptCapability>;
+  /** Commands refused only when aimed at another computer */
+  remotableCommands: string[];
+  networkTargetParameters: string[];
+  /** Path-checked commands and the parameters they write to */
+  pathCommands: Record<string, string[]>;
+  /** Verbs of module functions that may be called; others need fullLanguage */
+  readOnlyVerbs: string[];
+  /** Modules whose functions are not limited to readOnlyVerbs */
+  coreModules: string[];
+  allowModuleFunctions: boolean;
+  /** Any program not in deniedPrograms may be started */
+  allowPrograms: boolean;
+  allowRegistry: boolean;
+  allowFileSystem: boolean;
+  allowNetwork: boolean;
+  constrainedLanguage: boolean;
+}
+
+export interface CapabilityViolation {
+  capability: ScriptCapability;
+  command: string;
+  target?: string;
+}
+
+export function isScriptCapability(value: unknown): value is ScriptCapability {
+  return typeof value === 'string' && (SCRIPT_CAPABILITY_IDS as readonly string[]).includes(value);
+}
+
+// Runtimes that run behind the command guard
+const ENFORCING_RUNTIMES: readonly ScriptRuntimeId[] = ['powershell', 'pwsh'];
+
+/**
+ * Why a script's declared capabilities can't be enforced under its runtime, or null if they
+ * can (or it declares none). A declared sandbox that does nothing is worse than none.
+ */
+export function getUnenforceableCapabilitiesReason(
+  runtime: ScriptRuntimeId | undefined,
+  capabilities: readonly ScriptCapability[] | undefined
+): string | null {
+  if (!capabilities || !runtime || ENFORCING_RUNTIMES.includes(runtime)) {
+    return null;
+  }
+  return `Declares capabilities, which can't be enforced for ${runtime} scripts`;
+}
+
+export function getCapabilityRestrictions(capabilities: readonly ScriptCapability[]): CapabilityRestrictions {
+  const allowed = SCRIPT_CAPABILITY_IDS.filter(id => capabilities.includes(id));
+  const has = (capability: ScriptCapability) => allowed.includes(capability);
+
+  const deniedCommands: Record<string, ScriptCapability> = {};
+  const deniedPrograms: Record<string, ScriptCapability> = {};
+  const deny = (target: Record<string, ScriptCapability>, names: string[], capability: ScriptCapability) => {
+    if (has(capability)) return;
+    for (const name of names) target[name.toLowerCase()] = capability;
+  };
+
+  deny(deniedCommands, NETWORK_COMMANDS, 'network');
+  deny(deniedCommands, PROCESS_COMMANDS, 'processes');
+  // WMI methods need both; the one still missing is reported
+  deny(deniedCommands, WMI_METHOD_COMMANDS, 'registry');
+  deny(deniedCommands, WMI_METHOD_COMMANDS, 'processes');
+  deny(deniedPrograms, NETWORK_PROGRAMS, 'network');
+  deny(deniedPrograms, REGISTRY_PROGRAMS, 'registry');
+
+  return {
+    allowed,
+    deniedCommands,
+    deniedPrograms,
+    remotableCommands: has('network') ? [] : REMOTABLE_COMMANDS,
+    networkTargetParameters: NETWORK_TARGET_PARAMETERS,
+    pathCommands: has('registry') && has('fileSystem') ? {} : PATH_COMMANDS,
+    readOnlyVerbs: READ_ONLY_VERBS,
+    coreModules: CORE_MODULES,
+    allowModuleFunctions: has('fullLanguage'),
+    allowPrograms: has('processes'),
+    allowRegistry: has('registry'),
+    allowFileSystem: has('fileSystem'),
+    allowNetwork: has('network'),
+    constrainedLanguage: !has('fullLanguage'),
+  };
+}
+
+/**
+ * Parse a capability marker line. Returns null if the line is not a valid marker.
+ */
+export function parseCapabilityLine(line: string): CapabilityViolation | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(CAPABILITY_MARKER)) {
+    return null;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(trimmed.substring(CAPABILITY_MARKER.length).trim());
+  } catch {
+    return null;
+  }
+
+  if (!payload || !isScriptCapability(payload.capability) || typeof payload.command !== 'string') {
+    return null;
+  }
+
+  const violation: CapabilityViolation = {
+    capability: payload.capability,
+    command: payload.command.substring(0, 200),
+  };
+  if (typeof payload.target === 'string' && payload.target) {
+    violation.target = payload.target.substring(0, 500);
+  }
+  return violation;
+}
+
+// Errors Constrained Language Mode raises for .NET, COM and Add-Type
+const LANGUAGE_MODE_ERRORS = [
+  /supported only on core types in this language mode/i,
+  /Only core types are supported in this language mode/i,
+  /Cannot create type\. Only core types are supported/i,
+  /Cannot (?:add|use) .* in this language mode/i,
+];
+
+/**
+ * Whether stderr shows the script was stopped by Constrained Language Mode, i.e. it needs
+ * fullLanguage.
+ */
+export function isLanguageModeViolation(stderr: string): boolean {
+  return LANGUAGE_MODE_ERRORS.some(pattern => pattern.test(stderr));
+}
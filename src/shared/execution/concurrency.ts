@@ -0,0 +1,78 @@
+/**
+ * Concurrency rules declared in script metadata.
+ *
+ *   "concurrencyGroup": "file-transfer"   - at most one script from the group runs at a time
+ *   "maxInstances": 1                      - at most this many copies of the script run at a time
+ *   "concurrencyPolicy": "reject"          - refuse a conflicting run instead of queueing it
+ *
+ * Used by the executor to decide whether a run may start, and by the confirmation dialog
+ * to explain why a tool is blocked.
+ */
+
+export type ConcurrencyPolicy = 'queue' | 'reject';
+
+export interface ConcurrencySettings {
+  id: string;
+  name: string;
+  concurrencyGroup?: string;
+  maxInstances?: number;
+  concurrencyPolicy?: ConcurrencyPolicy;
+}
+
+/** A run that is currently holding a slot */
+export interface ConcurrencyRun {
+  scriptId: string;
+  scriptName: string;
+  concurrencyGroup?: string;
+}
+
+export interface ConcurrencyConflict {
+  kind: 'instances' | 'group';
+  /** What happens to the new run: wait in the queue or be refused */
+  policy: ConcurrencyPolicy;
+  /** Names of the running scripts that block the new run */
+  blockedBy: string[];
+  reason: string;
+}
+
+/**
+ * Check whether a script may start next to the given runs. Returns null if it can.
+ * Copies of the same script are limited by maxInstances only, not by their group.
+ */
+export function findConcurrencyConflict(
+  script: ConcurrencySettings,
+  running: ConcurrencyRun[]
+): ConcurrencyConflict | null {
+  const policy = script.concurrencyPolicy ?? 'queue';
+
+  if (script.maxInstances !== undefined) {
+    const instances = running.filter(run => run.scriptId === script.id).length;
+    if (instances >= script.maxInstances) {
+      return {
+        kind: 'instances',
+        policy,
+        blockedBy: [script.name],
+        reason: script.maxInstances === 1
+          ? `${script.name} is already running.`
+          : `${script.name} is already running ${instances} times (limit ${script.maxInstances}).`
+      };
+    }
+  }
+
+  if (script.concurrencyGroup) {
+    const others = running.filter(
+      run => run.scriptId !== script.id && run.concurrencyGroup === script.concurrencyGroup
+    );
+    if (others.length > 0) {
+      const blockedBy = [...new Set(others.map(run => run.scriptName))];
+      return {
+        kind: 'group',
+        policy,
+        blockedBy,
+        reason: `${script.name} can't run while ${blockedBy.join(', ')} ${blockedBy.length === 1 ? 'is' : 'are'} running.`
+      };
+    }
+  }
+
+  return null;
+}
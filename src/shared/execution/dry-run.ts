@@ -0,0 +1,39 @@
+/**
+ * Dry runs ("Preview") for scripts whose metadata declares "supportsWhatIf": true.
+ *
+ * The script gets its WhatIf parameter set and FAK_DRY_RUN=1 in its environment, and is
+ * expected to report what it would do without changing anything. Previews are tagged in
+ * the execution log and left out of success/failure stats.
+ *
+ * PowerShell scripts with a param() block always get -WhatIf on their command line, declared
+ * or not: [CmdletBinding(SupportsShouldProcess)] provides WhatIf without a declaration, and a
+ * script that accepts neither fails to start rather than running for real.
+ */
+
+/** Environment variable set to "1" for dry runs, for scripts without a WhatIf parameter */
+export const DRY_RUN_ENV_VAR = 'FAK_DRY_RUN';
+
+/** Script parameter switched on for dry runs */
+export const DRY_RUN_PARAMETER = 'WhatIf';
+
+/**
+ * Whether the script's metadata declares the WhatIf parameter itself, in which case it is
+ * passed like any other parameter.
+ */
+export function declaresDryRunParameter(parameters: ReadonlyArray<{ name: string }> | undefined): boolean {
+  return !!parameters?.some(parameter => parameter.name.toLowerCase() === DRY_RUN_PARAMETER.toLowerCase());
+}
+
+/**
+ * Parameters for a dry run: WhatIf forced on, whatever case the caller used for it.
+ */
+export function withDryRunParameter(parameters: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(parameters)) {
+    if (key.toLowerCase() !== DRY_RUN_PARAMETER.toLowerCase()) {
+      result[key] = value;
+    }
+  }
+  result[DRY_RUN_PARAMETER] = true;
+  return result;
+}
@@ -0,0 +1,84 @@
+/**
+ * Preconditions declared in script metadata and checked before a run starts, so a tool like
+ * file-backup doesn't fail 20 minutes in:
+ *
+ *   "preconditions": [
+ *     { "type": "diskSpace", "drive": "C:", "minFreeGB": 20 },
+ *     { "type": "reachable", "path": "\\\\fileserver\\backups" },
+ *     { "type": "reachable", "host": "dc01.corp.local", "port": 389 },
+ *     { "type": "acPower" },
+ *     { "type": "minOsBuild", "build": 19045 },
+ *     { "type": "process", "name": "outlook.exe" }
+ *   ]
+ *
+ * A run whose conditions fail is refused, or - if the user chose "run automatically when
+ * conditions are met" - kept pending and re-checked until they pass.
+ */
+
+export type Precondition =
+  | { type: 'diskSpace'; drive?: string; minFreeGB: number }
+  | { type: 'reachable'; host?: string; path?: string; port?: number }
+  | { type: 'acPower' }
+  | { type: 'minOsBuild'; build: number }
+  | { type: 'process'; name: string };
+
+export interface PreconditionResult {
+  precondition: Precondition;
+  /** What is required, e.g. "At least 20 GB free on C:" */
+  label: string;
+  passed: boolean;
+  /** Why it failed, e.g. "3.2 GB free" */
+  detail?: string;
+}
+
+export interface PreconditionCheck {
+  passed: boolean;
+  results: PreconditionResult[];
+  checkedAt: number;
+}
+
+export const DEFAULT_REACHABLE_PORT = 443;
+
+export function describePrecondition(precondition: Precondition): string {
+  switch (precondition.type) {
+    case 'diskSpace':
+      return `At least ${precondition.minFreeGB} GB free on ${precondition.drive ?? 'the system drive'}`;
+    case 'reachable':
+      return precondition.path
+        ? `${precondition.path} reachable`
+        : `${precondition.host} reachable on port ${precondition.port ?? DEFAULT_REACHABLE_PORT}`;
+    case 'acPower':
+      return 'Plugged into AC power';
+    case 'minOsBuild':
+      return `Windows build ${precondition.build} or later`;
+    case 'process':
+      return `${precondition.name} running`;
+  }
+}
+
+/**
+ * Build number from os.release() on Windows, e.g. "10.0.22631" -> 22631.
+ */
+export function parseWindowsBuild(release: string): number | null {
+  const build = Number(release.split('.')[2]);
+  return Number.isInteger(build) && build > 0 ? build : null;
+}
+
+/**
+ * Whether a process name is in a list of running image names. Case-insensitive; ".exe" is optional.
+ */
+export function isProcessRunning(runningNames: string[], name: string): boolean {
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/\.exe$/, '');
+  const wanted = normalize(name);
+  return runningNames.some(running => normalize(running) === wanted);
+}
+
+/**
+ * One line for logs, errors and the execution panel: the failed conditions and why.
+ */
+export function summarizeFailedPreconditions(check: PreconditionCheck): string {
+  return check.results
+    .filter(result => !result.passed)
+    .map(result => (result.detail ? `${result.label} (${result.detail})` : result.label))
+    .join('; ');
+}
@@ -0,0 +1,78 @@
+/**
+ * Script progress reporting shared by the executor and the renderer.
+ *
+ * Scripts report progress either by calling Write-Progress (the executor installs a proxy
+ * that forwards each call to stdout) or by printing a marker line themselves:
+ *
+ *   ##FAK-PROGRESS {"percent":42,"phase":"Copying Documents","status":"1,204 of 2,870 files"}
+ *
+ * Marker lines are removed from the script output shown to the user (see script-output.ts).
+ */
+
+export const PROGRESS_MARKER = '##FAK-PROGRESS';
+
+export interface ScriptProgress {
+  /** 0-100, undefined when the script has not reported a percentage */
+  percent?: number;
+  /** Current phase, e.g. "Copying Documents" (Write-Progress -Activity) */
+  phase?: string;
+  /** Detail text, e.g. "1,204 of 2,870 files" (Write-Progress -Status) */
+  status?: string;
+}
+
+const MAX_TEXT_LENGTH = 200;
+
+function readText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text ? text.substring(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * Parse a single progress marker line. Returns null if the line is not a valid marker.
+ */
+export function parseProgressLine(line: string): ScriptProgress | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(PROGRESS_MARKER)) {
+    return null;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(trimmed.substring(PROGRESS_MARKER.length).trim());
+  } catch {
+    return null;
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const progress: ScriptProgress = {};
+
+  // Write-Progress uses -1 for "no percentage"; -Completed means the phase is done
+  const percent = payload.completed === true ? 100 : Number(payload.percent);
+  if (Number.isFinite(percent) && percent >= 0) {
+    progress.percent = Math.min(100, Math.round(percent));
+  }
+
+  const phase = readText(payload.phase) ?? readText(payload.activity);
+  if (phase) progress.phase = phase;
+
+  const status = readText(payload.status) ?? readText(payload.operation);
+  if (status) progress.status = status;
+
+  return progress;
+}
+
+/**
+ * Label for display, e.g. "Copying Documents (42%)".
+ */
+export function formatProgressLabel(progress: ScriptProgress): string {
+  const percent = progress.percent !== undefined ? `${progress.percent}%` : '';
+  if (progress.phase) {
+    return percent ? `${progress.phase} (${percent})` : progress.phase;
+  }
+  return percent ? `${percent} complete` : '';
+}
+
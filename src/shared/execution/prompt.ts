@@ -0,0 +1,114 @@
+/**
+ * Interactive prompt relay shared by the executor and the renderer.
+ *
+ * The executor replaces Read-Host and $Host.UI.PromptForChoice with versions that print a
+ * marker line to stdout and then wait for a single JSON answer line on stdin:
+ *
+ *   ##FAK-PROMPT {"promptId":"...","kind":"text","message":"Computer name","masked":false}
+ *   {"promptId":"...","value":"PC-1234"}
+ *
+ * Masked answers are passed to the script but never logged or audited.
+ */
+
+export const PROMPT_MARKER = '##FAK-PROMPT';
+
+export interface ScriptPromptChoice {
+  label: string;
+  helpMessage?: string;
+}
+
+export interface ScriptPrompt {
+  promptId: string;
+  kind: 'text' | 'choice';
+  message: string;
+  title?: string;
+  /** Input should be hidden (Read-Host -AsSecureString / -MaskInput) */
+  masked: boolean;
+  choices?: ScriptPromptChoice[];
+  defaultChoice?: number;
+}
+
+export interface ScriptPromptResponse {
+  promptId: string;
+  value?: string;
+  choice?: number;
+  cancelled?: boolean;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_CHOICES = 20;
+
+function readText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text ? text.substring(0, maxLength) : undefined;
+}
+
+/**
+ * Parse a single prompt marker line. Returns null if the line is not a valid marker.
+ */
+export function parsePromptLine(line: string): ScriptPrompt | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(PROMPT_MARKER)) {
+    return null;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(trimmed.substring(PROMPT_MARKER.length).trim());
+  } catch {
+    return null;
+  }
+
+  const promptId = payload && readText(payload.promptId, 100);
+  if (!promptId) {
+    return null;
+  }
+
+  const prompt: ScriptPrompt = {
+    promptId,
+    kind: payload.kind === 'choice' ? 'choice' : 'text',
+    message: readText(payload.message, MAX_MESSAGE_LENGTH) ?? '',
+    masked: payload.masked === true,
+  };
+
+  const title = readText(payload.title, 200);
+  if (title) prompt.title = title;
+
+  if (prompt.kind === 'choice') {
+    // ConvertTo-Json emits a single object instead of an array when there is one choice
+    const rawChoices = Array.isArray(payload.choices) ? payload.choices : [payload.choices];
+    prompt.choices = rawChoices
+      .filter((choice): choice is Record<string, unknown> => !!choice && typeof choice === 'object')
+      .slice(0, MAX_CHOICES)
+      .map((choice) => {
+        // Strip the hotkey marker from labels like "&Yes"
+        const label = (readText(choice.label, 100) ?? '').replace(/&(&?)/g, '$1');
+        const helpMessage = readText(choice.helpMessage, 500);
+        return helpMessage ? { label, helpMessage } : { label };
+      });
+
+    if (prompt.choices.length === 0) {
+      return null;
+    }
+
+    const defaultChoice = Number(payload.defaultChoice);
+    if (Number.isInteger(defaultChoice) && defaultChoice >= 0 && defaultChoice < prompt.choices.length) {
+      prompt.defaultChoice = defaultChoice;
+    }
+  }
+
+  return prompt;
+}
+
+/**
+ * Encode an answer as the single stdin line the script is waiting for.
+ * Non-ASCII characters are escaped so the console input code page can't mangle them.
+ */
+export function formatPromptResponse(response: ScriptPromptResponse): string {
+  const json = JSON.stringify(response).replace(
+    /[\u007f-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+  return `${json}\n`;
+}
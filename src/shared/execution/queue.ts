@@ -0,0 +1,45 @@
+/**
+ * Run order of the execution queue.
+ *
+ * Higher priority runs first and runs of equal priority keep their arrival order. A manual
+ * move puts a run at any position, overriding priority. The order is saved as a position per
+ * run, so the queue comes back the same after a restart.
+ */
+
+export interface QueueEntry {
+  priority: number;
+}
+
+/** A queued run as saved, for restoring the queue */
+export interface SavedQueueEntry {
+  position: number;
+  enqueuedAt: number;
+}
+
+/**
+ * Index a new run goes in: behind every run of equal or higher priority.
+ */
+export function getQueueInsertIndex(queue: readonly QueueEntry[], priority: number): number {
+  const index = queue.findIndex(entry => entry.priority < priority);
+  return index === -1 ? queue.length : index;
+}
+
+/**
+ * Move the run at fromIndex to a 1-based position, clamped to the queue. Returns the new
+ * order and the index the run ended up at.
+ */
+export function moveQueueEntry<T>(queue: readonly T[], fromIndex: number, position: number): { queue: T[]; index: number } {
+  const result = [...queue];
+  const [entry] = result.splice(fromIndex, 1);
+  const index = Math.max(0, Math.min(result.length, Math.floor(position) - 1));
+  result.splice(index, 0, entry);
+  return { queue: result, index };
+}
+
+/**
+ * Saved runs in the order they were queued in; ties (e.g. from an interrupted reorder) go by
+ * arrival.
+ */
+export function orderSavedQueue<T extends SavedQueueEntry>(entries: readonly T[]): T[] {
+  return [...entries].sort((a, b) => a.position - b.position || a.enqueuedAt - b.enqueuedAt);
+}
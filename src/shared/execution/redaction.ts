@@ -0,0 +1,135 @@
+/**
+ * Redaction of script output before it is stored, written to the app log or exported.
+ *
+ * Built-in detectors cover what turns up in helpdesk tool output - email addresses, labelled
+ * employee IDs, user names in profile paths, and tokens or passwords. They are all on unless
+ * the redactionDetectors setting lists a subset. Scripts add their own rules in metadata:
+ *
+ *   "redactions": [
+ *     { "pattern": "EMP-\\d{6}", "replacement": "[employee-id]" },
+ *     { "pattern": "asset tag: \\w+", "flags": "i" }
+ *   ]
+ *
+ * The number of redactions per field is stored with the run.
+ */
+
+export const REDACTION_DETECTOR_IDS = ['email', 'employeeId', 'userPath', 'token'] as const;
+export type RedactionDetectorId = typeof REDACTION_DETECTOR_IDS[number];
+
+export const DEFAULT_REDACTION_REPLACEMENT = '[redacted]';
+
+export const MAX_REDACTION_RULES = 20;
+
+export interface RedactionRule {
+  /** JavaScript regular expression, matched globally */
+  pattern: string;
+  /** Extra flags: i, m, s, u */
+  flags?: string;
+  replacement?: string;
+}
+
+/** Redactions made per field, e.g. { output: 3, error: 0 } */
+export type RedactionCounts = Record<string, number>;
+
+export interface RedactionOutcome {
+  text: string;
+  count: number;
+}
+
+interface Detector {
+  pattern: RegExp;
+  /** Called with the match and its groups, so context like labels can be kept */
+  replace: (match: string, ...groups: string[]) => string;
+}
+
+const BUILT_IN_DETECTORS: Record<RedactionDetectorId, Detector> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replace: () => '[email]'
+  },
+  // "Employee ID: 104233", "EmployeeNumber=E-5521" - bare numbers are left to script rules,
+  // and the value must contain a digit so "employee number lookup" is left alone
+  employeeId: {
+    pattern: /\b(employee[\s_-]?(?:id|number|no\.?)|emp[\s_-]?id)(\s*[:=#]\s*|\s+)((?=[A-Za-z-]*\d)[A-Za-z0-9-]{3,})/gi,
+    replace: (_match, label, separator) => `${label}${separator}[employee-id]`
+  },
+  // C:\Users\jdoe, \\server\share$\Users\jdoe, /home/jdoe, /Users/jdoe
+  userPath: {
+    pattern: /([\\/](?:Users|home)[\\/])(?!Public\b|Default\b|All Users\b)([^\\/\s"'<>|:*?]+)/gi,
+    replace: (_match, prefix) => `${prefix}[user]`
+  },
+  // Bearer tokens, JWTs, and values of password/secret/token/api key assignments
+  token: {
+    pattern: /(\bBearer\s+)[A-Za-z0-9._~+/-]+=*|\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+|(\b(?:password|passwd|pwd|secret|client[_-]?secret|token|api[_-]?key|access[_-]?key)\b\s*[:=]\s*)("[^"]*"|'[^']*'|\S+)/gi,
+    replace: (_match, bearer, label) => {
+      if (bearer) return `${bearer}[token]`;
+      if (label) return `${label}[token]`;
+      return '[token]';
+    }
+  }
+};
+
+/** Whether a rule's pattern compiles, with its flags */
+export function isValidRedactionRule(rule: RedactionRule): boolean {
+  try {
+    compileRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function compileRule(rule: RedactionRule): RegExp {
+  const flags = Array.from(new Set(`g${rule.flags ?? ''}`)).join('');
+  return new RegExp(rule.pattern, flags);
+}
+
+export interface Redactor {
+  redact(text: string): RedactionOutcome;
+  /** Redact several fields at once, e.g. { output, error }, counting each separately */
+  redactFields<K extends string>(fields: Record<K, string>): { fields: Record<K, string>; counts: RedactionCounts };
+}
+
+export function createRedactor(detectorIds: readonly RedactionDetectorId[], rules: RedactionRule[] = []): Redactor {
+  const detectors: Detector[] = [
+    ...detectorIds.map(id => BUILT_IN_DETECTORS[id]),
+    // A rule that doesn't compile is skipped rather than failing the run; metadata validation reports it
+    ...rules.filter(isValidRedactionRule).map(rule => ({
+      pattern: compileRule(rule),
+      replace: () => rule.replacement ?? DEFAULT_REDACTION_REPLACEMENT
+    }))
+  ];
+
+  const redact = (text: string): RedactionOutcome => {
+    let count = 0;
+    let redacted = text;
+    for (const detector of detectors) {
+      redacted = redacted.replace(detector.pattern, (match: string, ...args: any[]) => {
+        count++;
+        // replace() passes the groups, then offset and the whole string
+        const groups = args.slice(0, -2).map(group => (typeof group === 'string' ? group : ''));
+        return detector.replace(match, ...groups);
+      });
+    }
+    return { text: redacted, count };
+  };
+
+  return {
+    redact,
+    redactFields<K extends string>(fields: Record<K, string>) {
+      const redacted = {} as Record<K, string>;
+      const counts: RedactionCounts = {};
+      for (const key of Object.keys(fields) as K[]) {
+        const outcome = redact(fields[key]);
+        redacted[key] = outcome.text;
+        counts[key] = outcome.count;
+      }
+      return { fields: redacted, counts };
+    }
+  };
+}
+
+/** Total redactions across fields */
+export function countRedactions(counts: RedactionCounts | null | undefined): number {
+  return Object.values(counts ?? {}).reduce((total, count) => total + count, 0);
+}
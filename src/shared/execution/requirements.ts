@@ -0,0 +1,191 @@
+/**
+ * What a tool needs from the PC it runs on, declared in script metadata and checked against
+ * the PC's detected facts when tools are listed and again before every run:
+ *
+ *   "compatibleOS": ["Windows 10", "Windows 11"],
+ *   "requirements": {
+ *     "os": [{ "name": "Windows 11" }, { "name": "Windows 10", "minBuild": 19045 }],
+ *     "architecture": ["x64", "arm64"],
+ *     "minPowerShellVersion": "5.1",
+ *     "modules": ["ActiveDirectory"],
+ *     "domainJoined": true
+ *   }
+ *
+ * compatibleOS is the short form of requirements.os (names only) and is used when
+ * requirements.os isn't given. minPowerShellVersion and modules are checked against the
+ * PowerShell the tool runs under (powershell.exe or pwsh). Facts that couldn't be detected
+ * don't make a tool incompatible.
+ * Unlike preconditions (shared/execution/preconditions.ts), requirements don't change while
+ * the app runs, so an incompatible tool is shown disabled rather than offered a wait.
+ */
+
+import type { ScriptRuntimeId } from './runtime';
+
+export const SCRIPT_ARCHITECTURES = ['x64', 'arm64', 'x86'] as const;
+export type ScriptArchitecture = typeof SCRIPT_ARCHITECTURES[number];
+
+export interface OsRequirement {
+  /** e.g. "Windows 10", "Windows 11", "Windows Server", "macOS", "Linux" - compared case-insensitively */
+  name: string;
+  minBuild?: number;
+  maxBuild?: number;
+}
+
+export interface ScriptRequirements {
+  os?: OsRequirement[];
+  architecture?: ScriptArchitecture[];
+  /** Version of the PowerShell the tool runs under, e.g. "5.1" or "7.2" */
+  minPowerShellVersion?: string;
+  /** PowerShell modules that must be installed for that PowerShell, e.g. "ActiveDirectory" */
+  modules?: string[];
+  /** true: only on domain-joined PCs; false: only on PCs that aren't */
+  domainJoined?: boolean;
+}
+
+/** What one PowerShell runtime reports about itself. null means it couldn't be detected. */
+export interface PowerShellFacts {
+  version: string | null;
+  /** Modules on that runtime's module path */
+  modules: string[] | null;
+}
+
+/** The PC the app runs on. null means the fact couldn't be detected. */
+export interface SystemFacts {
+  osName: string;
+  osBuild: number | null;
+  architecture: ScriptArchitecture | null;
+  domainJoined: boolean | null;
+  /** By runtime ID (powershell, pwsh); runtimes that weren't probed are unknown */
+  powerShell: Partial<Record<ScriptRuntimeId, PowerShellFacts>>;
+}
+
+export interface ScriptCompatibility {
+  compatible: boolean;
+  /** Why not, e.g. "Requires Windows 11 (this PC runs Windows 10, build 19045)" */
+  reasons: string[];
+}
+
+// Windows 11 kept the 10.0 version number; only the build tells them apart
+const WINDOWS_11_FIRST_BUILD = 22000;
+
+/**
+ * Marketing name of the OS from os.platform(), os.release() and os.version(),
+ * e.g. ('win32', '10.0.22631', 'Windows 10 Pro') -> "Windows 11".
+ */
+export function detectOsName(platform: string, release: string, version: string): string {
+  switch (platform) {
+    case 'win32': {
+      if (/server/i.test(version)) return 'Windows Server';
+      const build = Number(release.split('.')[2]);
+      return build >= WINDOWS_11_FIRST_BUILD ? 'Windows 11' : 'Windows 10';
+    }
+    case 'darwin':
+      return 'macOS';
+    case 'linux':
+      return 'Linux';
+    default:
+      return platform;
+  }
+}
+
+/**
+ * e.g. "AMD64" (PROCESSOR_ARCHITECTURE), "x86_64" (os.machine()) or "x64" (os.arch()) -> "x64".
+ */
+export function normalizeArchitecture(value: string): ScriptArchitecture | null {
+  switch (value.trim().toLowerCase()) {
+    case 'x64':
+    case 'amd64':
+    case 'x86_64':
+      return 'x64';
+    case 'arm64':
+    case 'aarch64':
+      return 'arm64';
+    case 'x86':
+    case 'ia32':
+    case 'i386':
+    case 'i686':
+      return 'x86';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compare dotted version strings numerically: "5.1" < "5.1.19041" < "7.4".
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/** Whether the requirements need facts from the tool's own PowerShell runtime */
+export function needsRuntimeFacts(requirements: ScriptRequirements | undefined): boolean {
+  return !!requirements && (requirements.minPowerShellVersion !== undefined || !!requirements.modules?.length);
+}
+
+function describeOsRequirement(requirement: OsRequirement): string {
+  if (requirement.minBuild !== undefined && requirement.maxBuild !== undefined) {
+    return `${requirement.name} build ${requirement.minBuild}-${requirement.maxBuild}`;
+  }
+  if (requirement.minBuild !== undefined) return `${requirement.name} build ${requirement.minBuild} or later`;
+  if (requirement.maxBuild !== undefined) return `${requirement.name} build ${requirement.maxBuild} or earlier`;
+  return requirement.name;
+}
+
+function matchesOs(requirement: OsRequirement, facts: SystemFacts): boolean {
+  if (requirement.name.trim().toLowerCase() !== facts.osName.toLowerCase()) return false;
+  if (facts.osBuild === null) return true;
+  if (requirement.minBuild !== undefined && facts.osBuild < requirement.minBuild) return false;
+  if (requirement.maxBuild !== undefined && facts.osBuild > requirement.maxBuild) return false;
+  return true;
+}
+
+/**
+ * Check a tool's requirements against the PC and the runtime it runs under. Every unmet
+ * requirement gives one reason.
+ */
+export function evaluateRequirements(
+  requirements: ScriptRequirements | undefined,
+  compatibleOS: string[] | undefined,
+  facts: SystemFacts,
+  runtime?: ScriptRuntimeId
+): ScriptCompatibility {
+  const reasons: string[] = [];
+
+  const osRequirements = requirements?.os ?? compatibleOS?.map(name => ({ name }));
+  if (osRequirements?.length && !osRequirements.some(requirement => matchesOs(requirement, facts))) {
+    const current = facts.osBuild !== null ? `${facts.osName}, build ${facts.osBuild}` : facts.osName;
+    reasons.push(`Requires ${osRequirements.map(describeOsRequirement).join(' or ')} (this PC runs ${current})`);
+  }
+
+  const architectures = requirements?.architecture;
+  if (architectures?.length && facts.architecture !== null && !architectures.includes(facts.architecture)) {
+    reasons.push(`Requires ${architectures.join(' or ')} (this PC is ${facts.architecture})`);
+  }
+
+  const powerShell = runtime ? facts.powerShell[runtime] : undefined;
+  const minVersion = requirements?.minPowerShellVersion;
+  if (minVersion && powerShell?.version && compareVersions(powerShell.version, minVersion) < 0) {
+    reasons.push(`Requires PowerShell ${minVersion} or later (${runtime} on this PC is ${powerShell.version})`);
+  }
+
+  if (requirements?.modules?.length && powerShell?.modules) {
+    const installed = new Set(powerShell.modules.map(name => name.toLowerCase()));
+    const missing = requirements.modules.filter(name => !installed.has(name.toLowerCase()));
+    if (missing.length > 0) {
+      reasons.push(`Requires the PowerShell module${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`);
+    }
+  }
+
+  const domainJoined = requirements?.domainJoined;
+  if (domainJoined !== undefined && facts.domainJoined !== null && domainJoined !== facts.domainJoined) {
+    reasons.push(domainJoined ? 'Requires a domain-joined PC' : 'Only for PCs that are not domain-joined');
+  }
+
+  return { compatible: reasons.length === 0, reasons };
+}
@@ -0,0 +1,104 @@
+/**
+ * "Run again" for past executions.
+ *
+ * Every run records the script's hash and parameter definitions next to its parameters.
+ * Before a run is repeated, those are compared with the script as it is now, so the
+ * confirmation dialog can point out what changed since.
+ */
+
+/** The parts of a parameter definition that matter when reusing a value */
+export interface ParameterDefinitionSnapshot {
+  name: string;
+  type: string;
+  required?: boolean;
+  options?: string[];
+  default?: unknown;
+  validation?: Record<string, unknown>;
+}
+
+export interface ParameterDefinitionChange {
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  /** For changed parameters: which parts differ, e.g. ["type", "required"] */
+  fields?: string[];
+}
+
+export interface RerunInfo {
+  /** The run being repeated */
+  executionId: string;
+  scriptId: string;
+  scriptName: string;
+  /** Parameters to send, i.e. the original ones minus any the script no longer declares */
+  parameters: Record<string, any>;
+  /** null when the run predates change tracking */
+  scriptChanged: boolean | null;
+  parameterChanges: ParameterDefinitionChange[];
+}
+
+const COMPARED_FIELDS = ['type', 'required', 'options', 'default', 'validation'] as const;
+
+// Order-insensitive for object keys, so re-saved metadata doesn't count as a change
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Differences between the parameter definitions a run used and the current ones.
+ */
+export function diffParameterDefinitions(
+  before: ParameterDefinitionSnapshot[],
+  after: ParameterDefinitionSnapshot[]
+): ParameterDefinitionChange[] {
+  const changes: ParameterDefinitionChange[] = [];
+  const current = new Map(after.map(definition => [definition.name, definition]));
+  const previous = new Map(before.map(definition => [definition.name, definition]));
+
+  for (const old of before) {
+    const now = current.get(old.name);
+    if (!now) {
+      changes.push({ name: old.name, change: 'removed' });
+      continue;
+    }
+    const fields = COMPARED_FIELDS.filter(field => stableStringify(old[field]) !== stableStringify(now[field]));
+    if (fields.length > 0) {
+      changes.push({ name: old.name, change: 'changed', fields: [...fields] });
+    }
+  }
+
+  for (const definition of after) {
+    if (!previous.has(definition.name)) {
+      changes.push({ name: definition.name, change: 'added' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The original parameters, without values for parameters the script no longer declares.
+ */
+export function getRerunParameters(
+  parameters: Record<string, any>,
+  changes: ParameterDefinitionChange[]
+): Record<string, any> {
+  const removed = new Set(changes.filter(change => change.change === 'removed').map(change => change.name));
+  return Object.fromEntries(Object.entries(parameters).filter(([name]) => !removed.has(name)));
+}
+
+export function describeParameterChange(change: ParameterDefinitionChange): string {
+  switch (change.change) {
+    case 'added':
+      return `${change.name}: new parameter`;
+    case 'removed':
+      return `${change.name}: no longer used - its previous value will be left out`;
+    case 'changed':
+      return `${change.name}: ${change.fields?.join(', ')} changed`;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Resource accounting for script executions.
+ *
+ * The main process periodically snapshots the OS process table; everything below works on
+ * those snapshots, so it can be tested without spawning processes. Figures cover the whole
+ * process tree of a run (the interpreter plus anything the script starts).
+ */
+
+export interface ResourceUsage {
+  maxMemoryMB: number;
+  avgMemoryMB: number;
+  /** Share of total machine CPU, averaged over the run (0-100) */
+  avgCpuPercent: number;
+  maxCpuPercent: number;
+  diskReadMB: number;
+  diskWriteMB: number;
+  /** Per-process network counters aren't exposed by the OS without tracing; reported as 0 */
+  networkBytesSent: number;
+  networkBytesReceived: number;
+}
+
+/** One process from a process table snapshot */
+export interface ProcessSample {
+  pid: number;
+  parentPid: number;
+  memoryBytes: number;
+  /** Total user + kernel CPU time consumed so far */
+  cpuSeconds: number;
+  readBytes?: number;
+  writeBytes?: number;
+  /** When the process started (ms since epoch), where the platform reports it - tells a reused PID apart */
+  startedAt?: number;
+}
+
+/** Running totals for one execution, updated by recordResourceSample */
+export interface ResourceTracker {
+  startedAt: number;
+  lastSampleAt: number;
+  sampleCount: number;
+  memoryTotalBytes: number;
+  maxMemoryBytes: number;
+  maxCpuPercent: number;
+  cpuSecondsTotal: number;
+  /** Last seen counters per process; processes that exit keep their final figures */
+  processes: Map<number, { cpuSeconds: number; readBytes: number; writeBytes: number }>;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Select the process rooted at rootPid and all of its descendants.
+ */
+export function getProcessTree(rootPid: number, samples: ProcessSample[]): ProcessSample[] {
+  const children = new Map<number, ProcessSample[]>();
+  let root: ProcessSample | undefined;
+
+  for (const sample of samples) {
+    if (sample.pid === rootPid) root = sample;
+    const siblings = children.get(sample.parentPid) ?? [];
+    siblings.push(sample);
+    children.set(sample.parentPid, siblings);
+  }
+
+  if (!root) return [];
+
+  const tree: ProcessSample[] = [];
+  const seen = new Set<number>();
+  const pending = [root];
+  while (pending.length > 0) {
+    const sample = pending.pop()!;
+    if (seen.has(sample.pid)) continue; // PID reuse can create cycles
+    seen.add(sample.pid);
+    tree.push(sample);
+    pending.push(...(children.get(sample.pid) ?? []));
+  }
+  return tree;
+}
+
+export function createResourceTracker(startedAt: number): ResourceTracker {
+  return {
+    startedAt,
+    lastSampleAt: startedAt,
+    sampleCount: 0,
+    memoryTotalBytes: 0,
+    maxMemoryBytes: 0,
+    maxCpuPercent: 0,
+    cpuSecondsTotal: 0,
+    processes: new Map(),
+  };
+}
+
+/**
+ * Add a process tree snapshot to the tracker. Returns the tree's current memory in MB.
+ */
+export function recordResourceSample(
+  tracker: ResourceTracker,
+  tree: ProcessSample[],
+  sampledAt: number,
+  cpuCount: number
+): number {
+  let memoryBytes = 0;
+  let cpuDelta = 0;
+
+  for (const sample of tree) {
+    const previous = tracker.processes.get(sample.pid);
+    memoryBytes += sample.memoryBytes;
+    cpuDelta += Math.max(0, sample.cpuSeconds - (previous?.cpuSeconds ?? 0));
+    tracker.processes.set(sample.pid, {
+      cpuSeconds: sample.cpuSeconds,
+      readBytes: Math.max(sample.readBytes ?? 0, previous?.readBytes ?? 0),
+      writeBytes: Math.max(sample.writeBytes ?? 0, previous?.writeBytes ?? 0),
+    });
+  }
+
+  const elapsedSeconds = (sampledAt - tracker.lastSampleAt) / 1000;
+  if (elapsedSeconds > 0) {
+    tracker.maxCpuPercent = Math.max(tracker.maxCpuPercent, toCpuPercent(cpuDelta, elapsedSeconds, cpuCount));
+  }
+
+  tracker.cpuSecondsTotal += cpuDelta;
+  tracker.memoryTotalBytes += memoryBytes;
+  tracker.maxMemoryBytes = Math.max(tracker.maxMemoryBytes, memoryBytes);
+  tracker.sampleCount++;
+  tracker.lastSampleAt = sampledAt;
+
+  return memoryBytes / BYTES_PER_MB;
+}
+
+/**
+ * Peak and average figures for a tracked run, or null if it was never sampled.
+ */
+export function summarizeResourceUsage(tracker: ResourceTracker, cpuCount: number): ResourceUsage | null {
+  if (tracker.sampleCount === 0) return null;
+
+  let readBytes = 0;
+  let writeBytes = 0;
+  for (const counters of tracker.processes.values()) {
+    readBytes += counters.readBytes;
+    writeBytes += counters.writeBytes;
+  }
+
+  const elapsedSeconds = (tracker.lastSampleAt - tracker.startedAt) / 1000;
+
+  return {
+    maxMemoryMB: round(tracker.maxMemoryBytes / BYTES_PER_MB),
+    avgMemoryMB: round(tracker.memoryTotalBytes / tracker.sampleCount / BYTES_PER_MB),
+    avgCpuPercent: elapsedSeconds > 0 ? round(toCpuPercent(tracker.cpuSecondsTotal, elapsedSeconds, cpuCount)) : 0,
+    maxCpuPercent: round(tracker.maxCpuPercent),
+    diskReadMB: round(readBytes / BYTES_PER_MB),
+    diskWriteMB: round(writeBytes / BYTES_PER_MB),
+    networkBytesSent: 0,
+    networkBytesReceived: 0,
+  };
+}
+
+/**
+ * The processes of an earlier snapshot that are still running, as they are now. A PID that
+ * now belongs to a process started at another time was reused by an unrelated process and is
+ * left out; without start times a PID is taken to be the same process.
+ */
+export function findSurvivingProcesses(known: ProcessSample[], samples: ProcessSample[]): ProcessSample[] {
+  const current = new Map(samples.map(sample => [sample.pid, sample]));
+  const survivors: ProcessSample[] = [];
+  for (const sample of known) {
+    const now = current.get(sample.pid);
+    if (!now) continue;
+    if (sample.startedAt !== undefined && now.startedAt !== undefined && sample.startedAt !== now.startedAt) continue;
+    survivors.push(now);
+  }
+  return survivors;
+}
+
+/**
+ * Parse `ps -A -o pid=,ppid=,rss=,time=` output (Linux and macOS). RSS is in KiB.
+ */
+export function parsePsOutput(output: string): ProcessSample[] {
+  const samples: ProcessSample[] = [];
+  for (const line of output.split('\n')) {
+    const [pid, parentPid, rssKb, time] = line.trim().split(/\s+/);
+    if (!time) continue;
+    const sample = {
+      pid: Number(pid),
+      parentPid: Number(parentPid),
+      memoryBytes: Number(rssKb) * 1024,
+      cpuSeconds: parseCpuTime(time),
+    };
+    if ([sample.pid, sample.parentPid, sample.memoryBytes, sample.cpuSeconds].every(Number.isFinite)) {
+      samples.push(sample);
+    }
+  }
+  return samples;
+}
+
+/**
+ * Parse the JSON produced by
+ * `Get-CimInstance Win32_Process | Select-Object ProcessId,ParentProcessId,WorkingSetSize,
+ * UserModeTime,KernelModeTime,ReadTransferCount,WriteTransferCount,CreatedAt | ConvertTo-Json -Compress`,
+ * where CreatedAt is CreationDate in ms since epoch. CPU times are in 100ns units.
+ */
+export function parseWin32ProcessJson(output: string): ProcessSample[] {
+  const trimmed = output.trim();
+  if (!trimmed) return [];
+
+  const parsed = JSON.parse(trimmed);
+  const rows: any[] = Array.isArray(parsed) ? parsed : [parsed];
+  return rows.map(row => ({
+    pid: Number(row.ProcessId),
+    parentPid: Number(row.ParentProcessId),
+    memoryBytes: Number(row.WorkingSetSize) || 0,
+    cpuSeconds: ((Number(row.UserModeTime) || 0) + (Number(row.KernelModeTime) || 0)) / 1e7,
+    readBytes: Number(row.ReadTransferCount) || 0,
+    writeBytes: Number(row.WriteTransferCount) || 0,
+    startedAt: Number(row.CreatedAt) || undefined,
+  }));
+}
+
+/** "[[dd-]hh:]mm:ss[.cc]" */
+function parseCpuTime(value: string): number {
+  const [days, clock] = value.includes('-') ? value.split('-') : ['0', value];
+  return clock
+    .split(':')
+    .reduce((total, part) => total * 60 + Number(part), 0) + Number(days) * 86400;
+}
+
+function toCpuPercent(cpuSeconds: number, elapsedSeconds: number, cpuCount: number): number {
+  return Math.min(100, (cpuSeconds / (elapsedSeconds * Math.max(1, cpuCount))) * 100);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
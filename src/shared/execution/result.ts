@@ -0,0 +1,236 @@
+import type { Redactor } from './redaction';
+
+/**
+ * Structured script results shared by the executor and the renderer.
+ *
+ * Besides plain text, scripts can report results the app shows as summary cards and tables.
+ * PowerShell scripts pipe objects to Write-FakResult (installed by the executor); any script
+ * can print a marker line itself:
+ *
+ *   ##FAK-RESULT {"type":"summary","title":"Cleanup","text":"Freed 1.8 GB in 4,312 files","data":{"Freed":"1.8 GB","Files":4312}}
+ *   ##FAK-RESULT {"type":"table","title":"Largest folders","columns":["Path","Size"],"rows":[{"Path":"C:\\Temp","Size":1024}]}
+ *   ##FAK-RESULT {"type":"row","title":"Deleted files","data":{"Name":"a.tmp","Size":512}}
+ *
+ * Rows are appended to the table with the same title. Marker lines are removed from the
+ * script output (see script-output.ts).
+ */
+
+export const RESULT_MARKER = '##FAK-RESULT';
+
+export const MAX_RESULTS = 20;
+export const MAX_TABLE_ROWS = 1000;
+const MAX_COLUMNS = 20;
+const MAX_TEXT_LENGTH = 500;
+
+export type ResultValue = string | number | boolean | null;
+
+export interface ScriptResultSummary {
+  kind: 'summary';
+  title?: string;
+  /** Headline, e.g. "Freed 1.8 GB in 4,312 files" */
+  text?: string;
+  items: Array<{ label: string; value: ResultValue }>;
+}
+
+export interface ScriptResultTable {
+  kind: 'table';
+  title?: string;
+  columns: string[];
+  rows: Array<Record<string, ResultValue>>;
+  /** Set when rows beyond MAX_TABLE_ROWS were dropped */
+  truncated?: boolean;
+}
+
+export type ScriptResult = ScriptResultSummary | ScriptResultTable;
+
+/** A parsed marker line: a complete result, or one row to append to a table */
+export type ScriptResultEntry =
+  | ScriptResult
+  | { kind: 'row'; title?: string; row: Record<string, ResultValue> };
+
+function readText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text ? text.substring(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+function toResultValue(value: unknown): ResultValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.substring(0, MAX_TEXT_LENGTH);
+  return JSON.stringify(value).substring(0, MAX_TEXT_LENGTH);
+}
+
+function toRow(value: unknown): Record<string, ResultValue> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const row: Record<string, ResultValue> = {};
+  for (const [key, cell] of Object.entries(value).slice(0, MAX_COLUMNS)) {
+    row[key.substring(0, 100)] = toResultValue(cell);
+  }
+  return row;
+}
+
+function columnsOf(rows: Array<Record<string, ResultValue>>): string[] {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key) && columns.length < MAX_COLUMNS) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Parse a single result marker line. Returns null if the line is not a valid marker.
+ */
+export function parseResultLine(line: string): ScriptResultEntry | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(RESULT_MARKER)) {
+    return null;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(trimmed.substring(RESULT_MARKER.length).trim());
+  } catch {
+    return null;
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const title = readText(payload.title);
+
+  switch (payload.type) {
+    case 'summary': {
+      const data = toRow(payload.data) ?? {};
+      const items = Object.entries(data).map(([label, value]) => ({ label, value }));
+      const text = readText(payload.text);
+      if (!text && items.length === 0) return null;
+      return { kind: 'summary', title, text, items };
+    }
+
+    case 'table': {
+      if (!Array.isArray(payload.rows)) return null;
+      const rows = payload.rows
+        .slice(0, MAX_TABLE_ROWS)
+        .map(toRow)
+        .filter((row): row is Record<string, ResultValue> => row !== null);
+      const columns = Array.isArray(payload.columns)
+        ? payload.columns.map(readText).filter((column): column is string => !!column).slice(0, MAX_COLUMNS)
+        : columnsOf(rows);
+      return { kind: 'table', title, columns, rows, truncated: payload.rows.length > MAX_TABLE_ROWS || undefined };
+    }
+
+    case 'row': {
+      const row = toRow(payload.data);
+      return row ? { kind: 'row', title, row } : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Add a parsed entry to a run's results: rows go to the table with the same title (created
+ * on first use), everything else is appended. Entries beyond the limits are dropped.
+ */
+export function addScriptResult(results: ScriptResult[], entry: ScriptResultEntry): void {
+  if (entry.kind !== 'row') {
+    if (results.length < MAX_RESULTS) results.push(entry);
+    return;
+  }
+
+  let table = results.find(
+    (result): result is ScriptResultTable => result.kind === 'table' && result.title === entry.title
+  );
+  if (!table) {
+    if (results.length >= MAX_RESULTS) return;
+    table = { kind: 'table', title: entry.title, columns: [], rows: [] };
+    results.push(table);
+  }
+
+  if (table.rows.length >= MAX_TABLE_ROWS) {
+    table.truncated = true;
+    return;
+  }
+
+  table.rows.push(entry.row);
+  for (const key of Object.keys(entry.row)) {
+    if (!table.columns.includes(key) && table.columns.length < MAX_COLUMNS) table.columns.push(key);
+  }
+}
+
+/**
+ * Redact every text in a run's results - titles, labels, column names and string values -
+ * before they are stored or shown. Returns the redacted results and the number of redactions.
+ */
+export function redactScriptResults(
+  results: ScriptResult[],
+  redactor: Redactor
+): { results: ScriptResult[]; count: number } {
+  let count = 0;
+  const redact = <T extends string | undefined>(text: T): T => {
+    if (text === undefined) return text;
+    const outcome = redactor.redact(text);
+    count += outcome.count;
+    return outcome.text as T;
+  };
+  const redactValue = (value: ResultValue): ResultValue => (typeof value === 'string' ? redact(value) : value);
+  const redactRow = (row: Record<string, ResultValue>): Record<string, ResultValue> =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [redact(key), redactValue(value)]));
+
+  const redacted = results.map((result): ScriptResult =>
+    result.kind === 'summary'
+      ? {
+          ...result,
+          title: redact(result.title),
+          text: redact(result.text),
+          items: result.items.map(item => ({ label: redact(item.label), value: redactValue(item.value) }))
+        }
+      : {
+          ...result,
+          title: redact(result.title),
+          columns: result.columns.map(column => redact(column)),
+          rows: result.rows.map(redactRow)
+        }
+  );
+
+  return { results: redacted, count };
+}
+
+/**
+ * Sort table rows by a column. Numbers sort numerically, empty cells last.
+ */
+export function sortResultRows(
+  rows: Array<Record<string, ResultValue>>,
+  column: string,
+  direction: 'asc' | 'desc'
+): Array<Record<string, ResultValue>> {
+  const factor = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = a[column] ?? null;
+    const right = b[column] ?? null;
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * factor;
+    }
+    return String(left).localeCompare(String(right), undefined, { numeric: true }) * factor;
+  });
+}
+
+/**
+ * Cell text for display.
+ */
+export function formatResultValue(value: ResultValue | undefined): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  return value;
+}
@@ -0,0 +1,82 @@
+/**
+ * Retry policy declared in script metadata, for tools that fail on transient problems
+ * (VPN drop, domain controller not reachable):
+ *
+ *   "retry": {
+ *     "maxAttempts": 3,                          - total attempts, including the first
+ *     "backoff": "exponential",                  - or "fixed"
+ *     "delaySeconds": 15,                        - wait before the first retry
+ *     "maxDelaySeconds": 120,                    - cap for exponential backoff
+ *     "exitCodes": [1],                          - exit codes worth retrying
+ *     "stderrPatterns": ["RPC server is unavailable"]  - or error output matching these (regex, case-insensitive)
+ *   }
+ *
+ * Without exitCodes or stderrPatterns every failure is retried. Cancelled and timed-out runs
+ * are never retried.
+ */
+
+export type RetryBackoff = 'fixed' | 'exponential';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoff?: RetryBackoff;
+  delaySeconds?: number;
+  maxDelaySeconds?: number;
+  exitCodes?: number[];
+  stderrPatterns?: string[];
+}
+
+export const DEFAULT_RETRY_DELAY_SECONDS = 10;
+export const DEFAULT_MAX_RETRY_DELAY_SECONDS = 300;
+
+// Only the start of long error output is searched
+const MAX_STDERR_SCAN_LENGTH = 10000;
+
+/**
+ * Whether a failed attempt should be retried under the policy, ignoring the attempt count.
+ */
+export function isRetryableFailure(policy: RetryPolicy, exitCode: number, stderr: string): boolean {
+  const hasExitCodes = !!policy.exitCodes?.length;
+  const hasPatterns = !!policy.stderrPatterns?.length;
+  if (!hasExitCodes && !hasPatterns) {
+    return true;
+  }
+
+  if (hasExitCodes && policy.exitCodes!.includes(exitCode)) {
+    return true;
+  }
+
+  const text = stderr.substring(0, MAX_STDERR_SCAN_LENGTH);
+  return (policy.stderrPatterns ?? []).some(pattern => {
+    try {
+      return new RegExp(pattern, 'i').test(text);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Whether another attempt may follow the given (1-based) attempt.
+ */
+export function hasAttemptsLeft(policy: RetryPolicy, attempt: number): boolean {
+  return attempt < policy.maxAttempts;
+}
+
+/**
+ * Delay in milliseconds before the attempt after `attempt` (1-based) starts.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const delaySeconds = policy.delaySeconds ?? DEFAULT_RETRY_DELAY_SECONDS;
+  const maxDelaySeconds = policy.maxDelaySeconds ?? DEFAULT_MAX_RETRY_DELAY_SECONDS;
+
+  const seconds = policy.backoff === 'fixed'
+    ? delaySeconds
+    : delaySeconds * Math.pow(2, Math.max(0, attempt - 1));
+
+  return Math.min(seconds, Math.max(delaySeconds, maxDelaySeconds)) * 1000;
+}
+
+export function formatAttemptLabel(attempt: number, maxAttempts: number): string {
+  return `Attempt ${attempt} of ${maxAttempts}`;
+}
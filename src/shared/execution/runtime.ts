@@ -0,0 +1,79 @@
+/**
+ * Script runtime selection shared by the script registry and the executor.
+ *
+ * A script runs under the runtime named in its `runtime` metadata field, or else the default
+ * for its file extension. Windows PowerShell only exists on Windows, so elsewhere PowerShell
+ * scripts default to PowerShell 7 (pwsh) unless their metadata asks for Windows PowerShell.
+ * A declared runtime must be of the same family as the extension's default - a .ps1 file is
+ * never run by bash - so that the content checks for the file type apply to what runs.
+ */
+
+export const SCRIPT_RUNTIME_IDS = ['powershell', 'pwsh', 'bash', 'sh'] as const;
+
+export type ScriptRuntimeId = (typeof SCRIPT_RUNTIME_IDS)[number];
+
+/** Runtimes that run the same kind of script */
+export type ScriptRuntimeFamily = 'powershell' | 'posix';
+
+const RUNTIME_FAMILIES: Readonly<Record<ScriptRuntimeId, ScriptRuntimeFamily>> = {
+  powershell: 'powershell',
+  pwsh: 'powershell',
+  bash: 'posix',
+  sh: 'posix',
+};
+
+/** Default runtime for each script file extension the registry discovers */
+export const RUNTIME_EXTENSIONS: Readonly<Record<string, ScriptRuntimeId>> = {
+  '.ps1': 'powershell',
+  '.psm1': 'powershell',
+  '.sh': 'bash',
+};
+
+export function isScriptRuntimeId(value: unknown): value is ScriptRuntimeId {
+  return typeof value === 'string' && (SCRIPT_RUNTIME_IDS as readonly string[]).includes(value);
+}
+
+export function getRuntimeFamily(runtime: ScriptRuntimeId): ScriptRuntimeFamily {
+  return RUNTIME_FAMILIES[runtime];
+}
+
+function getExtensionRuntime(scriptPath: string): ScriptRuntimeId | undefined {
+  const dot = scriptPath.lastIndexOf('.');
+  return RUNTIME_EXTENSIONS[dot === -1 ? '' : scriptPath.substring(dot).toLowerCase()];
+}
+
+/**
+ * The family of runtimes that run a file, from its extension; null for other file types.
+ */
+export function getFileRuntimeFamily(scriptPath: string): ScriptRuntimeFamily | null {
+  const extensionRuntime = getExtensionRuntime(scriptPath);
+  return extensionRuntime ? RUNTIME_FAMILIES[extensionRuntime] : null;
+}
+
+/**
+ * Whether a runtime may run a file, i.e. is of the file's runtime family.
+ */
+export function isRuntimeForFile(runtime: ScriptRuntimeId, scriptPath: string): boolean {
+  return getFileRuntimeFamily(scriptPath) === RUNTIME_FAMILIES[runtime];
+}
+
+/**
+ * Pick the runtime for a script. Returns null for file types no runtime handles, and for a
+ * declared runtime that can't run the file.
+ */
+export function resolveScriptRuntime(
+  scriptPath: string,
+  declaredRuntime: string | undefined,
+  platform: string
+): ScriptRuntimeId | null {
+  if (isScriptRuntimeId(declaredRuntime)) {
+    return isRuntimeForFile(declaredRuntime, scriptPath) ? declaredRuntime : null;
+  }
+
+  const runtime = getExtensionRuntime(scriptPath);
+  if (!runtime) {
+    return null;
+  }
+
+  return runtime === 'powershell' && platform !== 'win32' ? 'pwsh' : runtime;
+}
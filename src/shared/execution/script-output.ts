@@ -0,0 +1,105 @@
+import { parseProgressLine, type ScriptProgress } from './progress';
+import { parsePromptLine, type ScriptPrompt } from './prompt';
+import { parseResultLine, type ScriptResultEntry } from './result';
+import { parseCapabilityLine, type CapabilityViolation } from './capabilities';
+
+/**
+ * Splits script stdout into regular output and the marker lines scripts use to talk to
+ * the app (progress reports, input prompts, structured results, capability violations). All markers share the "##FAK-" prefix.
+ */
+
+const MARKER_PREFIX = '##FAK-';
+
+export interface ScriptOutputChunk {
+  /** Output with marker lines removed */
+  output: string;
+  /** Progress reports found in this chunk, in order */
+  progress: ScriptProgress[];
+  /** Input prompts found in this chunk, in order */
+  prompts: ScriptPrompt[];
+  /** Structured results found in this chunk, in order */
+  results: ScriptResultEntry[];
+  /** Commands the capability guard refused, in order */
+  violations: CapabilityViolation[];
+  /** Trailing partial line to prepend to the next chunk */
+  remainder: string;
+}
+
+function mayBeMarker(partialLine: string): boolean {
+  const text = partialLine.trimStart();
+  return text.startsWith(MARKER_PREFIX) || MARKER_PREFIX.startsWith(text);
+}
+
+function splitLines(text: string, remainder: string): ScriptOutputChunk {
+  const result: ScriptOutputChunk = { output: '', progress: [], prompts: [], results: [], violations: [], remainder };
+
+  for (const line of text.split(/(?<=\n)/)) {
+    if (!line) continue;
+
+    const progress = parseProgressLine(line);
+    if (progress) {
+      result.progress.push(progress);
+      continue;
+    }
+
+    const prompt = parsePromptLine(line);
+    if (prompt) {
+      result.prompts.push(prompt);
+      continue;
+    }
+
+    const scriptResult = parseResultLine(line);
+    if (scriptResult) {
+      result.results.push(scriptResult);
+      continue;
+    }
+
+    const violation = parseCapabilityLine(line);
+    if (violation) {
+      result.violations.push(violation);
+      continue;
+    }
+
+    result.output += line;
+  }
+
+  return result;
+}
+
+/**
+ * Split streamed text into complete lines and a trailing partial line, which must be passed
+ * back as `pending` with the next chunk.
+ */
+export function splitCompleteLines(pending: string, chunk: string): { complete: string; remainder: string } {
+  const text = pending + chunk;
+  const lastNewline = text.lastIndexOf('\n');
+  return {
+    complete: lastNewline === -1 ? '' : text.substring(0, lastNewline + 1),
+    remainder: lastNewline === -1 ? text : text.substring(lastNewline + 1)
+  };
+}
+
+/**
+ * Split a stdout chunk into regular output and marker lines.
+ *
+ * Chunks can end mid-line, so a trailing partial line that could still become a marker is
+ * held back in `remainder` and must be passed back as `pending` with the next chunk.
+ * Any other partial line (e.g. a prompt without a newline) is returned as output right away.
+ */
+export function splitScriptOutput(pending: string, chunk: string): ScriptOutputChunk {
+  let { complete, remainder } = splitCompleteLines(pending, chunk);
+
+  if (remainder && !mayBeMarker(remainder)) {
+    complete += remainder;
+    remainder = '';
+  }
+
+  return splitLines(complete, remainder);
+}
+
+/**
+ * Flush a held-back partial line when the process exits.
+ */
+export function flushScriptOutput(pending: string): ScriptOutputChunk {
+  return splitLines(pending, '');
+}
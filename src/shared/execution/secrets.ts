@@ -0,0 +1,126 @@
+/**
+ * Secret parameters: credentials a script needs without them ever showing up in parameters,
+ * protocol URLs or logs.
+ *
+ *   { "name": "ApiKey", "type": "secret", "default": "servicenow-api", "required": true, ... }
+ *
+ * The value of a secret parameter is the name of a vault entry, not the secret itself. Before
+ * the run starts the entry is decrypted and handed to the script as FAK_SECRET_<PARAMETER>
+ * ($env:FAK_SECRET_APIKEY); it is never passed on the command line. Output that echoes the
+ * value is masked before it is stored or streamed.
+ */
+
+export const SECRET_ENV_PREFIX = 'FAK_SECRET_';
+
+export const SECRET_MASK = '********';
+
+export const SECRET_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+// Very short values would mask ordinary output
+const MIN_MASKED_LENGTH = 4;
+
+export interface SecretInfo {
+  name: string;
+  description?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/** A secret parameter and the vault entry it refers to for one run */
+export interface SecretReference {
+  parameter: string;
+  secretName: string;
+  envVar: string;
+}
+
+interface SecretParameterDefinition {
+  name: string;
+  type: string;
+  required?: boolean;
+  default?: unknown;
+}
+
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME_PATTERN.test(name);
+}
+
+export function getSecretEnvVar(parameterName: string): string {
+  return `${SECRET_ENV_PREFIX}${parameterName.toUpperCase()}`;
+}
+
+/**
+ * The vault entries a run needs: each secret parameter's value (matched case-insensitively, as
+ * protocol URLs may differ in casing) or else its default. Throws for a missing required
+ * secret or a value that is not an entry name - without repeating the value, which may be the
+ * secret itself pasted in by mistake.
+ */
+export function getSecretReferences(
+  definitions: SecretParameterDefinition[],
+  parameters: Record<string, any>
+): SecretReference[] {
+  const references: SecretReference[] = [];
+
+  for (const definition of definitions) {
+    if (definition.type !== 'secret') continue;
+
+    const key = Object.keys(parameters).find(name => name.toLowerCase() === definition.name.toLowerCase());
+    const value = key !== undefined && parameters[key] !== '' ? parameters[key] : definition.default;
+
+    if (value === undefined || value === null || value === '') {
+      if (definition.required) {
+        throw new Error(`Secret parameter '${definition.name}' needs a vault entry`);
+      }
+      continue;
+    }
+
+    if (typeof value !== 'string' || !isValidSecretName(value)) {
+      throw new Error(`Secret parameter '${definition.name}' must name a vault entry`);
+    }
+
+    references.push({ parameter: definition.name, secretName: value, envVar: getSecretEnvVar(definition.name) });
+  }
+
+  return references;
+}
+
+/**
+ * Replace every occurrence of the given secret values in text.
+ */
+export function maskSecrets(text: string, values: string[]): string {
+  let masked = text;
+  for (const value of values) {
+    if (value.length < MIN_MASKED_LENGTH) continue;
+    masked = masked.split(value).join(SECRET_MASK);
+  }
+  return masked;
+}
+
+export interface MaskedChunk {
+  /** Masked text that is safe to pass on */
+  text: string;
+  /** Trailing text that may be the start of a secret, to prepend to the next chunk */
+  remainder: string;
+}
+
+/**
+ * Mask a chunk of streamed output. A secret can be split across two chunks, so a trailing
+ * part that is the start of a secret value is held back in `remainder` and must be passed
+ * back as `pending` with the next chunk. Pass the last remainder through maskSecrets when the
+ * stream ends.
+ */
+export function maskSecretChunk(pending: string, chunk: string, values: string[]): MaskedChunk {
+  const masked = maskSecrets(pending + chunk, values);
+
+  let held = 0;
+  for (const value of values) {
+    if (value.length < MIN_MASKED_LENGTH) continue;
+    for (let length = Math.min(value.length - 1, masked.length); length > held; length--) {
+      if (masked.endsWith(value.substring(0, length))) {
+        held = length;
+        break;
+      }
+    }
+  }
+
+  return { text: masked.substring(0, masked.length - held), remainder: masked.substring(masked.length - held) };
+}
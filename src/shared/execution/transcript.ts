@@ -0,0 +1,105 @@
+/**
+ * Execution transcripts: every line a run writes to stdout and stderr, in order, kept on disk
+ * under userData/transcripts/<executionId>.jsonl as the run goes.
+ *
+ * Each line of the file is one line of output:
+ *
+ *   {"time":1760860800000,"stream":"stderr","text":"Access denied"}
+ *
+ * Lines are written as soon as they are complete, so a transcript survives the app closing or
+ * crashing mid-run. The execution log keeps only the end of each stream; the full output is
+ * read back a page at a time.
+ */
+
+export type TranscriptStream = 'stdout' | 'stderr';
+
+export const TRANSCRIPT_PAGE_SIZE = 500;
+
+export const MAX_TRANSCRIPT_PAGE_SIZE = 2000;
+
+/** Longer runs without a line break are written as a line of their own */
+export const MAX_TRANSCRIPT_LINE_LENGTH = 64 * 1024;
+
+export interface TranscriptLine {
+  /** 0-based position in the transcript */
+  line: number;
+  time: number;
+  stream: TranscriptStream;
+  text: string;
+}
+
+export interface TranscriptQuery {
+  /** Line to start from (0-based) */
+  offset?: number;
+  limit?: number;
+  /** Only lines containing this text, case-insensitively */
+  search?: string;
+  stream?: TranscriptStream;
+}
+
+export interface TranscriptPage {
+  lines: TranscriptLine[];
+  /** Lines in the transcript, matching or not */
+  totalLines: number;
+  /** Where the next page starts, or null when this is the last one */
+  nextOffset: number | null;
+  /** False while the run is still writing, or if it ended without closing the transcript */
+  complete: boolean;
+}
+
+export interface TranscriptSummary {
+  sizeBytes: number;
+  lineCount: number;
+  stdoutLines: number;
+  stderrLines: number;
+}
+
+/**
+ * Split a chunk of output into complete lines, carrying an unfinished last line over to the
+ * next chunk.
+ */
+export function splitTranscriptLines(pending: string, chunk: string): { lines: string[]; remainder: string } {
+  const parts = (pending + chunk).split(/\r?\n/);
+  let remainder = parts.pop() ?? '';
+  if (remainder.length > MAX_TRANSCRIPT_LINE_LENGTH) {
+    parts.push(remainder);
+    remainder = '';
+  }
+  return { lines: parts, remainder };
+}
+
+export function toTranscriptRecord(time: number, stream: TranscriptStream, text: string): string {
+  return JSON.stringify({ time, stream, text });
+}
+
+/** A line of the transcript file, or null if it is damaged (e.g. cut off by a crash) */
+export function parseTranscriptRecord(raw: string, line: number): TranscriptLine | null {
+  try {
+    const record = JSON.parse(raw);
+    if (typeof record.time !== 'number' || typeof record.text !== 'string') return null;
+    if (record.stream !== 'stdout' && record.stream !== 'stderr') return null;
+    return { line, time: record.time, stream: record.stream, text: record.text };
+  } catch {
+    return null;
+  }
+}
+
+export function matchesTranscriptQuery(line: TranscriptLine, query: TranscriptQuery): boolean {
+  if (query.stream && line.stream !== query.stream) return false;
+  if (query.search && !line.text.toLowerCase().includes(query.search.toLowerCase())) return false;
+  return true;
+}
+
+/** A line as it appears in a downloaded transcript */
+export function formatTranscriptLine(line: Pick<TranscriptLine, 'time' | 'stream' | 'text'>): string {
+  const marker = line.stream === 'stderr' ? ' [stderr]' : '';
+  return `${new Date(line.time).toISOString()}${marker} ${line.text}`;
+}
+
+/**
+ * Keep only the last maxLength characters of a stream, which is all the execution log stores.
+ */
+export function appendTail(buffer: string, text: string, maxLength: number): string {
+  const combined = buffer + text;
+  return combined.length > maxLength ? combined.slice(combined.length - maxLength) : combined;
+}
@@ -0,0 +1,138 @@
+/**
+ * Script packages: a tool in one file, for sharing between teams. A .fakpkg file is a ZIP
+ * archive with no folders:
+ *
+ *   fakpkg.json           the package manifest (below)
+ *   fakpkg.json.sig       optional base64 signature of fakpkg.json
+ *   flush-dns.ps1         the script
+ *   flush-dns.json        its metadata, with "id": "flush-dns"
+ *   flush-dns.md          optional docs (.md or .txt)
+ *   flush-dns.png         optional icon (.png or .ico)
+ *
+ *   {
+ *     "formatVersion": 1,
+ *     "id": "flush-dns",
+ *     "name": "Flush DNS Cache",
+ *     "version": "1.2.0",
+ *     "files": [
+ *       { "name": "flush-dns.ps1", "sha256": "9f86d081884c7d65..." },
+ *       { "name": "flush-dns.json", "sha256": "2c26b46b68ffc68f..." }
+ *     ]
+ *   }
+ *
+ * A cleanup script named in the metadata may be included too. Imported packages are
+ * installed into userData/scripts/packages/<id>.
+ */
+
+import type { ScriptPackageManifest } from '../validation/schemas';
+import { RUNTIME_EXTENSIONS } from '../execution/runtime';
+import { isCleanupScriptFile } from '../execution/cancellation';
+
+export const SCRIPT_PACKAGE_EXTENSION = '.fakpkg';
+export const PACKAGE_MANIFEST_FILE = 'fakpkg.json';
+export const PACKAGE_SIGNATURE_FILE = 'fakpkg.json.sig';
+
+export const MAX_PACKAGE_SIZE = 20 * 1024 * 1024;
+// Same limit the script registry applies to script files
+export const MAX_PACKAGE_FILE_SIZE = 10 * 1024 * 1024;
+
+export type PackageFileRole = 'script' | 'cleanup' | 'metadata' | 'docs' | 'icon';
+
+/**
+ * - verified:   signed with the organisation's key (the catalogPublicKey setting)
+ * - unverified: signed, but no key is configured to check it against
+ * - unsigned:   no signature in the package
+ * Packages with a signature that doesn't verify are refused.
+ */
+export type ScriptPackageSignature = 'verified' | 'unverified' | 'unsigned';
+
+/** What the Scripts page shows before a package is installed */
+export interface ScriptPackagePreview {
+  /** Refers to the checked package until it is installed or cancelled */
+  importId: string;
+  fileName: string;
+  scriptId: string;
+  name: string;
+  description: string;
+  version?: string;
+  author?: string;
+  files: Array<{ name: string; role: PackageFileRole; size: number }>;
+  signature: ScriptPackageSignature;
+  securityLevel: 'safe' | 'caution';
+  warnings: string[];
+  /** A package with this script ID is already installed and would be replaced */
+  replaces: boolean;
+}
+
+const FILE_ROLES: Record<string, PackageFileRole> = {
+  '.json': 'metadata',
+  '.md': 'docs',
+  '.txt': 'docs',
+  '.png': 'icon',
+  '.ico': 'icon',
+};
+
+export function getPackageFileRole(fileName: string): PackageFileRole | null {
+  const dot = fileName.lastIndexOf('.');
+  const extension = dot > 0 ? fileName.substring(dot).toLowerCase() : '';
+
+  if (RUNTIME_EXTENSIONS[extension]) {
+    return isCleanupScriptFile(fileName) ? 'cleanup' : 'script';
+  }
+  return FILE_ROLES[extension] ?? null;
+}
+
+/** The package's script file; checkPackageContents makes sure there is exactly one */
+export function getPackageScriptFile(manifest: ScriptPackageManifest): string | null {
+  return manifest.files.find(file => getPackageFileRole(file.name) === 'script')?.name ?? null;
+}
+
+/**
+ * Check a package's files against its manifest. `archiveHashes` maps each file in the archive,
+ * other than the manifest and signature, to its SHA-256. Returns the first problem, or null.
+ */
+export function checkPackageContents(
+  manifest: ScriptPackageManifest,
+  archiveHashes: ReadonlyMap<string, string>
+): string | null {
+  const roles = new Map<PackageFileRole, string[]>();
+  for (const file of manifest.files) {
+    const role = getPackageFileRole(file.name);
+    if (!role) {
+      return `${file.name} is not a file type packages can contain`;
+    }
+    roles.set(role, [...(roles.get(role) ?? []), file.name]);
+
+    const hash = archiveHashes.get(file.name);
+    if (hash === undefined) {
+      return `${file.name} is listed in the manifest but missing from the package`;
+    }
+    if (hash !== file.sha256.toLowerCase()) {
+      return `${file.name} does not match its hash in the manifest`;
+    }
+  }
+
+  for (const name of archiveHashes.keys()) {
+    if (!manifest.files.some(file => file.name === name)) {
+      return `${name} is in the package but not listed in the manifest`;
+    }
+  }
+
+  const scripts = roles.get('script') ?? [];
+  if (scripts.length !== 1) {
+    return 'A package must contain exactly one script';
+  }
+
+  const metadataName = scripts[0].replace(/\.[^.]+$/, '.json');
+  const metadata = roles.get('metadata') ?? [];
+  if (metadata.length !== 1 || metadata[0] !== metadataName) {
+    return `A package must contain the script's metadata as ${metadataName}, and no other JSON files`;
+  }
+
+  for (const role of ['cleanup', 'docs', 'icon'] as const) {
+    if ((roles.get(role)?.length ?? 0) > 1) {
+      return `A package can contain only one ${role} file`;
+    }
+  }
+  return null;
+}
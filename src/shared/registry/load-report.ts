@@ -0,0 +1,120 @@
+/**
+ * Script load report: what happened to every script file the registry found, so tools that
+ * fail validation don't just disappear. Served over script:get-load-report and shown on the
+ * Script Health page.
+ *
+ * - loaded:   registered (may still have metadata issues, e.g. a JSON file that didn't parse)
+ * - broken:   not registered - the definition failed ScriptDefinitionSchema or couldn't be read
+ * - shadowed: valid, but another file registered the same script ID and is used instead
+ * - skipped:  not read at all, e.g. larger than the script size limit
+ */
+
+export type ScriptLoadStatus = 'loaded' | 'broken' | 'shadowed' | 'skipped';
+
+export interface ScriptLoadIssue {
+  /** json: metadata file didn't parse; schema: a field failed validation; file: couldn't read or too large */
+  kind: 'json' | 'schema' | 'file';
+  /** Field the schema issue is about, e.g. "parameters[0].name" */
+  path?: string;
+  message: string;
+  /** The offending value as JSON, shortened */
+  value?: string;
+}
+
+export interface ScriptLoadResult {
+  filePath: string;
+  status: ScriptLoadStatus;
+  scriptId?: string;
+  /** For shadowed files: the file whose script is used instead */
+  shadowedBy?: string;
+  issues: ScriptLoadIssue[];
+  checkedAt: number;
+}
+
+export interface ScriptLoadReport {
+  generatedAt: number;
+  files: ScriptLoadResult[];
+  counts: Record<ScriptLoadStatus, number>;
+}
+
+const MAX_ISSUE_VALUE_LENGTH = 200;
+
+/** e.g. ['parameters', 0, 'name'] becomes "parameters[0].name" */
+export function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+  return path.reduce<string>((formatted, key) => {
+    if (typeof key === 'number') return `${formatted}[${key}]`;
+    return formatted ? `${formatted}.${String(key)}` : String(key);
+  }, '');
+}
+
+export function describeIssueValue(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > MAX_ISSUE_VALUE_LENGTH ? `${text.substring(0, MAX_ISSUE_VALUE_LENGTH - 1)}…` : text;
+}
+
+function getValueAtPath(input: unknown, path: ReadonlyArray<PropertyKey>): unknown {
+  let value = input;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<PropertyKey, unknown>)[key];
+  }
+  return value;
+}
+
+/** One line for logs and error messages, e.g. "estimatedDuration: Duration too long (got 36000000)" */
+export function formatLoadIssue(issue: ScriptLoadIssue): string {
+  const text = issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+  return issue.value !== undefined && issue.kind === 'schema' ? `${text} (got ${issue.value})` : text;
+}
+
+/**
+ * Turn schema validation issues into load issues, with the offending value looked up in the
+ * definition that was validated.
+ */
+export function toLoadIssues(
+  issues: ReadonlyArray<{ path: ReadonlyArray<PropertyKey>; message: string }>,
+  input: unknown
+): ScriptLoadIssue[] {
+  return issues.map(issue => {
+    const loadIssue: ScriptLoadIssue = { kind: 'schema', message: issue.message };
+    const path = formatIssuePath(issue.path);
+    if (path) loadIssue.path = path;
+    const value = describeIssueValue(getValueAtPath(input, issue.path));
+    if (value !== undefined) loadIssue.value = value;
+    return loadIssue;
+  });
+}
+
+/**
+ * Build the report from the last result for each file. `activePaths` maps each registered
+ * script ID to the file it was loaded from; other loaded files with that ID are shadowed.
+ */
+export function buildLoadReport(
+  results: ReadonlyArray<ScriptLoadResult>,
+  activePaths: ReadonlyMap<string, string>,
+  now: number = Date.now()
+): ScriptLoadReport {
+  const counts: Record<ScriptLoadStatus, number> = { loaded: 0, broken: 0, shadowed: 0, skipped: 0 };
+
+  const files = results.map(result => {
+    const activePath = result.scriptId ? activePaths.get(result.scriptId) : undefined;
+    const file: ScriptLoadResult = result.status === 'loaded' && activePath && activePath !== result.filePath
+      ? { ...result, status: 'shadowed', shadowedBy: activePath }
+      : result;
+    counts[file.status]++;
+    return file;
+  });
+
+  // Problems first, then by path
+  const order: Record<ScriptLoadStatus, number> = { broken: 0, shadowed: 1, skipped: 2, loaded: 3 };
+  files.sort((a, b) => order[a.status] - order[b.status] || a.filePath.localeCompare(b.filePath));
+
+  return { generatedAt: now, files, counts };
+}
@@ -0,0 +1,94 @@
+/**
+ * Script registry changes: which tools were added, changed or removed when script files change
+ * on disk or the registry is rescanned. Sent to the renderer as the scripts:changed event so the
+ * Scripts page and Dashboard update without a restart.
+ */
+
+import { isCleanupScriptFile } from '../execution/cancellation';
+
+// Runbooks are JSON files next to the scripts, e.g. "network-fix.runbook.json"
+export const RUNBOOK_FILE_SUFFIX = '.runbook.json';
+
+// Editors often save a file in several writes; changes this close together are reloaded at once
+export const SCRIPT_WATCH_DEBOUNCE_MS = 500;
+
+/** Payload of the scripts:changed event and script:rescan results (script IDs) */
+export interface ScriptsChangedEvent {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  /** 'watch' for changes picked up on disk, 'rescan' for a manual rescan */
+  source: 'watch' | 'rescan';
+}
+
+/**
+ * What a changed file means for the registry:
+ * - script:   a script file, reloaded from scriptPath
+ * - metadata: a script's JSON metadata; the script is the same path with a script extension
+ * - runbook:  a runbook definition
+ * - other:    anything else (cleanup scripts, notes, folders)
+ */
+export type ChangedScriptFile =
+  | { kind: 'script'; scriptPath: string }
+  | { kind: 'metadata'; basePath: string }
+  | { kind: 'runbook' }
+  | { kind: 'other' };
+
+export function classifyChangedFile(filePath: string, scriptExtensions: readonly string[]): ChangedScriptFile {
+  const fileName = filePath.split(/[\\/]/).pop() ?? '';
+  const lowerName = fileName.toLowerCase();
+
+  if (lowerName.endsWith(RUNBOOK_FILE_SUFFIX)) {
+    return { kind: 'runbook' };
+  }
+
+  const dot = fileName.lastIndexOf('.');
+  const extension = dot > 0 ? lowerName.substring(dot) : '';
+  if (extension === '.json') {
+    return { kind: 'metadata', basePath: filePath.substring(0, filePath.length - extension.length) };
+  }
+  if (scriptExtensions.includes(extension) && !isCleanupScriptFile(fileName)) {
+    return { kind: 'script', scriptPath: filePath };
+  }
+  return { kind: 'other' };
+}
+
+/**
+ * Compare the registry before and after a reload. Maps are script ID to a fingerprint of the
+ * definition; a changed fingerprint means the script was updated.
+ */
+export function diffScripts(
+  before: ReadonlyMap<string, string>,
+  after: ReadonlyMap<string, string>
+): Pick<ScriptsChangedEvent, 'added' | 'updated' | 'removed'> {
+  const added: string[] = [];
+  const updated: string[] = [];
+  const removed: string[] = [];
+
+  for (const [id, fingerprint] of after) {
+    if (!before.has(id)) {
+      added.push(id);
+    } else if (before.get(id) !== fingerprint) {
+      updated.push(id);
+    }
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) removed.push(id);
+  }
+
+  return { added, updated, removed };
+}
+
+export function hasScriptChanges(event: Pick<ScriptsChangedEvent, 'added' | 'updated' | 'removed'>): boolean {
+  return event.added.length + event.updated.length + event.removed.length > 0;
+}
+
+/** e.g. "2 added, 1 updated" or "No changes" */
+export function formatScriptChanges(event: Pick<ScriptsChangedEvent, 'added' | 'updated' | 'removed'>): string {
+  const parts = [
+    event.added.length > 0 ? `${event.added.length} added` : '',
+    event.updated.length > 0 ? `${event.updated.length} updated` : '',
+    event.removed.length > 0 ? `${event.removed.length} removed` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
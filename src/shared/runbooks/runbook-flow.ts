@@ -0,0 +1,80 @@
+import type { RunbookDefinition, RunbookStep } from '../validation/schemas';
+
+/**
+ * Runbook step flow shared by the main-process runner and the renderer.
+ *
+ * A runbook is a list of steps, each running one script. After a step finishes, its exit
+ * code decides which branch is taken:
+ * - onSuccess (default "next"): the exit code is in successExitCodes (default [0])
+ * - onFailure (default "end"):  any other exit code, a timeout, or a failure to start
+ *
+ * A branch is a step ID, "next" (the following step) or "end" (stop the runbook).
+ * The runbook's result is the result of the last step that ran, so a failure that
+ * branches to a recovery step which succeeds counts as a successful run.
+ */
+
+export const RUNBOOK_NEXT = 'next';
+export const RUNBOOK_END = 'end';
+
+// Guards against branches that loop forever (e.g. a retry step pointing back at itself)
+export const MAX_RUNBOOK_STEP_RUNS = 100;
+
+/**
+ * Check step IDs and branch targets. Returns an error message, or null if the runbook is valid.
+ * Pass hasScript to also check that every step's script exists.
+ */
+export function validateRunbook(
+  runbook: RunbookDefinition,
+  hasScript?: (scriptId: string) => boolean
+): string | null {
+  const stepIds = new Set<string>();
+
+  for (const step of runbook.steps) {
+    if (step.id === RUNBOOK_NEXT || step.id === RUNBOOK_END) {
+      return `Step ID "${step.id}" is reserved`;
+    }
+    if (stepIds.has(step.id)) {
+      return `Duplicate step ID "${step.id}"`;
+    }
+    stepIds.add(step.id);
+  }
+
+  for (const step of runbook.steps) {
+    for (const target of [step.onSuccess, step.onFailure]) {
+      if (target && target !== RUNBOOK_NEXT && target !== RUNBOOK_END && !stepIds.has(target)) {
+        return `Step "${step.id}" branches to unknown step "${target}"`;
+      }
+    }
+    if (hasScript && !hasScript(step.scriptId)) {
+      return `Step "${step.id}" uses unknown script "${step.scriptId}"`;
+    }
+  }
+
+  return null;
+}
+
+export function isStepSuccessful(step: RunbookStep, exitCode: number): boolean {
+  return (step.successExitCodes ?? [0]).includes(exitCode);
+}
+
+/**
+ * Index of the step to run after steps[stepIndex], or null when the runbook is done.
+ */
+export function getNextStepIndex(
+  runbook: RunbookDefinition,
+  stepIndex: number,
+  succeeded: boolean
+): number | null {
+  const step = runbook.steps[stepIndex];
+  const target = succeeded ? step.onSuccess ?? RUNBOOK_NEXT : step.onFailure ?? RUNBOOK_END;
+
+  if (target === RUNBOOK_END) {
+    return null;
+  }
+  if (target === RUNBOOK_NEXT) {
+    return stepIndex + 1 < runbook.steps.length ? stepIndex + 1 : null;
+  }
+
+  const index = runbook.steps.findIndex(candidate => candidate.id === target);
+  return index === -1 ? null : index;
+}
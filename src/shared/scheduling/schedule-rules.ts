@@ -0,0 +1,235 @@
+import type { ScheduleRule } from '../validation/schemas';
+
+/**
+ * Schedule rule evaluation shared by the main-process scheduler and the renderer.
+ *
+ * Two rule types are supported:
+ * - cron:     standard 5-field expression (minute hour day-of-month month day-of-week)
+ * - interval: every N days at a fixed local time, counted from the schedule's anchor date
+ *
+ * All calculations use local time, matching how users think about "every Monday at 09:00".
+ */
+
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field was not '*' */
+  dayOfMonthRestricted: boolean;
+  /** Day-of-week field was not '*' */
+  dayOfWeekRestricted: boolean;
+}
+
+const CRON_FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Give up searching for a matching cron time after this many years (e.g. "0 0 31 2 *")
+const CRON_SEARCH_LIMIT_YEARS = 5;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${name} field`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to;
+    } else {
+      start = Number(rangePart);
+      // "5/15" means "from 5 to the end of the range every 15"
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in ${name} field (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression. Throws with a descriptive message if invalid.
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day month weekday)');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    const range = CRON_FIELD_RANGES[index];
+    return parseCronField(field, range.min, range.max, range.name);
+  });
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+function cronDayMatches(fields: CronFields, date: Date): boolean {
+  const domMatch = fields.daysOfMonth.has(date.getDate());
+  const dowMatch = fields.daysOfWeek.has(date.getDay());
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+function getNextCronTime(expression: string, after: number): number | null {
+  const fields = parseCronExpression(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limitYear = date.getFullYear() + CRON_SEARCH_LIMIT_YEARS;
+
+  while (date.getFullYear() <= limitYear) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cronDayMatches(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date.getTime();
+  }
+
+  return null;
+}
+
+function startOfDay(timestamp: number): Date {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+function getNextIntervalTime(everyDays: number, time: string, after: number, anchor: number): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const anchorDay = startOfDay(anchor);
+
+  const candidate = startOfDay(Math.max(after, anchor));
+  candidate.setHours(hours, minutes, 0, 0);
+
+  // Round rather than floor so DST transitions (23h/25h days) don't skew the count
+  const daysFromAnchor = Math.round((startOfDay(candidate.getTime()).getTime() - anchorDay.getTime()) / 86400000);
+  const remainder = daysFromAnchor % everyDays;
+  if (remainder !== 0) {
+    candidate.setDate(candidate.getDate() + (everyDays - remainder));
+  }
+
+  if (candidate.getTime() <= after) {
+    candidate.setDate(candidate.getDate() + everyDays);
+  }
+
+  return candidate.getTime();
+}
+
+/**
+ * Calculate the next time a rule fires strictly after `after`.
+ *
+ * @param rule - Schedule rule
+ * @param after - Timestamp (ms) to search from
+ * @param anchor - Timestamp (ms) interval rules count days from (usually the schedule's creation time)
+ * @returns Next run timestamp, or null if a cron rule can never fire
+ */
+export function getNextRunTime(rule: ScheduleRule, after: number, anchor: number = after): number | null {
+  if (rule.type === 'cron') {
+    return getNextCronTime(rule.expression, after);
+  }
+  return getNextIntervalTime(rule.everyDays, rule.time, after, anchor);
+}
+
+/**
+ * Check whether a rule is well-formed. Returns an error message or null.
+ */
+export function validateScheduleRule(rule: ScheduleRule): string | null {
+  if (rule.type !== 'cron') {
+    return null;
+  }
+
+  try {
+    parseCronExpression(rule.expression);
+    return getNextCronTime(rule.expression, Date.now()) === null
+      ? 'Cron expression never matches a real date'
+      : null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Human-readable summary of a rule for display, e.g. "Every 7 days at 12:00".
+ */
+export function describeScheduleRule(rule: ScheduleRule): string {
+  if (rule.type === 'interval') {
+    return rule.everyDays === 1
+      ? `Every day at ${rule.time}`
+      : `Every ${rule.everyDays} days at ${rule.time}`;
+  }
+
+  // Recognise the common "weekly on one day" shape; fall back to the raw expression
+  const weekly = rule.expression.trim().match(/^(\d{1,2})\s+(\d{1,2})\s+\*\s+\*\s+([0-7])$/);
+  if (weekly) {
+    const [, minute, hour, weekday] = weekly;
+    const time = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
+    return `Every ${WEEKDAY_NAMES[Number(weekday) % 7]} at ${time}`;
+  }
+
+  return `Cron: ${rule.expression}`;
+}
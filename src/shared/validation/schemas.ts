@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { SCRIPT_RUNTIME_IDS, getFileRuntimeFamily, isRuntimeForFile } from '../execution/runtime';
+import { SECRET_NAME_PATTERN } from '../execution/secrets';
+import { MAX_REDACTION_RULES, REDACTION_DETECTOR_IDS, isValidRedactionRule } from '../execution/redaction';
+import { MAX_TRANSCRIPT_PAGE_SIZE } from '../execution/transcript';
+import { SCRIPT_CAPABILITY_IDS } from '../execution/capabilities';
+import { SCRIPT_ARCHITECTURES } from '../execution/requirements';
+import { MAX_CATALOG_KEEP_VERSIONS, isCatalogSource } from '../catalog/catalog';
 
 // Base validation schemas
 export const IdSchema = z.string().uuid('Invalid UUID format').describe('Unique identifier');
@@ -33,7 +40,7 @@ export const SystemInfoSchema = z.object({
 // Script definition validation
 export const ScriptParameterSchema = z.object({
   name: SafeStringSchema.max(100, 'Parameter name too long'),
-  type: z.enum(['string', 'number', 'boolean', 'select'], {
+  type: z.enum(['string', 'number', 'boolean', 'select', 'secret'], {
     message: 'Invalid parameter type'
   }),
   required: z.boolean(),
@@ -42,6 +49,94 @@ export const ScriptParameterSchema = z.object({
   default: z.any().optional()
 });
 
+// Schedule rule validation
+export const CronScheduleRuleSchema = z.object({
+  type: z.literal('cron'),
+  expression: z.string()
+    .regex(/^[\d*,\-/]+(\s+[\d*,\-/]+){4}$/, 'Cron expression must have 5 fields (minute hour day month weekday)')
+    .max(100, 'Cron expression too long')
+});
+
+export const IntervalScheduleRuleSchema = z.object({
+  type: z.literal('interval'),
+  everyDays: z.number()
+    .int('Interval must be a whole number of days')
+    .min(1, 'Interval must be at least 1 day')
+    .max(365, 'Interval cannot exceed 365 days'),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format')
+});
+
+export const ScheduleRuleSchema = z.discriminatedUnion('type', [
+  CronScheduleRuleSchema,
+  IntervalScheduleRuleSchema
+]);
+
+// Retry policy validation
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(2, 'maxAttempts must be at least 2').max(10, 'maxAttempts cannot exceed 10'),
+  backoff: z.enum(['fixed', 'exponential']).optional(),
+  delaySeconds: z.number().int().min(1).max(3600).optional(),
+  maxDelaySeconds: z.number().int().min(1).max(3600).optional(),
+  exitCodes: z.array(z.number().int()).max(20).optional(),
+  stderrPatterns: z.array(
+    z.string().min(1).max(200).refine((pattern) => {
+      try {
+        new RegExp(pattern, 'i');
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Invalid stderr pattern')
+  ).max(20).optional()
+});
+
+// Precondition validation
+export const PreconditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('diskSpace'),
+    drive: SafeStringSchema.max(260).optional(),
+    minFreeGB: z.number().positive().max(100000)
+  }),
+  z.object({
+    type: z.literal('reachable'),
+    host: z.string().regex(/^[a-zA-Z0-9.-]+$/, 'Invalid host name').max(253).optional(),
+    path: SafeStringSchema.max(260).optional(),
+    port: z.number().int().min(1).max(65535).optional()
+  }).refine(data => !!data.host !== !!data.path, 'reachable needs either host or path'),
+  z.object({ type: z.literal('acPower') }),
+  z.object({ type: z.literal('minOsBuild'), build: z.number().int().positive() }),
+  z.object({ type: z.literal('process'), name: SafeStringSchema.max(260) })
+]);
+
+// Requirement validation - see shared/execution/requirements.ts
+const OsNameSchema = SafeStringSchema.min(1).max(50, 'OS name too long');
+
+export const ScriptRequirementsSchema = z.object({
+  os: z.array(
+    z.object({
+      name: OsNameSchema,
+      minBuild: z.number().int().positive().optional(),
+      maxBuild: z.number().int().positive().optional()
+    }).refine(
+      data => data.minBuild === undefined || data.maxBuild === undefined || data.minBuild <= data.maxBuild,
+      'minBuild cannot be greater than maxBuild'
+    )
+  ).min(1).max(10, 'Too many OS requirements').optional(),
+  architecture: z.array(z.enum(SCRIPT_ARCHITECTURES)).min(1).max(SCRIPT_ARCHITECTURES.length).optional(),
+  minPowerShellVersion: z.string().regex(/^\d+(\.\d+){0,3}$/, 'Invalid PowerShell version').optional(),
+  modules: z.array(
+    z.string().regex(/^[\w.-]+$/, 'Invalid module name').max(100)
+  ).max(20, 'Too many required modules').optional(),
+  domainJoined: z.boolean().optional()
+});
+
+// Redaction rule validation
+export const RedactionRuleSchema = z.object({
+  pattern: z.string().min(1).max(500, 'Redaction pattern too long'),
+  flags: z.string().regex(/^[imsu]*$/, 'Redaction flags may only be i, m, s or u').optional(),
+  replacement: SafeStringSchema.max(100, 'Redaction replacement too long').optional()
+}).refine(isValidRedactionRule, 'Redaction pattern is not a valid regular expression');
+
 export const ScriptDefinitionSchema = z.object({
   id: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid script ID format').max(100),
   name: SafeStringSchema.max(200, 'Script name too long'),
@@ -63,13 +158,39 @@ export const ScriptDefinitionSchema = z.object({
   fileSize: z.number().int().min(0, 'File size must be non-negative'),
   parameters: z.array(ScriptParameterSchema).optional(),
   hash: SafeStringSchema.max(128, 'Hash too long').optional(),
-  order: z.number().int().min(0).max(999).optional()
-});
+  order: z.number().int().min(0).max(999).optional(),
+  defaultSchedule: ScheduleRuleSchema.optional(),
+  concurrencyGroup: z.string().regex(/^[a-z0-9-_]+$/, 'Invalid concurrency group format').max(50).optional(),
+  maxInstances: z.number().int().min(1, 'maxInstances must be at least 1').max(10).optional(),
+  concurrencyPolicy: z.enum(['queue', 'reject']).optional(),
+  runtime: z.enum(SCRIPT_RUNTIME_IDS).optional(),
+  retry: RetryPolicySchema.optional(),
+  supportsWhatIf: z.boolean().optional(),
+  gracefulStopSeconds: z.number().int().min(1).max(300, 'gracefulStopSeconds cannot exceed 300').optional(),
+  cleanupScript: z.string()
+    .max(100)
+    .regex(/^[\w-]+\.cleanup\.(ps1|psm1|sh)$/i, 'cleanupScript must be a <name>.cleanup.<ext> file next to the script')
+    .optional(),
+  preconditions: z.array(PreconditionSchema).max(10, 'Too many preconditions').optional(),
+  redactions: z.array(RedactionRuleSchema).max(MAX_REDACTION_RULES, 'Too many redaction rules').optional(),
+  capabilities: z.array(z.enum(SCRIPT_CAPABILITY_IDS)).max(SCRIPT_CAPABILITY_IDS.length).optional(),
+  compatibleOS: z.array(OsNameSchema).max(10, 'Too many compatible OS names').optional(),
+  requirements: ScriptRequirementsSchema.optional()
+}).refine(
+  data => !data.runtime || isRuntimeForFile(data.runtime, data.scriptPath),
+  { message: "runtime can't run this type of file", path: ['runtime'] }
+).refine(
+  // The cleanup script runs under the script's own runtime
+  data => !data.cleanupScript || getFileRuntimeFamily(data.cleanupScript) === getFileRuntimeFamily(data.scriptPath),
+  { message: 'cleanupScript must be the same type of file as the script', path: ['cleanupScript'] }
+);
 
 // Execution validation
 export const ExecuteScriptRequestSchema = z.object({
   scriptId: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid script ID format').max(100),
-  parameters: z.record(z.string().max(100), z.any()).optional()
+  parameters: z.record(z.string().max(100), z.any()).optional(),
+  dryRun: z.boolean().optional(),
+  waitForPreconditions: z.boolean().optional()
 }).refine((data) => {
   // Additional validation: parameter keys should be safe
   if (data.parameters) {
@@ -85,6 +206,208 @@ export const CancelExecutionRequestSchema = z.object({
   executionId: IdSchema
 });
 
+// Execution queue management
+export const ReorderQueueRequestSchema = z.object({
+  executionId: IdSchema,
+  position: z.number().int().min(1, 'Position must be at least 1')
+});
+
+// Answer to an interactive prompt from a running script. The value is free text
+// (it may be a password), so it is length-limited rather than character-filtered.
+export const PromptResponseRequestSchema = z.object({
+  executionId: IdSchema,
+  promptId: IdSchema,
+  value: z.string().max(4096, 'Answer too long').optional(),
+  choice: z.number().int().min(0).optional(),
+  cancelled: z.boolean().optional()
+});
+
+// Schedule management validation
+const ScheduleParametersSchema = z.record(z.string().max(100), z.any())
+  .refine((params) => Object.keys(params).every(key => /^[a-zA-Z0-9_]+$/.test(key)), {
+    message: 'Parameter keys contain invalid characters'
+  });
+
+export const CreateScheduleRequestSchema = z.object({
+  scriptId: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid script ID format').max(100),
+  name: SafeStringSchema.max(200, 'Schedule name too long').optional(),
+  rule: ScheduleRuleSchema,
+  parameters: ScheduleParametersSchema.optional(),
+  enabled: z.boolean().optional()
+});
+
+export const UpdateScheduleRequestSchema = z.object({
+  id: IdSchema,
+  name: SafeStringSchema.max(200, 'Schedule name too long').optional(),
+  rule: ScheduleRuleSchema.optional(),
+  parameters: ScheduleParametersSchema.optional(),
+  enabled: z.boolean().optional()
+});
+
+export const DeleteScheduleRequestSchema = z.object({
+  id: IdSchema
+});
+
+// Runbook validation. Branch targets are a step ID, "next" or "end";
+// that they point at real steps is checked by validateRunbook()
+const RunbookBranchSchema = z.string().regex(/^[a-z0-9-_]+$/, 'Invalid branch target').max(100);
+
+export const RunbookStepSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-_]+$/, 'Invalid step ID format').max(100),
+  scriptId: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid script ID format').max(100),
+  name: SafeStringSchema.max(200, 'Step name too long').optional(),
+  parameters: ScheduleParametersSchema.optional(),
+  successExitCodes: z.array(z.number().int()).min(1).max(20).optional(),
+  onSuccess: RunbookBranchSchema.optional(),
+  onFailure: RunbookBranchSchema.optional()
+});
+
+export const RunbookDefinitionSchema = z.object({
+  id: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid runbook ID format').max(100),
+  name: SafeStringSchema.max(200, 'Runbook name too long'),
+  description: SafeStringSchema.max(1000, 'Description too long'),
+  category: SafeStringSchema.max(100, 'Category name too long').optional(),
+  steps: z.array(RunbookStepSchema).min(1, 'Runbook needs at least one step').max(50, 'Too many steps')
+});
+
+export const StartRunbookRequestSchema = z.object({
+  runbookId: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid runbook ID format').max(100)
+});
+
+// Execution artifacts
+export const ListArtifactsRequestSchema = z.object({
+  executionId: IdSchema
+});
+
+export const RerunInfoRequestSchema = z.object({
+  executionId: IdSchema
+});
+
+export const ArtifactActionRequestSchema = z.object({
+  artifactId: z.number().int().positive('Invalid artifact ID')
+});
+
+// Execution transcripts
+export const ReadTranscriptRequestSchema = z.object({
+  executionId: IdSchema,
+  offset: z.number().int().min(0).optional(),
+  limit: z.number().int().min(1).max(MAX_TRANSCRIPT_PAGE_SIZE).optional(),
+  search: z.string().max(200, 'Search text too long').optional(),
+  stream: z.enum(['stdout', 'stderr']).optional()
+});
+
+export const SaveTranscriptRequestSchema = z.object({
+  executionId: IdSchema
+});
+
+// Secret vault
+export const SecretNameSchema = z.string()
+  .regex(SECRET_NAME_PATTERN, 'Secret names use lowercase letters, digits, ".", "_" and "-" (max 64)');
+
+export const SetSecretRequestSchema = z.object({
+  name: SecretNameSchema,
+  value: z.string().min(1, 'Secret value cannot be empty').max(8192, 'Secret value too long'),
+  description: SafeStringSchema.max(200, 'Description too long').optional()
+});
+
+export const DeleteSecretRequestSchema = z.object({
+  name: SecretNameSchema
+});
+
+// Script catalog (see shared/catalog/catalog.ts). File names and versions become path
+// segments on this PC, so neither may contain separators or be "." / ".."
+const CatalogScriptIdSchema = SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid script ID format').max(100);
+const CatalogVersionSchema = z.string().regex(/^[0-9A-Za-z][0-9A-Za-z._-]*$/, 'Invalid catalog version').max(20);
+
+export const CatalogFileSchema = z.object({
+  name: z.string()
+    .max(100)
+    .regex(/^[\w-]+(\.[\w-]+)*\.(ps1|psm1|sh|json)$/i, 'Catalog files must be scripts or JSON metadata with plain names'),
+  sha256: z.string().regex(/^[a-f0-9]{64}$/i, 'Invalid SHA-256 hash')
+});
+
+export const CatalogEntrySchema = z.object({
+  id: CatalogScriptIdSchema,
+  version: CatalogVersionSchema,
+  files: z.array(CatalogFileSchema).min(1).max(10, 'Too many files for one script')
+});
+
+export const CatalogManifestSchema = z.object({
+  formatVersion: z.literal(1),
+  // Syncs refuse a manifest published before the last one accepted, so an old signed manifest can't be replayed
+  publishedAt: z.string().max(50).refine(value => !Number.isNaN(Date.parse(value)), 'publishedAt must be an ISO 8601 date and time'),
+  scripts: z.array(CatalogEntrySchema).max(500, 'Too many scripts in catalog')
+}).refine(
+  manifest => new Set(manifest.scripts.map(entry => entry.id)).size === manifest.scripts.length,
+  'Catalog lists a script more than once'
+);
+
+export const RollbackCatalogScriptRequestSchema = z.object({
+  scriptId: CatalogScriptIdSchema,
+  version: CatalogVersionSchema
+});
+
+export const PinCatalogScriptRequestSchema = z.object({
+  scriptId: CatalogScriptIdSchema,
+  pinned: z.boolean()
+});
+
+// Script packages (see shared/packages/script-package.ts); file names become paths on this PC
+export const ScriptPackageManifestSchema = z.object({
+  formatVersion: z.literal(1),
+  id: CatalogScriptIdSchema,
+  name: SafeStringSchema.max(200, 'Script name too long'),
+  version: SafeStringSchema.max(20, 'Version string too long').optional(),
+  exportedAt: z.string().max(50).optional(),
+  files: z.array(z.object({
+    name: z.string()
+      .max(100)
+      .regex(/^[\w-]+(\.[\w-]+)*\.(ps1|psm1|sh|json|md|txt|png|ico)$/i, 'Package files must have plain names and a supported type'),
+    sha256: z.string().regex(/^[a-f0-9]{64}$/i, 'Invalid SHA-256 hash')
+  })).min(2).max(10, 'Too many files in package')
+}).refine(
+  manifest => new Set(manifest.files.map(file => file.name.toLowerCase())).size === manifest.files.length,
+  'Package lists a file more than once'
+);
+
+// Installing or cancelling a checked package
+export const ScriptPackageImportRequestSchema = z.object({
+  importId: IdSchema
+});
+
+export const ExportScriptPackageRequestSchema = z.object({
+  scriptId: SafeStringSchema.regex(/^[a-z0-9-_]+$/, 'Invalid script ID format').max(100)
+});
+
+export const ResourceUsageSchema = z.object({
+  maxMemoryMB: z.number().min(0),
+  avgMemoryMB: z.number().min(0),
+  avgCpuPercent: z.number().min(0).max(100),
+  maxCpuPercent: z.number().min(0).max(100),
+  diskReadMB: z.number().min(0),
+  diskWriteMB: z.number().min(0),
+  networkBytesSent: z.number().int().min(0),
+  networkBytesReceived: z.number().int().min(0)
+});
+
+const ResultValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const ScriptResultSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('summary'),
+    title: z.string().optional(),
+    text: z.string().optional(),
+    items: z.array(z.object({ label: z.string(), value: ResultValueSchema }))
+  }),
+  z.object({
+    kind: z.literal('table'),
+    title: z.string().optional(),
+    columns: z.array(z.string()),
+    rows: z.array(z.record(z.string(), ResultValueSchema)),
+    truncated: z.boolean().optional()
+  })
+]);
+
 export const ExecutionResultSchema = z.object({
   id: IdSchema,
   success: z.boolean(),
@@ -92,7 +415,12 @@ export const ExecutionResultSchema = z.object({
   error: z.string().max(10000, 'Error message too large').optional(),
   duration: z.number().int().min(0, 'Duration must be non-negative'),
   exitCode: z.number().int().min(-2147483648).max(2147483647), // 32-bit signed integer
-  timestamp: z.number().int().min(0, 'Timestamp must be non-negative')
+  timestamp: z.number().int().min(0, 'Timestamp must be non-negative'),
+  resourceUsage: ResourceUsageSchema.optional(),
+  results: z.array(ScriptResultSchema).max(20).optional(),
+  attempt: z.number().int().min(1).max(10).optional(),
+  maxAttempts: z.number().int().min(2).max(10).optional(),
+  dryRun: z.boolean().optional()
 });
 
 // Logging validation
@@ -143,7 +471,14 @@ export const AppSettingsSchema = z.object({
     .int('Script timeout must be an integer')
     .min(5000, 'Script timeout must be at least 5 seconds')
     .max(28800000, 'Script timeout cannot exceed 8 hours'), // milliseconds
-  enableDetailedLogging: z.boolean()
+  enableDetailedLogging: z.boolean(),
+  redactionDetectors: z.array(z.enum(REDACTION_DETECTOR_IDS)).optional(),
+  catalogSource: z.string()
+    .max(500, 'Catalog location too long')
+    .refine(value => value === '' || isCatalogSource(value), 'Catalog location must be a UNC path or an http(s) URL')
+    .optional(),
+  catalogPublicKey: z.string().max(5000, 'Catalog signing key too long').optional(),
+  catalogKeepVersions: z.number().int().min(1).max(MAX_CATALOG_KEEP_VERSIONS).optional()
 });
 
 // Notification validation
@@ -267,4 +602,24 @@ export type AppSettings = z.infer<typeof AppSettingsSchema>;
 export type NotificationData = z.infer<typeof NotificationSchema>;
 export type SessionState = z.infer<typeof SessionStateSchema>;
 export type AuditLog = z.infer<typeof AuditLogSchema>;
-export type IpcMessage = z.infer<typeof IpcMessageSchema>;
\ No newline at end of file
+export type IpcMessage = z.infer<typeof IpcMessageSchema>;
+export type ScheduleRule = z.infer<typeof ScheduleRuleSchema>;
+export type CreateScheduleRequest = z.infer<typeof CreateScheduleRequestSchema>;
+export type UpdateScheduleRequest = z.infer<typeof UpdateScheduleRequestSchema>;
+export type PromptResponseRequest = z.infer<typeof PromptResponseRequestSchema>;
+export type ReorderQueueRequest = z.infer<typeof ReorderQueueRequestSchema>;
+export type RunbookStep = z.infer<typeof RunbookStepSchema>;
+export type RunbookDefinition = z.infer<typeof RunbookDefinitionSchema>;
+export type StartRunbookRequest = z.infer<typeof StartRunbookRequestSchema>;
+export type ArtifactActionRequest = z.infer<typeof ArtifactActionRequestSchema>;
+export type SetSecretRequest = z.infer<typeof SetSecretRequestSchema>;
+export type DeleteSecretRequest = z.infer<typeof DeleteSecretRequestSchema>;
+export type ReadTranscriptRequest = z.infer<typeof ReadTranscriptRequestSchema>;
+export type CatalogFile = z.infer<typeof CatalogFileSchema>;
+export type CatalogEntry = z.infer<typeof CatalogEntrySchema>;
+export type CatalogManifest = z.infer<typeof CatalogManifestSchema>;
+export type RollbackCatalogScriptRequest = z.infer<typeof RollbackCatalogScriptRequestSchema>;
+export type PinCatalogScriptRequest = z.infer<typeof PinCatalogScriptRequestSchema>;
+export type ScriptPackageManifest = z.infer<typeof ScriptPackageManifestSchema>;
+export type ScriptPackageImportRequest = z.infer<typeof ScriptPackageImportRequestSchema>;
+export type ExportScriptPackageRequest = z.infer<typeof ExportScriptPackageRequestSchema>;
\ No newline at end of file
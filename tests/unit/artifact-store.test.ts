@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, symlinkSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const userData = mkdtempSync(join(tmpdir(), 'fak-artifacts-'));
+const database = {
+  getArtifact: vi.fn(),
+};
+const { shell } = vi.hoisted(() => ({
+  shell: { showItemInFolder: vi.fn(), openPath: vi.fn() },
+}));
+
+vi.mock('@main/services/logger', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { createServiceLogger: () => logger, securityLogger: logger };
+});
+vi.mock('@main/services/database', () => ({ getDatabaseService: () => database }));
+vi.mock('electron', () => ({
+  app: { getPath: () => userData },
+  BrowserWindow: {},
+  dialog: {},
+  shell,
+}));
+
+import { getArtifactStoreService } from '@main/services/artifact-store';
+
+describe('ArtifactStoreService', () => {
+  const store = getArtifactStoreService();
+  let outside: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const directory = store.createDirectory('run-1');
+    writeFileSync(join(directory, 'report.txt'), 'report');
+    outside = mkdtempSync(join(tmpdir(), 'fak-outside-'));
+    writeFileSync(join(outside, 'secret.txt'), 'secret');
+    database.getArtifact.mockReturnValue({ id: 1, execution_id: 'run-1', relative_path: 'report.txt', size_bytes: 6, modified_at: 0 });
+  });
+
+  afterEach(() => {
+    rmSync(join(userData, 'artifacts'), { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('should use an indexed file inside the run folder', () => {
+    store.revealArtifact(1);
+    expect(shell.showItemInFolder).toHaveBeenCalledWith(join(store.getDirectory('run-1'), 'report.txt'));
+  });
+
+  it('should refuse a file replaced by a link after it was indexed', () => {
+    const filePath = join(store.getDirectory('run-1'), 'report.txt');
+    unlinkSync(filePath);
+    symlinkSync(join(outside, 'secret.txt'), filePath);
+
+    expect(() => store.revealArtifact(1)).toThrow('Invalid artifact path');
+    expect(shell.showItemInFolder).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a file reached through a folder replaced by a link', () => {
+    database.getArtifact.mockReturnValue({ id: 2, execution_id: 'run-1', relative_path: 'logs/secret.txt', size_bytes: 6, modified_at: 0 });
+    symlinkSync(outside, join(store.getDirectory('run-1'), 'logs'));
+
+    expect(() => store.revealArtifact(2)).toThrow('Invalid artifact path');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { canOpenArtifact, formatArtifactSize } from '@shared/execution/artifacts';
+import { ArtifactActionRequestSchema, ListArtifactsRequestSchema } from '@shared/validation/schemas';
+
+describe('Execution Artifacts', () => {
+  describe('canOpenArtifact', () => {
+    it('should allow reports, logs, images and PDFs', () => {
+      expect(canOpenArtifact('report.csv')).toBe(true);
+      expect(canOpenArtifact('logs/backup.LOG')).toBe(true);
+      expect(canOpenArtifact('screenshots/before.png')).toBe(true);
+      expect(canOpenArtifact('summary.pdf')).toBe(true);
+    });
+
+    it('should refuse files that would run code', () => {
+      expect(canOpenArtifact('setup.exe')).toBe(false);
+      expect(canOpenArtifact('nested/Fix.PS1')).toBe(false);
+      expect(canOpenArtifact('shortcut.lnk')).toBe(false);
+      expect(canOpenArtifact('report.csv.bat')).toBe(false);
+    });
+
+    it('should refuse any type not known to be inert', () => {
+      expect(canOpenArtifact('README')).toBe(false);
+      expect(canOpenArtifact('report.html')).toBe(false);
+      expect(canOpenArtifact('macro.xlsm')).toBe(false);
+      expect(canOpenArtifact('settings.search-ms')).toBe(false);
+      expect(canOpenArtifact('logs.txt/')).toBe(false);
+    });
+  });
+
+  it('should format sizes', () => {
+    expect(formatArtifactSize(512)).toBe('512 B');
+    expect(formatArtifactSize(1536)).toBe('1.5 KB');
+    expect(formatArtifactSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+
+  it('should validate artifact IPC requests', () => {
+    expect(ArtifactActionRequestSchema.safeParse({ artifactId: 3 }).success).toBe(true);
+    expect(ArtifactActionRequestSchema.safeParse({ artifactId: 0 }).success).toBe(false);
+    expect(ArtifactActionRequestSchema.safeParse({ artifactId: '3' }).success).toBe(false);
+    expect(ListArtifactsRequestSchema.safeParse({ executionId: '../etc' }).success).toBe(false);
+  });
+});
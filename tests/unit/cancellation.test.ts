@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatCancellationReport,
+  isCleanupScriptFile,
+  shouldRunCleanup
+} from '@shared/execution/cancellation';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+describe('Cancellation', () => {
+  it('should recognise cleanup scripts by name', () => {
+    expect(isCleanupScriptFile('file-backup.cleanup.ps1')).toBe(true);
+    expect(isCleanupScriptFile('FILE-BACKUP.CLEANUP.PS1')).toBe(true);
+    expect(isCleanupScriptFile('cleanup.ps1')).toBe(false);
+    expect(isCleanupScriptFile('clear-temp.ps1')).toBe(false);
+  });
+
+  it('should skip cleanup on shutdown only', () => {
+    expect(shouldRunCleanup('user_request')).toBe(true);
+    expect(shouldRunCleanup('timeout')).toBe(true);
+    expect(shouldRunCleanup('shutdown')).toBe(false);
+  });
+
+  it('should report each step under the reason', () => {
+    expect(formatCancellationReport('timeout', [])).toBe('Cancelled: timeout');
+    expect(formatCancellationReport('user_request', [
+      { step: 'stop-signal', outcome: 'timeout', detail: 'still running after 20s' },
+      { step: 'terminate', outcome: 'ok', detail: '3 processes terminated' },
+      { step: 'cleanup', outcome: 'ok' },
+    ])).toBe(
+      'Cancelled: user_request\n' +
+      'Graceful stop: timeout - still running after 20s\n' +
+      'Process tree: ok - 3 processes terminated\n' +
+      'Cleanup script: ok'
+    );
+  });
+
+  it('should validate cancellation metadata', () => {
+    const base = {
+      id: 'file-backup',
+      name: 'File Backup',
+      description: 'Backs up files',
+      scriptPath: 'C:\\scripts\\file-backup.ps1',
+      timeout: 30000,
+      category: 'Maintenance',
+      estimatedDuration: 5000,
+      lastModified: 0,
+      fileSize: 100,
+    };
+    expect(ScriptDefinitionSchema.safeParse({
+      ...base, gracefulStopSeconds: 20, cleanupScript: 'file-backup.cleanup.ps1'
+    }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, cleanupScript: '..\\evil.ps1' }).success).toBe(false);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, gracefulStopSeconds: 900 }).success).toBe(false);
+  });
+});
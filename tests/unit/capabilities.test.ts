@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCapabilityRestrictions,
+  getUnenforceableCapabilitiesReason,
+  isLanguageModeViolation,
+  parseCapabilityLine,
+} from '@shared/execution/capabilities';
+import { splitScriptOutput } from '@shared/execution/script-output';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+describe('getCapabilityRestrictions', () => {
+  it('should deny network and process commands that were not declared', () => {
+    const restrictions = getCapabilityRestrictions([]);
+    expect(restrictions.deniedCommands['invoke-webrequest']).toBe('network');
+    expect(restrictions.deniedCommands['start-process']).toBe('processes');
+    expect(restrictions.deniedPrograms['reg.exe']).toBe('registry');
+    expect(restrictions.remotableCommands).toContain('Invoke-Command');
+    expect(restrictions.allowPrograms).toBe(false);
+    expect(restrictions.constrainedLanguage).toBe(true);
+  });
+
+  it('should lift the limits of declared capabilities', () => {
+    const restrictions = getCapabilityRestrictions(['network', 'processes', 'fullLanguage']);
+    expect(restrictions.deniedCommands['invoke-webrequest']).toBeUndefined();
+    expect(restrictions.deniedCommands['start-process']).toBeUndefined();
+    // WMI methods also write the registry
+    expect(restrictions.deniedCommands['invoke-cimmethod']).toBe('registry');
+    expect(restrictions.deniedPrograms['reg.exe']).toBe('registry');
+    expect(restrictions.deniedPrograms['curl.exe']).toBeUndefined();
+    expect(restrictions.remotableCommands).toEqual([]);
+    expect(restrictions.allowPrograms).toBe(true);
+    expect(restrictions.constrainedLanguage).toBe(false);
+  });
+
+  it('should deny local WMI methods unless both processes and registry are declared', () => {
+    expect(getCapabilityRestrictions([]).deniedCommands['invoke-cimmethod']).toBe('processes');
+    expect(getCapabilityRestrictions(['processes']).deniedCommands['invoke-wmimethod']).toBe('registry');
+    expect(getCapabilityRestrictions(['registry']).deniedCommands['set-ciminstance']).toBe('processes');
+    expect(getCapabilityRestrictions(['processes', 'registry']).deniedCommands['invoke-cimmethod']).toBeUndefined();
+    // Still checked for other computers without network
+    expect(getCapabilityRestrictions(['processes', 'registry']).remotableCommands).toContain('Invoke-CimMethod');
+  });
+
+  it('should limit module functions to read-only verbs unless fullLanguage is declared', () => {
+    const restrictions = getCapabilityRestrictions(['network', 'registry', 'processes', 'fileSystem']);
+    expect(restrictions.allowModuleFunctions).toBe(false);
+    expect(restrictions.readOnlyVerbs).toContain('Get');
+    expect(restrictions.readOnlyVerbs).not.toContain('Set');
+    expect(restrictions.readOnlyVerbs).not.toContain('Disable');
+    expect(getCapabilityRestrictions(['fullLanguage']).allowModuleFunctions).toBe(true);
+  });
+
+  it('should only skip path checks when both registry and fileSystem are declared', () => {
+    expect(getCapabilityRestrictions(['registry']).pathCommands['Set-Content']).toEqual(['Path', 'LiteralPath']);
+    expect(getCapabilityRestrictions(['registry', 'fileSystem']).pathCommands).toEqual({});
+  });
+});
+
+describe('parseCapabilityLine', () => {
+  it('should parse a violation marker', () => {
+    expect(parseCapabilityLine('##FAK-CAPABILITY {"capability":"network","command":"Invoke-WebRequest","target":"https://example.com"}'))
+      .toEqual({ capability: 'network', command: 'Invoke-WebRequest', target: 'https://example.com' });
+    expect(parseCapabilityLine('##FAK-CAPABILITY {"capability":"processes","command":"notepad.exe","target":""}'))
+      .toEqual({ capability: 'processes', command: 'notepad.exe' });
+  });
+
+  it('should reject invalid markers', () => {
+    expect(parseCapabilityLine('##FAK-CAPABILITY not json')).toBeNull();
+    expect(parseCapabilityLine('##FAK-CAPABILITY {"capability":"admin","command":"x"}')).toBeNull();
+    expect(parseCapabilityLine('##FAK-CAPABILITY {"capability":"network"}')).toBeNull();
+    expect(parseCapabilityLine('Invoke-WebRequest failed')).toBeNull();
+  });
+
+  it('should be extracted from script output', () => {
+    const result = splitScriptOutput('', 'Checking\n##FAK-CAPABILITY {"capability":"registry","command":"Get-ItemProperty","target":"HKLM:\\\\Software"}\nDone\n');
+    expect(result.output).toBe('Checking\nDone\n');
+    expect(result.violations).toEqual([{ capability: 'registry', command: 'Get-ItemProperty', target: 'HKLM:\\Software' }]);
+  });
+});
+
+describe('isLanguageModeViolation', () => {
+  it('should recognise Constrained Language Mode errors', () => {
+    expect(isLanguageModeViolation('Cannot create type. Only core types are supported in this language mode.')).toBe(true);
+    expect(isLanguageModeViolation('Access to the path is denied.')).toBe(false);
+  });
+});
+
+describe('getUnenforceableCapabilitiesReason', () => {
+  it('should refuse declared capabilities for runtimes without a command guard', () => {
+    expect(getUnenforceableCapabilitiesReason('bash', ['network'])).toContain("can't be enforced for bash");
+    expect(getUnenforceableCapabilitiesReason('sh', [])).not.toBeNull();
+    expect(getUnenforceableCapabilitiesReason('bash', undefined)).toBeNull();
+    expect(getUnenforceableCapabilitiesReason('powershell', ['network'])).toBeNull();
+    expect(getUnenforceableCapabilitiesReason('pwsh', [])).toBeNull();
+  });
+});
+
+describe('capabilities metadata', () => {
+  const base = {
+    id: 'flush-dns',
+    name: 'Flush DNS',
+    description: 'Clears the DNS cache',
+    scriptPath: 'C:\\scripts\\flush-dns.ps1',
+    timeout: 30000,
+    category: 'Network',
+    estimatedDuration: 5000,
+    lastModified: 0,
+    fileSize: 100,
+  };
+
+  it('should accept known capabilities', () => {
+    expect(ScriptDefinitionSchema.safeParse({ ...base, capabilities: [] }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, capabilities: ['network', 'registry'] }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, capabilities: ['admin'] }).success).toBe(false);
+  });
+});
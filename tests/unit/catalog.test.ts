@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkManifestFreshness,
+  compareCatalogVersions,
+  isCatalogSource,
+  planCatalogSync,
+  selectVersionsToPrune,
+} from '@shared/catalog/catalog';
+import { CatalogManifestSchema, type CatalogManifest } from '@shared/validation/schemas';
+
+const hash = 'a'.repeat(64);
+
+const manifest = (...scripts: Array<[string, string]>): CatalogManifest => ({
+  formatVersion: 1,
+  publishedAt: '2026-10-19T09:30:00Z',
+  scripts: scripts.map(([id, version]) => ({
+    id,
+    version,
+    files: [{ name: `${id}.ps1`, sha256: hash }, { name: `${id}.json`, sha256: hash }],
+  })),
+});
+
+describe('planCatalogSync', () => {
+  it('should install new scripts and update changed versions', () => {
+    const steps = planCatalogSync(manifest(['flush-dns', '1.2.0'], ['clear-temp', '2.0.0'], ['same', '1.0']), [
+      { scriptId: 'clear-temp', activeVersion: '1.0.0', pinnedVersion: null },
+      { scriptId: 'same', activeVersion: '1.0', pinnedVersion: null },
+    ]);
+
+    expect(steps).toEqual([
+      { scriptId: 'flush-dns', action: 'install', toVersion: '1.2.0' },
+      { scriptId: 'clear-temp', action: 'update', fromVersion: '1.0.0', toVersion: '2.0.0' },
+    ]);
+  });
+
+  it('should follow the catalog to a lower version and reinstall removed scripts', () => {
+    const steps = planCatalogSync(manifest(['flush-dns', '1.1.0'], ['clear-temp', '1.0.0']), [
+      { scriptId: 'flush-dns', activeVersion: '1.2.0', pinnedVersion: null },
+      { scriptId: 'clear-temp', activeVersion: null, pinnedVersion: null },
+    ]);
+
+    expect(steps.map(step => step.action)).toEqual(['update', 'install']);
+  });
+
+  it('should leave pinned scripts alone', () => {
+    const steps = planCatalogSync(manifest(['flush-dns', '1.3.0']), [
+      { scriptId: 'flush-dns', activeVersion: '1.1.0', pinnedVersion: '1.1.0' },
+      { scriptId: 'old-tool', activeVersion: '0.9', pinnedVersion: '0.9' },
+    ]);
+
+    expect(steps).toEqual([]);
+  });
+
+  it('should remove unpinned scripts no longer in the catalog', () => {
+    const steps = planCatalogSync(manifest(), [
+      { scriptId: 'old-tool', activeVersion: '0.9', pinnedVersion: null },
+      { scriptId: 'gone', activeVersion: null, pinnedVersion: null },
+    ]);
+
+    expect(steps).toEqual([{ scriptId: 'old-tool', action: 'remove', fromVersion: '0.9' }]);
+  });
+});
+
+describe('selectVersionsToPrune', () => {
+  const versions = [
+    { version: '1.0', installedAt: 1 },
+    { version: '1.3', installedAt: 4 },
+    { version: '1.1', installedAt: 2 },
+    { version: '1.2', installedAt: 3 },
+  ];
+
+  it('should keep the newest versions', () => {
+    expect(selectVersionsToPrune(versions, 2, [])).toEqual(['1.1', '1.0']);
+    expect(selectVersionsToPrune(versions, 5, [])).toEqual([]);
+  });
+
+  it('should never prune the active or pinned version', () => {
+    expect(selectVersionsToPrune(versions, 1, ['1.3', '1.0', null])).toEqual(['1.2', '1.1']);
+  });
+});
+
+describe('compareCatalogVersions', () => {
+  it('should compare numeric parts as numbers', () => {
+    expect(compareCatalogVersions('1.10.0', '1.9.2')).toBe(1);
+    expect(compareCatalogVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareCatalogVersions('2.0.0-beta', '2.0.0-rc')).toBe(-1);
+  });
+});
+
+describe('isCatalogSource', () => {
+  it('should accept UNC paths and http(s) URLs', () => {
+    expect(isCatalogSource('\\\\fileserver\\fak-catalog')).toBe(true);
+    expect(isCatalogSource('https://intranet.example.com/fak-catalog')).toBe(true);
+    expect(isCatalogSource('C:\\catalog')).toBe(false);
+    expect(isCatalogSource('ftp://server/catalog')).toBe(false);
+  });
+});
+
+describe('CatalogManifestSchema', () => {
+  it('should accept a valid manifest', () => {
+    expect(CatalogManifestSchema.safeParse(manifest(['flush-dns', '1.2.0'])).success).toBe(true);
+  });
+
+  it('should reject duplicate script IDs', () => {
+    expect(CatalogManifestSchema.safeParse(manifest(['flush-dns', '1.2.0'], ['flush-dns', '1.3.0'])).success).toBe(false);
+  });
+
+  it('should reject file names that are paths or not scripts', () => {
+    for (const name of ['..\\evil.ps1', 'sub/flush-dns.ps1', 'setup.exe']) {
+      const result = CatalogManifestSchema.safeParse({
+        formatVersion: 1,
+        publishedAt: '2026-10-19T09:30:00Z',
+        scripts: [{ id: 'flush-dns', version: '1.2.0', files: [{ name, sha256: hash }] }],
+      });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it('should reject versions that could leave the versions folder', () => {
+    const result = CatalogManifestSchema.safeParse(manifest(['flush-dns', '../1.0']));
+    expect(result.success).toBe(false);
+  });
+
+  it('should require a valid publishedAt', () => {
+    const { publishedAt: _publishedAt, ...undated } = manifest(['flush-dns', '1.2.0']);
+    expect(CatalogManifestSchema.safeParse(undated).success).toBe(false);
+    expect(CatalogManifestSchema.safeParse({ ...undated, publishedAt: 'yesterday' }).success).toBe(false);
+  });
+});
+
+describe('checkManifestFreshness', () => {
+  const source = '\\\\fileserver\\fak-catalog';
+  const lastAccepted = { source, publishedAt: '2026-10-19T09:30:00Z' };
+
+  it('should refuse a manifest published before the last one accepted', () => {
+    expect(checkManifestFreshness(source, '2026-09-01T08:00:00Z', lastAccepted)).toContain('older than the one already synced');
+    // Same instant in another time zone is the same manifest
+    expect(checkManifestFreshness(source, '2026-10-19T11:30:00+02:00', lastAccepted)).toBeNull();
+    expect(checkManifestFreshness(source, '2026-10-20T07:00:00Z', lastAccepted)).toBeNull();
+  });
+
+  it('should accept anything from a new location or on the first sync', () => {
+    expect(checkManifestFreshness('https://intranet/fak-catalog', '2026-09-01T08:00:00Z', lastAccepted)).toBeNull();
+    expect(checkManifestFreshness(source, '2026-09-01T08:00:00Z', null)).toBeNull();
+  });
+});
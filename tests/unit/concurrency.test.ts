@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { findConcurrencyConflict } from '@shared/execution/concurrency';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+const backup = { id: 'file-backup', name: 'File Backup', concurrencyGroup: 'file-transfer', maxInstances: 1 };
+const restore = { id: 'file-restore', name: 'File Restore', concurrencyGroup: 'file-transfer' };
+
+const run = (script: { id: string; name: string; concurrencyGroup?: string }) => ({
+  scriptId: script.id,
+  scriptName: script.name,
+  concurrencyGroup: script.concurrencyGroup,
+});
+
+describe('Concurrency Rules', () => {
+  it('should allow scripts without limits', () => {
+    const script = { id: 'flush-dns', name: 'Flush DNS' };
+    expect(findConcurrencyConflict(script, [run(script), run(script)])).toBeNull();
+  });
+
+  it('should block other members of a concurrency group', () => {
+    const conflict = findConcurrencyConflict(restore, [run(backup)]);
+    expect(conflict).toMatchObject({ kind: 'group', policy: 'queue', blockedBy: ['File Backup'] });
+    expect(conflict?.reason).toBe("File Restore can't run while File Backup is running.");
+  });
+
+  it('should limit copies of the same script by maxInstances only', () => {
+    expect(findConcurrencyConflict(restore, [run(restore)])).toBeNull();
+    expect(findConcurrencyConflict(backup, [run(backup)])).toMatchObject({
+      kind: 'instances',
+      reason: 'File Backup is already running.',
+    });
+
+    const twice = { id: 'clear-temp', name: 'Clear Temp', maxInstances: 2 };
+    expect(findConcurrencyConflict(twice, [run(twice)])).toBeNull();
+    expect(findConcurrencyConflict(twice, [run(twice), run(twice)])?.reason).toMatch(/limit 2/);
+  });
+
+  it('should report the reject policy', () => {
+    const reset = { id: 'reset-network', name: 'Reset Network', maxInstances: 1, concurrencyPolicy: 'reject' as const };
+    expect(findConcurrencyConflict(reset, [run(reset)])?.policy).toBe('reject');
+  });
+
+  it('should validate concurrency metadata', () => {
+    const base = {
+      id: 'file-backup',
+      name: 'File Backup',
+      description: 'Backs up files',
+      scriptPath: 'C:\\scripts\\file-backup.ps1',
+      timeout: 30000,
+      category: 'Maintenance',
+      estimatedDuration: 5000,
+      lastModified: 0,
+      fileSize: 100,
+    };
+    expect(ScriptDefinitionSchema.safeParse({ ...base, concurrencyGroup: 'file-transfer', maxInstances: 1 }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, maxInstances: 0 }).success).toBe(false);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, concurrencyGroup: 'File Transfer' }).success).toBe(false);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, concurrencyPolicy: 'wait' }).success).toBe(false);
+  });
+});
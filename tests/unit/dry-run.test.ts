@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { declaresDryRunParameter, withDryRunParameter, DRY_RUN_PARAMETER } from '@shared/execution/dry-run';
+import { ExecuteScriptRequestSchema } from '@shared/validation/schemas';
+
+describe('Dry Runs', () => {
+  it('should switch the WhatIf parameter on', () => {
+    expect(withDryRunParameter({ Source: 'C:\\Users' })).toEqual({ Source: 'C:\\Users', WhatIf: true });
+  });
+
+  it('should override WhatIf in any case', () => {
+    const parameters = withDryRunParameter({ whatif: false, Target: 'D:' });
+    expect(parameters).toEqual({ Target: 'D:', [DRY_RUN_PARAMETER]: true });
+  });
+
+  it('should tell whether the metadata declares WhatIf itself', () => {
+    expect(declaresDryRunParameter([{ name: 'Source' }, { name: 'whatIf' }])).toBe(true);
+    expect(declaresDryRunParameter([{ name: 'Source' }])).toBe(false);
+    expect(declaresDryRunParameter(undefined)).toBe(false);
+  });
+
+  it('should accept the dryRun flag on execute requests', () => {
+    expect(ExecuteScriptRequestSchema.safeParse({ scriptId: 'file-backup', dryRun: true }).success).toBe(true);
+    expect(ExecuteScriptRequestSchema.safeParse({ scriptId: 'file-backup', dryRun: 'yes' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLoadReport,
+  describeIssueValue,
+  formatIssuePath,
+  formatLoadIssue,
+  toLoadIssues,
+  type ScriptLoadResult,
+} from '@shared/registry/load-report';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+const definition = {
+  id: 'disk-check',
+  name: 'Disk Check',
+  description: 'Check the disks',
+  scriptPath: 'C:\\scripts\\disk-check.ps1',
+  timeout: 30000,
+  category: 'maintenance',
+  estimatedDuration: 5000,
+  lastModified: 0,
+  fileSize: 100,
+};
+
+describe('formatIssuePath', () => {
+  it('should format nested paths', () => {
+    expect(formatIssuePath(['parameters', 0, 'name'])).toBe('parameters[0].name');
+    expect(formatIssuePath(['estimatedDuration'])).toBe('estimatedDuration');
+    expect(formatIssuePath([])).toBe('');
+  });
+});
+
+describe('describeIssueValue', () => {
+  it('should show values as shortened JSON', () => {
+    expect(describeIssueValue(36000000)).toBe('36000000');
+    expect(describeIssueValue('abc')).toBe('"abc"');
+    expect(describeIssueValue(undefined)).toBeUndefined();
+    expect(describeIssueValue('x'.repeat(500))!.length).toBe(200);
+  });
+});
+
+describe('toLoadIssues', () => {
+  it('should report every schema issue with its path and value', () => {
+    const input = {
+      ...definition,
+      estimatedDuration: 36000000,
+      parameters: [{ name: 'Path', type: 'folder', required: true, description: 'Where' }],
+    };
+    const result = ScriptDefinitionSchema.safeParse(input);
+    expect(result.success).toBe(false);
+
+    const issues = toLoadIssues(result.error!.issues, input);
+    expect(issues).toContainEqual(expect.objectContaining({
+      kind: 'schema',
+      path: 'estimatedDuration',
+      value: '36000000',
+    }));
+    expect(issues.some(issue => issue.path === 'parameters[0].type' && issue.value === '"folder"')).toBe(true);
+    expect(formatLoadIssue(issues.find(issue => issue.path === 'estimatedDuration')!))
+      .toMatch(/^estimatedDuration: .+ \(got 36000000\)$/);
+  });
+});
+
+describe('buildLoadReport', () => {
+  const result = (filePath: string, status: ScriptLoadResult['status'], scriptId?: string): ScriptLoadResult => ({
+    filePath,
+    status,
+    scriptId,
+    issues: [],
+    checkedAt: 1,
+  });
+
+  it('should mark loaded files whose ID is used by another file as shadowed', () => {
+    const report = buildLoadReport(
+      [
+        result('/a/flush-dns.ps1', 'loaded', 'flush-dns'),
+        result('/b/flush-dns.ps1', 'loaded', 'flush-dns'),
+        result('/a/broken.ps1', 'broken', 'broken'),
+        result('/a/huge.ps1', 'skipped'),
+      ],
+      new Map([['flush-dns', '/b/flush-dns.ps1']]),
+      5
+    );
+
+    expect(report.counts).toEqual({ loaded: 1, broken: 1, shadowed: 1, skipped: 1 });
+    expect(report.files.map(file => file.status)).toEqual(['broken', 'shadowed', 'skipped', 'loaded']);
+    expect(report.files[1]).toMatchObject({ filePath: '/a/flush-dns.ps1', shadowedBy: '/b/flush-dns.ps1' });
+    expect(report.generatedAt).toBe(5);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('@main/services/logger', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { createServiceLogger: () => logger };
+});
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }));
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+import { PowerShellRuntime } from '@main/services/runtimes/powershell';
+import type { ScriptCapability } from '@shared/execution/capabilities';
+
+describe('PowerShellRuntime capability guard', () => {
+  let directory: string;
+  const runtime = new PowerShellRuntime('pwsh', 'PowerShell 7', 'pwsh');
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'fak-runtime-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // The wrapper passed to -Command, which holds the guard
+  const buildWrapper = async (capabilities?: ScriptCapability[]): Promise<string> => {
+    const { args } = await runtime.buildCommand({
+      executionId: 'run-1',
+      scriptDefinition: { id: 'set-dns', name: 'Set DNS', scriptPath: join(directory, 'set-dns.ps1'), parameters: [] } as any,
+      parameters: {},
+      options: { capabilities },
+      dryRun: false,
+      scriptContent: Buffer.from('Set-DnsClientServerAddress -InterfaceIndex 12 -ServerAddresses 10.0.0.1'),
+      tempDirectory: directory,
+    });
+    return args[args.length - 1];
+  };
+
+  const guardSettings = (wrapper: string) => JSON.parse(/\$guard = '(.*)' \| ConvertFrom-Json/.exec(wrapper)![1].replace(/''/g, "'"));
+
+  it('should refuse local WMI method calls without processes and registry', async () => {
+    const settings = guardSettings(await buildWrapper([]));
+    expect(settings.deniedCommands['invoke-cimmethod']).toBe('processes');
+    expect(settings.deniedCommands['invoke-wmimethod']).toBe('processes');
+  });
+
+  it('should check module functions, not just cmdlets and programs', async () => {
+    const wrapper = await buildWrapper(['network']);
+    expect(wrapper).toContain("$command.CommandType -eq 'Function'");
+    expect(wrapper).toContain('$guard.readOnlyVerbs -notcontains $command.Verb');
+    expect(guardSettings(wrapper).allowModuleFunctions).toBe(false);
+    expect(guardSettings(await buildWrapper(['fullLanguage'])).allowModuleFunctions).toBe(true);
+  });
+
+  it('should leave scripts without capabilities unguarded', async () => {
+    expect(await buildWrapper()).not.toContain('PostCommandLookupAction');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describePrecondition,
+  isProcessRunning,
+  parseWindowsBuild,
+  summarizeFailedPreconditions
+} from '@shared/execution/preconditions';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+describe('Preconditions', () => {
+  it('should describe each precondition', () => {
+    expect(describePrecondition({ type: 'diskSpace', drive: 'C:', minFreeGB: 20 })).toBe('At least 20 GB free on C:');
+    expect(describePrecondition({ type: 'diskSpace', minFreeGB: 5 })).toBe('At least 5 GB free on the system drive');
+    expect(describePrecondition({ type: 'reachable', path: '\\\\fileserver\\backups' })).toBe('\\\\fileserver\\backups reachable');
+    expect(describePrecondition({ type: 'reachable', host: 'dc01' })).toBe('dc01 reachable on port 443');
+    expect(describePrecondition({ type: 'acPower' })).toBe('Plugged into AC power');
+    expect(describePrecondition({ type: 'minOsBuild', build: 19045 })).toBe('Windows build 19045 or later');
+  });
+
+  it('should parse the Windows build from the OS release', () => {
+    expect(parseWindowsBuild('10.0.22631')).toBe(22631);
+    expect(parseWindowsBuild('6.5.0-14-generic')).toBeNull();
+    expect(parseWindowsBuild('10.0')).toBeNull();
+  });
+
+  it('should match process names case-insensitively with optional .exe', () => {
+    const running = ['OUTLOOK.EXE', 'explorer.exe', 'bash'];
+    expect(isProcessRunning(running, 'outlook.exe')).toBe(true);
+    expect(isProcessRunning(running, 'Outlook')).toBe(true);
+    expect(isProcessRunning(running, 'bash.exe')).toBe(true);
+    expect(isProcessRunning(running, 'teams.exe')).toBe(false);
+  });
+
+  it('should summarize only the failed checks', () => {
+    expect(summarizeFailedPreconditions({
+      passed: false,
+      checkedAt: 0,
+      results: [
+        { precondition: { type: 'acPower' }, label: 'Plugged into AC power', passed: false, detail: 'running on battery' },
+        { precondition: { type: 'minOsBuild', build: 19045 }, label: 'Windows build 19045 or later', passed: true },
+        { precondition: { type: 'process', name: 'outlook.exe' }, label: 'outlook.exe running', passed: false },
+      ]
+    })).toBe('Plugged into AC power (running on battery); outlook.exe running');
+  });
+
+  it('should validate precondition metadata', () => {
+    const base = {
+      id: 'file-backup',
+      name: 'File Backup',
+      description: 'Backs up files',
+      scriptPath: 'C:\\scripts\\file-backup.ps1',
+      timeout: 30000,
+      category: 'Maintenance',
+      estimatedDuration: 5000,
+      lastModified: 0,
+      fileSize: 100,
+    };
+    const parse = (preconditions: unknown[]) => ScriptDefinitionSchema.safeParse({ ...base, preconditions }).success;
+
+    expect(parse([
+      { type: 'diskSpace', drive: 'C:', minFreeGB: 20 },
+      { type: 'reachable', path: '\\\\fileserver\\backups' },
+      { type: 'reachable', host: 'dc01.corp.local', port: 389 },
+      { type: 'acPower' },
+      { type: 'minOsBuild', build: 19045 },
+      { type: 'process', name: 'outlook.exe' },
+    ])).toBe(true);
+    expect(parse([{ type: 'reachable' }])).toBe(false);
+    expect(parse([{ type: 'reachable', host: 'dc01', path: '\\\\dc01\\share' }])).toBe(false);
+    expect(parse([{ type: 'diskSpace', minFreeGB: -1 }])).toBe(false);
+    expect(parse([{ type: 'battery' }])).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getQueueInsertIndex, moveQueueEntry, orderSavedQueue } from '@shared/execution/queue';
+
+const queue = (...priorities: number[]) => priorities.map((priority, index) => ({ id: `run-${index}`, priority }));
+
+describe('Execution queue order', () => {
+  it('should queue a run behind every run of equal or higher priority', () => {
+    const runs = queue(10, 5, 5, 0);
+    expect(getQueueInsertIndex(runs, 5)).toBe(3);
+    expect(getQueueInsertIndex(runs, 7)).toBe(1);
+    expect(getQueueInsertIndex(runs, 20)).toBe(0);
+    expect(getQueueInsertIndex(runs, -1)).toBe(4);
+    expect(getQueueInsertIndex([], 5)).toBe(0);
+  });
+
+  it('should move a run to a 1-based position regardless of priority', () => {
+    const runs = queue(10, 5, 0);
+    const moved = moveQueueEntry(runs, 2, 1);
+    expect(moved.queue.map(run => run.id)).toEqual(['run-2', 'run-0', 'run-1']);
+    expect(moved.index).toBe(0);
+    // The original is left alone
+    expect(runs.map(run => run.id)).toEqual(['run-0', 'run-1', 'run-2']);
+  });
+
+  it('should clamp moves to the queue', () => {
+    const runs = queue(10, 5, 0);
+    expect(moveQueueEntry(runs, 0, 99)).toEqual({ queue: [runs[1], runs[2], runs[0]], index: 2 });
+    expect(moveQueueEntry(runs, 2, 0)).toEqual({ queue: [runs[2], runs[0], runs[1]], index: 0 });
+    expect(moveQueueEntry(runs, 1, -3).index).toBe(0);
+  });
+
+  it('should restore saved runs by position, then arrival', () => {
+    const saved = [
+      { id: 'c', position: 2, enqueuedAt: 100 },
+      { id: 'a', position: 0, enqueuedAt: 300 },
+      { id: 'b2', position: 1, enqueuedAt: 250 },
+      { id: 'b1', position: 1, enqueuedAt: 200 },
+    ];
+    expect(orderSavedQueue(saved).map(entry => entry.id)).toEqual(['a', 'b1', 'b2', 'c']);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REDACTION_DETECTOR_IDS,
+  countRedactions,
+  createRedactor,
+  isValidRedactionRule
+} from '@shared/execution/redaction';
+import { redactScriptResults } from '@shared/execution/result';
+import { AppSettingsSchema, ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+describe('Output redaction', () => {
+  const redactor = createRedactor(REDACTION_DETECTOR_IDS);
+
+  it('should redact email addresses and labelled employee IDs', () => {
+    expect(redactor.redact('Mailbox for jane.doe@contoso.com moved').text).toBe('Mailbox for [email] moved');
+    expect(redactor.redact('Employee ID: 104233').text).toBe('Employee ID: [employee-id]');
+    expect(redactor.redact('EmployeeNumber=E-5521').text).toBe('EmployeeNumber=[employee-id]');
+    expect(redactor.redact('employee number lookup failed').text).toBe('employee number lookup failed');
+  });
+
+  it('should redact structured results, which never pass through the output', () => {
+    const { results, count } = redactScriptResults(
+      [
+        { kind: 'summary', title: 'Mailbox', text: 'Moved jane.doe@contoso.com', items: [{ label: 'Size', value: 1024 }] },
+        {
+          kind: 'table',
+          title: 'Profiles',
+          columns: ['Path', 'Size'],
+          rows: [{ Path: '\\\\fs01\\home$\\Users\\jdoe', Size: 512 }, { Path: 'C:\\Users\\Public', Size: 1 }]
+        }
+      ],
+      redactor
+    );
+
+    expect(count).toBe(2);
+    expect(results[0]).toEqual({ kind: 'summary', title: 'Mailbox', text: 'Moved [email]', items: [{ label: 'Size', value: 1024 }] });
+    expect(results[1]).toMatchObject({
+      rows: [{ Path: '\\\\fs01\\home$\\Users\\[user]', Size: 512 }, { Path: 'C:\\Users\\Public', Size: 1 }]
+    });
+  });
+
+  it('should redact user names in profile paths but keep shared profiles', () => {
+    expect(redactor.redact('Cleared C:\\Users\\jdoe\\AppData\\Local\\Temp').text)
+      .toBe('Cleared C:\\Users\\[user]\\AppData\\Local\\Temp');
+    expect(redactor.redact('/home/jdoe/.cache').text).toBe('/home/[user]/.cache');
+    expect(redactor.redact('C:\\Users\\Public\\Desktop').text).toBe('C:\\Users\\Public\\Desktop');
+  });
+
+  it('should redact tokens and password assignments', () => {
+    expect(redactor.redact('Authorization: Bearer abc.def-123').text).toBe('Authorization: Bearer [token]');
+    expect(redactor.redact('password="hunter2 x"').text).toBe('password=[token]');
+    expect(redactor.redact('api_key: 9f8e7d').text).toBe('api_key: [token]');
+    expect(redactor.redact('got eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl').text).toBe('got [token]');
+  });
+
+  it('should apply only the enabled detectors and script rules', () => {
+    const custom = createRedactor(['email'], [
+      { pattern: 'EMP-\\d{6}', replacement: '[employee-id]' },
+      { pattern: 'asset tag: \\w+', flags: 'i' },
+      { pattern: '(unclosed' },
+    ]);
+    expect(custom.redact('EMP-123456 / Asset Tag: LT0042 / C:\\Users\\jdoe').text)
+      .toBe('[employee-id] / [redacted] / C:\\Users\\jdoe');
+    expect(createRedactor([]).redact('jane@contoso.com').count).toBe(0);
+  });
+
+  it('should count redactions per field', () => {
+    const { fields, counts } = redactor.redactFields({
+      output: 'a@contoso.com and b@contoso.com',
+      error: 'Access denied for C:\\Users\\jdoe',
+    });
+    expect(fields.output).toBe('[email] and [email]');
+    expect(counts).toEqual({ output: 2, error: 1 });
+    expect(countRedactions(counts)).toBe(3);
+    expect(countRedactions(null)).toBe(0);
+  });
+
+  it('should validate redaction metadata and settings', () => {
+    expect(isValidRedactionRule({ pattern: '\\d+' })).toBe(true);
+    expect(isValidRedactionRule({ pattern: '[' })).toBe(false);
+
+    const base = {
+      id: 'mailbox-check',
+      name: 'Mailbox Check',
+      description: 'Checks a mailbox',
+      scriptPath: 'C:\\scripts\\mailbox-check.ps1',
+      timeout: 30000,
+      category: 'Email',
+      estimatedDuration: 5000,
+      lastModified: 0,
+      fileSize: 100,
+    };
+    const parse = (redactions: unknown[]) => ScriptDefinitionSchema.safeParse({ ...base, redactions }).success;
+
+    expect(parse([{ pattern: 'EMP-\\d{6}', replacement: '[employee-id]' }, { pattern: 'tag: \\w+', flags: 'i' }])).toBe(true);
+    expect(parse([{ pattern: '(' }])).toBe(false);
+    expect(parse([{ pattern: 'x', flags: 'y' }])).toBe(false);
+
+    expect(AppSettingsSchema.partial().safeParse({ redactionDetectors: ['email', 'token'] }).success).toBe(true);
+    expect(AppSettingsSchema.partial().safeParse({ redactionDetectors: ['phone'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareVersions,
+  detectOsName,
+  evaluateRequirements,
+  needsRuntimeFacts,
+  normalizeArchitecture,
+  type SystemFacts,
+} from '@shared/execution/requirements';
+import { ScriptRequirementsSchema } from '@shared/validation/schemas';
+
+const facts: SystemFacts = {
+  osName: 'Windows 10',
+  osBuild: 19045,
+  architecture: 'x64',
+  domainJoined: false,
+  powerShell: {
+    powershell: { version: '5.1.19041.4522', modules: ['Microsoft.PowerShell.Management', 'NetTCPIP'] },
+    pwsh: { version: '7.4.1', modules: ['Microsoft.PowerShell.Management'] },
+  },
+};
+
+describe('detectOsName', () => {
+  it('should tell Windows 11 from Windows 10 by build', () => {
+    expect(detectOsName('win32', '10.0.19045', 'Windows 10 Pro')).toBe('Windows 10');
+    expect(detectOsName('win32', '10.0.22631', 'Windows 10 Pro')).toBe('Windows 11');
+    expect(detectOsName('win32', '10.0.20348', 'Windows Server 2022 Datacenter')).toBe('Windows Server');
+    expect(detectOsName('darwin', '23.4.0', 'Darwin Kernel')).toBe('macOS');
+  });
+});
+
+describe('normalizeArchitecture', () => {
+  it('should map the different spellings', () => {
+    expect(normalizeArchitecture('AMD64')).toBe('x64');
+    expect(normalizeArchitecture('aarch64')).toBe('arm64');
+    expect(normalizeArchitecture('i686')).toBe('x86');
+    expect(normalizeArchitecture('mips')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should compare dotted versions numerically', () => {
+    expect(compareVersions('5.1.19041', '5.1')).toBeGreaterThan(0);
+    expect(compareVersions('5.1', '7.4')).toBeLessThan(0);
+    expect(compareVersions('7.10', '7.9')).toBeGreaterThan(0);
+    expect(compareVersions('7.0', '7')).toBe(0);
+  });
+});
+
+describe('evaluateRequirements', () => {
+  it('should use compatibleOS when requirements.os is not given', () => {
+    expect(evaluateRequirements(undefined, ['Windows 10', 'Windows 11'], facts).compatible).toBe(true);
+
+    const result = evaluateRequirements(undefined, ['Windows 11'], facts);
+    expect(result.compatible).toBe(false);
+    expect(result.reasons).toEqual(['Requires Windows 11 (this PC runs Windows 10, build 19045)']);
+  });
+
+  it('should check build ranges', () => {
+    expect(evaluateRequirements({ os: [{ name: 'windows 10', minBuild: 19041 }] }, undefined, facts).compatible).toBe(true);
+    expect(evaluateRequirements({ os: [{ name: 'Windows 10', maxBuild: 19044 }] }, ['Windows 10'], facts).reasons[0])
+      .toContain('Windows 10 build 19044 or earlier');
+  });
+
+  it('should report every unmet requirement', () => {
+    const result = evaluateRequirements(
+      {
+        architecture: ['arm64'],
+        minPowerShellVersion: '7.2',
+        modules: ['ActiveDirectory', 'nettcpip'],
+        domainJoined: true,
+      },
+      undefined,
+      facts,
+      'powershell'
+    );
+    expect(result.compatible).toBe(false);
+    expect(result.reasons).toEqual([
+      'Requires arm64 (this PC is x64)',
+      'Requires PowerShell 7.2 or later (powershell on this PC is 5.1.19041.4522)',
+      'Requires the PowerShell module ActiveDirectory',
+      'Requires a domain-joined PC',
+    ]);
+  });
+
+  it('should not fail requirements whose facts are unknown', () => {
+    const unknown: SystemFacts = {
+      ...facts,
+      architecture: null,
+      domainJoined: null,
+      powerShell: { powershell: { version: null, modules: null } },
+    };
+    const requirements = { architecture: ['arm64' as const], minPowerShellVersion: '7.2', modules: ['ActiveDirectory'], domainJoined: true };
+    expect(evaluateRequirements(requirements, undefined, unknown, 'powershell').compatible).toBe(true);
+    // pwsh wasn't probed at all
+    expect(evaluateRequirements(requirements, undefined, unknown, 'pwsh').compatible).toBe(true);
+  });
+
+  it('should check PowerShell version and modules against the runtime the tool runs under', () => {
+    const requirements = { minPowerShellVersion: '7.2' };
+    expect(evaluateRequirements(requirements, undefined, facts, 'pwsh').compatible).toBe(true);
+    expect(evaluateRequirements(requirements, undefined, facts, 'powershell').reasons)
+      .toEqual(['Requires PowerShell 7.2 or later (powershell on this PC is 5.1.19041.4522)']);
+
+    expect(evaluateRequirements({ modules: ['NetTCPIP'] }, undefined, facts, 'powershell').compatible).toBe(true);
+    expect(evaluateRequirements({ modules: ['NetTCPIP'] }, undefined, facts, 'pwsh').reasons)
+      .toEqual(['Requires the PowerShell module NetTCPIP']);
+  });
+});
+
+describe('needsRuntimeFacts', () => {
+  it('should only probe the runtime when a requirement needs it', () => {
+    expect(needsRuntimeFacts(undefined)).toBe(false);
+    expect(needsRuntimeFacts({ os: [{ name: 'Windows 11' }], architecture: ['x64'], domainJoined: false })).toBe(false);
+    expect(needsRuntimeFacts({ minPowerShellVersion: '5.1' })).toBe(true);
+    expect(needsRuntimeFacts({ modules: ['ActiveDirectory'] })).toBe(true);
+  });
+});
+
+describe('ScriptRequirementsSchema', () => {
+  it('should reject inverted build ranges and invalid values', () => {
+    expect(ScriptRequirementsSchema.safeParse({ os: [{ name: 'Windows 10', minBuild: 19045 }] }).success).toBe(true);
+    expect(ScriptRequirementsSchema.safeParse({ os: [{ name: 'Windows 10', minBuild: 22000, maxBuild: 19045 }] }).success).toBe(false);
+    expect(ScriptRequirementsSchema.safeParse({ architecture: ['sparc'] }).success).toBe(false);
+    expect(ScriptRequirementsSchema.safeParse({ minPowerShellVersion: '5.1; rm' }).success).toBe(false);
+    expect(ScriptRequirementsSchema.safeParse({ modules: ['Active Directory'] }).success).toBe(false);
+  });
+});
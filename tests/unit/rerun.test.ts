@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffParameterDefinitions,
+  getRerunParameters,
+  describeParameterChange
+} from '@shared/execution/rerun';
+
+describe('Run Again', () => {
+  const before = [
+    { name: 'Target', type: 'string', required: true },
+    { name: 'Mode', type: 'select', required: false, options: ['Quick', 'Full'] },
+    { name: 'Legacy', type: 'boolean', required: false },
+  ];
+
+  it('should report no changes for identical definitions', () => {
+    const reordered = [{ required: true, type: 'string', name: 'Target' }, before[1], before[2]];
+    expect(diffParameterDefinitions(before, reordered)).toEqual([]);
+  });
+
+  it('should report added, removed and changed parameters', () => {
+    const after = [
+      { name: 'Target', type: 'string', required: true },
+      { name: 'Mode', type: 'select', required: true, options: ['Quick', 'Full', 'Deep'] },
+      { name: 'WhatIf', type: 'boolean', required: false },
+    ];
+    expect(diffParameterDefinitions(before, after)).toEqual([
+      { name: 'Mode', change: 'changed', fields: ['required', 'options'] },
+      { name: 'Legacy', change: 'removed' },
+      { name: 'WhatIf', change: 'added' },
+    ]);
+  });
+
+  it('should drop values for removed parameters', () => {
+    const changes = diffParameterDefinitions(before, before.slice(0, 2));
+    expect(getRerunParameters({ Target: 'C:', Legacy: true }, changes)).toEqual({ Target: 'C:' });
+    expect(describeParameterChange(changes[0])).toContain('Legacy');
+  });
+});
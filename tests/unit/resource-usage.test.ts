@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createResourceTracker,
+  findSurvivingProcesses,
+  getProcessTree,
+  parsePsOutput,
+  parseWin32ProcessJson,
+  recordResourceSample,
+  summarizeResourceUsage,
+  type ProcessSample,
+} from '@shared/execution/resource-usage';
+
+const MB = 1024 * 1024;
+
+const sample = (pid: number, parentPid: number, memoryMB: number, cpuSeconds: number): ProcessSample => ({
+  pid,
+  parentPid,
+  memoryBytes: memoryMB * MB,
+  cpuSeconds,
+});
+
+describe('Resource Usage', () => {
+  describe('getProcessTree', () => {
+    it('should include the root and all descendants only', () => {
+      const samples = [sample(1, 0, 10, 0), sample(100, 1, 50, 1), sample(101, 100, 20, 1), sample(200, 1, 5, 0)];
+      expect(getProcessTree(100, samples).map(p => p.pid).sort()).toEqual([100, 101]);
+      expect(getProcessTree(999, samples)).toEqual([]);
+    });
+  });
+
+  describe('findSurvivingProcesses', () => {
+    it('should drop processes that exited and PIDs that were reused since the snapshot', () => {
+      const known = [
+        { ...sample(100, 1, 10, 0), startedAt: 1000 },
+        { ...sample(101, 100, 10, 0), startedAt: 2000 },
+        { ...sample(102, 100, 10, 0), startedAt: 3000 },
+        sample(103, 100, 10, 0),
+      ];
+      const now = [
+        { ...sample(101, 4, 12, 1), startedAt: 2000 },
+        { ...sample(102, 500, 10, 0), startedAt: 9000 },
+        { ...sample(103, 4, 10, 0), startedAt: 9500 },
+      ];
+      expect(findSurvivingProcesses(known, now).map(p => [p.pid, p.parentPid])).toEqual([[101, 4], [103, 4]]);
+    });
+  });
+
+  describe('recordResourceSample / summarizeResourceUsage', () => {
+    it('should compute peak and average memory and CPU', () => {
+      const tracker = createResourceTracker(0);
+      expect(recordResourceSample(tracker, [sample(100, 1, 100, 1)], 2000, 1)).toBe(100);
+      recordResourceSample(tracker, [sample(100, 1, 200, 1.5), sample(101, 100, 100, 0.5)], 4000, 1);
+
+      const usage = summarizeResourceUsage(tracker, 1)!;
+      expect(usage.maxMemoryMB).toBe(300);
+      expect(usage.avgMemoryMB).toBe(200);
+      expect(usage.maxCpuPercent).toBe(50);
+      expect(usage.avgCpuPercent).toBe(50);
+    });
+
+    it('should keep disk counters of processes that exited', () => {
+      const tracker = createResourceTracker(0);
+      recordResourceSample(tracker, [{ ...sample(100, 1, 10, 0), readBytes: 4 * MB, writeBytes: MB }], 1000, 2);
+      recordResourceSample(tracker, [{ ...sample(101, 1, 10, 0), readBytes: MB, writeBytes: 0 }], 2000, 2);
+
+      const usage = summarizeResourceUsage(tracker, 2)!;
+      expect(usage.diskReadMB).toBe(5);
+      expect(usage.diskWriteMB).toBe(1);
+    });
+
+    it('should return null when nothing was sampled', () => {
+      expect(summarizeResourceUsage(createResourceTracker(0), 4)).toBeNull();
+    });
+  });
+
+  describe('parsers', () => {
+    it('should parse ps output', () => {
+      const output = '    1     0  1024 00:00:02\n  100     1  2048 1-02:03:04\n  101   100   512 01:02.50\n';
+      expect(parsePsOutput(output)).toEqual([
+        { pid: 1, parentPid: 0, memoryBytes: MB, cpuSeconds: 2 },
+        { pid: 100, parentPid: 1, memoryBytes: 2 * MB, cpuSeconds: 86400 + 7384 },
+        { pid: 101, parentPid: 100, memoryBytes: 0.5 * MB, cpuSeconds: 62.5 },
+      ]);
+    });
+
+    it('should parse Win32_Process JSON for one or many processes', () => {
+      const row = {
+        ProcessId: 100,
+        ParentProcessId: 4,
+        WorkingSetSize: 2 * MB,
+        UserModeTime: 10000000,
+        KernelModeTime: 5000000,
+        ReadTransferCount: 10,
+        WriteTransferCount: 20,
+      };
+      const expected = { pid: 100, parentPid: 4, memoryBytes: 2 * MB, cpuSeconds: 1.5, readBytes: 10, writeBytes: 20 };
+      expect(parseWin32ProcessJson(JSON.stringify(row))).toEqual([expected]);
+      expect(parseWin32ProcessJson(JSON.stringify({ ...row, CreatedAt: 1700000000000 }))[0].startedAt).toBe(1700000000000);
+      expect(parseWin32ProcessJson(JSON.stringify([row, row]))).toHaveLength(2);
+      expect(parseWin32ProcessJson('')).toEqual([]);
+    });
+  });
+});
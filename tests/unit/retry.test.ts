@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isRetryableFailure,
+  hasAttemptsLeft,
+  getRetryDelay,
+  formatAttemptLabel
+} from '@shared/execution/retry';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+describe('Retry Policies', () => {
+  it('should retry any failure when no conditions are given', () => {
+    expect(isRetryableFailure({ maxAttempts: 3 }, 1, '')).toBe(true);
+    expect(isRetryableFailure({ maxAttempts: 3 }, -1, 'Access denied')).toBe(true);
+  });
+
+  it('should match exit codes or stderr patterns', () => {
+    const policy = { maxAttempts: 3, exitCodes: [5], stderrPatterns: ['rpc server is unavailable'] };
+    expect(isRetryableFailure(policy, 5, '')).toBe(true);
+    expect(isRetryableFailure(policy, 1, 'Error: The RPC server is unavailable.')).toBe(true);
+    expect(isRetryableFailure(policy, 1, 'Access denied')).toBe(false);
+  });
+
+  it('should count attempts including the first', () => {
+    expect(hasAttemptsLeft({ maxAttempts: 3 }, 2)).toBe(true);
+    expect(hasAttemptsLeft({ maxAttempts: 3 }, 3)).toBe(false);
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    const policy = { maxAttempts: 5, delaySeconds: 10, maxDelaySeconds: 30 };
+    expect([1, 2, 3].map(attempt => getRetryDelay(policy, attempt))).toEqual([10000, 20000, 30000]);
+    expect(getRetryDelay({ ...policy, backoff: 'fixed' }, 3)).toBe(10000);
+  });
+
+  it('should format the attempt label', () => {
+    expect(formatAttemptLabel(2, 3)).toBe('Attempt 2 of 3');
+  });
+
+  it('should validate retry metadata', () => {
+    const base = {
+      id: 'refresh-policies',
+      name: 'Refresh Machine Policies',
+      description: 'Refreshes policies',
+      scriptPath: 'C:\\scripts\\refresh-policies.ps1',
+      timeout: 30000,
+      category: 'Maintenance',
+      estimatedDuration: 5000,
+      lastModified: 0,
+      fileSize: 100,
+    };
+    expect(ScriptDefinitionSchema.safeParse({ ...base, retry: { maxAttempts: 3, exitCodes: [1] } }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, retry: { maxAttempts: 1 } }).success).toBe(false);
+    expect(ScriptDefinitionSchema.safeParse({ ...base, retry: { maxAttempts: 3, stderrPatterns: ['('] } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNextStepIndex,
+  isStepSuccessful,
+  validateRunbook,
+} from '@shared/runbooks/runbook-flow';
+import { RunbookDefinitionSchema, type RunbookDefinition } from '@shared/validation/schemas';
+
+const networkFix: RunbookDefinition = {
+  id: 'network-fix',
+  name: 'Fix Network',
+  description: 'Flush DNS, reset the network, then refresh policies',
+  steps: [
+    { id: 'flush', scriptId: 'flush-dns', onFailure: 'reset' },
+    { id: 'policies', scriptId: 'refresh-policies', onSuccess: 'end' },
+    { id: 'reset', scriptId: 'reset-network', successExitCodes: [0, 3010], onSuccess: 'policies' },
+  ],
+};
+
+describe('Runbook Flow', () => {
+  describe('getNextStepIndex', () => {
+    it('should continue with the next step on success by default', () => {
+      expect(getNextStepIndex(networkFix, 0, true)).toBe(1);
+    });
+
+    it('should follow onFailure and onSuccess branches', () => {
+      expect(getNextStepIndex(networkFix, 0, false)).toBe(2);
+      expect(getNextStepIndex(networkFix, 2, true)).toBe(1);
+      expect(getNextStepIndex(networkFix, 1, true)).toBeNull();
+    });
+
+    it('should stop on failure by default and after the last step', () => {
+      expect(getNextStepIndex(networkFix, 2, false)).toBeNull();
+      const linear = { ...networkFix, steps: [{ id: 'only', scriptId: 'flush-dns' }] };
+      expect(getNextStepIndex(linear, 0, true)).toBeNull();
+    });
+  });
+
+  describe('isStepSuccessful', () => {
+    it('should use successExitCodes when given', () => {
+      expect(isStepSuccessful(networkFix.steps[0], 0)).toBe(true);
+      expect(isStepSuccessful(networkFix.steps[0], 3010)).toBe(false);
+      expect(isStepSuccessful(networkFix.steps[2], 3010)).toBe(true);
+    });
+  });
+
+  describe('validateRunbook', () => {
+    it('should accept a valid runbook', () => {
+      expect(validateRunbook(networkFix, () => true)).toBeNull();
+    });
+
+    it('should reject unknown branch targets, duplicate IDs and unknown scripts', () => {
+      const badTarget = { ...networkFix, steps: [{ id: 'a', scriptId: 'flush-dns', onFailure: 'missing' }] };
+      expect(validateRunbook(badTarget)).toMatch(/unknown step "missing"/);
+
+      const duplicate = { ...networkFix, steps: [networkFix.steps[0], { ...networkFix.steps[1], id: 'flush' }] };
+      expect(validateRunbook(duplicate)).toMatch(/Duplicate step ID/);
+
+      const reserved = { ...networkFix, steps: [{ id: 'end', scriptId: 'flush-dns' }] };
+      expect(validateRunbook(reserved)).toMatch(/reserved/);
+
+      expect(validateRunbook(networkFix, id => id !== 'reset-network')).toMatch(/unknown script "reset-network"/);
+    });
+  });
+
+  describe('RunbookDefinitionSchema', () => {
+    it('should validate runbook files', () => {
+      expect(RunbookDefinitionSchema.safeParse(networkFix).success).toBe(true);
+      expect(RunbookDefinitionSchema.safeParse({ ...networkFix, steps: [] }).success).toBe(false);
+      expect(RunbookDefinitionSchema.safeParse({
+        ...networkFix,
+        steps: [{ id: 'flush', scriptId: 'flush-dns', parameters: { 'bad key': 1 } }],
+      }).success).toBe(false);
+    });
+  });
+});
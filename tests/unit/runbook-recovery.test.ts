@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const database = {
+  getUnfinishedRunbookExecutionIds: vi.fn(),
+  getRunbookSteps: vi.fn(),
+  getExecutionLog: vi.fn(),
+  updateRunbookStep: vi.fn(),
+  updateExecutionLog: vi.fn(),
+  deleteQueuedExecution: vi.fn(),
+  insertExecutionLog: vi.fn(),
+  insertRunbookStep: vi.fn(() => 1),
+};
+const registry = {
+  getRunbook: vi.fn(),
+  getScript: vi.fn(),
+};
+
+vi.mock('@main/services/logger', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { createServiceLogger: () => logger };
+});
+vi.mock('@main/services/database', () => ({ getDatabaseService: () => database }));
+vi.mock('@main/services/script-registry', () => ({ getScriptRegistryService: () => registry }));
+vi.mock('@main/services/powershell-executor', () => ({
+  getPowerShellExecutorService: () => ({ cancelExecution: vi.fn(() => false) }),
+}));
+vi.mock('@main/services/script-validator', () => ({
+  // Steps never get past validation, so the runbook stays on its first step
+  default: { validateScript: () => new Promise(() => {}) },
+}));
+vi.mock('@main/services/execution-updates', () => ({
+  buildCompletionUpdate: vi.fn(),
+  buildOutputUpdate: vi.fn(),
+  buildProgressUpdate: vi.fn(),
+  sendExecutionUpdate: vi.fn(),
+}));
+vi.mock('electron', () => ({ BrowserWindow: { getAllWindows: () => [] } }));
+
+import { getRunbookRunnerService } from '@main/services/runbook-runner';
+
+describe('Runbook runner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should mark runbooks interrupted by a restart and drop their queued steps', () => {
+    database.getUnfinishedRunbookExecutionIds.mockReturnValue(['runbook-1']);
+    database.getRunbookSteps.mockReturnValue([
+      { id: 1, runbook_execution_id: 'runbook-1', step_id: 'flush', status: 'success', execution_id: 'child-1' },
+      { id: 2, runbook_execution_id: 'runbook-1', step_id: 'renew', status: 'running', execution_id: 'child-2' },
+    ]);
+    database.getExecutionLog.mockReturnValue({ id: 'child-2', status: 'pending' });
+
+    getRunbookRunnerService().recoverInterruptedRunbooks();
+
+    expect(database.updateRunbookStep).toHaveBeenCalledTimes(1);
+    expect(database.updateRunbookStep).toHaveBeenCalledWith(2, 'child-2', 'error', null, expect.any(Number));
+    expect(database.deleteQueuedExecution).toHaveBeenCalledWith('child-2');
+    expect(database.updateExecutionLog).toHaveBeenCalledWith('child-2', 'error', 0, -1, '', expect.stringContaining('Interrupted'));
+    expect(database.updateExecutionLog).toHaveBeenCalledWith('runbook-1', 'error', 0, -1, '', expect.stringContaining('Interrupted'));
+  });
+
+  it('should record why a runbook was cancelled', async () => {
+    registry.getRunbook.mockReturnValue({ id: 'network-reset', name: 'Network Reset', steps: [{ id: 'flush', scriptId: 'flush-dns' }] });
+    registry.getScript.mockReturnValue({ id: 'flush-dns', name: 'Flush DNS' });
+
+    const runner = getRunbookRunnerService();
+    const executionId = await runner.startRunbook('network-reset');
+    expect(runner.cancelRunbook(executionId)).toBe(true);
+
+    expect(database.updateExecutionLog).toHaveBeenCalledWith(
+      executionId, 'cancelled', expect.any(Number), -1, expect.any(String), 'Cancelled: runbook_cancelled'
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { resolveScriptRuntime, isScriptRuntimeId } from '@shared/execution/runtime';
+import { ScriptDefinitionSchema } from '@shared/validation/schemas';
+
+describe('Script Runtime', () => {
+  describe('resolveScriptRuntime', () => {
+    it('should pick the runtime from the file extension', () => {
+      expect(resolveScriptRuntime('C:\\scripts\\flush-dns.ps1', undefined, 'win32')).toBe('powershell');
+      expect(resolveScriptRuntime('/opt/scripts/Module.PSM1', undefined, 'win32')).toBe('powershell');
+      expect(resolveScriptRuntime('/opt/scripts/clean.sh', undefined, 'linux')).toBe('bash');
+    });
+
+    it('should use PowerShell 7 for PowerShell scripts outside Windows', () => {
+      expect(resolveScriptRuntime('/opt/scripts/flush-dns.ps1', undefined, 'darwin')).toBe('pwsh');
+    });
+
+    it('should prefer the declared runtime', () => {
+      expect(resolveScriptRuntime('C:\\scripts\\flush-dns.ps1', 'pwsh', 'win32')).toBe('pwsh');
+      expect(resolveScriptRuntime('/opt/scripts/clean.sh', 'sh', 'linux')).toBe('sh');
+      expect(resolveScriptRuntime('/opt/scripts/flush-dns.ps1', 'powershell', 'linux')).toBe('powershell');
+    });
+
+    it('should refuse a declared runtime of another family than the file', () => {
+      expect(resolveScriptRuntime('C:\\scripts\\flush-dns.ps1', 'bash', 'win32')).toBeNull();
+      expect(resolveScriptRuntime('/opt/scripts/clean.sh', 'pwsh', 'linux')).toBeNull();
+      expect(resolveScriptRuntime('/opt/scripts/tool.py', 'bash', 'linux')).toBeNull();
+    });
+
+    it('should return null for unknown file types', () => {
+      expect(resolveScriptRuntime('/opt/scripts/tool.py', undefined, 'linux')).toBeNull();
+      expect(resolveScriptRuntime('/opt/scripts/Makefile', 'python', 'linux')).toBeNull();
+    });
+  });
+
+  it('should recognise runtime IDs', () => {
+    expect(isScriptRuntimeId('bash')).toBe(true);
+    expect(isScriptRuntimeId('cmd')).toBe(false);
+    expect(isScriptRuntimeId(undefined)).toBe(false);
+  });
+
+  it('should validate the runtime metadata field', () => {
+    const script = {
+      id: 'clean',
+      name: 'Clean',
+      description: 'Clean up',
+      scriptPath: '/opt/scripts/clean.sh',
+      timeout: 30000,
+      category: 'maintenance',
+      estimatedDuration: 5000,
+      lastModified: 0,
+      fileSize: 10,
+    };
+    expect(ScriptDefinitionSchema.safeParse({ ...script, runtime: 'bash' }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...script, runtime: 'cmd' }).success).toBe(false);
+    expect(ScriptDefinitionSchema.safeParse({ ...script, scriptPath: '/opt/scripts/clean.ps1', runtime: 'bash' }).success).toBe(false);
+    expect(ScriptDefinitionSchema.safeParse({ ...script, cleanupScript: 'clean.cleanup.sh' }).success).toBe(true);
+    expect(ScriptDefinitionSchema.safeParse({ ...script, cleanupScript: 'clean.cleanup.ps1' }).success).toBe(false);
+  });
+});
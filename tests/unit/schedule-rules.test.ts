@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCronExpression,
+  getNextRunTime,
+  validateScheduleRule,
+  describeScheduleRule,
+} from '@shared/scheduling/schedule-rules';
+import { ScheduleRuleSchema } from '@shared/validation/schemas';
+
+// Local-time helper so tests don't depend on the machine's timezone
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('Schedule Rules', () => {
+  describe('parseCronExpression', () => {
+    it('should expand wildcards, ranges, lists and steps', () => {
+      const fields = parseCronExpression('*/15 9-11 1,15 * 1-5');
+      expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...fields.hours]).toEqual([9, 10, 11]);
+      expect([...fields.daysOfMonth]).toEqual([1, 15]);
+      expect(fields.months.size).toBe(12);
+      expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect(parseCronExpression('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+    });
+
+    it('should reject out-of-range values and wrong field counts', () => {
+      expect(() => parseCronExpression('60 * * * *')).toThrow();
+      expect(() => parseCronExpression('* * * *')).toThrow();
+      expect(() => parseCronExpression('5-1 * * * *')).toThrow();
+    });
+  });
+
+  describe('getNextRunTime (cron)', () => {
+    it('should find the next weekly occurrence', () => {
+      // 2025-01-01 is a Wednesday; next Monday 09:00 is 2025-01-06
+      const next = getNextRunTime({ type: 'cron', expression: '0 9 * * 1' }, local(2025, 1, 1, 10));
+      expect(next).toBe(local(2025, 1, 6, 9));
+    });
+
+    it('should never return the current minute', () => {
+      const from = local(2025, 1, 6, 9);
+      const next = getNextRunTime({ type: 'cron', expression: '0 9 * * 1' }, from);
+      expect(next).toBe(local(2025, 1, 13, 9));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 1st of the month OR any Friday - 2025-01-03 is a Friday
+      const next = getNextRunTime({ type: 'cron', expression: '0 0 1 * 5' }, local(2025, 1, 1, 12));
+      expect(next).toBe(local(2025, 1, 3));
+    });
+
+    it('should return null for dates that never exist', () => {
+      expect(getNextRunTime({ type: 'cron', expression: '0 0 31 2 *' }, local(2025, 1, 1))).toBeNull();
+    });
+  });
+
+  describe('getNextRunTime (interval)', () => {
+    const weekly = { type: 'interval' as const, everyDays: 7, time: '12:00' };
+
+    it('should run later the same day when the time has not passed', () => {
+      const now = local(2025, 1, 1, 8);
+      expect(getNextRunTime(weekly, now, now)).toBe(local(2025, 1, 1, 12));
+    });
+
+    it('should stay on the anchor grid after a missed run', () => {
+      const anchor = local(2025, 1, 1, 12);
+      // Machine was asleep for the 2025-01-08 slot and woke up on the 10th
+      expect(getNextRunTime(weekly, local(2025, 1, 10, 7), anchor)).toBe(local(2025, 1, 15, 12));
+    });
+  });
+
+  describe('validateScheduleRule', () => {
+    it('should report invalid cron expressions', () => {
+      expect(validateScheduleRule({ type: 'cron', expression: '0 25 * * *' })).toMatch(/hour/);
+      expect(validateScheduleRule({ type: 'cron', expression: '0 9 * * 1' })).toBeNull();
+    });
+  });
+
+  describe('describeScheduleRule', () => {
+    it('should describe weekly cron and interval rules', () => {
+      expect(describeScheduleRule({ type: 'cron', expression: '0 9 * * 1' })).toBe('Every Monday at 09:00');
+      expect(describeScheduleRule({ type: 'interval', everyDays: 1, time: '06:30' })).toBe('Every day at 06:30');
+      expect(describeScheduleRule({ type: 'cron', expression: '*/5 * * * *' })).toBe('Cron: */5 * * * *');
+    });
+  });
+
+  describe('ScheduleRuleSchema', () => {
+    it('should validate rule shapes', () => {
+      expect(ScheduleRuleSchema.safeParse({ type: 'interval', everyDays: 7, time: '12:00' }).success).toBe(true);
+      expect(ScheduleRuleSchema.safeParse({ type: 'interval', everyDays: 0, time: '12:00' }).success).toBe(false);
+      expect(ScheduleRuleSchema.safeParse({ type: 'interval', everyDays: 7, time: '24:00' }).success).toBe(false);
+      expect(ScheduleRuleSchema.safeParse({ type: 'cron', expression: 'rm -rf' }).success).toBe(false);
+    });
+  });
+});
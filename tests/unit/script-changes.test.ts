@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyChangedFile,
+  diffScripts,
+  formatScriptChanges,
+  hasScriptChanges,
+} from '@shared/registry/script-changes';
+
+const extensions = ['.ps1', '.psm1', '.sh'];
+
+describe('classifyChangedFile', () => {
+  it('should recognise scripts, metadata and runbooks', () => {
+    expect(classifyChangedFile('C:\\scripts\\flush-dns.ps1', extensions))
+      .toEqual({ kind: 'script', scriptPath: 'C:\\scripts\\flush-dns.ps1' });
+    expect(classifyChangedFile('C:\\scripts\\flush-dns.json', extensions))
+      .toEqual({ kind: 'metadata', basePath: 'C:\\scripts\\flush-dns' });
+    expect(classifyChangedFile('/opt/scripts/network-fix.runbook.json', extensions)).toEqual({ kind: 'runbook' });
+    expect(classifyChangedFile('/opt/scripts/Disk-Check.SH', extensions).kind).toBe('script');
+  });
+
+  it('should ignore cleanup scripts, other files and folders', () => {
+    expect(classifyChangedFile('C:\\scripts\\file-backup.cleanup.ps1', extensions)).toEqual({ kind: 'other' });
+    expect(classifyChangedFile('C:\\scripts\\notes.txt', extensions)).toEqual({ kind: 'other' });
+    expect(classifyChangedFile('C:\\scripts\\network', extensions)).toEqual({ kind: 'other' });
+    expect(classifyChangedFile('/opt/scripts/.ps1', extensions)).toEqual({ kind: 'other' });
+  });
+});
+
+describe('diffScripts', () => {
+  it('should report added, updated and removed scripts', () => {
+    const before = new Map([['clear-temp', 'a'], ['flush-dns', 'b'], ['old-tool', 'c']]);
+    const after = new Map([['clear-temp', 'a'], ['flush-dns', 'b2'], ['new-tool', 'd']]);
+
+    const changes = diffScripts(before, after);
+    expect(changes).toEqual({ added: ['new-tool'], updated: ['flush-dns'], removed: ['old-tool'] });
+    expect(hasScriptChanges(changes)).toBe(true);
+    expect(formatScriptChanges(changes)).toBe('1 added, 1 updated, 1 removed');
+  });
+
+  it('should report nothing when the registry is unchanged', () => {
+    const scripts = new Map([['clear-temp', 'a']]);
+    const changes = diffScripts(scripts, new Map(scripts));
+    expect(hasScriptChanges(changes)).toBe(false);
+    expect(formatScriptChanges(changes)).toBe('No changes');
+  });
+});
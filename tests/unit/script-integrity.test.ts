@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const registry = {
+  getScript: vi.fn(),
+  reloadChangedScript: vi.fn(),
+};
+const database = {
+  insertAuditLog: vi.fn(),
+};
+
+vi.mock('@main/services/logger', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { createServiceLogger: () => logger, securityLogger: logger };
+});
+vi.mock('@main/services/database', () => ({ getDatabaseService: () => database }));
+vi.mock('@main/services/script-registry', () => ({ getScriptRegistryService: () => registry }));
+
+import {
+  hashScriptContent,
+  readVerifiedCleanupScript,
+  readVerifiedScript,
+} from '@main/services/script-integrity';
+
+describe('hashScriptContent', () => {
+  it('should hash the raw bytes as hex SHA-256', () => {
+    expect(hashScriptContent(Buffer.from('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(hashScriptContent(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).not.toBe(hashScriptContent(Buffer.from('a')));
+  });
+});
+
+describe('readVerifiedScript', () => {
+  let directory: string;
+  let scriptPath: string;
+
+  const definition = (content: string, extra: Record<string, unknown> = {}) => ({
+    id: 'flush-dns',
+    name: 'Flush DNS',
+    scriptPath,
+    hash: hashScriptContent(Buffer.from(content)),
+    ...extra,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    directory = mkdtempSync(join(tmpdir(), 'fak-integrity-'));
+    scriptPath = join(directory, 'flush-dns.ps1');
+    writeFileSync(scriptPath, 'Clear-DnsClientCache');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should return the bytes and the current registry definition when the hash matches', async () => {
+    const current = definition('Clear-DnsClientCache', { version: '2.0.0' });
+    registry.getScript.mockReturnValue(current);
+
+    const verified = await readVerifiedScript('flush-dns', 'exec-1');
+    expect(verified.definition).toBe(current);
+    expect(verified.content.toString()).toBe('Clear-DnsClientCache');
+    expect(database.insertAuditLog).not.toHaveBeenCalled();
+    expect(registry.reloadChangedScript).not.toHaveBeenCalled();
+  });
+
+  it('should block the run, record a security event and reload when disk and registry disagree', async () => {
+    registry.getScript.mockReturnValue(definition('Clear-DnsClientCache'));
+    writeFileSync(scriptPath, 'Remove-Item C:\\ -Recurse');
+
+    await expect(readVerifiedScript('flush-dns', 'exec-2')).rejects.toThrow('changed after it was loaded');
+
+    expect(database.insertAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      event_type: 'script_hash_mismatch',
+      user_action: 'blocked',
+      resource: 'flush-dns',
+      risk_level: 'high',
+    }));
+    const details = JSON.parse(database.insertAuditLog.mock.calls[0][0].details);
+    expect(details).toMatchObject({
+      executionId: 'exec-2',
+      expectedHash: hashScriptContent(Buffer.from('Clear-DnsClientCache')),
+      actualHash: hashScriptContent(Buffer.from('Remove-Item C:\\ -Recurse')),
+    });
+    expect(registry.reloadChangedScript).toHaveBeenCalledWith(scriptPath);
+  });
+
+  it('should refuse scripts the registry no longer has', async () => {
+    registry.getScript.mockReturnValue(undefined);
+    await expect(readVerifiedScript('flush-dns', 'exec-3')).rejects.toThrow('no longer available');
+  });
+
+  it('should check the cleanup script against its own pinned hash', async () => {
+    const cleanupPath = join(directory, 'flush-dns.cleanup.ps1');
+    writeFileSync(cleanupPath, 'Write-Output cleanup');
+    const current = definition('Clear-DnsClientCache', {
+      cleanupScript: 'flush-dns.cleanup.ps1',
+      cleanupHash: hashScriptContent(Buffer.from('Write-Output cleanup')),
+    });
+    registry.getScript.mockReturnValue(current);
+
+    expect((await readVerifiedCleanupScript(current as never, 'exec-4-cleanup')).toString()).toBe('Write-Output cleanup');
+
+    writeFileSync(cleanupPath, 'Stop-Computer');
+    await expect(readVerifiedCleanupScript(current as never, 'exec-5-cleanup')).rejects.toThrow('changed after it was loaded');
+    expect(registry.reloadChangedScript).toHaveBeenCalledWith(scriptPath);
+  });
+});
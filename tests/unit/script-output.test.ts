@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { parseProgressLine, formatProgressLabel } from '@shared/execution/progress';
+import { parsePromptLine, formatPromptResponse } from '@shared/execution/prompt';
+import { parseResultLine, addScriptResult, sortResultRows, type ScriptResult } from '@shared/execution/result';
+import { splitScriptOutput, flushScriptOutput } from '@shared/execution/script-output';
+
+const PROMPT_ID = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+
+describe('Script Output Markers', () => {
+  describe('parseProgressLine', () => {
+    it('should parse the documented marker payload', () => {
+      const progress = parseProgressLine(
+        '##FAK-PROGRESS {"percent":42,"phase":"Copying Documents","status":"1,204 of 2,870 files"}\r\n'
+      );
+      expect(progress).toEqual({ percent: 42, phase: 'Copying Documents', status: '1,204 of 2,870 files' });
+    });
+
+    it('should map Write-Progress fields', () => {
+      expect(parseProgressLine('##FAK-PROGRESS {"activity":"Scanning","operation":"C:\\\\Temp","percent":-1}'))
+        .toEqual({ phase: 'Scanning', status: 'C:\\Temp' });
+      expect(parseProgressLine('##FAK-PROGRESS {"activity":"Scanning","percent":-1,"completed":true}'))
+        .toEqual({ phase: 'Scanning', percent: 100 });
+    });
+
+    it('should clamp percentages and ignore invalid lines', () => {
+      expect(parseProgressLine('##FAK-PROGRESS {"percent":150}')).toEqual({ percent: 100 });
+      expect(parseProgressLine('##FAK-PROGRESS not json')).toBeNull();
+      expect(parseProgressLine('Copying files...')).toBeNull();
+    });
+  });
+
+  describe('parsePromptLine', () => {
+    it('should parse a masked text prompt', () => {
+      const prompt = parsePromptLine(
+        `##FAK-PROMPT {"promptId":"${PROMPT_ID}","kind":"text","message":"Admin password","masked":true}`
+      );
+      expect(prompt).toEqual({ promptId: PROMPT_ID, kind: 'text', message: 'Admin password', masked: true });
+    });
+
+    it('should parse choices and strip hotkey markers', () => {
+      const prompt = parsePromptLine(
+        `##FAK-PROMPT {"promptId":"${PROMPT_ID}","kind":"choice","title":"Confirm","message":"Delete backup?",` +
+          '"choices":[{"label":"&Yes","helpMessage":"Delete it"},{"label":"&No"}],"defaultChoice":1}'
+      );
+      expect(prompt?.choices).toEqual([{ label: 'Yes', helpMessage: 'Delete it' }, { label: 'No' }]);
+      expect(prompt?.defaultChoice).toBe(1);
+      expect(prompt?.title).toBe('Confirm');
+    });
+
+    it('should reject prompts without an id or choices', () => {
+      expect(parsePromptLine('##FAK-PROMPT {"kind":"text","message":"Name"}')).toBeNull();
+      expect(parsePromptLine(`##FAK-PROMPT {"promptId":"${PROMPT_ID}","kind":"choice","choices":[]}`)).toBeNull();
+    });
+  });
+
+  describe('formatPromptResponse', () => {
+    it('should write a single ASCII line', () => {
+      const line = formatPromptResponse({ promptId: PROMPT_ID, value: 'Zoë\nnext' });
+      expect(line.endsWith('\n')).toBe(true);
+      expect(line.slice(0, -1)).not.toMatch(/[\n\u007f-\uffff]/);
+      expect(JSON.parse(line).value).toBe('Zoë\nnext');
+    });
+  });
+
+  describe('parseResultLine', () => {
+    it('should parse a summary card', () => {
+      const result = parseResultLine(
+        '##FAK-RESULT {"type":"summary","title":"Temp cleanup","text":"Freed 1.8 GB in 4,312 files","data":{"Files deleted":4312,"Errors":0}}\r\n'
+      );
+      expect(result).toEqual({
+        kind: 'summary',
+        title: 'Temp cleanup',
+        text: 'Freed 1.8 GB in 4,312 files',
+        items: [{ label: 'Files deleted', value: 4312 }, { label: 'Errors', value: 0 }],
+      });
+    });
+
+    it('should parse tables and flatten nested values', () => {
+      const result = parseResultLine(
+        '##FAK-RESULT {"type":"table","title":"Drives","rows":[{"Drive":"C:","Free":52,"Tags":["ssd"]},{"Drive":"D:","Extra":true}]}'
+      );
+      expect(result).toEqual({
+        kind: 'table',
+        title: 'Drives',
+        columns: ['Drive', 'Free', 'Tags', 'Extra'],
+        rows: [{ Drive: 'C:', Free: 52, Tags: '["ssd"]' }, { Drive: 'D:', Extra: true }],
+        truncated: undefined,
+      });
+    });
+
+    it('should ignore invalid lines', () => {
+      expect(parseResultLine('##FAK-RESULT {"type":"summary"}')).toBeNull();
+      expect(parseResultLine('##FAK-RESULT {"type":"row","data":[1,2]}')).toBeNull();
+      expect(parseResultLine('##FAK-RESULT not json')).toBeNull();
+      expect(parseResultLine('Freed 1.8 GB')).toBeNull();
+    });
+  });
+
+  describe('addScriptResult', () => {
+    it('should append rows to the table with the same title', () => {
+      const results: ScriptResult[] = [];
+      addScriptResult(results, { kind: 'row', title: 'Files', row: { Name: 'a.tmp' } });
+      addScriptResult(results, { kind: 'summary', text: 'Done', items: [] });
+      addScriptResult(results, { kind: 'row', title: 'Files', row: { Name: 'b.tmp', Size: 10 } });
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toEqual({
+        kind: 'table',
+        title: 'Files',
+        columns: ['Name', 'Size'],
+        rows: [{ Name: 'a.tmp' }, { Name: 'b.tmp', Size: 10 }],
+      });
+    });
+  });
+
+  describe('sortResultRows', () => {
+    it('should sort numbers numerically with empty cells last', () => {
+      const rows = [{ Size: 9 }, { Size: null }, { Size: 100 }, { Size: 10 }];
+      expect(sortResultRows(rows, 'Size', 'asc').map(row => row.Size)).toEqual([9, 10, 100, null]);
+      expect(sortResultRows(rows, 'Size', 'desc').map(row => row.Size)).toEqual([100, 10, 9, null]);
+    });
+  });
+
+  describe('splitScriptOutput', () => {
+    it('should remove marker lines from the output', () => {
+      const result = splitScriptOutput('', 'Starting\n##FAK-PROGRESS {"percent":10}\nDone\n');
+      expect(result.output).toBe('Starting\nDone\n');
+      expect(result.progress).toEqual([{ percent: 10 }]);
+      expect(result.remainder).toBe('');
+    });
+
+    it('should separate prompts from progress', () => {
+      const result = splitScriptOutput(
+        '',
+        `##FAK-PROGRESS {"percent":10}\r\n##FAK-PROMPT {"promptId":"${PROMPT_ID}","message":"Name"}\r\n`
+      );
+      expect(result.output).toBe('');
+      expect(result.progress).toHaveLength(1);
+      expect(result.prompts.map(p => p.promptId)).toEqual([PROMPT_ID]);
+    });
+
+    it('should separate results from the output', () => {
+      const result = splitScriptOutput('', 'Cleaning\n##FAK-RESULT {"type":"row","title":"Files","data":{"Name":"a.tmp"}}\n');
+      expect(result.output).toBe('Cleaning\n');
+      expect(result.results).toEqual([{ kind: 'row', title: 'Files', row: { Name: 'a.tmp' } }]);
+    });
+
+    it('should hold back a marker split across chunks', () => {
+      const first = splitScriptOutput('', 'Line one\n##FAK-PROG');
+      expect(first.output).toBe('Line one\n');
+      expect(first.remainder).toBe('##FAK-PROG');
+
+      const second = splitScriptOutput(first.remainder, 'RESS {"percent":50}\n');
+      expect(second.output).toBe('');
+      expect(second.progress).toEqual([{ percent: 50 }]);
+    });
+
+    it('should pass through partial lines that cannot be markers', () => {
+      const result = splitScriptOutput('', 'Enter a value: ');
+      expect(result.output).toBe('Enter a value: ');
+      expect(result.remainder).toBe('');
+    });
+
+    it('should parse a marker held back until exit', () => {
+      expect(flushScriptOutput('##FAK-PROGRESS {"percent":100}').progress).toEqual([{ percent: 100 }]);
+      expect(flushScriptOutput('##FAK').output).toBe('##FAK');
+    });
+  });
+
+  describe('formatProgressLabel', () => {
+    it('should combine phase and percentage', () => {
+      expect(formatProgressLabel({ percent: 42, phase: 'Copying Documents' })).toBe('Copying Documents (42%)');
+      expect(formatProgressLabel({ phase: 'Scanning' })).toBe('Scanning');
+      expect(formatProgressLabel({ percent: 42 })).toBe('42% complete');
+    });
+  });
+});
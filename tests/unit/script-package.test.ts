@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkPackageContents,
+  getPackageFileRole,
+  getPackageScriptFile,
+} from '@shared/packages/script-package';
+import { ScriptPackageManifestSchema, type ScriptPackageManifest } from '@shared/validation/schemas';
+
+const hash = (char: string) => char.repeat(64);
+
+const manifest = (...files: Array<[string, string]>): ScriptPackageManifest => ({
+  formatVersion: 1,
+  id: 'flush-dns',
+  name: 'Flush DNS Cache',
+  files: files.map(([name, sha256]) => ({ name, sha256 })),
+});
+
+describe('getPackageFileRole', () => {
+  it('should recognise the file types a package can contain', () => {
+    expect(getPackageFileRole('flush-dns.ps1')).toBe('script');
+    expect(getPackageFileRole('disk-check.SH')).toBe('script');
+    expect(getPackageFileRole('flush-dns.cleanup.ps1')).toBe('cleanup');
+    expect(getPackageFileRole('flush-dns.json')).toBe('metadata');
+    expect(getPackageFileRole('flush-dns.md')).toBe('docs');
+    expect(getPackageFileRole('flush-dns.png')).toBe('icon');
+    expect(getPackageFileRole('setup.exe')).toBeNull();
+  });
+});
+
+describe('checkPackageContents', () => {
+  const files = new Map([
+    ['flush-dns.ps1', hash('a')],
+    ['flush-dns.json', hash('b')],
+    ['flush-dns.md', hash('c')],
+  ]);
+
+  it('should accept files that match the manifest', () => {
+    const packageManifest = manifest(['flush-dns.ps1', hash('a')], ['flush-dns.json', hash('B')], ['flush-dns.md', hash('c')]);
+
+    expect(checkPackageContents(packageManifest, files)).toBeNull();
+    expect(getPackageScriptFile(packageManifest)).toBe('flush-dns.ps1');
+  });
+
+  it('should reject hash mismatches and missing or unlisted files', () => {
+    expect(checkPackageContents(
+      manifest(['flush-dns.ps1', hash('f')], ['flush-dns.json', hash('b')], ['flush-dns.md', hash('c')]),
+      files
+    )).toContain('does not match');
+    expect(checkPackageContents(
+      manifest(['flush-dns.ps1', hash('a')], ['flush-dns.json', hash('b')], ['flush-dns.md', hash('c')], ['flush-dns.png', hash('d')]),
+      files
+    )).toContain('missing from the package');
+    expect(checkPackageContents(manifest(['flush-dns.ps1', hash('a')], ['flush-dns.json', hash('b')]), files))
+      .toContain('not listed in the manifest');
+  });
+
+  it('should require exactly one script with metadata named after it', () => {
+    expect(checkPackageContents(
+      manifest(['flush-dns.json', hash('b')]),
+      new Map([['flush-dns.json', hash('b')]])
+    )).toContain('exactly one script');
+    expect(checkPackageContents(
+      manifest(['flush-dns.ps1', hash('a')], ['other.json', hash('b')]),
+      new Map([['flush-dns.ps1', hash('a')], ['other.json', hash('b')]])
+    )).toContain('flush-dns.json');
+  });
+});
+
+describe('ScriptPackageManifestSchema', () => {
+  it('should accept a valid manifest', () => {
+    expect(ScriptPackageManifestSchema.safeParse(
+      manifest(['flush-dns.ps1', hash('a')], ['flush-dns.json', hash('b')])
+    ).success).toBe(true);
+  });
+
+  it('should reject paths, unsupported types and duplicate files', () => {
+    for (const name of ['..\\flush-dns.ps1', 'scripts/flush-dns.ps1', 'flush-dns.exe']) {
+      expect(ScriptPackageManifestSchema.safeParse(
+        manifest([name, hash('a')], ['flush-dns.json', hash('b')])
+      ).success).toBe(false);
+    }
+    expect(ScriptPackageManifestSchema.safeParse(
+      manifest(['flush-dns.ps1', hash('a')], ['Flush-DNS.ps1', hash('a')])
+    ).success).toBe(false);
+  });
+});
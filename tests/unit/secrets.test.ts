@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SECRET_MASK,
+  getSecretEnvVar,
+  getSecretReferences,
+  isValidSecretName,
+  maskSecretChunk,
+  maskSecrets
+} from '@shared/execution/secrets';
+import { SetSecretRequestSchema } from '@shared/validation/schemas';
+
+describe('Secrets', () => {
+  const definitions = [
+    { name: 'ApiKey', type: 'secret', required: true, default: 'servicenow-api' },
+    { name: 'Proxy', type: 'secret', required: false },
+    { name: 'Path', type: 'string', required: false },
+  ];
+
+  it('should validate vault entry names', () => {
+    expect(isValidSecretName('servicenow-api')).toBe(true);
+    expect(isValidSecretName('smtp.relay_2')).toBe(true);
+    expect(isValidSecretName('ServiceNow')).toBe(false);
+    expect(isValidSecretName('-leading-dash')).toBe(false);
+    expect(isValidSecretName('a'.repeat(65))).toBe(false);
+  });
+
+  it('should name the environment variable after the parameter', () => {
+    expect(getSecretEnvVar('ApiKey')).toBe('FAK_SECRET_APIKEY');
+  });
+
+  it('should resolve references from values or defaults', () => {
+    expect(getSecretReferences(definitions, {})).toEqual([
+      { parameter: 'ApiKey', secretName: 'servicenow-api', envVar: 'FAK_SECRET_APIKEY' },
+    ]);
+    expect(getSecretReferences(definitions, { apikey: 'other-key', Proxy: 'proxy-creds', Path: 'C:\\x' })).toEqual([
+      { parameter: 'ApiKey', secretName: 'other-key', envVar: 'FAK_SECRET_APIKEY' },
+      { parameter: 'Proxy', secretName: 'proxy-creds', envVar: 'FAK_SECRET_PROXY' },
+    ]);
+  });
+
+  it('should refuse values that are not entry names without repeating them', () => {
+    const run = () => getSecretReferences(definitions, { ApiKey: 'sk_live_Abc123!' });
+    expect(run).toThrow("Secret parameter 'ApiKey' must name a vault entry");
+    try {
+      run();
+    } catch (error) {
+      expect((error as Error).message).not.toContain('sk_live');
+    }
+  });
+
+  it('should refuse a missing required secret', () => {
+    expect(() => getSecretReferences([{ name: 'Token', type: 'secret', required: true }], {}))
+      .toThrow("Secret parameter 'Token' needs a vault entry");
+  });
+
+  it('should mask secret values in output', () => {
+    expect(maskSecrets('token=abcd1234 and again abcd1234', ['abcd1234']))
+      .toBe(`token=${SECRET_MASK} and again ${SECRET_MASK}`);
+    // Too short to mask without hiding ordinary output
+    expect(maskSecrets('a b c', ['a'])).toBe('a b c');
+  });
+
+  it('should mask a secret split across two chunks', () => {
+    const first = maskSecretChunk('', 'token=abcd', ['abcd1234']);
+    expect(first).toEqual({ text: 'token=', remainder: 'abcd' });
+
+    const second = maskSecretChunk(first.remainder, '1234 done\n', ['abcd1234']);
+    expect(first.text + second.text).toBe(`token=${SECRET_MASK} done\n`);
+    expect(second.remainder).toBe('');
+  });
+
+  it('should pass on output that cannot start a secret', () => {
+    expect(maskSecretChunk('', 'Enter a value: ', ['abcd1234'])).toEqual({ text: 'Enter a value: ', remainder: '' });
+    // A held-back part that turns out not to be the secret is passed on with the next chunk
+    expect(maskSecretChunk('abc', 'xyz\n', ['abcd1234'])).toEqual({ text: 'abcxyz\n', remainder: '' });
+  });
+
+  it('should validate vault requests', () => {
+    expect(SetSecretRequestSchema.safeParse({ name: 'servicenow-api', value: 'x' }).success).toBe(true);
+    expect(SetSecretRequestSchema.safeParse({ name: 'servicenow-api', value: '' }).success).toBe(false);
+    expect(SetSecretRequestSchema.safeParse({ name: 'Bad Name', value: 'x' }).success).toBe(false);
+  });
+});
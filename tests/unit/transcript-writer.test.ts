@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fstatSync, mkdtempSync, openSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const database = {
+  completeTranscript: vi.fn(),
+};
+
+vi.mock('electron', () => ({ app: { getPath: () => tmpdir() }, BrowserWindow: {}, dialog: {} }));
+vi.mock('@main/services/logger', () => {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { createServiceLogger: () => logger };
+});
+vi.mock('@main/services/database', () => ({ getDatabaseService: () => database }));
+
+import { TranscriptWriter } from '@main/services/transcript-store';
+
+const redactor = { redact: (text: string) => ({ text }) } as never;
+
+describe('TranscriptWriter', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    directory = mkdtempSync(join(tmpdir(), 'fak-transcript-'));
+    filePath = join(directory, 'exec-1.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write complete lines and record the summary on close', () => {
+    const writer = new TranscriptWriter('exec-1', openSync(filePath, 'a'), redactor);
+    writer.write('stdout', 'Checking disk\nFree: 12');
+    writer.write('stderr', 'warning\n');
+
+    const summary = writer.close();
+    expect(summary).toMatchObject({ lineCount: 3, stdoutLines: 2, stderrLines: 1 });
+    expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(3);
+    expect(database.completeTranscript).toHaveBeenCalledWith('exec-1', expect.objectContaining({ line_count: 3 }));
+  });
+
+  it('should still close the file and record the summary after a failed write', () => {
+    writeFileSync(filePath, '');
+    // Opened read-only, so every write fails
+    const fd = openSync(filePath, 'r');
+    const writer = new TranscriptWriter('exec-1', fd, redactor);
+    writer.write('stdout', 'first line\n');
+    writer.write('stdout', 'second line\n');
+
+    expect(writer.close()).toMatchObject({ lineCount: 0 });
+    expect(() => fstatSync(fd)).toThrow();
+    expect(database.completeTranscript).toHaveBeenCalledWith('exec-1', expect.objectContaining({ line_count: 0 }));
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TRANSCRIPT_LINE_LENGTH,
+  appendTail,
+  formatTranscriptLine,
+  matchesTranscriptQuery,
+  parseTranscriptRecord,
+  splitTranscriptLines,
+  toTranscriptRecord
+} from '@shared/execution/transcript';
+import { ReadTranscriptRequestSchema } from '@shared/validation/schemas';
+
+describe('Execution transcripts', () => {
+  it('should carry unfinished lines over to the next chunk', () => {
+    const first = splitTranscriptLines('', 'Checking disk\r\nFree: 12');
+    expect(first).toEqual({ lines: ['Checking disk'], remainder: 'Free: 12' });
+
+    const second = splitTranscriptLines(first.remainder, ' GB\nDone\n');
+    expect(second).toEqual({ lines: ['Free: 12 GB', 'Done'], remainder: '' });
+  });
+
+  it('should write very long unbroken output as a line of its own', () => {
+    const { lines, remainder } = splitTranscriptLines('', 'x'.repeat(MAX_TRANSCRIPT_LINE_LENGTH + 1));
+    expect(lines).toHaveLength(1);
+    expect(remainder).toBe('');
+  });
+
+  it('should round-trip records and skip damaged ones', () => {
+    const raw = toTranscriptRecord(1760860800000, 'stderr', 'Access denied');
+    expect(parseTranscriptRecord(raw, 7)).toEqual({
+      line: 7,
+      time: 1760860800000,
+      stream: 'stderr',
+      text: 'Access denied'
+    });
+    expect(parseTranscriptRecord(raw.substring(0, 20), 8)).toBeNull();
+    expect(parseTranscriptRecord('{"time":1,"stream":"stdin","text":"x"}', 9)).toBeNull();
+  });
+
+  it('should filter by stream and case-insensitive search', () => {
+    const line = { line: 0, time: 0, stream: 'stdout' as const, text: 'Mailbox moved to EXO' };
+    expect(matchesTranscriptQuery(line, {})).toBe(true);
+    expect(matchesTranscriptQuery(line, { search: 'exo' })).toBe(true);
+    expect(matchesTranscriptQuery(line, { search: 'failed' })).toBe(false);
+    expect(matchesTranscriptQuery(line, { stream: 'stderr' })).toBe(false);
+  });
+
+  it('should format downloaded lines with time and stream', () => {
+    expect(formatTranscriptLine({ time: Date.UTC(2026, 0, 2, 3, 4, 5), stream: 'stdout', text: 'ok' }))
+      .toBe('2026-01-02T03:04:05.000Z ok');
+    expect(formatTranscriptLine({ time: Date.UTC(2026, 0, 2, 3, 4, 5), stream: 'stderr', text: 'failed' }))
+      .toBe('2026-01-02T03:04:05.000Z [stderr] failed');
+  });
+
+  it('should keep only the end of a stream', () => {
+    expect(appendTail('abc', 'def', 4)).toBe('cdef');
+    expect(appendTail('ab', 'c', 10)).toBe('abc');
+  });
+
+  it('should validate transcript read requests', () => {
+    const executionId = 'c2f1e0c8-1a4b-4c7e-9d3f-2b6a8e5f1d20';
+    expect(ReadTranscriptRequestSchema.safeParse({ executionId, offset: 500, limit: 500, search: 'error' }).success).toBe(true);
+    expect(ReadTranscriptRequestSchema.safeParse({ executionId, limit: 100000 }).success).toBe(false);
+    expect(ReadTranscriptRequestSchema.safeParse({ executionId, stream: 'stdin' }).success).toBe(false);
+  });
+});